@@ -320,8 +320,10 @@ const saveToIndexedDB = async (storeName, data) => {
     });
     
     log(`Saved to IndexedDB: ${storeName}`, data);
+    return true;
   } catch (error) {
     log(`IndexedDB save failed: ${storeName}`, error);
+    return false;
   }
 };
 
@@ -390,13 +392,20 @@ const syncContactForms = async () => {
     if (!data || data.length === 0) return;
     
     for (const form of data) {
-      const response = await fetch('/api/contact', {
+      // Queued by LeadSubmissionService as { endpoint, submission }
+      const { endpoint = '/api/contact', submission = form.data } = form.data;
+      const response = await fetch(endpoint, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(form.data),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(submission.idempotencyKey && { 'Idempotency-Key': submission.idempotencyKey }),
+        },
+        body: JSON.stringify(submission),
       });
       
-      if (response.ok) {
+      // 409 means the lead already arrived; other client errors will never succeed
+      const isDone = response.ok || (response.status >= 400 && response.status < 500 && response.status !== 429);
+      if (isDone) {
         // Remove synced form from IndexedDB
         const db = await openDB();
         const transaction = db.transaction(['forms'], 'readwrite');
@@ -574,12 +583,21 @@ self.addEventListener('message', (event) => {
       
     case 'CACHE_FORM':
       if (payload) {
-        saveToIndexedDB('forms', {
-          data: payload,
-          timestamp: Date.now(),
-        });
+        event.waitUntil(
+          saveToIndexedDB('forms', {
+            data: payload,
+            timestamp: Date.now(),
+          }).then((saved) => {
+            event.ports[0]?.postMessage({ type: saved ? 'FORM_CACHED' : 'FORM_CACHE_FAILED' });
+          })
+        );
       }
       break;
+
+    // Replay request from pages in browsers without Background Sync
+    case 'SYNC_FORMS':
+      event.waitUntil(syncContactForms().catch(() => {}));
+      break;
       
     case 'GET_CACHE_STATUS':
       event.ports[0]?.postMessage({
@@ -133,6 +133,67 @@ const staleWhileRevalidate = async (request, cacheName) => {
   return cachedResponse || fetchPromise;
 };
 
+// Contact form queue: LeadSubmissionService hands over leads it could not send (CACHE_FORM),
+// and they are replayed on background sync, or on SYNC_FORMS where the browser has none
+const CONTACT_SYNC_TAG = 'contact-form-sync';
+const FORMS_DB = {
+  name: 'osg-forms',
+  version: 1,
+  store: 'forms',
+};
+
+const openFormsDB = () => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(FORMS_DB.name, FORMS_DB.version);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(FORMS_DB.store, { keyPath: 'id', autoIncrement: true });
+    };
+  });
+};
+
+const formsRequest = async (mode, operation) => {
+  const db = await openFormsDB();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(FORMS_DB.store, mode).objectStore(FORMS_DB.store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const cacheForm = async (payload) => {
+  try {
+    await formsRequest('readwrite', (store) => store.add({ data: payload, timestamp: Date.now() }));
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Throws while the network is still down, so background sync retries later
+const syncContactForms = async () => {
+  const forms = await formsRequest('readonly', (store) => store.getAll());
+
+  for (const form of forms) {
+    const { endpoint, submission } = form.data;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': submission.idempotencyKey,
+      },
+      body: JSON.stringify(submission),
+    });
+
+    // 409 means the lead already arrived; other client errors will never succeed
+    const isDone = response.ok || (response.status >= 400 && response.status < 500 && response.status !== 429);
+    if (isDone) {
+      await formsRequest('readwrite', (store) => store.delete(form.id));
+    }
+  }
+};
+
 // Service Worker Event Listeners
 self.addEventListener('install', (event) => {
   event.waitUntil(
@@ -177,8 +238,32 @@ self.addEventListener('fetch', (event) => {
 });
 
 self.addEventListener('message', (event) => {
-  if (event.data && event.data.type === 'SKIP_WAITING') {
-    self.skipWaiting();
+  const { type, payload } = event.data || {};
+
+  switch (type) {
+    case 'SKIP_WAITING':
+      self.skipWaiting();
+      break;
+
+    // The page waits for this reply before it treats the lead as queued
+    case 'CACHE_FORM':
+      event.waitUntil(
+        cacheForm(payload).then((saved) => {
+          event.ports[0]?.postMessage({ type: saved ? 'FORM_CACHED' : 'FORM_CACHE_FAILED' });
+        })
+      );
+      break;
+
+    // Replay request from pages in browsers without Background Sync
+    case 'SYNC_FORMS':
+      event.waitUntil(syncContactForms().catch(() => {}));
+      break;
+  }
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === CONTACT_SYNC_TAG) {
+    event.waitUntil(syncContactForms());
   }
 });
 
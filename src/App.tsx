@@ -1,8 +1,19 @@
-import React, { Suspense } from "react";
+import React, { Suspense, type ComponentType, type ReactElement, type ReactNode } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Outlet, useLocation } from "react-router-dom";
 import ErrorBoundary from "@/shared/components/ErrorBoundary";
+import { Head, HeadProvider } from "@/shared/components/Head";
 import { AccessibilityProvider } from "@/shared/components/AccessibilityProvider";
+import ConsentBanner from "@/shared/components/ConsentBanner";
+import SessionTimelinePanel from "@/shared/components/SessionTimelinePanel";
+import HeatmapOverlayHost from "@/shared/components/HeatmapOverlay";
+import Toaster from "@/shared/components/Toaster";
+import { I18nProvider } from "@/shared/components/I18nProvider";
+import { I18nContext } from "@/shared/contexts/I18nContext";
+import { createTranslator, DEFAULT_LOCALE, getLocaleFromPath, SUPPORTED_LOCALES, type Locale } from "@/shared/i18n";
+import { headManager, type HeadManager } from "@/shared/head";
+import { SEO_CONFIG } from "@/shared/utils/seoConfig";
+import { ROUTES, ROUTE_IDS, type RouteId } from "@/routing/manifest";
 
 // Direct import for main page to ensure React app bundles properly
 import Index from './pages/Index';
@@ -34,6 +45,87 @@ const PWAPage = lazyWithRetry(
   1000 // 1s delay
 );
 
+const QuotePage = lazyWithRetry(
+  () => import("./pages/QuotePage"),
+  2, // 2 retries
+  1000 // 1s delay
+);
+
+const PortfolioPage = lazyWithRetry(
+  () => import("./pages/PortfolioPage"),
+  2, // 2 retries
+  1000 // 1s delay
+);
+
+const CaseStudyPage = lazyWithRetry(
+  () => import("./pages/CaseStudyPage"),
+  2, // 2 retries
+  1000 // 1s delay
+);
+
+// Paths live in the route manifest, shared with the sitemap and robots.txt generation
+const ROUTE_ELEMENTS: Record<RouteId, ReactElement> = {
+  home: <Index />,
+  quote: <QuotePage />,
+  portfolio: <PortfolioPage />,
+  caseStudy: <CaseStudyPage />,
+  analytics: <AnalyticsPage />,
+  pwa: <PWAPage />,
+  componentShowcase: <ComponentShowcase />,
+};
+
+const LOCALIZED_ROUTE_IDS: RouteId[] = ROUTE_IDS.filter((id: RouteId) => ROUTES[id].localized);
+const GLOBAL_ROUTE_IDS: RouteId[] = ROUTE_IDS.filter((id: RouteId) => !ROUTES[id].localized);
+
+// Public pages are served once per locale: unprefixed for the default locale, under /<locale> otherwise
+const renderLocaleRoutes = (locale: Locale) => (
+  <Route
+    key={locale}
+    path={locale === DEFAULT_LOCALE ? "/" : `/${locale}`}
+    element={
+      <I18nProvider locale={locale}>
+        <Outlet />
+      </I18nProvider>
+    }
+  >
+    {LOCALIZED_ROUTE_IDS.map((id: RouteId) => ROUTES[id].path === "/"
+      ? <Route key={id} index element={ROUTE_ELEMENTS[id]} />
+      : <Route key={id} path={ROUTES[id].path.slice(1)} element={ROUTE_ELEMENTS[id]} />
+    )}
+    <Route path="*" element={<NotFound />} />
+  </Route>
+);
+
+// The banner is shown on every route, so it follows the locale of the current path itself
+const LocalizedConsentBanner = () => {
+  const { pathname } = useLocation();
+
+  return (
+    <I18nContext.Provider value={createTranslator(getLocaleFromPath(pathname))}>
+      <ConsentBanner />
+    </I18nContext.Provider>
+  );
+};
+
+// Site-wide head defaults; each page's Head is nested inside and overrides them
+const SiteHead = ({ children }: { children: ReactNode }) => {
+  const { pathname } = useLocation();
+
+  return (
+    <Head
+      title={SEO_CONFIG.defaultTitle}
+      description={SEO_CONFIG.defaultDescription}
+      canonicalUrl={new URL(pathname, SEO_CONFIG.siteUrl).toString()}
+      image="/og-image.jpg"
+      type="website"
+      siteName={SEO_CONFIG.siteName}
+      twitterSite={SEO_CONFIG.twitterHandle}
+    >
+      {children}
+    </Head>
+  );
+};
+
 // Enhanced loading fallback with better UX and accessibility
 const LoadingFallback = () => (
   <div 
@@ -62,29 +154,49 @@ const queryClient: QueryClient = new QueryClient({
   },
 });
 
-const App: React.FC = () => {
+const ClientRouter = ({ children }: { children: ReactNode }) => (
+  <BrowserRouter
+    future={{
+      v7_startTransition: true,
+      v7_relativeSplatPath: true,
+    }}
+  >
+    {children}
+  </BrowserRouter>
+);
+
+interface AppProps {
+  /** The prerender entry passes a StaticRouter for the page being rendered */
+  Router?: ComponentType<{ children: ReactNode }>;
+  /** Collects the page's head tags when prerendering; the browser's is bound to the document */
+  head?: HeadManager;
+}
+
+const App: React.FC<AppProps> = ({ Router = ClientRouter, head = headManager }) => {
   return (
     <ErrorBoundary>
-      <AccessibilityProvider>
-        <QueryClientProvider client={queryClient}>
-          <Suspense fallback={<LoadingFallback />}>
-            <BrowserRouter
-              future={{
-                v7_startTransition: true,
-                v7_relativeSplatPath: true,
-              }}
-            >
-              <Routes>
-                <Route path="/" element={<Index />} />
-                <Route path="/component-showcase" element={<ComponentShowcase />} />
-                <Route path="/analytics" element={<AnalyticsPage />} />
-                <Route path="/pwa" element={<PWAPage />} />
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </BrowserRouter>
-          </Suspense>
-        </QueryClientProvider>
-      </AccessibilityProvider>
+      <HeadProvider manager={head}>
+        <AccessibilityProvider>
+          <QueryClientProvider client={queryClient}>
+            <Suspense fallback={<LoadingFallback />}>
+              <Router>
+                <SiteHead>
+                  <Routes>
+                    {SUPPORTED_LOCALES.map(renderLocaleRoutes)}
+                    {GLOBAL_ROUTE_IDS.map((id: RouteId) => (
+                      <Route key={id} path={ROUTES[id].path} element={ROUTE_ELEMENTS[id]} />
+                    ))}
+                  </Routes>
+                </SiteHead>
+                <HeatmapOverlayHost />
+                <LocalizedConsentBanner />
+              </Router>
+            </Suspense>
+            <Toaster />
+            {import.meta.env.DEV && <SessionTimelinePanel />}
+          </QueryClientProvider>
+        </AccessibilityProvider>
+      </HeadProvider>
     </ErrorBoundary>
   );
 };
@@ -0,0 +1,123 @@
+/**
+ * Content Layer Tests
+ * Collection validation, cross-reference checks, translations and the query API
+ */
+
+import { ZodError } from 'zod';
+import { resolve } from 'path';
+import {
+  content,
+  formatContentError,
+  getFaqs,
+  getPortfolioItem,
+  getPortfolioItems,
+  getServices,
+  queryCollection,
+  validateContent,
+  validateContentTranslation,
+} from '..';
+import { checkContent } from '../vitePlugin';
+
+const rawContent = () => JSON.parse(JSON.stringify(content));
+
+const captureError = (raw: ReturnType<typeof rawContent>): ZodError => {
+  try {
+    validateContent(raw);
+  } catch (error) {
+    if (error instanceof ZodError) return error;
+  }
+  throw new Error('Expected content validation to fail');
+};
+
+describe('validateContent', () => {
+  it('should accept the bundled collections', () => {
+    expect(checkContent(resolve(__dirname, '..'))).toBeNull();
+  });
+
+  it('should apply defaults for optional entry fields', () => {
+    const raw = rawContent();
+    delete raw.faq.items[0].tags;
+    delete raw.faq.items[0].featured;
+
+    const validated = validateContent(raw);
+
+    expect(validated.faq.items[0]).toMatchObject({ tags: [], featured: false });
+  });
+
+  it('should report schema errors with the collection file and path', () => {
+    const raw = rawContent();
+    raw.services.items[1].icon = 'Rocket';
+
+    const message: string = formatContentError(captureError(raw));
+
+    expect(message).toContain('src/content/services.json › items.1.icon');
+  });
+
+  it('should reject duplicate ids, unknown FAQ categories and dangling project references', () => {
+    const raw = rawContent();
+    raw.portfolio.items[1].slug = raw.portfolio.items[0].slug;
+    raw.faq.items[0].category = 'legal';
+    raw.testimonials.items[0].project = 'missing-case-study';
+
+    const messages: string[] = captureError(raw).issues.map((issue) => issue.message);
+
+    expect(messages).toEqual(expect.arrayContaining([
+      expect.stringContaining('Duplicate ids'),
+      'Unknown FAQ category "legal"',
+      'Unknown portfolio item "missing-case-study"',
+    ]));
+  });
+});
+
+describe('content translations', () => {
+  it('should reject unknown entries and untranslatable fields against the locale file', () => {
+    const captureTranslationError = (raw: unknown): string => {
+      try {
+        validateContentTranslation(raw, content, 'fr');
+      } catch (error) {
+        if (error instanceof ZodError) return formatContentError(error);
+      }
+      throw new Error('Expected translation validation to fail');
+    };
+
+    expect(captureTranslationError({ services: { 'no-such-service': { title: 'Service' } } }))
+      .toContain('src/content/locales/fr.json › services.no-such-service: Unknown entry "no-such-service"');
+    expect(captureTranslationError({ services: { [content.services.items[0]!.slug]: { icon: 'Code' } } }))
+      .toContain('src/content/locales/fr.json › services');
+  });
+
+  it('should serve translated copy and fall back to the default for shared fields', () => {
+    const [english] = getServices();
+    const [french] = getServices({ locale: 'fr' });
+
+    expect(french!.slug).toBe(english!.slug);
+    expect(french!.title).not.toBe(english!.title);
+    expect(french!.category).toBe(english!.category);
+    expect(getFaqs({ locale: 'fr' })).toHaveLength(getFaqs().length);
+  });
+});
+
+describe('content queries', () => {
+  const items = [
+    { id: 'a', category: 'web', tags: ['react'], featured: true },
+    { id: 'b', category: 'web', tags: ['vue'], featured: false },
+    { id: 'c', category: 'mobile', tags: ['react'], featured: true },
+  ];
+
+  it('should filter by category, tag and featured flag together', () => {
+    expect(queryCollection(items, { category: 'web' }).map((item) => item.id)).toEqual(['a', 'b']);
+    expect(queryCollection(items, { tag: 'react', featured: true }).map((item) => item.id)).toEqual(['a', 'c']);
+    expect(queryCollection(items, { featured: false }).map((item) => item.id)).toEqual(['b']);
+    expect(queryCollection(items, { tag: 'react', limit: 1 }).map((item) => item.id)).toEqual(['a']);
+  });
+
+  it('should expose the collections through typed getters', () => {
+    const [featured] = getPortfolioItems({ featured: true });
+
+    expect(featured).toBeDefined();
+    expect(getPortfolioItem(featured!.slug)).toBe(featured);
+    expect(getPortfolioItem('does-not-exist')).toBeUndefined();
+    expect(getServices({ featured: true })).toHaveLength(6);
+    expect(getFaqs({ category: 'pricing' }).every((faq) => faq.category === 'pricing')).toBe(true);
+  });
+});
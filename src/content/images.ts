@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Content Images
+ * @description Resolves content image references to bundled asset URLs; kept out of the content barrel so logic modules stay free of asset imports
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import portfolioPreview from '@/assets/portfolio-preview.jpg';
+import servicesIcons from '@/assets/services-icons.jpg';
+import heroBackground from '@/assets/hero-background-optimized.jpg';
+import type { ContentImageAsset } from './schema';
+
+const CONTENT_ASSET_URLS: Record<ContentImageAsset, string> = {
+  'portfolio-preview': portfolioPreview,
+  'services-icons': servicesIcons,
+  'hero-background': heroBackground,
+};
+
+/** Map `asset:<name>` to its hashed bundle URL; site paths and URLs pass through */
+export function resolveContentImage(src: string): string {
+  return src.startsWith('asset:')
+    ? CONTENT_ASSET_URLS[src.slice('asset:'.length) as ContentImageAsset] ?? src
+    : src;
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Content Layer
+ * @description Loads the JSON content collections and their translations, validates them once at startup and exposes a query API for sections and pages
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import portfolio from './portfolio.json';
+import services from './services.json';
+import testimonials from './testimonials.json';
+import faq from './faq.json';
+import fr from './locales/fr.json';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, type Locale } from '@/shared/i18n/locales';
+import {
+  localizeContent,
+  validateContent,
+  validateContentTranslation,
+  type Content,
+  type FAQCategory,
+  type FAQItem,
+  type PortfolioItem,
+  type Service,
+  type Testimonial,
+} from './schema';
+
+export * from './schema';
+
+// =========================== QUERIES ===========================
+
+export interface ContentQuery {
+  category?: string;
+  tag?: string;
+  featured?: boolean;
+  limit?: number;
+  /** Language of the returned copy, defaults to the default locale */
+  locale?: Locale;
+}
+
+interface QueryableEntry {
+  category: string;
+  tags: string[];
+  featured: boolean;
+}
+
+/** Filter a collection by category, tag and featured flag, preserving file order */
+export function queryCollection<T extends QueryableEntry>(items: T[], query: ContentQuery = {}): T[] {
+  const { category, tag, featured, limit } = query;
+  const matches: T[] = items.filter((item: T) =>
+    (category === undefined || item.category === category) &&
+    (tag === undefined || item.tags.includes(tag)) &&
+    (featured === undefined || item.featured === featured)
+  );
+
+  return limit === undefined ? matches : matches.slice(0, limit);
+}
+
+/** Distinct values of a field across a collection, in first-seen order */
+export function getDistinct<T extends QueryableEntry>(items: T[], field: 'category' | 'tags'): string[] {
+  return [...new Set(items.flatMap((item: T) => item[field]))];
+}
+
+// =========================== COLLECTIONS ===========================
+
+// Invalid content fails here in tests and dev; the Vite plugin catches it before a build ships
+export const content: Content = validateContent({ portfolio, services, testimonials, faq });
+
+const translations: Partial<Record<Locale, unknown>> = { fr };
+
+const localizedContent: Record<Locale, Content> = Object.fromEntries(
+  SUPPORTED_LOCALES.map((locale: Locale) => [
+    locale,
+    locale === DEFAULT_LOCALE
+      ? content
+      : localizeContent(content, validateContentTranslation(translations[locale] ?? {}, content, locale)),
+  ])
+) as Record<Locale, Content>;
+
+const contentFor = (locale: Locale = DEFAULT_LOCALE): Content => localizedContent[locale];
+
+export const getPortfolioItems = (query?: ContentQuery): PortfolioItem[] =>
+  queryCollection(contentFor(query?.locale).portfolio.items, query);
+
+export const getPortfolioItem = (slug: string, locale?: Locale): PortfolioItem | undefined =>
+  contentFor(locale).portfolio.items.find((item: PortfolioItem) => item.slug === slug);
+
+export const getServices = (query?: ContentQuery): Service[] =>
+  queryCollection(contentFor(query?.locale).services.items, query);
+
+export const getTestimonials = (query?: ContentQuery): Testimonial[] =>
+  queryCollection(contentFor(query?.locale).testimonials.items, query);
+
+export const getFaqCategories = (locale?: Locale): FAQCategory[] => contentFor(locale).faq.categories;
+
+export const getFaqs = (query?: ContentQuery): FAQItem[] =>
+  queryCollection(contentFor(query?.locale).faq.items, query);
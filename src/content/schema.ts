@@ -0,0 +1,256 @@
+/**
+ * @fileoverview Content Schemas
+ * @description Zod schemas for the portfolio, services, testimonials and FAQ collections and their translations, shared by the runtime loader and the build-time validation plugin
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+// =========================== PRIMITIVES ===========================
+
+const slugSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Must be a lowercase kebab-case slug');
+
+const entryFields = {
+  category: z.string().min(1),
+  tags: z.array(slugSchema).default([]),
+  featured: z.boolean().default(false),
+};
+
+export const SERVICE_ICONS = [
+  'Code', 'Workflow', 'Users', 'BarChart', 'Palette', 'Headphones', 'TrendingUp', 'Database', 'Cpu', 'Shield',
+] as const;
+
+export const FAQ_ICONS = ['HelpCircle', 'Clock', 'DollarSign', 'Users', 'Shield', 'Zap'] as const;
+
+/** Bundled images content can reference as `asset:<name>`; anything else must be a site path or https URL */
+export const CONTENT_IMAGE_ASSETS = ['portfolio-preview', 'services-icons', 'hero-background'] as const;
+export type ContentImageAsset = typeof CONTENT_IMAGE_ASSETS[number];
+
+const isContentImageSrc = (src: string): boolean => {
+  if (src.startsWith('asset:')) return (CONTENT_IMAGE_ASSETS as readonly string[]).includes(src.slice('asset:'.length));
+  return src.startsWith('/') || src.startsWith('https://');
+};
+
+const imageSchema = z.object({
+  src: z.string().refine(isContentImageSrc, `Must be a site path, an https URL or one of asset:${CONTENT_IMAGE_ASSETS.join(', asset:')}`),
+  alt: z.string().min(1),
+  caption: z.string().optional(),
+});
+
+// =========================== COLLECTION SCHEMAS ===========================
+
+export const portfolioItemSchema = z.object({
+  slug: slugSchema,
+  title: z.string().min(1),
+  client: z.string().min(1),
+  industry: z.string().min(1),
+  description: z.string().min(1),
+  results: z.array(z.string()).min(1),
+  metrics: z.array(z.object({ value: z.string(), label: z.string() })).optional(),
+  technologies: z.array(z.string()),
+  timeline: z.string(),
+  publishedAt: z.string().date(),
+  cover: imageSchema.optional(),
+  gallery: z.array(imageSchema).default([]),
+  caseStudy: z.object({
+    challenge: z.string().min(1),
+    solution: z.string().min(1),
+    outcome: z.string().min(1),
+  }).optional(),
+  ...entryFields,
+});
+
+export const serviceSchema = z.object({
+  slug: slugSchema,
+  icon: z.enum(SERVICE_ICONS),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  features: z.array(z.string()),
+  cta: z.string().min(1),
+  gradient: z.string(),
+  ...entryFields,
+});
+
+export const testimonialSchema = z.object({
+  id: slugSchema,
+  name: z.string().min(1),
+  role: z.string(),
+  company: z.string(),
+  rating: z.number().int().min(1).max(5),
+  quote: z.string().min(1),
+  result: z.string(),
+  project: slugSchema.optional(),
+  ...entryFields,
+});
+
+export const faqCategorySchema = z.object({
+  id: slugSchema,
+  label: z.string().min(1),
+  icon: z.enum(FAQ_ICONS),
+});
+
+export const faqItemSchema = z.object({
+  id: slugSchema,
+  question: z.string().min(1),
+  answer: z.string().min(1),
+  ...entryFields,
+});
+
+export const contentSchema = z.object({
+  portfolio: z.object({ items: z.array(portfolioItemSchema) }),
+  services: z.object({ items: z.array(serviceSchema) }),
+  testimonials: z.object({ items: z.array(testimonialSchema) }),
+  faq: z.object({ categories: z.array(faqCategorySchema), items: z.array(faqItemSchema) }),
+});
+
+export type ContentImage = z.infer<typeof imageSchema>;
+export type PortfolioItem = z.infer<typeof portfolioItemSchema>;
+export type Service = z.infer<typeof serviceSchema>;
+export type ServiceIcon = Service['icon'];
+export type Testimonial = z.infer<typeof testimonialSchema>;
+export type FAQCategory = z.infer<typeof faqCategorySchema>;
+export type FAQIcon = FAQCategory['icon'];
+export type FAQItem = z.infer<typeof faqItemSchema>;
+export type Content = z.infer<typeof contentSchema>;
+
+/** Collection names double as the JSON file names in src/content */
+export const CONTENT_COLLECTIONS = ['portfolio', 'services', 'testimonials', 'faq'] as const;
+export type ContentCollection = typeof CONTENT_COLLECTIONS[number];
+
+// =========================== TRANSLATIONS ===========================
+
+/**
+ * Per-locale overrides in src/content/locales/<locale>.json, keyed by entry id.
+ * Only prose is translatable; categories, tags and technologies stay shared so
+ * filters and links work the same in every language
+ */
+export const contentTranslationSchema = z.object({
+  portfolio: z.record(
+    slugSchema,
+    portfolioItemSchema.pick({ title: true, description: true, results: true, metrics: true, timeline: true, caseStudy: true }).partial().strict()
+  ).default({}),
+  services: z.record(
+    slugSchema,
+    serviceSchema.pick({ title: true, description: true, features: true, cta: true }).partial().strict()
+  ).default({}),
+  testimonials: z.record(
+    slugSchema,
+    testimonialSchema.pick({ role: true, result: true }).partial().strict()
+  ).default({}),
+  faq: z.object({
+    categories: z.record(slugSchema, faqCategorySchema.pick({ label: true }).strict()).default({}),
+    items: z.record(slugSchema, faqItemSchema.pick({ question: true, answer: true }).partial().strict()).default({}),
+  }).strict().default({}),
+}).strict();
+
+export type ContentTranslation = z.infer<typeof contentTranslationSchema>;
+
+// =========================== VALIDATION ===========================
+
+const findDuplicates = (values: string[]): string[] =>
+  [...new Set(values.filter((value: string, index: number) => values.indexOf(value) !== index))];
+
+/**
+ * Parse raw collection JSON and check references the schemas cannot express:
+ * unique ids, FAQ categories and testimonial → case study links
+ */
+export function validateContent(raw: Record<ContentCollection, unknown>): Content {
+  const content: Content = contentSchema.parse(raw);
+  const issues: z.ZodIssue[] = [];
+
+  const addIssue = (path: (string | number)[], message: string): void => {
+    issues.push({ code: z.ZodIssueCode.custom, path, message });
+  };
+
+  const projectSlugs: string[] = content.portfolio.items.map((item: PortfolioItem) => item.slug);
+  const idSets: [ContentCollection, string[]][] = [
+    ['portfolio', projectSlugs],
+    ['services', content.services.items.map((service: Service) => service.slug)],
+    ['testimonials', content.testimonials.items.map((testimonial: Testimonial) => testimonial.id)],
+    ['faq', content.faq.items.map((faq: FAQItem) => faq.id)],
+  ];
+  idSets.forEach(([collection, ids]) => {
+    const duplicates: string[] = findDuplicates(ids);
+    if (duplicates.length > 0) addIssue([collection, 'items'], `Duplicate ids: ${duplicates.join(', ')}`);
+  });
+
+  const categoryIds = new Set<string>(content.faq.categories.map((category: FAQCategory) => category.id));
+  content.faq.items.forEach((faq: FAQItem, index: number) => {
+    if (!categoryIds.has(faq.category)) {
+      addIssue(['faq', 'items', index, 'category'], `Unknown FAQ category "${faq.category}"`);
+    }
+  });
+
+  content.testimonials.items.forEach((testimonial: Testimonial, index: number) => {
+    if (testimonial.project && !projectSlugs.includes(testimonial.project)) {
+      addIssue(['testimonials', 'items', index, 'project'], `Unknown portfolio item "${testimonial.project}"`);
+    }
+  });
+
+  if (issues.length > 0) throw new z.ZodError(issues);
+  return content;
+}
+
+/**
+ * Parse a locale's overrides and check every key names an existing entry.
+ * Issues are reported against `locales/<locale>` so formatContentError points at the right file
+ */
+export function validateContentTranslation(raw: unknown, content: Content, locale: string): ContentTranslation {
+  const file: string = `locales/${locale}`;
+  const result = contentTranslationSchema.safeParse(raw);
+  if (!result.success) {
+    throw new z.ZodError(result.error.issues.map((issue: z.ZodIssue) => ({ ...issue, path: [file, ...issue.path] })));
+  }
+
+  const translation: ContentTranslation = result.data;
+  const issues: z.ZodIssue[] = [];
+  const checkKeys = (path: string[], overrides: Record<string, unknown>, ids: string[]): void => {
+    Object.keys(overrides)
+      .filter((id: string) => !ids.includes(id))
+      .forEach((id: string) => issues.push({ code: z.ZodIssueCode.custom, path: [file, ...path, id], message: `Unknown entry "${id}"` }));
+  };
+
+  checkKeys(['portfolio'], translation.portfolio, content.portfolio.items.map((item: PortfolioItem) => item.slug));
+  checkKeys(['services'], translation.services, content.services.items.map((service: Service) => service.slug));
+  checkKeys(['testimonials'], translation.testimonials, content.testimonials.items.map((testimonial: Testimonial) => testimonial.id));
+  checkKeys(['faq', 'categories'], translation.faq.categories, content.faq.categories.map((category: FAQCategory) => category.id));
+  checkKeys(['faq', 'items'], translation.faq.items, content.faq.items.map((faq: FAQItem) => faq.id));
+
+  if (issues.length > 0) throw new z.ZodError(issues);
+  return translation;
+}
+
+const applyOverrides = <T extends object>(entry: T, overrides: { [K in keyof T]?: T[K] | undefined } | undefined): T => ({
+  ...entry,
+  ...(Object.fromEntries(Object.entries(overrides ?? {}).filter(([, value]) => value !== undefined)) as Partial<T>),
+});
+
+/** Apply a locale's overrides; entries and fields without a translation keep the default copy */
+export function localizeContent(content: Content, translation: ContentTranslation): Content {
+  return {
+    portfolio: {
+      items: content.portfolio.items.map((item: PortfolioItem) => applyOverrides(item, translation.portfolio[item.slug])),
+    },
+    services: {
+      items: content.services.items.map((service: Service) => applyOverrides(service, translation.services[service.slug])),
+    },
+    testimonials: {
+      items: content.testimonials.items.map((testimonial: Testimonial) => applyOverrides(testimonial, translation.testimonials[testimonial.id])),
+    },
+    faq: {
+      categories: content.faq.categories.map((category: FAQCategory) => applyOverrides(category, translation.faq.categories[category.id])),
+      items: content.faq.items.map((faq: FAQItem) => applyOverrides(faq, translation.faq.items[faq.id])),
+    },
+  };
+}
+
+/** One line per issue, prefixed with the collection file it came from */
+export function formatContentError(error: z.ZodError): string {
+  return error.issues
+    .map((issue: z.ZodIssue) => {
+      const [collection, ...path] = issue.path;
+      return `src/content/${String(collection)}.json${path.length > 0 ? ` › ${path.join('.')}` : ''}: ${issue.message}`;
+    })
+    .join('\n');
+}
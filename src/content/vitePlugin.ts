@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Content Validation Plugin
+ * @description Vite plugin that validates src/content collections on build start and on every edit in dev
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import type { Plugin } from 'vite';
+import { ZodError } from 'zod';
+import {
+  CONTENT_COLLECTIONS,
+  formatContentError,
+  localizeContent,
+  validateContent,
+  validateContentTranslation,
+  type Content,
+  type ContentCollection,
+} from './schema';
+
+function readJson(contentDir: string, name: string): unknown {
+  try {
+    return JSON.parse(readFileSync(resolve(contentDir, `${name}.json`), 'utf8'));
+  } catch (error) {
+    throw new Error(`src/content/${name}.json: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function readCollections(contentDir: string): Record<ContentCollection, unknown> {
+  return Object.fromEntries(
+    CONTENT_COLLECTIONS.map((collection: ContentCollection) => [collection, readJson(contentDir, collection)])
+  ) as Record<ContentCollection, unknown>;
+}
+
+/** Locales with a translation file in src/content/locales */
+function listTranslations(contentDir: string): string[] {
+  const localesDir: string = resolve(contentDir, 'locales');
+  if (!existsSync(localesDir)) return [];
+  return readdirSync(localesDir)
+    .filter((file: string) => file.endsWith('.json'))
+    .map((file: string) => basename(file, '.json'));
+}
+
+export interface LoadedContent {
+  content: Content;
+  /** Localized content for each locale with a translation file */
+  translations: Record<string, Content>;
+}
+
+/** Read and validate every collection and translation; throws on invalid content */
+export function loadContent(contentDir: string): LoadedContent {
+  const content: Content = validateContent(readCollections(contentDir));
+  const translations: Record<string, Content> = Object.fromEntries(
+    listTranslations(contentDir).map((locale: string) => [
+      locale,
+      localizeContent(content, validateContentTranslation(readJson(contentDir, `locales/${locale}`), content, locale)),
+    ])
+  );
+
+  return { content, translations };
+}
+
+/** Returns an error message, or null when every collection and translation is valid */
+export function checkContent(contentDir: string): string | null {
+  try {
+    loadContent(contentDir);
+    return null;
+  } catch (error) {
+    if (error instanceof ZodError) return formatContentError(error);
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function contentValidation(contentDir: string): Plugin {
+  const isContentFile = (file: string): boolean =>
+    CONTENT_COLLECTIONS.some((collection: ContentCollection) => resolve(file) === resolve(contentDir, `${collection}.json`)) ||
+    (dirname(resolve(file)) === resolve(contentDir, 'locales') && file.endsWith('.json'));
+
+  return {
+    name: 'osg:content-validation',
+
+    buildStart() {
+      const message: string | null = checkContent(contentDir);
+      if (message) this.error(`Invalid content:\n${message}`);
+    },
+
+    handleHotUpdate({ file, server }) {
+      if (!isContentFile(file)) return;
+
+      const message: string | null = checkContent(contentDir);
+      if (!message) return;
+
+      // Surface the problem in the browser overlay and skip the reload until it is fixed
+      server.config.logger.error(`Invalid content:\n${message}`);
+      server.ws.send({ type: 'error', err: { message: `Invalid content:\n${message}`, stack: '', plugin: 'osg:content-validation' } });
+      return [];
+    },
+  };
+}
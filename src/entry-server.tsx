@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Prerender Entry
+ * @description Renders one route to HTML plus its head tags at build time, from the same App tree the client hydrates
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import React, { type ReactNode } from 'react';
+import { renderToPipeableStream } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom/server';
+import { Writable } from 'stream';
+import App from './App';
+import { HeadManager } from './shared/head';
+import type { RenderedPage } from './routing/prerender';
+
+/** Waits for every lazy page and section so crawlers get the full content, not Suspense fallbacks */
+export function render(url: string): Promise<RenderedPage> {
+  const head = new HeadManager();
+  const Router = ({ children }: { children: ReactNode }) => (
+    <StaticRouter location={url} future={{ v7_relativeSplatPath: true }}>
+      {children}
+    </StaticRouter>
+  );
+
+  return new Promise((resolve, reject) => {
+    let html: string = '';
+    const sink = new Writable({
+      write(chunk: Buffer, _encoding: BufferEncoding, callback: () => void) {
+        html += chunk.toString();
+        callback();
+      },
+    });
+
+    sink.on('finish', () => resolve({ html, head: head.toString() }));
+
+    const stream = renderToPipeableStream(
+      <React.StrictMode>
+        <App Router={Router} head={head} />
+      </React.StrictMode>,
+      {
+        onAllReady() {
+          stream.pipe(sink);
+        },
+        onShellError: reject,
+        // A section that throws would be left as its fallback; fail the build instead of shipping it
+        onError: reject,
+      }
+    );
+  });
+}
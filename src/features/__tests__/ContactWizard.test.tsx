@@ -0,0 +1,76 @@
+/**
+ * Contact Wizard Tests
+ * Restoring a stored draft when the prerendered wizard hydrates, and copy from the visitor's locale
+ */
+
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { hydrateRoot, type Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { I18nContext } from '@/shared/contexts/I18nContext';
+import { createTranslator } from '@/shared/i18n';
+import ContactWizard from '../contact/ContactWizard';
+import { CONTACT_DRAFT_KEY, EMPTY_CONTACT_FORM } from '../contact/contactForm';
+
+jest.mock('@/shared/hooks/useAnalytics', () => {
+  const formAnalytics = {
+    trackFormStart: jest.fn(),
+    trackFormSubmit: jest.fn(),
+    trackFieldError: jest.fn(),
+    trackStepComplete: jest.fn(),
+    trackFormAbandon: jest.fn(),
+  };
+  return { useFormAnalytics: () => formAnalytics };
+});
+
+const DRAFT_VALUES = { ...EMPTY_CONTACT_FORM, name: 'Ada Lovelace', email: 'ada@example.com' };
+
+describe('ContactWizard', () => {
+  let container: HTMLDivElement;
+  let root: Root | null = null;
+
+  beforeEach(() => {
+    localStorage.clear();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = null;
+    container.remove();
+  });
+
+  it('should restore the stored draft after hydrating the prerendered form', async () => {
+    const draft: string = JSON.stringify({ version: 1, values: DRAFT_VALUES, step: 0, savedAt: Date.now() });
+
+    // Prerendered markup never contains the visitor's draft
+    container.innerHTML = renderToString(<ContactWizard />);
+    localStorage.setItem(CONTACT_DRAFT_KEY, draft);
+
+    await act(async () => {
+      root = hydrateRoot(container, <ContactWizard />);
+    });
+
+    expect(screen.getByPlaceholderText('John Smith')).toHaveValue('Ada Lovelace');
+    expect(screen.getByPlaceholderText('john@company.com')).toHaveValue('ada@example.com');
+    expect(JSON.parse(localStorage.getItem(CONTACT_DRAFT_KEY) ?? 'null')).toMatchObject({ values: DRAFT_VALUES });
+  });
+
+  it('should show labels and validation messages in the visitor\'s locale', async () => {
+    render(
+      <I18nContext.Provider value={createTranslator('fr')}>
+        <ContactWizard />
+      </I18nContext.Provider>
+    );
+
+    expect(screen.getByText('Étape 1 sur 3')).toBeInTheDocument();
+    expect(screen.getByLabelText('Nom complet *')).toBeInTheDocument();
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Continuer' }));
+    });
+
+    expect(screen.getByText('Veuillez saisir votre nom')).toBeInTheDocument();
+    expect(screen.getByText('Veuillez saisir une adresse e-mail valide')).toBeInTheDocument();
+  });
+});
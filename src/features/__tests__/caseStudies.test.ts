@@ -0,0 +1,97 @@
+/**
+ * Case Studies Tests
+ * Portfolio filters, related project ranking and CreativeWork structured data
+ */
+
+import { getPortfolioItems, type PortfolioItem } from '@/content';
+import {
+  createCaseStudyStructuredData,
+  filterPortfolioItems,
+  getPortfolioFacets,
+  getRelatedPortfolioItems,
+  parsePortfolioFilters,
+  type PortfolioFacets,
+} from '../portfolio/caseStudies';
+
+const origin = 'https://optimum.example';
+
+const makeItem = (overrides: Partial<PortfolioItem>): PortfolioItem => ({
+  slug: 'project',
+  title: 'Project',
+  client: 'Client',
+  industry: 'SaaS',
+  description: 'Description',
+  results: ['Result'],
+  technologies: [],
+  timeline: '4 weeks',
+  publishedAt: '2024-01-01',
+  gallery: [],
+  category: 'Automation',
+  tags: [],
+  featured: false,
+  ...overrides,
+});
+
+describe('portfolio filters', () => {
+  const items: PortfolioItem[] = [
+    makeItem({ slug: 'a', category: 'Automation', technologies: ['React', 'Node.js'] }),
+    makeItem({ slug: 'b', category: 'Analytics', technologies: ['React'] }),
+    makeItem({ slug: 'c', category: 'Automation', technologies: ['Python'] }),
+  ];
+  const facets: PortfolioFacets = getPortfolioFacets(items);
+
+  it('should collect sorted categories and technologies', () => {
+    expect(facets).toEqual({
+      categories: ['Analytics', 'Automation'],
+      technologies: ['Node.js', 'Python', 'React'],
+    });
+  });
+
+  it('should ignore filter values that match no project', () => {
+    const filters = parsePortfolioFilters(new URLSearchParams('category=Retired&tech=React'), facets);
+
+    expect(filters).toEqual({ category: null, technology: 'React' });
+  });
+
+  it('should combine category and technology filters', () => {
+    const slugs = (category: string | null, technology: string | null): string[] =>
+      filterPortfolioItems(items, { category, technology }).map((item: PortfolioItem) => item.slug);
+
+    expect(slugs(null, null)).toEqual(['a', 'b', 'c']);
+    expect(slugs('Automation', null)).toEqual(['a', 'c']);
+    expect(slugs('Automation', 'React')).toEqual(['a']);
+  });
+});
+
+describe('getRelatedPortfolioItems', () => {
+  it('should rank by category and shared technologies, excluding the project itself', () => {
+    const project: PortfolioItem = makeItem({ slug: 'main', category: 'Automation', technologies: ['React'] });
+    const items: PortfolioItem[] = [
+      project,
+      makeItem({ slug: 'other-category', category: 'Analytics', industry: 'Retail', technologies: ['React'] }),
+      makeItem({ slug: 'same-category', category: 'Automation', industry: 'Retail' }),
+      makeItem({ slug: 'unrelated', category: 'Analytics', industry: 'Retail', publishedAt: '2025-01-01' }),
+    ];
+
+    const related: string[] = getRelatedPortfolioItems(project, items, 2).map((item: PortfolioItem) => item.slug);
+
+    expect(related).toEqual(['same-category', 'other-category']);
+  });
+});
+
+describe('createCaseStudyStructuredData', () => {
+  it('should describe the project as a CreativeWork with absolute URLs', () => {
+    const [project] = getPortfolioItems({ featured: true });
+    const data = createCaseStudyStructuredData(project!, origin, (src: string) => src.replace('asset:', '/assets/')) as unknown as Record<string, unknown>;
+
+    expect(data).toMatchObject({
+      '@context': 'https://schema.org',
+      '@type': 'CreativeWork',
+      name: project!.title,
+      url: `${origin}/portfolio/${project!.slug}`,
+      datePublished: project!.publishedAt,
+      funder: { '@type': 'Organization', name: project!.client },
+    });
+    expect(data['image']).toContain(`${origin}/assets/portfolio-preview`);
+  });
+});
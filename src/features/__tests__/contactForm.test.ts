@@ -0,0 +1,98 @@
+/**
+ * Contact Form Tests
+ * Step lookup, draft autosave and restore, and estimator prefill
+ */
+
+import {
+  CONTACT_DRAFT_KEY,
+  CONTACT_DRAFT_MAX_AGE,
+  EMPTY_CONTACT_FORM,
+  clearContactDraft,
+  getQuotePrefill,
+  getStepForFields,
+  loadContactDraft,
+  saveContactDraft,
+} from '../contact/contactForm';
+import { DEFAULT_PRICING_RULES, createEmptySelection, type QuoteSelection } from '@/shared/services/pricingEngine';
+
+const now = 1_700_000_000_000;
+
+describe('getStepForFields', () => {
+  it('should return the first step that shows one of the fields', () => {
+    expect(getStepForFields(['message', 'email'])).toBe(0);
+    expect(getStepForFields(['budget'])).toBe(1);
+    expect(getStepForFields(['message'])).toBe(2);
+    expect(getStepForFields([])).toBe(0);
+  });
+});
+
+describe('contact drafts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should restore a saved draft with its step', () => {
+    saveContactDraft({ ...EMPTY_CONTACT_FORM, name: 'Ada', email: 'ada@example.com' }, 1, localStorage, now);
+
+    expect(loadContactDraft(localStorage, now + 1000)).toEqual({
+      values: { ...EMPTY_CONTACT_FORM, name: 'Ada', email: 'ada@example.com' },
+      step: 1,
+      savedAt: now,
+    });
+  });
+
+  it('should not keep empty drafts', () => {
+    saveContactDraft({ ...EMPTY_CONTACT_FORM, name: 'Ada' }, 0, localStorage, now);
+    saveContactDraft({ ...EMPTY_CONTACT_FORM, name: '  ' }, 0, localStorage, now);
+
+    expect(localStorage.getItem(CONTACT_DRAFT_KEY)).toBeNull();
+  });
+
+  it('should discard expired and malformed drafts', () => {
+    saveContactDraft({ ...EMPTY_CONTACT_FORM, name: 'Ada' }, 0, localStorage, now);
+    expect(loadContactDraft(localStorage, now + CONTACT_DRAFT_MAX_AGE + 1)).toBeNull();
+    expect(localStorage.getItem(CONTACT_DRAFT_KEY)).toBeNull();
+
+    localStorage.setItem(CONTACT_DRAFT_KEY, '{"version":1,"values":[]');
+    expect(loadContactDraft(localStorage, now)).toBeNull();
+  });
+
+  it('should drop unknown fields and clamp the step', () => {
+    localStorage.setItem(CONTACT_DRAFT_KEY, JSON.stringify({
+      version: 1,
+      values: { name: 'Ada', isAdmin: 'true', email: 42 },
+      step: 99,
+      savedAt: now,
+    }));
+
+    const draft = loadContactDraft(localStorage, now);
+    expect(draft?.values).toEqual({ ...EMPTY_CONTACT_FORM, name: 'Ada' });
+    expect(draft?.step).toBe(2);
+
+    clearContactDraft(localStorage);
+    expect(loadContactDraft(localStorage, now)).toBeNull();
+  });
+});
+
+describe('getQuotePrefill', () => {
+  const rules = DEFAULT_PRICING_RULES;
+  const selection: QuoteSelection = {
+    ...createEmptySelection(rules),
+    projectType: 'web-app',
+    design: Object.keys(rules.designLevels)[0]!,
+    environment: Object.keys(rules.environments)[0]!,
+  };
+  const url = 'https://example.com/?quote=abc#estimator';
+
+  it('should set the project type and append the quote to the message', () => {
+    const prefill = getQuotePrefill({ ...EMPTY_CONTACT_FORM, message: 'Hello' }, selection, url);
+
+    expect(prefill?.projectType).toBe('web-app');
+    expect(prefill?.message).toMatch(/^Hello\n\nProject estimate: /);
+    expect(prefill?.message).toContain(`Quote: ${url}`);
+  });
+
+  it('should not add the same quote twice', () => {
+    expect(getQuotePrefill({ ...EMPTY_CONTACT_FORM, message: `See ${url}` }, selection, url)).toBeNull();
+  });
+});
@@ -1,31 +1,34 @@
 import { CheckCircle, Target, Users, Zap } from 'lucide-react';
+import { useI18n } from '@/shared/hooks/useI18n';
 
 const AboutSection = () => {
+  const { t } = useI18n();
+
   const features = [
     {
       icon: Target,
-      title: "Strategic Focus",
-      description: "We understand your business goals and build solutions that directly impact your bottom line."
+      title: t('about.feature.strategy.title'),
+      description: t('about.feature.strategy.description')
     },
     {
       icon: Users,
-      title: "Client-First Approach", 
-      description: "Every solution is tailored to your specific needs, industry, and growth objectives."
+      title: t('about.feature.client.title'),
+      description: t('about.feature.client.description')
     },
     {
       icon: Zap,
-      title: "Rapid Implementation",
-      description: "Fast development cycles that get your digital tools working for you in weeks, not months."
+      title: t('about.feature.speed.title'),
+      description: t('about.feature.speed.description')
     }
   ];
 
   const benefits = [
-    "Reduce operational costs by up to 40%",
-    "Improve team productivity and collaboration",
-    "Automate repetitive tasks and workflows",
-    "Gain real-time insights into your business",
-    "Scale your operations without hiring overhead",
-    "Enhance customer experience and retention"
+    t('about.benefits.costs', { percent: 0.4 }),
+    t('about.benefits.productivity'),
+    t('about.benefits.automation'),
+    t('about.benefits.insights'),
+    t('about.benefits.scale'),
+    t('about.benefits.experience')
   ];
 
   return (
@@ -35,15 +38,15 @@ const AboutSection = () => {
           <div>
             <div className="mb-8">
               <h2 className="font-playfair italic text-5xl md:text-6xl lg:text-7xl font-light text-foreground mb-4 leading-tight">
-                Digital transformation
+                {t('about.title')}
               </h2>
               <h3 className="font-playfair italic text-4xl md:text-5xl lg:text-6xl font-light text-primary leading-tight">
-                made simple.
+                {t('about.subtitle')}
               </h3>
             </div>
             
             <p className="text-xl text-muted-foreground mb-8 leading-relaxed font-light">
-              Too many businesses struggle with inefficient processes, scattered data, and tools that don't work together. We create integrated digital solutions that transform how you operate.
+              {t('about.intro')}
             </p>
 
             <div className="grid md:grid-cols-3 gap-6 mb-8">
@@ -62,7 +65,7 @@ const AboutSection = () => {
           <div className="space-y-6">
             <div className="bg-card p-8 rounded-2xl border border-border hover:shadow-lg transition-shadow duration-300">
               <h3 className="text-2xl font-semibold text-foreground mb-6">
-                What You Get When Working With Us:
+                {t('about.benefits.title')}
               </h3>
               
               <div className="space-y-4">
@@ -81,12 +84,12 @@ const AboutSection = () => {
                   <Zap className="h-6 w-6" />
                 </div>
                 <div>
-                  <h3 className="text-xl font-semibold">Ready to Get Started?</h3>
-                  <p className="text-primary-foreground font-medium">Free consultation • No commitments</p>
+                  <h3 className="text-xl font-semibold">{t('about.cta.title')}</h3>
+                  <p className="text-primary-foreground font-medium">{t('about.cta.subtitle')}</p>
                 </div>
               </div>
               <p className="text-primary-foreground font-light">
-                Book a 30-minute strategy call where we'll analyze your current processes and show you exactly how custom software can transform your business.
+                {t('about.cta.body', { minutes: 30 })}
               </p>
             </div>
           </div>
@@ -0,0 +1,287 @@
+/**
+ * Booking Dialog
+ *
+ * Picks a consultation slot from an availability provider, shown in the
+ * visitor's timezone, and confirms it with a downloadable calendar invite
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { CalendarCheck, CalendarPlus, Loader2 } from 'lucide-react';
+import { Button } from '@/shared/ui/button';
+import { Calendar } from '@/shared/ui/calendar';
+import { Input } from '@/shared/ui/input';
+import { Textarea } from '@/shared/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/shared/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/shared/ui/form';
+import { GoalTracker } from '@/shared/components/AnalyticsTracker';
+import { useToast } from '@/shared/hooks/use-toast';
+import { useI18n } from '@/shared/hooks/useI18n';
+import { cn } from '@/shared/utils/utils';
+import {
+  BOOKING_DURATION_MINUTES,
+  availabilityProvider,
+  bookingAttendeeSchema,
+  confirmBooking,
+  createBookingRequest,
+  downloadBookingIcs,
+  formatSlotTime,
+  getVisitorTimeZone,
+  groupSlotsByDay,
+  type AvailabilityProvider,
+  type AvailabilitySlot,
+  type BookingAttendee,
+  type BookingConfirmation,
+  type BookingResult,
+} from '@/shared/services/booking';
+
+const BOOKING_WINDOW_DAYS = 30;
+
+interface BookingDialogProps {
+  trigger: React.ReactNode;
+  provider?: AvailabilityProvider;
+}
+
+const BookingDialog: React.FC<BookingDialogProps> = ({ trigger, provider = availabilityProvider }) => {
+  const { toast } = useToast();
+  const { t, formatDate, config } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [slots, setSlots] = useState<AvailabilitySlot[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+  const [selectedSlot, setSelectedSlot] = useState<AvailabilitySlot | null>(null);
+  const [booking, setBooking] = useState<BookingConfirmation | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const openedAtRef = useRef<number>(Date.now());
+
+  const timeZone: string = useMemo(() => getVisitorTimeZone(), []);
+  const slotsByDay: Map<string, AvailabilitySlot[]> = useMemo(
+    () => groupSlotsByDay(slots ?? [], timeZone),
+    [slots, timeZone]
+  );
+  const daySlots: AvailabilitySlot[] = selectedDay ? slotsByDay.get(format(selectedDay, 'yyyy-MM-dd')) ?? [] : [];
+
+  const form = useForm<BookingAttendee>({
+    resolver: zodResolver(bookingAttendeeSchema),
+    defaultValues: { name: '', email: '', notes: '' },
+  });
+
+  // Load availability each time the dialog opens so slots are never stale
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const from = new Date();
+    const to = new Date(from.getTime() + BOOKING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    openedAtRef.current = Date.now();
+    setSlots(null);
+    setLoadError(false);
+
+    provider
+      .getSlots({ from, to })
+      .then((available: AvailabilitySlot[]) => {
+        if (cancelled) return;
+        setSlots(available);
+        setSelectedDay((current) => current ?? available[0]?.start);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, provider]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+
+    // Start fresh after a completed booking
+    if (!open && booking) {
+      setBooking(null);
+      setSelectedSlot(null);
+      setSelectedDay(undefined);
+      form.reset();
+    }
+  };
+
+  const handleDaySelect = (day: Date | undefined) => {
+    setSelectedDay(day);
+    setSelectedSlot(null);
+  };
+
+  const onSubmit = async (attendee: BookingAttendee) => {
+    if (!selectedSlot) return;
+    setIsSubmitting(true);
+
+    try {
+      const result: BookingResult = await confirmBooking(
+        provider,
+        createBookingRequest(selectedSlot, attendee, timeZone),
+        openedAtRef.current
+      );
+
+      if (result.status === 'failed') {
+        toast({
+          title: t('booking.toast.failed.title'),
+          description: t('booking.toast.failed.description'),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setBooking(result.booking);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatDay = (date: Date): string => formatDate(date, { timeZone, weekday: 'long', month: 'long', day: 'numeric' });
+  const formatTime = (slot: AvailabilitySlot): string => formatSlotTime(slot, timeZone, config.intlLocale);
+
+  const renderConfirmation = (confirmed: BookingConfirmation) => (
+    <GoalTracker goalId="booking_complete" conversionType="contact" trigger="mount" label={confirmed.provider}>
+      <div className="space-y-4 text-center py-4">
+        <CalendarCheck className="h-12 w-12 text-primary mx-auto" aria-hidden="true" />
+        <div>
+          <p className="font-semibold text-foreground">{formatDay(confirmed.slot.start)}</p>
+          <p className="text-muted-foreground">
+            {formatTime(confirmed.slot)} ({timeZone})
+          </p>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {t('booking.confirmed.email', { email: confirmed.attendee.email })}
+        </p>
+        <Button onClick={() => downloadBookingIcs(confirmed)}>
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          {t('booking.addToCalendar')}
+        </Button>
+      </div>
+    </GoalTracker>
+  );
+
+  const renderSlots = () => {
+    if (loadError) {
+      return <p className="text-sm text-destructive">{t('booking.slots.error')}</p>;
+    }
+    if (!slots) {
+      return (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground" role="status">
+          <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+          {t('booking.slots.loading')}
+        </p>
+      );
+    }
+    if (!selectedDay || daySlots.length === 0) {
+      return <p className="text-sm text-muted-foreground">{t('booking.slots.pickDay')}</p>;
+    }
+
+    return (
+      <div className="grid grid-cols-2 gap-2" role="group" aria-label={t('booking.slots.label', { day: formatDay(selectedDay) })}>
+        {daySlots.map((slot: AvailabilitySlot) => (
+          <Button
+            key={slot.id}
+            type="button"
+            variant={selectedSlot?.id === slot.id ? 'default' : 'outline'}
+            size="sm"
+            aria-pressed={selectedSlot?.id === slot.id}
+            onClick={() => setSelectedSlot(slot)}
+          >
+            {formatTime(slot)}
+          </Button>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{booking ? t('booking.confirmed.title') : t('booking.title')}</DialogTitle>
+          <DialogDescription>
+            {booking
+              ? t('booking.confirmed.description')
+              : t('booking.description', { minutes: BOOKING_DURATION_MINUTES, timeZone })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {booking ? renderConfirmation(booking) : (
+          <div className="grid md:grid-cols-[auto_1fr] gap-6">
+            <Calendar
+              mode="single"
+              selected={selectedDay}
+              onSelect={handleDaySelect}
+              fromDate={new Date()}
+              disabled={(date: Date) => !slotsByDay.has(format(date, 'yyyy-MM-dd'))}
+              className="rounded-md border border-border self-start"
+            />
+
+            <div className="space-y-6">
+              {renderSlots()}
+
+              <Form {...form}>
+                <form
+                  onSubmit={form.handleSubmit(onSubmit)}
+                  className={cn('space-y-4', !selectedSlot && 'opacity-50')}
+                  aria-disabled={!selectedSlot}
+                >
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('booking.name')}</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="name" disabled={!selectedSlot} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('booking.email')}</FormLabel>
+                        <FormControl>
+                          <Input type="email" autoComplete="email" disabled={!selectedSlot} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="notes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('booking.notes')}</FormLabel>
+                        <FormControl>
+                          <Textarea rows={3} disabled={!selectedSlot} {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={!selectedSlot || isSubmitting}>
+                    {isSubmitting ? t('booking.submitting') : selectedSlot
+                      ? t('booking.confirm', { time: formatTime(selectedSlot) })
+                      : t('booking.selectTime')}
+                  </Button>
+                </form>
+              </Form>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BookingDialog;
@@ -0,0 +1,455 @@
+/**
+ * Contact Wizard
+ *
+ * Multi-step contact form with per-step validation, a progress indicator,
+ * draft autosave and prefill from ProjectEstimator quotes
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ArrowLeft, ArrowRight, Check } from 'lucide-react';
+import { Button } from '@/shared/ui/button';
+import { Input } from '@/shared/ui/input';
+import { Textarea } from '@/shared/ui/textarea';
+import { Progress } from '@/shared/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/shared/ui/form';
+import { useToast } from '@/shared/hooks/use-toast';
+import { useFormAnalytics } from '@/shared/hooks/useAnalytics';
+import { useI18n } from '@/shared/hooks/useI18n';
+import useHydrated from '@/shared/hooks/useHydrated';
+import { debounce } from '@/shared/utils/debounce';
+import { cn } from '@/shared/utils/utils';
+import { EVENT_TYPES, eventBus } from '@/shared/services/eventBus';
+import type { MessageKey } from '@/shared/i18n';
+import { QUOTE_QUERY_PARAM, decodeQuote, type QuoteSelection } from '@/shared/services/pricingEngine';
+import {
+  DEFAULT_LEAD_EMAIL,
+  HONEYPOT_FIELD,
+  contactFormSchema,
+  generateIdempotencyKey,
+  leadSubmissionService,
+  type ContactFormField,
+  type ContactFormValues,
+  type LeadSubmissionResult,
+} from '@/shared/services/leadSubmission';
+import {
+  BUDGET_RANGES,
+  CONTACT_WIZARD_STEPS,
+  EMPTY_CONTACT_FORM,
+  PROJECT_TYPE_OPTIONS,
+  TIMELINE_OPTIONS,
+  clearContactDraft,
+  getQuotePrefill,
+  getStepForFields,
+  loadContactDraft,
+  saveContactDraft,
+  type ContactDraft,
+  type ContactFormOption,
+  type ContactWizardStep,
+} from './contactForm';
+
+const AUTOSAVE_DELAY = 500;
+
+const REPLY_WITHIN_HOURS = 24;
+
+const SUCCESS_MESSAGES: Record<'sent' | 'mailto' | 'queued', { title: MessageKey; description: MessageKey }> = {
+  sent: { title: 'contactWizard.toast.sent.title', description: 'contactWizard.toast.sent.description' },
+  mailto: { title: 'contactWizard.toast.mailto.title', description: 'contactWizard.toast.mailto.description' },
+  queued: { title: 'contactWizard.toast.queued.title', description: 'contactWizard.toast.queued.description' },
+};
+
+const ContactWizard = () => {
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const { trackFormStart, trackFormSubmit, trackFieldError, trackStepComplete, trackFormAbandon } = useFormAnalytics('contact');
+  const hydrated: boolean = useHydrated();
+  const [initialDraft, setInitialDraft] = useState<ContactDraft | null>(() => (hydrated ? loadContactDraft() : null));
+  const [restoredOnMount] = useState<boolean>(hydrated);
+  const [step, setStep] = useState<number>(initialDraft?.step ?? 0);
+  const [honeypot, setHoneypot] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<ContactFormValues>({
+    resolver: zodResolver(contactFormSchema),
+    defaultValues: initialDraft?.values ?? EMPTY_CONTACT_FORM,
+    mode: 'onTouched',
+  });
+
+  // One key per filled-in form so retries and offline replays are not duplicated
+  const idempotencyKeyRef = useRef<string>(generateIdempotencyKey());
+  const startedAtRef = useRef<number>(Date.now());
+
+  // Drop-off tracking: whether the visitor typed anything, and the last field they were on
+  const hasStartedRef = useRef<boolean>(false);
+  const lastFieldRef = useRef<string | null>(null);
+  const stepRef = useRef<number>(step);
+  stepRef.current = step;
+
+  const currentStep: ContactWizardStep = CONTACT_WIZARD_STEPS[step]!;
+  const isLastStep: boolean = step === CONTACT_WIZARD_STEPS.length - 1;
+
+  const resetForm = useCallback(() => {
+    form.reset(EMPTY_CONTACT_FORM);
+    clearContactDraft();
+    setStep(0);
+    setHoneypot('');
+    idempotencyKeyRef.current = generateIdempotencyKey();
+    startedAtRef.current = Date.now();
+    hasStartedRef.current = false;
+    lastFieldRef.current = null;
+  }, [form]);
+
+  // Prerendered pages hydrate with an empty form, then restore the draft
+  useEffect(() => {
+    if (restoredOnMount || !hydrated) return;
+    const draft: ContactDraft | null = loadContactDraft();
+    if (!draft) return;
+
+    form.reset(draft.values);
+    setStep(draft.step);
+    setInitialDraft(draft);
+  }, [form, hydrated, restoredOnMount]);
+
+  useEffect(() => {
+    if (!initialDraft) return;
+
+    toast({
+      title: t('contactWizard.toast.restored.title'),
+      description: t('contactWizard.toast.restored.description'),
+      action: { label: t('contactWizard.toast.restored.action'), onClick: resetForm },
+    });
+  }, [initialDraft, resetForm, t, toast]);
+
+  // Autosave drafts and note the first and latest field the visitor edits.
+  // Saving waits for hydration: the empty prerendered form would otherwise
+  // overwrite the stored draft before it is restored.
+  useEffect(() => {
+    if (!hydrated) return;
+
+    const save = debounce(() => saveContactDraft(form.getValues(), stepRef.current), AUTOSAVE_DELAY);
+
+    const subscription = form.watch((_values, { name, type }) => {
+      if (name && type === 'change') {
+        if (!hasStartedRef.current) trackFormStart();
+        hasStartedRef.current = true;
+        lastFieldRef.current = name;
+      }
+      save();
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      save.flush();
+    };
+  }, [form, hydrated, trackFormStart]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    saveContactDraft(form.getValues(), step);
+  }, [form, hydrated, step]);
+
+  // Report where started forms are left, both on page exit and on in-app navigation
+  useEffect(() => {
+    const reportAbandon = () => {
+      if (!hasStartedRef.current || !lastFieldRef.current) return;
+
+      trackFormAbandon(lastFieldRef.current, CONTACT_WIZARD_STEPS[stepRef.current]?.id);
+      hasStartedRef.current = false;
+    };
+
+    window.addEventListener('pagehide', reportAbandon);
+    return () => {
+      window.removeEventListener('pagehide', reportAbandon);
+      reportAbandon();
+    };
+  }, [trackFormAbandon]);
+
+  // Prefill from the project estimator, either shared as a link or handed over on the page
+  useEffect(() => {
+    const applyQuote = (selection: QuoteSelection, url: string) => {
+      const prefill: Partial<Record<ContactFormField, string>> | null = getQuotePrefill(form.getValues(), selection, url);
+      if (!prefill) return;
+
+      (Object.keys(prefill) as ContactFormField[]).forEach((field: ContactFormField) => {
+        form.setValue(field, prefill[field], { shouldDirty: true });
+      });
+    };
+
+    const encoded: string | null = new URLSearchParams(window.location.search).get(QUOTE_QUERY_PARAM);
+    const sharedSelection: QuoteSelection | null = encoded ? decodeQuote(encoded) : null;
+    if (sharedSelection) {
+      applyQuote(sharedSelection, `${window.location.href.replace(/#.*$/, '')}#estimator`);
+    }
+
+    return eventBus.on<{ selection: QuoteSelection; url: string }>(
+      EVENT_TYPES.QUOTE_SHARED,
+      ({ selection, url }) => applyQuote(selection, url)
+    );
+  }, [form]);
+
+  const goToNextStep = async () => {
+    const isValid: boolean = await form.trigger(currentStep.fields, { shouldFocus: true });
+
+    if (!isValid) {
+      currentStep.fields
+        .filter((field: ContactFormField) => form.getFieldState(field).error)
+        .forEach(trackFieldError);
+      return;
+    }
+
+    trackStepComplete(currentStep.id, step);
+    setStep(step + 1);
+  };
+
+  const showSuccess = (message: { title: MessageKey; description: MessageKey }) => {
+    toast({ title: t(message.title), description: t(message.description, { hours: REPLY_WITHIN_HOURS }) });
+  };
+
+  const showErrors = (fields: string[]) => {
+    setStep(getStepForFields(fields));
+    fields.forEach(trackFieldError);
+    trackFormSubmit(false, fields);
+  };
+
+  const onSubmit = async (values: ContactFormValues) => {
+    setIsSubmitting(true);
+
+    try {
+      const result: LeadSubmissionResult = await leadSubmissionService.submit(
+        values,
+        { honeypot, startedAt: startedAtRef.current },
+        idempotencyKeyRef.current
+      );
+
+      switch (result.status) {
+        case 'invalid':
+          (Object.entries(result.errors) as Array<[ContactFormField, string]>).forEach(([field, message]) => {
+            form.setError(field, { message });
+          });
+          showErrors(Object.keys(result.errors));
+          toast({
+            title: t('contactWizard.toast.invalid.title'),
+            description: t((Object.values(result.errors)[0] ?? 'contactWizard.toast.invalid.description') as MessageKey),
+            variant: "destructive",
+          });
+          return;
+
+        case 'failed':
+          trackFormSubmit(false);
+          toast({
+            title: t('contactWizard.toast.failed.title'),
+            description: t('contactWizard.toast.failed.description'),
+            variant: "destructive",
+            action: {
+              label: t('contactWizard.toast.failed.action'),
+              onClick: () => {
+                window.location.href = `mailto:${DEFAULT_LEAD_EMAIL}`;
+              },
+            },
+          });
+          return;
+
+        case 'spam':
+          // Look successful so bots get no signal
+          showSuccess(SUCCESS_MESSAGES.sent);
+          break;
+
+        case 'queued':
+          trackStepComplete(currentStep.id, step);
+          trackFormSubmit(true);
+          showSuccess(SUCCESS_MESSAGES.queued);
+          break;
+
+        case 'sent':
+          trackStepComplete(currentStep.id, step);
+          trackFormSubmit(true);
+          showSuccess(result.adapter === 'mailto' ? SUCCESS_MESSAGES.mailto : SUCCESS_MESSAGES.sent);
+          break;
+      }
+
+      resetForm();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Enter on an earlier step moves forward instead of submitting
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    if (!isLastStep) {
+      event.preventDefault();
+      void goToNextStep();
+      return;
+    }
+
+    void form.handleSubmit(onSubmit, (errors) => showErrors(Object.keys(errors)))(event);
+  };
+
+  const handleFocus = (event: React.FocusEvent<HTMLFormElement>) => {
+    const field: string | null | undefined = (event.target as HTMLElement).closest('[data-field]')?.getAttribute('data-field');
+    if (field) lastFieldRef.current = field;
+  };
+
+  const renderTextField = (
+    name: 'name' | 'email' | 'company' | 'phone',
+    inputProps: React.ComponentProps<typeof Input>
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem data-field={name}>
+          <FormLabel>{t(`contactWizard.${name}`)}</FormLabel>
+          <FormControl>
+            <Input {...inputProps} placeholder={t(`contactWizard.${name}.placeholder`)} {...field} value={field.value ?? ''} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderSelectField = (
+    name: 'projectType' | 'timeline' | 'budget',
+    options: ContactFormOption[]
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem data-field={name}>
+          <FormLabel>{t(`contactWizard.${name}`)}</FormLabel>
+          <Select value={field.value ?? ''} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger onBlur={field.onBlur}>
+                <SelectValue placeholder={t(`contactWizard.${name}.placeholder`)} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {t(option.label)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={handleSubmit} onFocus={handleFocus} noValidate className="space-y-6">
+        {/* Progress */}
+        <div className="space-y-3">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium text-foreground">{t(currentStep.title)}</span>
+            <span className="text-muted-foreground">
+              {t('contactWizard.progress', { step: step + 1, total: CONTACT_WIZARD_STEPS.length })}
+            </span>
+          </div>
+          <Progress
+            value={((step + 1) / CONTACT_WIZARD_STEPS.length) * 100}
+            className="h-2"
+            aria-label={t('contactWizard.progressLabel', {
+              step: step + 1,
+              total: CONTACT_WIZARD_STEPS.length,
+              title: t(currentStep.title),
+            })}
+          />
+          <ol className="flex justify-between text-xs text-muted-foreground">
+            {CONTACT_WIZARD_STEPS.map((wizardStep: ContactWizardStep, index: number) => (
+              <li
+                key={wizardStep.id}
+                aria-current={index === step ? 'step' : undefined}
+                className={cn('flex items-center gap-1', index <= step && 'text-primary')}
+              >
+                {index < step && <Check className="h-3 w-3" aria-hidden="true" />}
+                {t(wizardStep.title)}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {currentStep.id === 'contact' && (
+          <div className="grid md:grid-cols-2 gap-4">
+            {renderTextField('name', { autoComplete: 'name' })}
+            {renderTextField('email', { type: 'email', autoComplete: 'email' })}
+            {renderTextField('company', { autoComplete: 'organization' })}
+            {renderTextField('phone', { type: 'tel', autoComplete: 'tel' })}
+          </div>
+        )}
+
+        {currentStep.id === 'project' && (
+          <div className="grid md:grid-cols-2 gap-4">
+            {renderSelectField('projectType', PROJECT_TYPE_OPTIONS)}
+            {renderSelectField('timeline', TIMELINE_OPTIONS)}
+            {renderSelectField('budget', BUDGET_RANGES)}
+          </div>
+        )}
+
+        {currentStep.id === 'details' && (
+          <FormField
+            control={form.control}
+            name="message"
+            render={({ field }) => (
+              <FormItem data-field="message">
+                <FormLabel>{t('contactWizard.message')}</FormLabel>
+                <FormControl>
+                  <Textarea
+                    rows={6}
+                    placeholder={t('contactWizard.message.placeholder')}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {/* Honeypot: hidden from people and assistive tech, filled in by bots */}
+        <div className="absolute -left-[9999px] h-px w-px overflow-hidden" aria-hidden="true">
+          <label htmlFor={`contact-${HONEYPOT_FIELD}`}>{t('contactWizard.honeypot')}</label>
+          <input
+            id={`contact-${HONEYPOT_FIELD}`}
+            name={HONEYPOT_FIELD}
+            type="text"
+            tabIndex={-1}
+            autoComplete="off"
+            value={honeypot}
+            onChange={(e) => setHoneypot(e.target.value)}
+          />
+        </div>
+
+        <div className="flex gap-3">
+          {step > 0 && (
+            <Button type="button" variant="outline" className="py-6" onClick={() => setStep(step - 1)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {t('contactWizard.back')}
+            </Button>
+          )}
+          {isLastStep ? (
+            <Button type="submit" disabled={isSubmitting} className="flex-1 btn-hero text-lg py-6">
+              {isSubmitting ? t('contactWizard.submitting') : t('contactWizard.submit')}
+            </Button>
+          ) : (
+            <Button type="submit" className="flex-1 btn-hero text-lg py-6">
+              {t('contactWizard.continue')}
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          )}
+        </div>
+
+        <p className="text-sm text-muted-foreground text-center">
+          {t('contactWizard.privacy')}
+        </p>
+      </form>
+    </Form>
+  );
+};
+
+export default ContactWizard;
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Contact Form
+ * @description Step definitions, draft autosave and estimator prefill for the multi-step contact form
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import type { MessageKey } from '@/shared/i18n';
+import { calculateQuote, formatQuoteSummary, type QuoteSelection } from '@/shared/services/pricingEngine';
+import { PROJECT_TYPES, type ContactFormField, type ContactFormValues } from '@/shared/services/leadSubmission';
+
+// =========================== STEPS ===========================
+
+export interface ContactWizardStep {
+  id: string;
+  title: MessageKey;
+  description: MessageKey;
+  fields: ContactFormField[];
+}
+
+export const CONTACT_WIZARD_STEPS: ContactWizardStep[] = [
+  {
+    id: 'contact',
+    title: 'contactWizard.step.contact.title',
+    description: 'contactWizard.step.contact.description',
+    fields: ['name', 'email', 'company', 'phone'],
+  },
+  {
+    id: 'project',
+    title: 'contactWizard.step.project.title',
+    description: 'contactWizard.step.project.description',
+    fields: ['projectType', 'timeline', 'budget'],
+  },
+  {
+    id: 'details',
+    title: 'contactWizard.step.details.title',
+    description: 'contactWizard.step.details.description',
+    fields: ['message'],
+  },
+];
+
+export interface ContactFormOption {
+  value: string;
+  label: MessageKey;
+}
+
+export const PROJECT_TYPE_OPTIONS: ContactFormOption[] = [
+  { value: 'web-app', label: 'contactWizard.projectType.web-app' },
+  { value: 'mobile-app', label: 'contactWizard.projectType.mobile-app' },
+  { value: 'automation', label: 'contactWizard.projectType.automation' },
+  { value: 'crm', label: 'contactWizard.projectType.crm' },
+  { value: 'analytics', label: 'contactWizard.projectType.analytics' },
+  { value: 'integration', label: 'contactWizard.projectType.integration' },
+  { value: 'other', label: 'contactWizard.projectType.other' },
+];
+
+export const TIMELINE_OPTIONS: ContactFormOption[] = [
+  { value: 'asap', label: 'contactWizard.timeline.asap' },
+  { value: 'quarter', label: 'contactWizard.timeline.quarter' },
+  { value: 'year', label: 'contactWizard.timeline.year' },
+  { value: 'planning', label: 'contactWizard.timeline.planning' },
+];
+
+export const BUDGET_RANGES: ContactFormOption[] = [
+  { value: 'under-10k', label: 'contactWizard.budget.under-10k' },
+  { value: '10k-25k', label: 'contactWizard.budget.10k-25k' },
+  { value: '25k-50k', label: 'contactWizard.budget.25k-50k' },
+  { value: '50k-100k', label: 'contactWizard.budget.50k-100k' },
+  { value: '100k-plus', label: 'contactWizard.budget.100k-plus' },
+  { value: 'unsure', label: 'contactWizard.budget.unsure' },
+];
+
+export const EMPTY_CONTACT_FORM: Required<ContactFormValues> = {
+  name: '',
+  email: '',
+  company: '',
+  phone: '',
+  projectType: '',
+  timeline: '',
+  budget: '',
+  message: '',
+};
+
+/**
+ * Index of the first step showing one of the given fields, so server-side
+ * validation errors can send the visitor back to the right step
+ */
+export function getStepForFields(fields: string[]): number {
+  const index: number = CONTACT_WIZARD_STEPS.findIndex((step: ContactWizardStep) =>
+    step.fields.some((field: ContactFormField) => fields.includes(field))
+  );
+  return Math.max(index, 0);
+}
+
+// =========================== DRAFTS ===========================
+
+export interface ContactDraft {
+  values: Required<ContactFormValues>;
+  step: number;
+  savedAt: number;
+}
+
+export const CONTACT_DRAFT_KEY = 'contact_form_draft';
+export const CONTACT_DRAFT_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const contactDraftSchema = z.object({
+  version: z.literal(1),
+  values: z.record(z.unknown()),
+  step: z.number().int().min(0),
+  savedAt: z.number(),
+});
+
+export const isDraftEmpty = (values: ContactFormValues): boolean =>
+  Object.values(values).every((value: string | undefined) => !value?.trim());
+
+// Keep known string fields only, so drafts from older versions of the form cannot inject values
+const sanitizeValues = (values: Record<string, unknown>): Required<ContactFormValues> => {
+  const sanitized: Required<ContactFormValues> = { ...EMPTY_CONTACT_FORM };
+  (Object.keys(EMPTY_CONTACT_FORM) as ContactFormField[]).forEach((field: ContactFormField) => {
+    const value: unknown = values[field];
+    if (typeof value === 'string') (sanitized as Record<ContactFormField, string>)[field] = value;
+  });
+  return sanitized;
+};
+
+export function loadContactDraft(storage: Storage = localStorage, now: number = Date.now()): ContactDraft | null {
+  try {
+    const stored: string | null = storage.getItem(CONTACT_DRAFT_KEY);
+    if (!stored) return null;
+
+    const parsed = contactDraftSchema.safeParse(JSON.parse(stored));
+    if (!parsed.success || now - parsed.data.savedAt > CONTACT_DRAFT_MAX_AGE) {
+      storage.removeItem(CONTACT_DRAFT_KEY);
+      return null;
+    }
+
+    const values: Required<ContactFormValues> = sanitizeValues(parsed.data.values);
+    if (isDraftEmpty(values)) return null;
+
+    return {
+      values,
+      step: Math.min(parsed.data.step, CONTACT_WIZARD_STEPS.length - 1),
+      savedAt: parsed.data.savedAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveContactDraft(
+  values: ContactFormValues,
+  step: number,
+  storage: Storage = localStorage,
+  now: number = Date.now()
+): void {
+  try {
+    if (isDraftEmpty(values)) {
+      storage.removeItem(CONTACT_DRAFT_KEY);
+      return;
+    }
+
+    storage.setItem(CONTACT_DRAFT_KEY, JSON.stringify({ version: 1, values, step, savedAt: now }));
+  } catch {
+    // Storage full or disabled (private mode): autosave is best-effort
+  }
+}
+
+export function clearContactDraft(storage: Storage = localStorage): void {
+  try {
+    storage.removeItem(CONTACT_DRAFT_KEY);
+  } catch {
+    // Ignore, see saveContactDraft
+  }
+}
+
+// =========================== ESTIMATOR PREFILL ===========================
+
+/**
+ * Values to merge into the wizard for an estimate from ProjectEstimator: the
+ * matching project type and the quote summary appended to the message once
+ */
+export function getQuotePrefill(
+  values: ContactFormValues,
+  selection: QuoteSelection,
+  url: string
+): Partial<Record<ContactFormField, string>> | null {
+  const message: string = values.message ?? '';
+  if (message.includes(url)) return null;
+
+  const summary: string = `${formatQuoteSummary(calculateQuote(selection))}\nQuote: ${url}`;
+  const projectType: ContactFormValues['projectType'] = (PROJECT_TYPES as readonly string[]).includes(selection.projectType)
+    ? selection.projectType as ContactFormValues['projectType']
+    : undefined;
+
+  return {
+    ...(projectType && { projectType }),
+    message: [message.trim(), summary].filter(Boolean).join('\n\n'),
+  };
+}
@@ -1 +1,3 @@
 export { default as ContactSection } from './ContactSection';
+export { default as ContactWizard } from './ContactWizard';
+export { default as BookingDialog } from './BookingDialog';
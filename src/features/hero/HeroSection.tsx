@@ -2,9 +2,13 @@ import React, { useCallback, memo } from 'react';
 import { Button } from '@/shared/ui/button';
 import ParticleSystem from '@/shared/components/ParticleSystem';
 import { useAccessibilityContext } from '@/shared/components/AccessibilityProvider';
+import { Experiment, Variant } from '@/shared/components/Experiment';
+import analytics from '@/shared/services/analytics';
+import { useI18n } from '@/shared/hooks/useI18n';
 
 const HeroSection: React.FC = memo(() => {
   const { prefersReducedMotion } = useAccessibilityContext();
+  const { t, formatNumber } = useI18n();
   // Memoized scroll functions with accessibility improvements
   const scrollToContact = useCallback(() => {
     const element: HTMLElement | null = document.querySelector('#contact');
@@ -21,6 +25,11 @@ const HeroSection: React.FC = memo(() => {
     }
   }, [prefersReducedMotion]);
 
+  const handlePrimaryCta = useCallback((variant: string) => {
+    analytics.track('cta.click', { ctaId: 'hero-primary', variant });
+    scrollToContact();
+  }, [scrollToContact]);
+
   const scrollToServices = useCallback(() => {
     const element: HTMLElement | null = document.querySelector('#services');
     if (element) {
@@ -57,16 +66,16 @@ const HeroSection: React.FC = memo(() => {
             {/* Main headline with elegant serif typography */}
             <h1 id="hero-heading" className="mb-8 fade-in-up">
               <span className="block font-playfair italic text-6xl md:text-8xl lg:text-9xl font-light text-foreground leading-tight mb-2">
-                Everything
+                {t('hero.headline.first')}
               </span>
               <span className="block font-playfair italic text-6xl md:text-8xl lg:text-9xl font-light text-foreground leading-tight mb-4">
-                is changing.
+                {t('hero.headline.second')}
               </span>
               <span className="block font-inter text-xl md:text-2xl lg:text-3xl font-normal text-foreground/90 mt-8 leading-relaxed">
-                Your business needs to evolve.
+                {t('hero.tagline')}
               </span>
               <span className="sr-only">
-                Welcome to Optimum Solutions Group - We help businesses transform with technology.
+                {t('hero.welcome')}
               </span>
             </h1>
             
@@ -75,31 +84,48 @@ const HeroSection: React.FC = memo(() => {
               role="text"
               aria-describedby="hero-heading"
             >
-              Optimum Solutions Group helps ambitious businesses transform their operations with custom software, IoT systems, and digital solutions that drive real, measurable results.
+              {t('hero.intro')}
             </p>
 
             <div 
               className="flex flex-col sm:flex-row gap-6 justify-center items-center fade-in-up stagger-2"
               role="group"
-              aria-label="Call to action buttons"
+              aria-label={t('hero.ctaGroup')}
             >
-              <Button 
-                onClick={scrollToContact}
-                size="lg"
-                className="btn-hero text-lg px-12 py-6 h-auto font-medium tracking-wide"
-                aria-label="Start Your Transformation"
-              >
-                Start Your Transformation
-              </Button>
+              <Experiment id="hero-cta">
+                <Variant name="control">
+                  <Button 
+                    onClick={() => handlePrimaryCta('control')}
+                    data-heatmap-id="hero-primary"
+                    size="lg"
+                    className="btn-hero text-lg px-12 py-6 h-auto font-medium tracking-wide"
+                    aria-label={t('hero.cta.control')}
+                  >
+                    {t('hero.cta.control')}
+                  </Button>
+                </Variant>
+                <Variant name="free-consultation">
+                  <Button 
+                    onClick={() => handlePrimaryCta('free-consultation')}
+                    data-heatmap-id="hero-primary"
+                    size="lg"
+                    className="btn-hero text-lg px-12 py-6 h-auto font-medium tracking-wide"
+                    aria-label={t('hero.cta.consultation')}
+                  >
+                    {t('hero.cta.consultation')}
+                  </Button>
+                </Variant>
+              </Experiment>
               
               <Button 
                 onClick={scrollToServices}
+                data-heatmap-id="hero-explore"
                 variant="outline" 
                 size="lg"
                 className="text-lg px-12 py-6 h-auto border-foreground/20 text-foreground hover:bg-foreground/10 hover:border-foreground/40 backdrop-blur-sm font-medium tracking-wide"
-                aria-label="Explore Solutions"
+                aria-label={t('hero.explore')}
               >
-                Explore Solutions
+                {t('hero.explore')}
               </Button>
             </div>
 
@@ -107,36 +133,36 @@ const HeroSection: React.FC = memo(() => {
             <div 
               className="flex items-center justify-center gap-12 text-foreground/60 fade-in-up stagger-3 mt-16 text-sm font-light"
               role="group"
-              aria-label="Company achievements and statistics"
+              aria-label={t('hero.stats')}
             >
               <div className="text-center">
                 <div 
                   className="text-2xl font-playfair text-secondary mb-1"
-                  aria-label="Over 100 connected devices managed"
+                  aria-label={t('hero.stats.devicesLabel', { count: 100 })}
                 >
-                  100+
+                  {formatNumber(100)}+
                 </div>
-                <div>Connected Devices</div>
+                <div>{t('hero.stats.devices')}</div>
               </div>
               <div className="w-px h-8 bg-foreground/20" aria-hidden="true"></div>
               <div className="text-center">
                 <div 
                   className="text-2xl font-playfair text-secondary mb-1"
-                  aria-label="Over 50 successful projects completed"
+                  aria-label={t('hero.stats.projectsLabel', { count: 50 })}
                 >
-                  50+
+                  {formatNumber(50)}+
                 </div>
-                <div>Successful Projects</div>
+                <div>{t('hero.stats.projects')}</div>
               </div>
               <div className="w-px h-8 bg-foreground/20" aria-hidden="true"></div>
               <div className="text-center">
                 <div 
                   className="text-2xl font-playfair text-secondary mb-1"
-                  aria-label="3 times efficiency improvement on average"
+                  aria-label={t('hero.stats.efficiencyLabel', { factor: 3 })}
                 >
                   3x
                 </div>
-                <div>Efficiency Improvement</div>
+                <div>{t('hero.stats.efficiency')}</div>
               </div>
             </div>
           </div>
@@ -146,13 +172,13 @@ const HeroSection: React.FC = memo(() => {
       {/* Scroll indicator */}
       <div 
         className="absolute bottom-8 left-1/2 transform -translate-x-1/2 text-foreground/60 animate-bounce"
-        aria-label="Scroll down to continue"
+        aria-label={t('hero.scrollIndicator')}
         role="img"
       >
         <div className="w-6 h-10 border-2 border-foreground/30 rounded-full flex justify-center">
           <div className="w-1 h-3 bg-foreground/60 rounded-full mt-2"></div>
         </div>
-        <span className="sr-only">Scroll down for more content</span>
+        <span className="sr-only">{t('hero.scroll')}</span>
       </div>
     </section>
   );
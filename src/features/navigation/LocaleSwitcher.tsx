@@ -0,0 +1,49 @@
+/**
+ * Locale Switcher
+ *
+ * Moves the visitor to the same page in another language and remembers the
+ * choice, so unprefixed links land in that language next time
+ */
+
+import { memo, useCallback } from 'react';
+import { Globe } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useI18n } from '@/shared/hooks/useI18n';
+import { LOCALE_CONFIG, SUPPORTED_LOCALES, localizePath, storeLocale, type Locale } from '@/shared/i18n';
+
+const LocaleSwitcher = memo(({ className = '' }: { className?: string }) => {
+  const { locale, t } = useI18n();
+  const { pathname, search, hash } = useLocation();
+  const navigate = useNavigate();
+
+  const switchLocale = useCallback((next: Locale) => {
+    if (next === locale) return;
+    storeLocale(next);
+    navigate(localizePath(`${pathname}${search}${hash}`, next));
+  }, [locale, pathname, search, hash, navigate]);
+
+  return (
+    <div className={`flex items-center gap-1 ${className}`} role="group" aria-label={t('nav.language')}>
+      <Globe size={16} className="text-muted-foreground" aria-hidden="true" />
+      {SUPPORTED_LOCALES.map((option: Locale) => (
+        <button
+          key={option}
+          type="button"
+          lang={LOCALE_CONFIG[option].intlLocale}
+          onClick={() => switchLocale(option)}
+          className={`px-2 py-1 text-sm font-medium uppercase rounded-sm transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${
+            option === locale ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+          }`}
+          aria-pressed={option === locale}
+          aria-label={LOCALE_CONFIG[option].nativeName}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+});
+
+LocaleSwitcher.displayName = 'LocaleSwitcher';
+
+export default LocaleSwitcher;
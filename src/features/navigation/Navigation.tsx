@@ -1,13 +1,18 @@
 import { useState, useEffect, useCallback, useMemo, memo, useRef } from 'react';
 import { Button } from '@/shared/ui/button';
 import { Menu, X } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useAccessibilityContext } from '@/shared/components/AccessibilityProvider';
+import { useI18n } from '@/shared/hooks/useI18n';
+import LocaleSwitcher from './LocaleSwitcher';
 
 const Navigation = memo(() => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
   const navRef = useRef<HTMLElement>(null);
   const mobileMenuRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+  const { t, localizePath } = useI18n();
   
   // Accessibility context
   const { prefersReducedMotion } = useAccessibilityContext();
@@ -30,13 +35,13 @@ const Navigation = memo(() => {
 
   // Memoized navigation items to prevent re-creation on every render
   const navItems = useMemo(() => [
-    { label: 'About', href: '#about' },
-    { label: 'Services', href: '#services' },
-    { label: 'IoT Solutions', href: '#iot' },
-    { label: 'Portfolio', href: '#portfolio' },
-    { label: 'FAQ', href: '#faq' },
-    { label: 'Contact', href: '#contact' },
-  ], []);
+    { label: t('nav.about'), href: '#about' },
+    { label: t('nav.services'), href: '#services' },
+    { label: t('nav.iot'), href: '#iot' },
+    { label: t('nav.portfolio'), href: '#portfolio' },
+    { label: t('nav.faq'), href: '#faq' },
+    { label: t('nav.contact'), href: '#contact' },
+  ], [t]);
 
   // Memoized scroll function with accessibility announcements
   const scrollToSection = useCallback((href: string, sectionName?: string) => {
@@ -56,9 +61,12 @@ const Navigation = memo(() => {
       if (sectionName) {
         announcePolite(`Navigated to ${sectionName} section`);
       }
+    } else {
+      // Section lives on the home page; navigate there and let it scroll into view
+      navigate({ pathname: localizePath('/'), hash: href });
     }
     setIsMenuOpen(false);
-  }, [prefersReducedMotion, announcePolite]);
+  }, [prefersReducedMotion, announcePolite, navigate, localizePath]);
 
   // Memoized toggle function with accessibility features
   const toggleMenu = useCallback(() => {
@@ -118,7 +126,7 @@ const Navigation = memo(() => {
       className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${
         isScrolled ? 'bg-background/95 backdrop-blur-md shadow-md' : 'bg-transparent'
       }`}
-      aria-label="Main navigation"
+      aria-label={t('nav.label')}
       role="navigation"
     >
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -154,18 +162,19 @@ const Navigation = memo(() => {
                 onClick={() => scrollToSection(item.href, item.label)}
                 className="text-foreground hover:text-primary transition-colors duration-200 font-medium focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded-sm px-2 py-1"
                 tabIndex={0}
-                aria-label={`Navigate to ${item.label} section`}
+                aria-label={t('nav.sectionLabel', { section: item.label })}
               >
                 {item.label}
               </button>
             ))}
             <Button 
-              onClick={() => scrollToSection('#contact', 'Contact')}
+              onClick={() => scrollToSection('#contact', t('nav.contact'))}
               className="btn-hero"
-              aria-label="Get free consultation - navigate to contact section"
+              aria-label={t('nav.ctaLabel')}
             >
-              Get Free Consultation
+              {t('nav.cta')}
             </Button>
+            <LocaleSwitcher />
           </div>
 
           {/* Mobile Menu Button */}
@@ -174,10 +183,10 @@ const Navigation = memo(() => {
             onClick={toggleMenu}
             aria-expanded={isMenuOpen}
             aria-controls="mobile-menu"
-            aria-label={isMenuOpen ? 'Close navigation menu' : 'Open navigation menu'}
+            aria-label={isMenuOpen ? t('nav.closeMenu') : t('nav.openMenu')}
           >
             <span className="sr-only">
-              {isMenuOpen ? 'Close menu' : 'Open menu'}
+              {isMenuOpen ? t('nav.closeMenu') : t('nav.openMenu')}
             </span>
             {isMenuOpen ? 
               <X size={24} aria-hidden="true" /> : 
@@ -203,18 +212,19 @@ const Navigation = memo(() => {
                   className="text-left text-foreground hover:text-primary transition-colors duration-200 font-medium py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
                   role="menuitem"
                   tabIndex={0}
-                  aria-label={`Navigate to ${item.label} section`}
+                  aria-label={t('nav.sectionLabel', { section: item.label })}
                 >
                   {item.label}
                 </button>
               ))}
               <Button 
-                onClick={() => scrollToSection('#contact', 'Contact')}
+                onClick={() => scrollToSection('#contact', t('nav.contact'))}
                 className="btn-hero w-full mt-4"
-                aria-label="Get free consultation - navigate to contact section"
+                aria-label={t('nav.ctaLabel')}
               >
-                Get Free Consultation
+                {t('nav.cta')}
               </Button>
+              <LocaleSwitcher className="px-4" />
             </div>
           </div>
         )}
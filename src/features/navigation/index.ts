@@ -1 +1,2 @@
 export { default as Navigation } from './Navigation';
+export { default as LocaleSwitcher } from './LocaleSwitcher';
@@ -0,0 +1,87 @@
+/**
+ * Case Study Card
+ *
+ * Portfolio project summary with key results and technologies,
+ * linking through to the full case study page
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, Clock, TrendingUp, Users } from 'lucide-react';
+import { Button } from '@/shared/ui/button';
+import type { PortfolioItem } from '@/content';
+import { useI18n } from '@/shared/hooks/useI18n';
+import { getCaseStudyPath } from './caseStudies';
+
+interface CaseStudyCardProps {
+  project: PortfolioItem;
+  headingLevel?: 'h2' | 'h3';
+}
+
+const CaseStudyCard: React.FC<CaseStudyCardProps> = ({ project, headingLevel: Heading = 'h3' }) => {
+  const { t, localizePath } = useI18n();
+
+  return (
+    <article className="flex flex-col bg-card rounded-2xl border border-border p-8 hover:shadow-lg transition-all duration-300 hover:-translate-y-2">
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-sm font-medium text-primary bg-primary/10 px-3 py-1 rounded-full">
+            {project.category}
+          </span>
+          <div className="flex items-center gap-1 text-sm text-muted-foreground">
+            <Clock className="h-4 w-4" aria-hidden="true" />
+            {project.timeline}
+          </div>
+        </div>
+        <Heading className="text-xl font-semibold text-foreground mb-2">{project.title}</Heading>
+        <p className="text-sm text-muted-foreground mb-4">{project.client}</p>
+        <p className="text-muted-foreground leading-relaxed">{project.description}</p>
+      </div>
+
+      <div className="space-y-4 mb-6">
+        <div>
+          <p className="font-medium text-foreground mb-2 flex items-center gap-2">
+            <TrendingUp className="h-4 w-4 text-secondary" aria-hidden="true" />
+            {t('portfolio.card.results')}
+          </p>
+          <ul className="space-y-1">
+            {project.results.map((result: string) => (
+              <li key={result} className="flex items-center gap-2 text-sm">
+                <div className="w-1.5 h-1.5 bg-secondary rounded-full" aria-hidden="true"></div>
+                <span className="text-muted-foreground">{result}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <p className="font-medium text-foreground mb-2 flex items-center gap-2">
+            <Users className="h-4 w-4 text-primary" aria-hidden="true" />
+            {t('portfolio.card.technologies')}
+          </p>
+          <ul className="flex flex-wrap gap-2">
+            {project.technologies.map((tech: string) => (
+              <li key={tech} className="text-xs bg-muted text-muted-foreground px-2 py-1 rounded">
+                {tech}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <Button
+        asChild
+        variant="outline"
+        className="mt-auto w-full hover:bg-primary hover:text-primary-foreground hover:border-primary transition-all duration-300"
+      >
+        <Link to={localizePath(getCaseStudyPath(project.slug))} data-heatmap-id={`case-study-${project.slug}`}>
+          {t('portfolio.card.read')}
+          <ArrowRight className="ml-2 h-4 w-4" aria-hidden="true" />
+          <span className="sr-only">: {project.title}</span>
+        </Link>
+      </Button>
+    </article>
+  );
+};
+
+export default CaseStudyCard;
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Case Studies
+ * @description Portfolio filters, related projects and CreativeWork structured data for the case study pages
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import type { CollectionPage, CreativeWork, WithContext } from 'schema-dts';
+import type { PortfolioItem } from '@/content';
+import { SEO_CONFIG } from '@/shared/utils/seo';
+import { ROUTES, buildPath } from '@/routing/manifest';
+
+// =========================== FILTERS ===========================
+
+export interface PortfolioFilters {
+  category: string | null;
+  technology: string | null;
+}
+
+export interface PortfolioFacets {
+  categories: string[];
+  technologies: string[];
+}
+
+/** Query parameter names, kept short so filtered views are easy to share */
+export const PORTFOLIO_FILTER_PARAMS: Record<keyof PortfolioFilters, string> = {
+  category: 'category',
+  technology: 'tech',
+};
+
+export const PORTFOLIO_PATH: string = ROUTES.portfolio.path;
+
+export const getCaseStudyPath = (slug: string): string => buildPath(ROUTES.caseStudy.path, { slug });
+
+export function getPortfolioFacets(items: PortfolioItem[]): PortfolioFacets {
+  return {
+    categories: [...new Set(items.map((item: PortfolioItem) => item.category))].sort(),
+    technologies: [...new Set(items.flatMap((item: PortfolioItem) => item.technologies))].sort(),
+  };
+}
+
+/** Read filters from the URL, dropping values that no longer match any project */
+export function parsePortfolioFilters(params: URLSearchParams, facets: PortfolioFacets): PortfolioFilters {
+  const category: string | null = params.get(PORTFOLIO_FILTER_PARAMS.category);
+  const technology: string | null = params.get(PORTFOLIO_FILTER_PARAMS.technology);
+
+  return {
+    category: category && facets.categories.includes(category) ? category : null,
+    technology: technology && facets.technologies.includes(technology) ? technology : null,
+  };
+}
+
+export function filterPortfolioItems(items: PortfolioItem[], filters: PortfolioFilters): PortfolioItem[] {
+  return items.filter((item: PortfolioItem) =>
+    (!filters.category || item.category === filters.category) &&
+    (!filters.technology || item.technologies.includes(filters.technology))
+  );
+}
+
+// =========================== RELATED PROJECTS ===========================
+
+const countShared = (a: string[], b: string[]): number => a.filter((value: string) => b.includes(value)).length;
+
+/**
+ * Rank other projects by overlap with this one: same category counts most,
+ * then shared tags and technologies; ties go to the most recent project
+ */
+export function getRelatedPortfolioItems(item: PortfolioItem, items: PortfolioItem[], limit: number = 3): PortfolioItem[] {
+  const score = (other: PortfolioItem): number =>
+    (other.category === item.category ? 3 : 0) +
+    (other.industry === item.industry ? 2 : 0) +
+    countShared(other.tags, item.tags) +
+    countShared(other.technologies, item.technologies);
+
+  return items
+    .filter((other: PortfolioItem) => other.slug !== item.slug)
+    .map((other: PortfolioItem) => ({ other, score: score(other) }))
+    .sort((a, b) => b.score - a.score || b.other.publishedAt.localeCompare(a.other.publishedAt))
+    .slice(0, limit)
+    .map(({ other }) => other);
+}
+
+// =========================== STRUCTURED DATA ===========================
+
+const toAbsoluteUrl = (path: string, origin: string): string => new URL(path, origin).toString();
+
+const unlocalized = (path: string): string => path;
+
+/**
+ * `resolveImage` maps content image references to served URLs (see resolveContentImage);
+ * `localizePath` points page URLs at the visitor's locale
+ */
+export function createCaseStudyStructuredData(
+  item: PortfolioItem,
+  origin: string,
+  resolveImage: (src: string) => string,
+  localizePath: (path: string) => string = unlocalized
+): WithContext<CreativeWork> {
+  const images: string[] = [item.cover, ...item.gallery]
+    .filter((image): image is NonNullable<typeof image> => Boolean(image))
+    .map((image) => toAbsoluteUrl(resolveImage(image.src), origin));
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'CreativeWork',
+    name: item.title,
+    headline: `${item.title} for ${item.client}`,
+    description: item.description,
+    url: toAbsoluteUrl(localizePath(getCaseStudyPath(item.slug)), origin),
+    datePublished: item.publishedAt,
+    genre: item.category,
+    keywords: [...item.tags, ...item.technologies].join(', '),
+    ...(images.length > 0 && { image: images }),
+    ...(item.caseStudy && { abstract: item.caseStudy.outcome }),
+    about: { '@type': 'Thing', name: item.industry },
+    funder: { '@type': 'Organization', name: item.client },
+    creator: { '@type': 'Organization', name: SEO_CONFIG.siteName, url: origin },
+  };
+}
+
+export function createPortfolioStructuredData(
+  items: PortfolioItem[],
+  origin: string,
+  name: string = `Case Studies | ${SEO_CONFIG.siteName}`,
+  localizePath: (path: string) => string = unlocalized
+): WithContext<CollectionPage> {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'CollectionPage',
+    name,
+    url: toAbsoluteUrl(localizePath(PORTFOLIO_PATH), origin),
+    hasPart: items.map((item: PortfolioItem) => ({
+      '@type': 'CreativeWork',
+      name: item.title,
+      url: toAbsoluteUrl(localizePath(getCaseStudyPath(item.slug)), origin),
+      genre: item.category,
+    })),
+  };
+}
@@ -1 +1,2 @@
 export { default as PortfolioSection } from './PortfolioSection';
+export { default as CaseStudyCard } from './CaseStudyCard';
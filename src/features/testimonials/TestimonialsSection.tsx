@@ -1,83 +1,37 @@
 import { Star, Quote } from 'lucide-react';
+import { getTestimonials, type Testimonial } from '@/content';
+import { useI18n } from '@/shared/hooks/useI18n';
 
 const TestimonialsSection = () => {
-  const testimonials = [
-    {
-      name: "Sarah Johnson",
-      role: "CEO, GreenLeaf Consulting",
-      company: "Marketing Agency",
-      rating: 5,
-      testimonial: "Optimum Solutions Group transformed our entire client management process. What used to take hours now takes minutes, and our team productivity has increased by 60%. The custom CRM they built fits our workflow perfectly.",
-      result: "60% increase in productivity"
-    },
-    {
-      name: "Michael Chen",
-      role: "Operations Manager, TechStart Inc",
-      company: "SaaS Startup", 
-      rating: 5,
-      testimonial: "The workflow automation platform they created eliminated our biggest bottleneck. We went from manually processing 50 orders per day to automatically handling 500+ without adding staff.",
-      result: "10x processing capacity"
-    },
-    {
-      name: "Lisa Rodriguez",
-      role: "Founder, Artisan Crafts Co",
-      company: "E-commerce Business",
-      rating: 5,
-      testimonial: "Their team management platform helped us coordinate our remote team across 3 time zones. Project delivery times improved by 40% and client satisfaction scores hit an all-time high.",
-      result: "40% faster delivery"
-    },
-    {
-      name: "David Park",
-      role: "Director, HealthFirst Clinic",
-      company: "Healthcare Practice",
-      rating: 5,
-      testimonial: "The patient management system streamlined our entire practice. Appointment scheduling, records management, and billing are now seamless. Our staff loves how intuitive it is.",
-      result: "50% reduction in admin time"
-    },
-    {
-      name: "Amanda Williams",
-      role: "COO, BuildRight Construction",
-      company: "Construction Company",
-      rating: 5,
-      testimonial: "The project tracking dashboard gives us real-time visibility into all our job sites. We can spot issues before they become problems and keep clients informed every step of the way.",
-      result: "25% fewer project delays"
-    },
-    {
-      name: "James Thompson",
-      role: "Owner, FreshMart Grocery",
-      company: "Retail Chain",
-      rating: 5,
-      testimonial: "Their inventory management system revolutionized our supply chain. We reduced waste by 30% and never run out of popular items. The ROI was clear within 3 months.",
-      result: "30% reduction in waste"
-    }
-  ];
+  const { t, locale } = useI18n();
+  const testimonials: Testimonial[] = getTestimonials({ featured: true, locale });
 
   return (
     <section id="testimonials" className="section-padding bg-gradient-subtle">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="text-center mb-20">
           <h2 className="font-playfair italic text-5xl md:text-6xl lg:text-7xl font-light text-foreground mb-6 leading-tight">
-            Real businesses.{' '}
-            <span className="text-primary">Real results.</span>
+            {t('testimonials.title')}{' '}
+            <span className="text-primary">{t('testimonials.titleAccent')}</span>
           </h2>
           <p className="text-xl text-muted-foreground max-w-4xl mx-auto font-light leading-relaxed">
-            Discover how forward-thinking companies have transformed their operations and achieved measurable growth with our tailored solutions.
+            {t('testimonials.intro')}
           </p>
         </div>
 
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8 mb-16">
-          {testimonials.map((testimonial, index) => (
-            <div key={index} className="testimonial-card">
-              <div className="flex items-center gap-1 mb-4">
+          {testimonials.map((testimonial: Testimonial) => (
+            <div key={testimonial.id} className="testimonial-card">
+              <div className="flex items-center gap-1 mb-4" role="img" aria-label={t('testimonials.rating', { rating: testimonial.rating })}>
                 {[...Array(testimonial.rating)].map((_, i) => (
-                  <Star key={i} className="h-5 w-5 fill-yellow-400 text-yellow-400" />
+                  <Star key={i} className="h-5 w-5 fill-yellow-400 text-yellow-400" aria-hidden="true" />
                 ))}
               </div>
 
               <div className="relative mb-6">
                 <Quote className="h-8 w-8 text-primary/20 absolute -top-2 -left-2" />
                 <p className="text-foreground leading-relaxed pl-6">
-                  "{testimonial.testimonial}"
+                  "{testimonial.quote}"
                 </p>
               </div>
 
@@ -99,10 +53,10 @@ const TestimonialsSection = () => {
 
         <div className="bg-primary p-12 rounded-3xl text-center text-primary-foreground">
           <h4 className="text-3xl font-bold mb-4">
-            Ready to Join Our Success Stories?
+            {t('testimonials.cta.title')}
           </h4>
           <p className="text-xl text-primary-foreground font-light mb-8 max-w-2xl mx-auto">
-            Every great digital transformation starts with a conversation. Let's discuss how we can help your business achieve similar results.
+            {t('testimonials.cta.body')}
           </p>
           <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
             <div className="flex items-center gap-2">
@@ -111,12 +65,12 @@ const TestimonialsSection = () => {
                   <div key={i} className="w-10 h-10 bg-primary-foreground/20 rounded-full border-2 border-primary-foreground"></div>
                 ))}
               </div>
-              <span className="text-primary-foreground font-medium">Join 50+ happy clients</span>
+              <span className="text-primary-foreground font-medium">{t('testimonials.cta.clients', { count: 50 })}</span>
             </div>
             <div className="text-primary-foreground font-bold">•</div>
-            <div className="text-primary-foreground font-medium">Free consultation</div>
+            <div className="text-primary-foreground font-medium">{t('testimonials.cta.consultation')}</div>
             <div className="text-primary-foreground font-bold">•</div>
-            <div className="text-primary-foreground font-medium">No commitments</div>
+            <div className="text-primary-foreground font-medium">{t('testimonials.cta.commitment')}</div>
           </div>
         </div>
       </div>
@@ -4,12 +4,19 @@ import App from "./App";
 import "./index.css";
 import "./shared/styles/accessibility.css";
 import { serviceWorkerManager } from "./shared/utils/serviceWorkerManager";
+import { sessionRecorder } from "./shared/services/sessionRecorder";
+import { PRERENDERED_ATTRIBUTE, normalizePagePath } from "./routing/prerender";
 
 // Ensure DOM is ready before initializing React
 const initializeApp = () => {
   // Performance optimization: Register service worker after initial render
   serviceWorkerManager.register();
 
+  // Opt-in interaction timeline for error reports (always on in development)
+  if (import.meta.env.DEV || import.meta.env['VITE_SESSION_RECORDER'] === 'true') {
+    sessionRecorder.start();
+  }
+
   // Accessibility enhancement: Initialize focus management
   // Add keyboard navigation class detection
   document.addEventListener('keydown', (e) => {
@@ -40,12 +47,20 @@ const initializeApp = () => {
   }
 
   try {
-    const root = ReactDOM.createRoot(rootElement);
-    root.render(
+    const app = (
       <React.StrictMode>
         <App />
       </React.StrictMode>
     );
+
+    // Prerendered pages already hold the markup: hydrate it. Hosts fall back to the home page's HTML
+    // for routes that were not prerendered, so only hydrate when the markup is for this path
+    const prerenderedPath = rootElement.getAttribute(PRERENDERED_ATTRIBUTE);
+    if (prerenderedPath !== null && prerenderedPath === normalizePagePath(window.location.pathname)) {
+      ReactDOM.hydrateRoot(rootElement, app);
+    } else {
+      ReactDOM.createRoot(rootElement).render(app);
+    }
   } catch (error) {
     console.error('Failed to initialize React app:', error);
   }
@@ -0,0 +1,251 @@
+/**
+ * Case Study Page
+ *
+ * Full write-up of a portfolio project: challenge, solution, results,
+ * gallery, client quote and related projects, with CreativeWork structured data
+ */
+
+import React, { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, Clock, Quote } from 'lucide-react';
+import { Button } from '@/shared/ui/button';
+import Navigation from '@/features/navigation/Navigation';
+import LazyImage from '@/shared/components/LazyImage';
+import Head from '@/shared/components/Head';
+import { useAnalytics } from '@/shared/hooks/useAnalytics';
+import { useI18n } from '@/shared/hooks/useI18n';
+import {
+  getPortfolioItem,
+  getPortfolioItems,
+  getTestimonials,
+  type ContentImage,
+  type PortfolioItem,
+  type Testimonial,
+} from '@/content';
+import { resolveContentImage } from '@/content/images';
+import { SEO_CONFIG } from '@/shared/utils/seo';
+import CaseStudyCard from '@/features/portfolio/CaseStudyCard';
+import {
+  PORTFOLIO_FILTER_PARAMS,
+  PORTFOLIO_PATH,
+  createCaseStudyStructuredData,
+  getCaseStudyPath,
+  getRelatedPortfolioItems,
+} from '@/features/portfolio/caseStudies';
+import NotFound from './NotFound';
+
+const CaseStudyPage: React.FC = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const { t, locale, localizePath } = useI18n();
+  const project: PortfolioItem | undefined = getPortfolioItem(slug, locale);
+
+  useAnalytics({
+    pageTitle: project ? `${project.title} - Case Study` : 'Case Study Not Found',
+    pageCategory: 'portfolio',
+    trackPageViews: true,
+    trackScrollDepth: true,
+  });
+
+  const related: PortfolioItem[] = useMemo(
+    () => (project ? getRelatedPortfolioItems(project, getPortfolioItems({ locale })) : []),
+    [project, locale]
+  );
+  const structuredData = useMemo(
+    () => (project
+      ? createCaseStudyStructuredData(project, SEO_CONFIG.siteUrl, resolveContentImage, localizePath)
+      : undefined),
+    [project, localizePath]
+  );
+
+  if (!project || !structuredData) return <NotFound />;
+
+  const testimonial: Testimonial | undefined = getTestimonials({ locale }).find((entry: Testimonial) => entry.project === project.slug);
+  const storySections: [string, string][] = project.caseStudy
+    ? [
+      [t('caseStudy.challenge'), project.caseStudy.challenge],
+      [t('caseStudy.solution'), project.caseStudy.solution],
+      [t('caseStudy.outcome'), project.caseStudy.outcome],
+    ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Head
+        title={t('caseStudy.seo.title', { title: project.title, client: project.client })}
+        description={project.description}
+        keywords={[project.category.toLowerCase(), project.industry.toLowerCase(), ...project.tags, ...project.technologies]}
+        canonicalUrl={`${SEO_CONFIG.siteUrl}${localizePath(getCaseStudyPath(project.slug))}`}
+        {...(project.cover && { image: new URL(resolveContentImage(project.cover.src), SEO_CONFIG.siteUrl).toString() })}
+        structuredData={{ caseStudy: structuredData }}
+        localized
+      />
+      <Navigation />
+
+      <main id="main">
+        <article>
+          <header className="bg-gradient-subtle section-padding">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 grid lg:grid-cols-2 gap-12 items-center">
+              <div>
+                <Button variant="ghost" asChild className="mb-6 -ml-4">
+                  <Link to={localizePath(PORTFOLIO_PATH)}>
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    {t('caseStudy.back')}
+                  </Link>
+                </Button>
+                <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+                  <Link
+                    to={localizePath(`${PORTFOLIO_PATH}?${PORTFOLIO_FILTER_PARAMS.category}=${encodeURIComponent(project.category)}`)}
+                    className="font-medium text-primary bg-primary/10 px-3 py-1 rounded-full hover:bg-primary/20"
+                  >
+                    {project.category}
+                  </Link>
+                  <span className="text-muted-foreground">{project.industry}</span>
+                  <span className="flex items-center gap-1 text-muted-foreground">
+                    <Clock className="h-4 w-4" aria-hidden="true" />
+                    {project.timeline}
+                  </span>
+                </div>
+                <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-3">{project.title}</h1>
+                <p className="text-lg text-muted-foreground mb-4">{project.client}</p>
+                <p className="text-lg text-muted-foreground leading-relaxed">{project.description}</p>
+              </div>
+              {project.cover && (
+                <LazyImage
+                  src={resolveContentImage(project.cover.src)}
+                  alt={project.cover.alt}
+                  className="rounded-2xl shadow-2xl"
+                  loading="eager"
+                  fetchPriority="high"
+                  width={600}
+                  height={400}
+                />
+              )}
+            </div>
+          </header>
+
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 section-padding space-y-16">
+            {project.metrics ? (
+              <section aria-labelledby="results-heading">
+                <h2 id="results-heading" className="sr-only">{t('caseStudy.resultsSummary')}</h2>
+                <dl className="grid sm:grid-cols-3 gap-6">
+                  {project.metrics.map((metric) => (
+                    <div key={metric.label} className="flex flex-col-reverse bg-card rounded-xl border border-border p-6 text-center">
+                      <dt className="text-sm text-muted-foreground">{metric.label}</dt>
+                      <dd className="text-3xl font-bold text-secondary">{metric.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </section>
+            ) : (
+              <section aria-labelledby="results-heading">
+                <h2 id="results-heading" className="text-2xl font-semibold text-foreground mb-4">{t('caseStudy.results')}</h2>
+                <ul className="grid sm:grid-cols-3 gap-6">
+                  {project.results.map((result: string) => (
+                    <li key={result} className="bg-card rounded-xl border border-border p-6 text-center font-semibold text-secondary">
+                      {result}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {storySections.map(([heading, body]) => (
+              <section key={heading}>
+                <h2 className="text-2xl font-semibold text-foreground mb-4">{heading}</h2>
+                <p className="text-lg text-muted-foreground leading-relaxed">{body}</p>
+              </section>
+            ))}
+
+            {project.metrics && (
+              <section>
+                <h2 className="text-2xl font-semibold text-foreground mb-4">{t('caseStudy.results')}</h2>
+                <ul className="list-disc pl-6 space-y-2 text-muted-foreground">
+                  {project.results.map((result: string) => <li key={result}>{result}</li>)}
+                </ul>
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-2xl font-semibold text-foreground mb-4">{t('caseStudy.technologies')}</h2>
+              <ul className="flex flex-wrap gap-2">
+                {project.technologies.map((technology: string) => (
+                  <li key={technology}>
+                    <Link
+                      to={localizePath(`${PORTFOLIO_PATH}?${PORTFOLIO_FILTER_PARAMS.technology}=${encodeURIComponent(technology)}`)}
+                      className="inline-block text-sm bg-muted text-muted-foreground px-3 py-1 rounded hover:text-foreground"
+                    >
+                      {technology}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            {project.gallery.length > 0 && (
+              <section>
+                <h2 className="text-2xl font-semibold text-foreground mb-4">{t('caseStudy.gallery')}</h2>
+                <div className="grid md:grid-cols-2 gap-6">
+                  {project.gallery.map((image: ContentImage) => (
+                    <figure key={`${image.src}-${image.alt}`} className="space-y-2">
+                      <LazyImage
+                        src={resolveContentImage(image.src)}
+                        alt={image.alt}
+                        className="rounded-xl border border-border"
+                        width={600}
+                        height={400}
+                      />
+                      {image.caption && (
+                        <figcaption className="text-sm text-muted-foreground">{image.caption}</figcaption>
+                      )}
+                    </figure>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {testimonial && (
+              <figure className="testimonial-card">
+                <blockquote className="relative">
+                  <Quote className="h-8 w-8 text-primary/20 absolute -top-2 -left-2" aria-hidden="true" />
+                  <p className="text-lg text-foreground leading-relaxed pl-6">"{testimonial.quote}"</p>
+                </blockquote>
+                <figcaption className="border-t border-border pt-4 mt-6">
+                  <span className="font-semibold text-foreground">{testimonial.name}</span>
+                  <span className="block text-sm text-muted-foreground">{testimonial.role}</span>
+                </figcaption>
+              </figure>
+            )}
+
+            <section className="text-center bg-gradient-subtle p-8 rounded-2xl">
+              <h2 className="text-2xl font-bold text-foreground mb-3">{t('caseStudy.cta.title')}</h2>
+              <p className="text-lg text-muted-foreground mb-6 max-w-xl mx-auto">
+                {t('caseStudy.cta.body')}
+              </p>
+              <Button asChild className="btn-hero">
+                <Link to={localizePath('/#contact')} data-heatmap-id={`case-study-cta-${project.slug}`}>
+                  {t('caseStudy.cta.button')}
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </Link>
+              </Button>
+            </section>
+          </div>
+        </article>
+
+        {related.length > 0 && (
+          <section aria-labelledby="related-heading" className="bg-muted/40 section-padding">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+              <h2 id="related-heading" className="text-3xl font-bold text-foreground mb-8">{t('caseStudy.related')}</h2>
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+                {related.map((item: PortfolioItem) => (
+                  <CaseStudyCard key={item.slug} project={item} />
+                ))}
+              </div>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CaseStudyPage;
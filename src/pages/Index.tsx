@@ -6,15 +6,16 @@ import AboutSection from '@/features/about/AboutSection';
 import CustomCursor from '@/shared/components/CustomCursor';
 import { LoadingScreen } from '@/shared/components/LoadingScreen';
 import { usePageLoad } from '@/shared/components/LoadingScreen';
-import SEOHead from '@/shared/components/SEOHead';
-import { HelmetProvider } from 'react-helmet-async';
-import { generateStructuredData } from '@/shared/utils/seo';
+import Head from '@/shared/components/Head';
+import { generateStructuredData, SEO_CONFIG } from '@/shared/utils/seo';
 import { PageTitleAnnouncer } from '@/shared/components/AccessibilityProvider';
 import AccessibilityEnhancements from '@/shared/components/AccessibilityEnhancements';
 import HighContrastModeToggle from '@/shared/components/HighContrastModeToggle';
 import ResourcePreloader from '@/shared/components/ResourcePreloader';
 // Import analytics hook
 import { useAnalytics } from '@/shared/hooks/useAnalytics';
+import useHashScroll from '@/shared/hooks/useHashScroll';
+import { useI18n } from '@/shared/hooks/useI18n';
 // Import PWA install prompt
 import PWAInstallPrompt from '@/shared/components/PWAInstallPrompt';
 
@@ -80,6 +81,7 @@ const SectionFallback = () => (
 
 const Index = () => {
   const isLoading = usePageLoad();
+  const { t } = useI18n();
 
   // Simplified analytics tracking
   useAnalytics({
@@ -88,95 +90,99 @@ const Index = () => {
     trackPageViews: true,
   });
 
+  // Links like /#contact from other pages land on their section once it renders
+  useHashScroll(!isLoading);
+
   if (isLoading) {
     return <LoadingScreen />;
   }
 
   return (
-    <HelmetProvider>
-      <AccessibilityEnhancements>
-        <SEOHead
-          title="Optimum Solutions Group - Digital Transformation & IoT Solutions"
-          description="Transform your business with custom software, IoT systems, and digital solutions. We help ambitious businesses drive real, measurable results through innovative technology."
-          keywords={['digital transformation', 'IoT solutions', 'custom software', 'business automation', 'web development', 'mobile apps']}
-          structuredData={generateStructuredData({
+    <AccessibilityEnhancements>
+      <Head
+        title={t('home.seo.title')}
+        description={t('home.seo.description')}
+        keywords={['digital transformation', 'IoT solutions', 'custom software', 'business automation', 'web development', 'mobile apps']}
+        structuredData={{
+          website: generateStructuredData({
             siteName: "Optimum Solutions Group",
-            url: typeof window !== 'undefined' ? window.location.origin : ''
-          })}
-        />
-        <ResourcePreloader
-          criticalResources={[
-            '/fonts/playfair-display.woff2',
-            '/fonts/inter.woff2'
-          ]}
-          prefetchResources={[
-            '/images/hero-bg.jpg',
-            '/images/about-section.jpg',
-            '/images/services-bg.jpg'
-          ]}
+            url: SEO_CONFIG.siteUrl
+          }),
+        }}
+        localized
+      />
+      <ResourcePreloader
+        criticalResources={[
+          '/fonts/playfair-display.woff2',
+          '/fonts/inter.woff2'
+        ]}
+        prefetchResources={[
+          '/images/hero-bg.jpg',
+          '/images/about-section.jpg',
+          '/images/services-bg.jpg'
+        ]}
+      />
+      <PageTitleAnnouncer title={t('home.seo.title')} />
+      <CustomCursor />
+      <HighContrastModeToggle />
+      
+      <div className="min-h-screen">
+        <Navigation />
+        <HeroSection />
+        
+        {/* PWA Install Prompt - Banner after hero */}
+        <PWAInstallPrompt 
+          variant="banner"
+          autoShow={true}
+          showDelay={5000}
+          hideAfterInstall={true}
+          className="sticky top-0 z-40"
         />
-        <PageTitleAnnouncer title="Optimum Solutions Group - Digital Transformation & IoT Solutions" />
-        <CustomCursor />
-        <HighContrastModeToggle />
         
-        <div className="min-h-screen">
-          <Navigation />
-          <HeroSection />
+        {/* Main content area with proper landmark structure */}
+        <main id="main" role="main" tabIndex={-1}>
+          <AboutSection />
+          
+          <Suspense fallback={<SectionFallback />}>
+            <ServicesSection />
+          </Suspense>
+          
+          <Suspense fallback={<SectionFallback />}>
+            <IoTSection />
+          </Suspense>
           
-          {/* PWA Install Prompt - Banner after hero */}
-          <PWAInstallPrompt 
-            variant="banner"
-            autoShow={true}
-            showDelay={5000}
-            hideAfterInstall={true}
-            className="sticky top-0 z-40"
-          />
+          <Suspense fallback={<SectionFallback />}>
+            <ProjectEstimator />
+          </Suspense>
           
-          {/* Main content area with proper landmark structure */}
-          <main id="main" role="main" tabIndex={-1}>
-            <AboutSection />
-            
-            <Suspense fallback={<SectionFallback />}>
-              <ServicesSection />
-            </Suspense>
-            
-            <Suspense fallback={<SectionFallback />}>
-              <IoTSection />
-            </Suspense>
-            
-            <Suspense fallback={<SectionFallback />}>
-              <ProjectEstimator />
-            </Suspense>
-            
-            <Suspense fallback={<SectionFallback />}>
-              <PortfolioSection />
-            </Suspense>
-            
-            <Suspense fallback={<SectionFallback />}>
-              <TestimonialsSection />
-            </Suspense>
-            
-            <Suspense fallback={<SectionFallback />}>
-              <FAQSection />
-            </Suspense>
-            
-            <Suspense fallback={<SectionFallback />}>
-              <ContactSection />
-            </Suspense>
-          </main>
+          <Suspense fallback={<SectionFallback />}>
+            <PortfolioSection />
+          </Suspense>
           
-          {/* Site footer */}
           <Suspense fallback={<SectionFallback />}>
-            <Footer />
+            <TestimonialsSection />
           </Suspense>
           
-          {/* Utility components */}
           <Suspense fallback={<SectionFallback />}>
-            <BackToTop />
+            <FAQSection />
           </Suspense>
-        </div>
-      </AccessibilityEnhancements>
-    </HelmetProvider>
+          
+          <Suspense fallback={<SectionFallback />}>
+            <ContactSection />
+          </Suspense>
+        </main>
+        
+        {/* Site footer */}
+        <Suspense fallback={<SectionFallback />}>
+          <Footer />
+        </Suspense>
+        
+        {/* Utility components */}
+        <Suspense fallback={<SectionFallback />}>
+          <BackToTop />
+        </Suspense>
+      </div>
+    </AccessibilityEnhancements>
   );
 };
 
@@ -35,12 +35,12 @@ import { useAnalytics } from '@/shared/hooks/useAnalytics';
 import PWAInstallPrompt from '@/shared/components/PWAInstallPrompt';
 import { usePWAStatus } from '@/shared/hooks/usePWAStatus';
 import Navigation from '@/features/navigation/Navigation';
-import SEOHead from '@/shared/components/optimized/SEOHead';
+import Head from '@/shared/components/Head';
 
 // =========================== MAIN PAGE COMPONENT ===========================
 
 const PWAPage: React.FC = () => {
-  const [networkStatus, setNetworkStatus] = useState(navigator.onLine);
+  const [networkStatus, setNetworkStatus] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
   const pwaStatus = usePWAStatus();
   
   const { trackEvent } = useAnalytics({
@@ -225,7 +225,7 @@ const PWAPage: React.FC = () => {
 
   return (
     <>
-      <SEOHead
+      <Head
         title="Progressive Web App Features - Optimum Solutions Group"
         description="Discover the powerful PWA features of Optimum Solutions Group including offline functionality, push notifications, and native app-like experience."
         keywords={['PWA', 'Progressive Web App', 'offline app', 'mobile app', 'web app', 'install app']}
@@ -0,0 +1,157 @@
+/**
+ * Portfolio Page
+ *
+ * All case studies with category and technology filters kept in the URL,
+ * so filtered views can be bookmarked and shared
+ */
+
+import React, { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/shared/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
+import Navigation from '@/features/navigation/Navigation';
+import Head from '@/shared/components/Head';
+import { useAnalytics } from '@/shared/hooks/useAnalytics';
+import { useI18n } from '@/shared/hooks/useI18n';
+import { getPortfolioItems, type PortfolioItem } from '@/content';
+import { SEO_CONFIG } from '@/shared/utils/seo';
+import CaseStudyCard from '@/features/portfolio/CaseStudyCard';
+import {
+  PORTFOLIO_FILTER_PARAMS,
+  PORTFOLIO_PATH,
+  createPortfolioStructuredData,
+  filterPortfolioItems,
+  getPortfolioFacets,
+  parsePortfolioFilters,
+  type PortfolioFacets,
+  type PortfolioFilters,
+} from '@/features/portfolio/caseStudies';
+
+const ALL_TECHNOLOGIES = 'all';
+
+const PortfolioPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t, locale, localizePath } = useI18n();
+
+  const { trackEvent } = useAnalytics({
+    pageTitle: 'Case Studies - Optimum Solutions Group',
+    pageCategory: 'portfolio',
+    trackPageViews: true,
+  });
+
+  const projects: PortfolioItem[] = useMemo(() => getPortfolioItems({ locale }), [locale]);
+  const facets: PortfolioFacets = useMemo(() => getPortfolioFacets(projects), [projects]);
+  const filters: PortfolioFilters = parsePortfolioFilters(searchParams, facets);
+  const visibleProjects: PortfolioItem[] = filterPortfolioItems(projects, filters);
+  const structuredData = useMemo(
+    () => createPortfolioStructuredData(projects, SEO_CONFIG.siteUrl, t('portfolioPage.seo.title'), localizePath),
+    [projects, t, localizePath]
+  );
+
+  const setFilter = (key: keyof PortfolioFilters, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(PORTFOLIO_FILTER_PARAMS[key], value);
+    else next.delete(PORTFOLIO_FILTER_PARAMS[key]);
+
+    setSearchParams(next, { replace: true });
+    trackEvent('portfolio', 'filter', `${key}:${value ?? 'all'}`);
+  };
+
+  const chipClassName = (isActive: boolean): string =>
+    `px-4 py-2 text-sm rounded-md font-medium transition-colors ${
+      isActive ? 'bg-primary text-primary-foreground' : 'bg-card text-foreground hover:bg-muted'
+    }`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Head
+        title={t('portfolioPage.seo.title')}
+        description={t('portfolioPage.seo.description')}
+        keywords={['case studies', 'portfolio', ...facets.categories.map((category: string) => category.toLowerCase())]}
+        canonicalUrl={`${SEO_CONFIG.siteUrl}${localizePath(PORTFOLIO_PATH)}`}
+        structuredData={{ portfolio: structuredData }}
+        localized
+      />
+      <Navigation />
+
+      <main id="main" className="section-padding max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Button variant="ghost" asChild className="mb-8">
+          <Link to={localizePath('/#portfolio')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t('portfolioPage.back')}
+          </Link>
+        </Button>
+
+        <header className="text-center mb-12">
+          <h1 className="font-playfair italic text-5xl md:text-6xl font-light text-foreground mb-6 leading-tight">
+            {t('portfolioPage.title')} <span className="text-primary">{t('portfolioPage.titleAccent')}</span>
+          </h1>
+          <p className="text-xl text-muted-foreground max-w-3xl mx-auto font-light leading-relaxed">
+            {t('portfolioPage.intro')}
+          </p>
+        </header>
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-10">
+          <div className="flex flex-wrap gap-2" role="group" aria-label={t('portfolioPage.filter.category')}>
+            <button
+              type="button"
+              onClick={() => setFilter('category', null)}
+              aria-pressed={!filters.category}
+              className={chipClassName(!filters.category)}
+            >
+              {t('portfolioPage.filter.all')}
+            </button>
+            {facets.categories.map((category: string) => (
+              <button
+                key={category}
+                type="button"
+                onClick={() => setFilter('category', category)}
+                aria-pressed={filters.category === category}
+                className={chipClassName(filters.category === category)}
+              >
+                {category}
+              </button>
+            ))}
+          </div>
+
+          <Select
+            value={filters.technology ?? ALL_TECHNOLOGIES}
+            onValueChange={(value: string) => setFilter('technology', value === ALL_TECHNOLOGIES ? null : value)}
+          >
+            <SelectTrigger className="md:w-56" aria-label={t('portfolioPage.filter.technology')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TECHNOLOGIES}>{t('portfolioPage.filter.allTechnologies')}</SelectItem>
+              {facets.technologies.map((technology: string) => (
+                <SelectItem key={technology} value={technology}>{technology}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <p className="sr-only" role="status" aria-live="polite">
+          {t('portfolioPage.count', { count: visibleProjects.length })}
+        </p>
+
+        {visibleProjects.length > 0 ? (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {visibleProjects.map((project: PortfolioItem) => (
+              <CaseStudyCard key={project.slug} project={project} headingLevel="h2" />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-16 space-y-4">
+            <p className="text-lg text-muted-foreground">{t('portfolioPage.empty')}</p>
+            <Button variant="outline" onClick={() => setSearchParams(new URLSearchParams(), { replace: true })}>
+              {t('portfolioPage.clear')}
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default PortfolioPage;
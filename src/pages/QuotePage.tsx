@@ -0,0 +1,183 @@
+/**
+ * Printable Quote Page
+ *
+ * Branded, print-ready view of an estimator quote opened from /quote?quote=…,
+ * with a client-side PDF download that also works offline
+ */
+
+import React, { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, FileDown, Printer } from 'lucide-react';
+import { Button } from '@/shared/ui/button';
+import Head from '@/shared/components/Head';
+import analytics from '@/shared/services/analytics';
+import {
+  DEFAULT_PRICING_RULES,
+  QUOTE_QUERY_PARAM,
+  calculateQuote,
+  decodeQuote,
+  formatPrice,
+  getQuoteUrl,
+  isSelectionComplete,
+  type QuoteLineItem,
+  type QuoteSelection,
+} from '@/shared/services/pricingEngine';
+import {
+  QUOTE_BRAND,
+  createQuoteDocument,
+  downloadQuotePdf,
+  formatQuoteDate,
+  type QuoteDocument,
+} from '@/shared/services/quoteDocument';
+
+const rules = DEFAULT_PRICING_RULES;
+
+const QuotePage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const encoded: string | null = searchParams.get(QUOTE_QUERY_PARAM);
+
+  const document: QuoteDocument | null = useMemo(() => {
+    const selection: QuoteSelection | null = encoded ? decodeQuote(encoded, rules) : null;
+    if (!selection || !isSelectionComplete(selection)) return null;
+
+    return createQuoteDocument(calculateQuote(selection, rules), { rules, url: getQuoteUrl(selection, rules) });
+  }, [encoded]);
+
+  if (!document) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-6">
+        <Head title="Quote not found | Optimum Solutions Group" />
+        <div className="text-center space-y-4">
+          <h1 className="text-2xl font-bold">This quote link is incomplete or has expired</h1>
+          <Button asChild>
+            <Link to="/#estimator">Build a new estimate</Link>
+          </Button>
+        </div>
+      </main>
+    );
+  }
+
+  const { quote } = document;
+  const format = (amount: number): string => formatPrice(amount, quote.currency, rules);
+
+  const handleExport = (exportFormat: 'pdf' | 'print') => {
+    analytics.track('estimator.quote_export', { quoteId: document.id, format: exportFormat, estimate: quote.baseTotal });
+
+    if (exportFormat === 'pdf') downloadQuotePdf(document, rules);
+    else window.print();
+  };
+
+  return (
+    <main className="min-h-screen bg-muted/40 py-8 print:bg-white print:py-0">
+      <Head
+        title={`Quote ${document.id} | Optimum Solutions Group`}
+        description={`Project estimate ${format(quote.min)} - ${format(quote.max)}`}
+      />
+
+      <div className="max-w-3xl mx-auto px-4 mb-6 flex flex-wrap items-center justify-between gap-3 print:hidden">
+        <Button variant="ghost" asChild>
+          <Link to={`/?${QUOTE_QUERY_PARAM}=${encoded}#estimator`}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to estimator
+          </Link>
+        </Button>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => handleExport('print')}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button onClick={() => handleExport('pdf')}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+        </div>
+      </div>
+
+      <article className="max-w-3xl mx-auto bg-background shadow-lg print:shadow-none print:max-w-none">
+        <header className="bg-primary text-primary-foreground px-10 py-8 border-b-4 border-secondary flex justify-between gap-6">
+          <div>
+            <p className="text-2xl font-bold">{QUOTE_BRAND.name}</p>
+            <h1 className="text-lg">Project Estimate</h1>
+          </div>
+          <dl className="text-right text-sm">
+            <div>
+              <dt className="sr-only">Quote ID</dt>
+              <dd className="font-semibold text-base">{document.id}</dd>
+            </div>
+            <div className="flex justify-end gap-1">
+              <dt>Issued</dt>
+              <dd>{formatQuoteDate(document.issuedAt)}</dd>
+            </div>
+            <div className="flex justify-end gap-1">
+              <dt>Valid until</dt>
+              <dd>{formatQuoteDate(document.validUntil)}</dd>
+            </div>
+          </dl>
+        </header>
+
+        <div className="px-10 py-8 space-y-8">
+          <dl className="grid grid-cols-[9rem_1fr] gap-y-2 text-sm">
+            {document.details.map((detail) => (
+              <React.Fragment key={detail.label}>
+                <dt className="text-muted-foreground">{detail.label}</dt>
+                <dd>{detail.value}</dd>
+              </React.Fragment>
+            ))}
+            {document.features.length > 0 && (
+              <>
+                <dt className="text-muted-foreground">Features</dt>
+                <dd>{document.features.join(', ')}</dd>
+              </>
+            )}
+          </dl>
+
+          <section>
+            <h2 className="text-lg font-semibold mb-3">Breakdown</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-muted-foreground">
+                  <th scope="col" className="py-2 text-left font-semibold">Item</th>
+                  <th scope="col" className="py-2 text-right font-semibold">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quote.lineItems.map((item: QuoteLineItem) => (
+                  <tr key={item.id} className="break-inside-avoid">
+                    <th scope="row" className="py-1.5 text-left font-normal">
+                      {item.label}
+                      {item.multiplier && <span className="text-muted-foreground"> (×{item.multiplier})</span>}
+                    </th>
+                    <td className={`py-1.5 text-right tabular-nums ${item.amount < 0 ? 'text-green-600' : ''}`}>
+                      {format(item.amount)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="border-t border-border font-semibold">
+                  <th scope="row" className="py-2 text-left">Total</th>
+                  <td className="py-2 text-right tabular-nums">{format(quote.total)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </section>
+
+          <section className="rounded-lg bg-primary/10 p-5 break-inside-avoid">
+            <h2 className="text-sm text-muted-foreground">Estimated project cost</h2>
+            <p className="text-3xl font-bold text-primary">
+              {format(quote.min)} - {format(quote.max)}
+            </p>
+          </section>
+
+          <footer className="text-xs text-muted-foreground space-y-1 break-inside-avoid">
+            <p>
+              This estimate is valid until {formatQuoteDate(document.validUntil)} and is not a binding offer.
+              Final pricing is confirmed after a free discovery call.
+            </p>
+            <p>{QUOTE_BRAND.email} • {QUOTE_BRAND.phone} • {QUOTE_BRAND.website}</p>
+          </footer>
+        </div>
+      </article>
+    </main>
+  );
+};
+
+export default QuotePage;
@@ -0,0 +1,121 @@
+/**
+ * Prerender Tests
+ * Which pages are prerendered, where they are written and how their head tags replace the template defaults
+ */
+
+import type { Content, PortfolioItem } from '@/content/schema';
+import { buildHeadTags, renderHeadTags } from '@/shared/head/headTags';
+import {
+  PRERENDERED_ATTRIBUTE,
+  getPageFile,
+  getPrerenderPaths,
+  injectPage,
+  normalizePagePath,
+  type RenderedPage,
+} from '../prerender';
+
+const makeItem = (slug: string): PortfolioItem => ({
+  slug,
+  title: 'Project',
+  client: 'Client',
+  industry: 'SaaS',
+  description: 'Description',
+  results: ['Result'],
+  technologies: [],
+  timeline: '4 weeks',
+  publishedAt: '2024-01-01',
+  gallery: [],
+  category: 'Automation',
+  tags: [],
+  featured: false,
+});
+
+const content: Content = {
+  portfolio: { items: [makeItem('crm-rollout')] },
+  services: { items: [] },
+  testimonials: { items: [] },
+  faq: { categories: [], items: [] },
+};
+
+const template = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>Default title</title>
+    <meta name="description" content="Default description" />
+    <meta property="og:title" content="Default OG title" />
+    <meta name="theme-color" content="#000000" />
+    <link rel="canonical" href="https://example.com/" />
+    <link rel="alternate" hreflang="fr" href="https://example.com/fr" />
+    <link rel="alternate" type="application/rss+xml" href="/feed.xml" />
+    <link rel="icon" href="/favicon.ico" />
+  </head>
+  <body>
+    <div id="root"></div>
+  </body>
+</html>`;
+
+const page: RenderedPage = {
+  html: '<main>Études de cas</main>',
+  head: renderHeadTags(buildHeadTags({
+    title: 'Case studies',
+    description: 'Our work',
+    canonicalUrl: 'https://example.com/fr/portfolio',
+    alternates: [{ hrefLang: 'fr', href: 'https://example.com/fr/portfolio' }],
+  })),
+};
+
+describe('prerender paths', () => {
+  it('should prerender every indexable page in every locale', () => {
+    const paths: string[] = getPrerenderPaths(content);
+
+    expect(paths).toEqual(expect.arrayContaining([
+      '/',
+      '/fr',
+      '/portfolio',
+      '/fr/portfolio',
+      '/portfolio/crm-rollout',
+      '/fr/portfolio/crm-rollout',
+      '/analytics',
+      '/pwa',
+    ]));
+    expect(paths).not.toContain('/fr/pwa');
+    expect(paths).not.toContain('/quote');
+  });
+
+  it('should write each page to a directory index', () => {
+    expect(getPageFile('/')).toBe('index.html');
+    expect(getPageFile('/pwa')).toBe('pwa/index.html');
+    expect(getPageFile('/fr/portfolio/')).toBe('fr/portfolio/index.html');
+  });
+
+  it('should ignore trailing slashes when comparing paths', () => {
+    expect(normalizePagePath('/pwa/')).toBe('/pwa');
+    expect(normalizePagePath('/')).toBe('/');
+  });
+});
+
+describe('injectPage', () => {
+  const html: string = injectPage(template, page, '/fr/portfolio');
+
+  it('should replace template tags the page overrides and keep the rest', () => {
+    expect(html).not.toContain('Default title');
+    expect(html).not.toContain('Default description');
+    expect(html).not.toContain('Default OG title');
+    expect(html).not.toContain('href="https://example.com/"');
+    expect(html).not.toContain('href="https://example.com/fr"');
+    expect(html).toContain('<link rel="alternate" type="application/rss+xml" href="/feed.xml" />');
+    expect(html).toContain('<meta name="theme-color" content="#000000" />');
+    expect(html).toContain('<link rel="icon" href="/favicon.ico" />');
+    expect(html).toContain(`${page.head}\n  </head>`);
+  });
+
+  it('should set the document language from the path', () => {
+    expect(html).toContain('<html lang="fr-FR">');
+    expect(injectPage(template, page, '/portfolio')).toContain('<html lang="en-US">');
+  });
+
+  it('should mark the root with the path it was rendered for', () => {
+    expect(html).toContain(`<div id="root" ${PRERENDERED_ATTRIBUTE}="/fr/portfolio"><main>Études de cas</main></div>`);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Site Files Tests
+ * Sitemap entries and XML, environment-aware robots.txt and the case study feeds
+ */
+
+import type { Content, PortfolioItem } from '@/content/schema';
+import { buildPath } from '../manifest';
+import {
+  buildFeed,
+  buildRobotsTxt,
+  buildSiteFiles,
+  buildSitemap,
+  escapeXml,
+  getSitemapEntries,
+  type SitemapEntry,
+} from '../siteFiles';
+
+const siteUrl = 'https://optimum.example';
+const buildDate = new Date('2025-03-01T12:00:00Z');
+
+const makeItem = (overrides: Partial<PortfolioItem>): PortfolioItem => ({
+  slug: 'project',
+  title: 'Project',
+  client: 'Client',
+  industry: 'SaaS',
+  description: 'Description',
+  results: ['Result'],
+  technologies: [],
+  timeline: '4 weeks',
+  publishedAt: '2024-01-01',
+  gallery: [],
+  category: 'Automation',
+  tags: [],
+  featured: false,
+  ...overrides,
+});
+
+const makeContent = (items: PortfolioItem[]): Content => ({
+  portfolio: { items },
+  services: { items: [] },
+  testimonials: { items: [] },
+  faq: { categories: [], items: [] },
+});
+
+const content: Content = makeContent([
+  makeItem({ slug: 'crm-rollout', title: 'CRM & Sales', publishedAt: '2024-06-15' }),
+  makeItem({ slug: 'warehouse-iot', title: 'Warehouse IoT', publishedAt: '2024-11-02' }),
+]);
+
+describe('route manifest', () => {
+  it('should fill and encode route params', () => {
+    expect(buildPath('/portfolio/:slug', { slug: 'crm rollout' })).toBe('/portfolio/crm%20rollout');
+    expect(() => buildPath('/portfolio/:slug')).toThrow('Missing route param "slug"');
+  });
+});
+
+describe('sitemap', () => {
+  it('should list indexable routes, dating collections by their content', () => {
+    const entries: SitemapEntry[] = getSitemapEntries(content, buildDate);
+    const byPath = Object.fromEntries(entries.map((entry: SitemapEntry) => [entry.path, entry]));
+
+    expect(Object.keys(byPath)).toEqual(['/', '/portfolio', '/portfolio/crm-rollout', '/portfolio/warehouse-iot', '/analytics', '/pwa']);
+    expect(byPath['/']).toEqual({ path: '/', localized: true, lastmod: '2025-03-01', priority: 1, changefreq: 'weekly' });
+    expect(byPath['/portfolio']?.lastmod).toBe('2024-11-02');
+    expect(byPath['/portfolio/crm-rollout']?.lastmod).toBe('2024-06-15');
+    expect(byPath['/pwa']?.localized).toBe(false);
+  });
+
+  it('should emit one url per locale with hreflang alternates', () => {
+    const xml: string = buildSitemap([
+      { path: '/portfolio', localized: true, lastmod: '2024-11-02', priority: 0.8, changefreq: 'weekly' },
+      { path: '/pwa', localized: false, lastmod: '2025-03-01', priority: 0.3, changefreq: 'monthly' },
+    ], siteUrl);
+
+    expect(xml.match(/<url>/g)).toHaveLength(3);
+    expect(xml).toContain('<loc>https://optimum.example/fr/portfolio</loc>');
+    expect(xml).toContain('<xhtml:link rel="alternate" hreflang="x-default" href="https://optimum.example/portfolio"/>');
+    expect(xml).toContain('<priority>0.8</priority>');
+    expect(xml).toMatch(/<loc>https:\/\/optimum\.example\/pwa<\/loc>\n {4}<lastmod>/);
+  });
+});
+
+describe('robots.txt', () => {
+  it('should allow production crawling except unlisted routes', () => {
+    const robots: string = buildRobotsTxt(true, siteUrl);
+
+    expect(robots).toContain('Allow: /\n');
+    expect(robots).toContain('Disallow: /quote\n');
+    expect(robots).toContain('Disallow: /fr/quote\n');
+    expect(robots).toContain('Disallow: /component-showcase\n');
+    expect(robots).toContain('Sitemap: https://optimum.example/sitemap.xml');
+  });
+
+  it('should block every other environment', () => {
+    expect(buildRobotsTxt(false, siteUrl)).toBe('User-agent: *\nDisallow: /\n');
+  });
+});
+
+describe('case study feed', () => {
+  it('should list case studies newest first with escaped, localized links', () => {
+    const feed: string = buildFeed(content.portfolio.items, 'fr', siteUrl);
+
+    expect(feed.indexOf('Warehouse IoT')).toBeLessThan(feed.indexOf('CRM &amp; Sales'));
+    expect(feed).toContain('<link>https://optimum.example/fr/portfolio/crm-rollout</link>');
+    expect(feed).toContain('<atom:link href="https://optimum.example/fr/feed.xml" rel="self" type="application/rss+xml"/>');
+    expect(feed).toContain('<pubDate>Sat, 02 Nov 2024 00:00:00 GMT</pubDate>');
+    expect(feed).toContain('<language>fr-FR</language>');
+  });
+
+  it('should escape XML special characters', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+  });
+});
+
+describe('buildSiteFiles', () => {
+  it('should produce the sitemap, robots.txt and a feed per locale', () => {
+    const files = buildSiteFiles({ content: { en: content, fr: content }, indexable: false, siteUrl, buildDate });
+
+    expect(Object.keys(files)).toEqual(['sitemap.xml', 'robots.txt', 'feed.xml', 'fr/feed.xml']);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Route Manifest
+ * @description Every public route of the app, shared by the router in App.tsx and the build-time sitemap, robots.txt and feed generation
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// Imported by vite.config.ts, so keep this module free of React and the @/ alias
+
+// =========================== TYPES ===========================
+
+export type ChangeFrequency = 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
+
+export interface SitemapSettings {
+  /** 0.0 – 1.0, relative to the site's other pages */
+  priority: number;
+  changefreq: ChangeFrequency;
+}
+
+export type RouteCollection = 'portfolio';
+
+export interface RouteDefinition {
+  /** Path in the default locale, e.g. /portfolio/:slug */
+  path: string;
+  /** Served once per locale, under /<locale> for every locale but the default */
+  localized: boolean;
+  /** null keeps the route out of the sitemap and disallows it in robots.txt */
+  sitemap: SitemapSettings | null;
+  /** Content collection whose entries fill the :slug param, or date a listing page */
+  collection?: RouteCollection;
+}
+
+export type RouteId = 'home' | 'quote' | 'portfolio' | 'caseStudy' | 'analytics' | 'pwa' | 'componentShowcase';
+
+// =========================== ROUTES ===========================
+
+export const ROUTES: Record<RouteId, RouteDefinition> = {
+  home: { path: '/', localized: true, sitemap: { priority: 1, changefreq: 'weekly' } },
+  // Quotes are personal and shared by link
+  quote: { path: '/quote', localized: true, sitemap: null },
+  portfolio: { path: '/portfolio', localized: true, sitemap: { priority: 0.8, changefreq: 'weekly' }, collection: 'portfolio' },
+  caseStudy: { path: '/portfolio/:slug', localized: true, sitemap: { priority: 0.7, changefreq: 'monthly' }, collection: 'portfolio' },
+  analytics: { path: '/analytics', localized: false, sitemap: { priority: 0.3, changefreq: 'monthly' } },
+  pwa: { path: '/pwa', localized: false, sitemap: { priority: 0.3, changefreq: 'monthly' } },
+  componentShowcase: { path: '/component-showcase', localized: false, sitemap: null },
+};
+
+export const ROUTE_IDS = Object.keys(ROUTES) as RouteId[];
+
+/** Fill :params in a route path: buildPath('/portfolio/:slug', { slug: 'crm' }) → /portfolio/crm */
+export function buildPath(path: string, params: Record<string, string> = {}): string {
+  return path.replace(/:(\w+)/g, (_match: string, name: string) => {
+    const value: string | undefined = params[name];
+    if (value === undefined) throw new Error(`Missing route param "${name}" for ${path}`);
+    return encodeURIComponent(value);
+  });
+}
+
+export const hasParams = (path: string): boolean => path.includes(':');
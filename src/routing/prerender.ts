@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Prerender
+ * @description Pages to prerender and how their HTML and head tags are written into the built index.html
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// Imported by vite.config.ts through the prerender plugin, so keep this module free of the DOM and the @/ alias
+import type { Content } from '../content/schema';
+import { LOCALE_CONFIG, SUPPORTED_LOCALES, getLocaleFromPath, localizePath, type Locale } from '../shared/i18n/locales';
+import { HEAD_KEY_ATTRIBUTE, getTagKey, type HeadTagName } from '../shared/head/headTags';
+import { getSitemapEntries, type SitemapEntry } from './siteFiles';
+
+// =========================== TYPES ===========================
+
+export interface RenderedPage {
+  /** Markup of the #root element */
+  html: string;
+  /** Head tags collected from the page while rendering */
+  head: string;
+}
+
+/** Attribute on #root naming the path it was prerendered for; the client hydrates only when it matches */
+export const PRERENDERED_ATTRIBUTE = 'data-prerendered';
+
+// =========================== PAGES ===========================
+
+/** Every indexable page in every locale: the same set the sitemap lists */
+export function getPrerenderPaths(content: Content): string[] {
+  return getSitemapEntries(content).flatMap((entry: SitemapEntry) =>
+    entry.localized ? SUPPORTED_LOCALES.map((locale: Locale) => localizePath(entry.path, locale)) : [entry.path]
+  );
+}
+
+/** Output file for a page, served for the path without a trailing slash by static hosts: /fr/portfolio → fr/portfolio/index.html */
+export function getPageFile(path: string): string {
+  const directory: string = path.replace(/^\/+|\/+$/g, '');
+  return directory ? `${directory}/index.html` : 'index.html';
+}
+
+/** Strip a trailing slash so /pwa/ and /pwa compare equal */
+export const normalizePagePath = (path: string): string => (path.length > 1 ? path.replace(/\/+$/, '') : path);
+
+// =========================== HTML ===========================
+
+// Title elements whole, meta and link tags by their opening tag
+const TEMPLATE_TAG_PATTERN = /<title\b([^>]*)>[\s\S]*?<\/title>|<(meta|link)\b([^>]*)>/gi;
+const ATTRIBUTE_PATTERN = /([\w:-]+)="([^"]*)"/g;
+const PAGE_KEY_PATTERN = new RegExp(`\\s${HEAD_KEY_ATTRIBUTE}="([^"]*)"`, 'g');
+
+const parseAttributes = (source: string): Record<string, string> =>
+  Object.fromEntries(
+    Array.from(source.matchAll(ATTRIBUTE_PATTERN), ([, name, value]: RegExpMatchArray) => [name!.toLowerCase(), value!])
+  );
+
+/** Write a rendered page into the built index.html: page head tags win over the template defaults */
+export function injectPage(template: string, page: RenderedPage, path: string): string {
+  // Page tags carry the key the head manager gave them; template tags get the same key from their attributes
+  const pageKeys = new Set<string>(Array.from(page.head.matchAll(PAGE_KEY_PATTERN), ([, key]: RegExpMatchArray) => key!));
+  const lang: string = LOCALE_CONFIG[getLocaleFromPath(path)].intlLocale;
+
+  const html: string = template.replace(
+    TEMPLATE_TAG_PATTERN,
+    (tag: string, titleAttributes?: string, name?: string, attributes?: string) => {
+      const tagName = (name?.toLowerCase() ?? 'title') as HeadTagName;
+      const key: string | undefined = getTagKey(tagName, parseAttributes(titleAttributes ?? attributes ?? ''));
+      return key && pageKeys.has(key) ? '' : tag;
+    }
+  );
+
+  return html
+    .replace(/<html([^>]*)\slang="[^"]*"/i, `<html$1 lang="${lang}"`)
+    .replace('</head>', `${page.head}\n  </head>`)
+    .replace(/<div id="root"><\/div>/, `<div id="root" ${PRERENDERED_ATTRIBUTE}="${normalizePagePath(path)}">${page.html}</div>`);
+}
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Site Files
+ * @description Builds sitemap.xml, robots.txt and the case study RSS feeds from the route manifest and content collections
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// Imported by vite.config.ts through the site files plugin, so keep this module free of the DOM and the @/ alias
+import type { Content, PortfolioItem } from '../content/schema';
+import {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  getAlternateLinks,
+  localizePath,
+  type AlternateLink,
+  type Locale,
+} from '../shared/i18n/locales';
+import { createTranslator, type Translator } from '../shared/i18n/translator';
+import { SEO_CONFIG } from '../shared/utils/seoConfig';
+import {
+  ROUTES,
+  ROUTE_IDS,
+  buildPath,
+  hasParams,
+  type ChangeFrequency,
+  type RouteDefinition,
+  type RouteId,
+} from './manifest';
+
+// =========================== TYPES ===========================
+
+export interface SitemapEntry {
+  /** Path in the default locale */
+  path: string;
+  localized: boolean;
+  /** YYYY-MM-DD */
+  lastmod: string;
+  priority: number;
+  changefreq: ChangeFrequency;
+}
+
+export interface SiteFilesOptions {
+  /** Content per locale, already localized */
+  content: Record<Locale, Content>;
+  /** false for previews and staging: robots.txt then disallows everything */
+  indexable: boolean;
+  siteUrl?: string;
+  /** Last modification date for pages without a content date, defaults to today */
+  buildDate?: Date;
+}
+
+/** File name in the build output → contents */
+export type SiteFiles = Record<string, string>;
+
+// =========================== HELPERS ===========================
+
+const XML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+export const escapeXml = (value: string): string => value.replace(/[&<>"']/g, (char: string) => XML_ENTITIES[char] ?? char);
+
+const toDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const absoluteUrl = (path: string, siteUrl: string): string => new URL(path, siteUrl).toString();
+
+const routePaths = (route: RouteDefinition): string[] =>
+  route.localized ? SUPPORTED_LOCALES.map((locale: Locale) => localizePath(route.path, locale)) : [route.path];
+
+/** Feed location for a locale: /feed.xml for the default locale, /<locale>/feed.xml otherwise */
+export const getFeedPath = (locale: Locale): string => localizePath('/feed.xml', locale);
+
+// =========================== SITEMAP ===========================
+
+/** One entry per indexable page; collection routes get one entry per item, dated by publishedAt */
+export function getSitemapEntries(content: Content, buildDate: Date = new Date()): SitemapEntry[] {
+  const items: PortfolioItem[] = content.portfolio.items;
+  const latest: string | undefined = items.map((item: PortfolioItem) => item.publishedAt).sort().reverse()[0];
+
+  return ROUTE_IDS.flatMap((id: RouteId) => {
+    const route: RouteDefinition = ROUTES[id];
+    if (!route.sitemap) return [];
+
+    const entry = (path: string, lastmod: string): SitemapEntry => ({
+      path,
+      localized: route.localized,
+      lastmod,
+      priority: route.sitemap!.priority,
+      changefreq: route.sitemap!.changefreq,
+    });
+
+    if (hasParams(route.path)) {
+      return route.collection === 'portfolio'
+        ? items.map((item: PortfolioItem) => entry(buildPath(route.path, { slug: item.slug }), item.publishedAt))
+        : [];
+    }
+
+    return [entry(route.path, (route.collection && latest) || toDate(buildDate))];
+  });
+}
+
+export function buildSitemap(entries: SitemapEntry[], siteUrl: string = SEO_CONFIG.siteUrl): string {
+  const urls: string[] = entries.flatMap((entry: SitemapEntry) => {
+    const alternates: AlternateLink[] = entry.localized ? getAlternateLinks(entry.path, siteUrl) : [];
+    const locations: string[] = entry.localized
+      ? SUPPORTED_LOCALES.map((locale: Locale) => absoluteUrl(localizePath(entry.path, locale), siteUrl))
+      : [absoluteUrl(entry.path, siteUrl)];
+
+    return locations.map((loc: string) => [
+      '  <url>',
+      `    <loc>${escapeXml(loc)}</loc>`,
+      ...alternates.map((link: AlternateLink) =>
+        `    <xhtml:link rel="alternate" hreflang="${link.hrefLang}" href="${escapeXml(link.href)}"/>`),
+      `    <lastmod>${entry.lastmod}</lastmod>`,
+      `    <changefreq>${entry.changefreq}</changefreq>`,
+      `    <priority>${entry.priority.toFixed(1)}</priority>`,
+      '  </url>',
+    ].join('\n'));
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+// =========================== ROBOTS ===========================
+
+/** Production allows crawling except for routes kept out of the sitemap; every other environment disallows everything */
+export function buildRobotsTxt(indexable: boolean, siteUrl: string = SEO_CONFIG.siteUrl): string {
+  if (!indexable) return 'User-agent: *\nDisallow: /\n';
+
+  const disallowed: string[] = ROUTE_IDS
+    .map((id: RouteId) => ROUTES[id])
+    .filter((route: RouteDefinition) => route.sitemap === null)
+    .flatMap(routePaths);
+
+  return [
+    'User-agent: *',
+    'Allow: /',
+    ...disallowed.map((path: string) => `Disallow: ${path}`),
+    '',
+    `Sitemap: ${absoluteUrl('/sitemap.xml', siteUrl)}`,
+    '',
+  ].join('\n');
+}
+
+// =========================== FEED ===========================
+
+/** RSS 2.0 feed of case studies in one locale, newest first */
+export function buildFeed(items: PortfolioItem[], locale: Locale, siteUrl: string = SEO_CONFIG.siteUrl): string {
+  const { t, config }: Translator = createTranslator(locale);
+  const sorted: PortfolioItem[] = [...items].sort((a: PortfolioItem, b: PortfolioItem) => b.publishedAt.localeCompare(a.publishedAt));
+  const pubDate = (date: string): string => new Date(`${date}T00:00:00Z`).toUTCString();
+
+  const entries: string[] = sorted.map((item: PortfolioItem) => {
+    const link: string = absoluteUrl(localizePath(buildPath(ROUTES.caseStudy.path, { slug: item.slug }), locale), siteUrl);
+    return [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(link)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(link)}</guid>`,
+      `      <pubDate>${pubDate(item.publishedAt)}</pubDate>`,
+      `      <category>${escapeXml(item.category)}</category>`,
+      `      <description>${escapeXml(item.description)}</description>`,
+      '    </item>',
+    ].join('\n');
+  });
+
+  const latest: string | undefined = sorted[0]?.publishedAt;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(t('portfolioPage.seo.title'))}</title>`,
+    `    <link>${escapeXml(absoluteUrl(localizePath(ROUTES.portfolio.path, locale), siteUrl))}</link>`,
+    `    <atom:link href="${escapeXml(absoluteUrl(getFeedPath(locale), siteUrl))}" rel="self" type="application/rss+xml"/>`,
+    `    <description>${escapeXml(t('portfolioPage.seo.description'))}</description>`,
+    `    <language>${config.intlLocale}</language>`,
+    ...(latest ? [`    <lastBuildDate>${pubDate(latest)}</lastBuildDate>`] : []),
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+// =========================== SITE FILES ===========================
+
+export function buildSiteFiles({ content, indexable, siteUrl = SEO_CONFIG.siteUrl, buildDate = new Date() }: SiteFilesOptions): SiteFiles {
+  const feeds: SiteFiles = Object.fromEntries(
+    SUPPORTED_LOCALES.map((locale: Locale) => [getFeedPath(locale).slice(1), buildFeed(content[locale].portfolio.items, locale, siteUrl)])
+  );
+
+  return {
+    'sitemap.xml': buildSitemap(getSitemapEntries(content[DEFAULT_LOCALE], buildDate), siteUrl),
+    'robots.txt': buildRobotsTxt(indexable, siteUrl),
+    ...feeds,
+  };
+}
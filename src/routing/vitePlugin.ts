@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Routing Plugins
+ * @description Vite plugins that emit sitemap.xml, robots.txt and the case study feeds, and prerender indexable pages to static HTML
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { build, type Plugin, type ResolvedConfig } from 'vite';
+import { loadContent, type LoadedContent } from '../content/vitePlugin';
+import type { Content } from '../content/schema';
+import { SUPPORTED_LOCALES, type Locale } from '../shared/i18n/locales';
+import { buildSiteFiles, getFeedPath, type SiteFiles } from './siteFiles';
+import { getPageFile, getPrerenderPaths, injectPage, type RenderedPage } from './prerender';
+
+// =========================== SITE FILES ===========================
+
+export interface SiteFilesPluginOptions {
+  contentDir: string;
+  /** Only production should be crawled; previews and staging get a robots.txt that disallows everything */
+  indexable: boolean;
+}
+
+const SITE_FILE_NAMES: string[] = ['sitemap.xml', 'robots.txt', ...SUPPORTED_LOCALES.map((locale: Locale) => getFeedPath(locale).slice(1))];
+
+const CONTENT_TYPES: Record<string, string> = {
+  xml: 'application/xml; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+};
+
+function generateSiteFiles({ contentDir, indexable }: SiteFilesPluginOptions): SiteFiles {
+  const { content, translations }: LoadedContent = loadContent(contentDir);
+  const localized = Object.fromEntries(
+    SUPPORTED_LOCALES.map((locale: Locale) => [locale, translations[locale] ?? content])
+  ) as Record<Locale, Content>;
+
+  return buildSiteFiles({ content: localized, indexable });
+}
+
+export function siteFiles(options: SiteFilesPluginOptions): Plugin {
+  return {
+    name: 'osg:site-files',
+
+    generateBundle() {
+      try {
+        Object.entries(generateSiteFiles(options)).forEach(([fileName, source]) => {
+          this.emitFile({ type: 'asset', fileName, source });
+        });
+      } catch (error) {
+        this.error(`Could not generate site files: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const fileName: string = (req.url ?? '').split('?')[0]?.slice(1) ?? '';
+        if (!SITE_FILE_NAMES.includes(fileName)) {
+          next();
+          return;
+        }
+
+        // Rebuilt per request so content edits show up; invalid content is already reported by osg:content-validation
+        let source: string | undefined;
+        try {
+          source = generateSiteFiles(options)[fileName];
+        } catch {
+          source = undefined;
+        }
+        if (source === undefined) {
+          next();
+          return;
+        }
+
+        res.setHeader('Content-Type', CONTENT_TYPES[fileName.split('.').pop() ?? ''] ?? 'text/plain; charset=utf-8');
+        res.end(source);
+      });
+    },
+  };
+}
+
+// =========================== PRERENDER ===========================
+
+export interface PrerenderPluginOptions {
+  contentDir: string;
+  /** Server entry exporting render(url), built for Node after the client bundle */
+  entry: string;
+}
+
+interface ServerEntry {
+  render: (url: string) => Promise<RenderedPage>;
+}
+
+/**
+ * After the client build, builds the server entry with the same config and writes every
+ * indexable page to <path>/index.html with its markup and head tags inlined
+ */
+export function prerender({ contentDir, entry }: PrerenderPluginOptions): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'osg:prerender',
+    // Skip the nested server build, which loads this same config
+    apply: (userConfig, { command }) => command === 'build' && !userConfig.build?.ssr,
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    async closeBundle() {
+      const outDir: string = resolve(config.root, config.build.outDir);
+      // Inside the project so the bundle's external imports resolve from node_modules
+      const serverDir: string = resolve(config.cacheDir, 'prerender');
+
+      try {
+        await build({
+          configFile: config.configFile ?? false,
+          mode: config.mode,
+          logLevel: 'warn',
+          // Bundle dependencies too: several only ship CommonJS, which Node cannot import by name
+          ssr: { noExternal: true },
+          build: {
+            ssr: entry,
+            outDir: serverDir,
+            emptyOutDir: true,
+            minify: false,
+            rollupOptions: { output: { format: 'es', entryFileNames: 'entry-server.mjs' } },
+          },
+        });
+
+        const { render } = await import(pathToFileURL(resolve(serverDir, 'entry-server.mjs')).href) as ServerEntry;
+        const template: string = readFileSync(resolve(outDir, 'index.html'), 'utf8');
+        const paths: string[] = getPrerenderPaths(loadContent(contentDir).content);
+
+        for (const path of paths) {
+          const file: string = resolve(outDir, getPageFile(path));
+          mkdirSync(dirname(file), { recursive: true });
+          writeFileSync(file, injectPage(template, await render(path), path));
+        }
+
+        config.logger.info(`Prerendered ${paths.length} pages`);
+      } finally {
+        rmSync(serverDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
@@ -1,6 +1,7 @@
 // Import jest-dom for custom matchers
 import '@testing-library/jest-dom';
 import 'jest-axe/extend-expect';
+import { TextDecoder, TextEncoder } from 'util';
 
 // Global test utilities and mocks
 
@@ -33,6 +34,9 @@ global.IntersectionObserver = jest.fn().mockImplementation(() => ({
   disconnect: jest.fn(),
 }));
 
+// TextEncoder for react-dom/server, which is not available in JSDOM
+Object.assign(global, { TextEncoder, TextDecoder });
+
 // Mock for scrollTo which is not available in JSDOM
 Object.defineProperty(window, 'scrollTo', {
   writable: true,
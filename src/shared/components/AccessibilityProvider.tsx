@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { useHead } from '../hooks/useHead';
 
 interface AccessibilityContextType {
   announceMessage: (message: string) => void;
@@ -57,9 +58,7 @@ export const AccessibilityProvider: React.FC<AccessibilityProviderProps> = ({ ch
 
 // Simple component for page title announcements
 export const PageTitleAnnouncer: React.FC<{ title: string }> = ({ title }) => {
-  useEffect(() => {
-    document.title = title;
-  }, [title]);
+  useHead({ title });
 
   return null;
 };
\ No newline at end of file
@@ -5,12 +5,16 @@
  * user behavior, performance metrics, and insights.
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/ui/card';
 import { Badge } from '@/shared/ui/badge';
 import { Button } from '@/shared/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/ui/tabs';
 import { Alert, AlertDescription } from '@/shared/ui/alert';
+import { Input } from '@/shared/ui/input';
+import { Textarea } from '@/shared/ui/textarea';
+import { Label } from '@/shared/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
 import { 
   BarChart, 
   Bar, 
@@ -39,8 +43,37 @@ import {
   AlertCircle,
   CheckCircle,
   Download,
+  Filter,
+  Route,
+  Trash2,
+  Flame,
+  ExternalLink,
 } from 'lucide-react';
 import analytics, { type AnalyticsEvent, type UserSession } from '@/shared/services/analytics';
+import {
+  DEFAULT_FUNNELS,
+  analyzeAttribution,
+  analyzeFunnel,
+  analyzePaths,
+  formatMatcher,
+  loadFunnels,
+  parseStepExpression,
+  saveFunnels,
+  type AttributionModel,
+  type AttributionResult,
+  type FunnelDefinition,
+  type FunnelResult,
+  type PathResult,
+} from '@/shared/services/funnelAnalysis';
+import { estimateEventCount, getEventWeight } from '@/shared/services/eventSampling';
+import {
+  getTopElements,
+  type HeatmapData,
+  type HeatmapElement,
+  type HeatmapSummary,
+  type ViewportClass,
+} from '@/shared/services/heatmap';
+import { HEATMAP_QUERY_PARAM } from './HeatmapOverlay';
 
 // =========================== TYPES ===========================
 
@@ -58,6 +91,7 @@ interface AnalyticsData {
   deviceBreakdown: Array<{ name: string; value: number; percentage: number }>;
   topPages: Array<{ url: string; views: number; time: number }>;
   eventsByCategory: Array<{ category: string; count: number }>;
+  heatmaps: HeatmapSummary[];
   timeSeriesData: Array<{ timestamp: string; events: number; users: number }>;
   performanceMetrics: {
     avgLCP: number;
@@ -74,6 +108,7 @@ interface DashboardProps {
   refreshInterval?: number;
   compact?: boolean;
   showExportOptions?: boolean;
+  funnels?: FunnelDefinition[]; // Overrides the funnels configured in the dashboard
 }
 
 // =========================== MAIN COMPONENT ===========================
@@ -84,12 +119,18 @@ export const AnalyticsDashboard: React.FC<DashboardProps> = ({
   refreshInterval = 30000,
   compact = false,
   showExportOptions = true,
+  funnels: funnelsProp,
 }) => {
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+  const [funnels, setFunnels] = useState<FunnelDefinition[]>(() => funnelsProp ?? loadFunnels());
+  const [selectedFunnelId, setSelectedFunnelId] = useState<string>(() => funnels[0]?.id ?? '');
+  const [funnelDraft, setFunnelDraft] = useState({ name: '', steps: '' });
+  const [attributionModel, setAttributionModel] = useState<AttributionModel>('lastTouch');
+  const [selectedHeatmapKey, setSelectedHeatmapKey] = useState<string>('');
 
   // =========================== DATA FETCHING ===========================
 
@@ -102,18 +143,24 @@ export const AnalyticsDashboard: React.FC<DashboardProps> = ({
       // For now, we'll simulate data based on the current session and stored events
       const session = analytics.getSession();
       
-      // Simulate fetching stored events (in real implementation, this would be from your backend)
-      const events: AnalyticsEvent[] = []; // This would be fetched from your analytics API
+      // Events recorded locally by the analytics service, newest first
+      const events: AnalyticsEvent[] = analytics.getEventHistory().reverse();
+
+      // Sampled events are re-scaled by their sampling weight
+      const categoryCounts = new Map<string, number>();
+      events.forEach((event: AnalyticsEvent) => {
+        categoryCounts.set(event.category, (categoryCounts.get(event.category) ?? 0) + getEventWeight(event));
+      });
       
       const simulatedData: AnalyticsData = {
         events,
         session: session,
         metrics: {
           totalPageViews: session.pageViews || 1,
-          uniqueVisitors: 1, // Would be calculated from your backend
+          uniqueVisitors: new Set(events.map(event => event.anonymousId ?? event.sessionId)).size || 1,
           averageSessionDuration: session.duration / 1000 / 60, // Convert to minutes
           bounceRate: session.bounceRate ? 100 : 0,
-          totalEvents: events.length,
+          totalEvents: Math.round(estimateEventCount(events)),
           conversionRate: 0, // Would be calculated based on goals
         },
         deviceBreakdown: [
@@ -124,10 +171,8 @@ export const AnalyticsDashboard: React.FC<DashboardProps> = ({
         topPages: [
           { url: '/', views: session.pageViews || 1, time: session.timeOnPage / 1000 },
         ],
-        eventsByCategory: [
-          { category: 'navigation', count: session.pageViews || 1 },
-          { category: 'engagement', count: session.interactions || 0 },
-        ],
+        eventsByCategory: Array.from(categoryCounts, ([category, count]) => ({ category, count: Math.round(count) })),
+        heatmaps: analytics.getHeatmaps().list(),
         timeSeriesData: [
           { timestamp: new Date(Date.now() - 3600000).toISOString(), events: 5, users: 3 },
           { timestamp: new Date(Date.now() - 1800000).toISOString(), events: 8, users: 5 },
@@ -200,6 +245,77 @@ export const AnalyticsDashboard: React.FC<DashboardProps> = ({
     return 'poor';
   };
 
+  const selectedFunnel: FunnelDefinition | undefined = funnels.find(funnel => funnel.id === selectedFunnelId) ?? funnels[0];
+
+  const funnelResult: FunnelResult | null = useMemo(
+    () => (data && selectedFunnel ? analyzeFunnel(data.events, selectedFunnel) : null),
+    [data, selectedFunnel]
+  );
+
+  const topPaths: PathResult[] = useMemo(() => (data ? analyzePaths(data.events) : []), [data]);
+
+  const leadsByCampaign: AttributionResult[] = useMemo(
+    () => (data ? analyzeAttribution(data.events, undefined, attributionModel) : []),
+    [data, attributionModel]
+  );
+
+  const getHeatmapKey = (heatmap: HeatmapSummary) => `${heatmap.route}|${heatmap.viewport}`;
+
+  const selectedHeatmap: HeatmapSummary | undefined = data?.heatmaps.find(
+    heatmap => getHeatmapKey(heatmap) === selectedHeatmapKey
+  ) ?? data?.heatmaps[0];
+
+  const heatmapData: HeatmapData | null = useMemo(
+    () => (selectedHeatmap ? analytics.getHeatmaps().get(selectedHeatmap.route, selectedHeatmap.viewport) : null),
+    [selectedHeatmap]
+  );
+
+  const topClickedElements: HeatmapElement[] = useMemo(
+    () => (heatmapData ? getTopElements(heatmapData, 10) : []),
+    [heatmapData]
+  );
+
+  const getOverlayUrl = (route: string, viewport: ViewportClass) =>
+    `${route}?${new URLSearchParams({ [HEATMAP_QUERY_PARAM]: viewport }).toString()}`;
+
+  const formatStepTime = (milliseconds: number | null) =>
+    milliseconds === null ? '—' : formatDuration(milliseconds / 1000);
+
+  // =========================== FUNNEL CONFIGURATION ===========================
+
+  const updateFunnels = (next: FunnelDefinition[]) => {
+    setFunnels(next);
+    saveFunnels(next);
+  };
+
+  const handleAddFunnel = () => {
+    const stepExpressions: string[] = funnelDraft.steps
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+    if (!funnelDraft.name.trim() || stepExpressions.length < 2) return;
+
+    const funnel: FunnelDefinition = {
+      id: `custom-${Date.now()}`,
+      name: funnelDraft.name.trim(),
+      steps: stepExpressions.map((expression, index) => ({
+        id: `step-${index + 1}`,
+        label: expression,
+        match: parseStepExpression(expression),
+      })),
+    };
+
+    updateFunnels([...funnels, funnel]);
+    setSelectedFunnelId(funnel.id);
+    setFunnelDraft({ name: '', steps: '' });
+  };
+
+  const handleRemoveFunnel = (funnelId: string) => {
+    const next: FunnelDefinition[] = funnels.filter(funnel => funnel.id !== funnelId);
+    updateFunnels(next.length > 0 ? next : DEFAULT_FUNNELS);
+    setSelectedFunnelId('');
+  };
+
   // =========================== RENDER METHODS ===========================
 
   const renderOverviewTab = () => {
@@ -384,7 +500,7 @@ export const AnalyticsDashboard: React.FC<DashboardProps> = ({
               <BarChart3 className="h-5 w-5" />
               Events by Category
             </CardTitle>
-            <CardDescription>Breakdown of tracked events</CardDescription>
+            <CardDescription>Breakdown of tracked events, re-scaled for sampling</CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
@@ -512,6 +628,305 @@ export const AnalyticsDashboard: React.FC<DashboardProps> = ({
     );
   };
 
+  const renderFunnelsTab = () => {
+    if (!data) return null;
+
+    return (
+      <div className="space-y-6">
+        {/* Funnel Selection */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Filter className="h-5 w-5" />
+                Conversion Funnel
+              </CardTitle>
+              <CardDescription>
+                {selectedFunnel?.description ?? 'Sessions completing each step in order'}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={selectedFunnel?.id ?? ''} onValueChange={setSelectedFunnelId}>
+                <SelectTrigger className="w-56" aria-label="Select funnel">
+                  <SelectValue placeholder="Select a funnel" />
+                </SelectTrigger>
+                <SelectContent>
+                  {funnels.map(funnel => (
+                    <SelectItem key={funnel.id} value={funnel.id}>{funnel.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedFunnel && !funnelsProp && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => handleRemoveFunnel(selectedFunnel.id)}
+                  aria-label={`Remove funnel ${selectedFunnel.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!funnelResult || funnelResult.entered === 0 ? (
+              <div className="text-center py-8">
+                <Filter className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">No sessions have entered this funnel yet</p>
+                <p className="text-sm text-gray-400">
+                  {funnelResult?.totalSessions ?? 0} recorded sessions analyzed
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Entered</p>
+                    <p className="text-2xl font-bold">{formatNumber(funnelResult.entered)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Converted</p>
+                    <p className="text-2xl font-bold">{funnelResult.conversionRate.toFixed(1)}%</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Median time to convert</p>
+                    <p className="text-2xl font-bold">{formatStepTime(funnelResult.medianTimeToConvert)}</p>
+                  </div>
+                </div>
+
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={funnelResult.steps}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="sessions" fill="#3b82f6" name="Sessions" />
+                  </BarChart>
+                </ResponsiveContainer>
+
+                <div className="space-y-3">
+                  {funnelResult.steps.map((step, index) => (
+                    <div key={step.stepId} className="flex items-center justify-between border-b pb-3">
+                      <div>
+                        <p className="font-medium">{index + 1}. {step.label}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {selectedFunnel?.steps[index] && formatMatcher(selectedFunnel.steps[index].match)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-6 text-right">
+                        <div>
+                          <p className="text-sm font-medium">{step.conversionRate.toFixed(1)}%</p>
+                          <p className="text-xs text-muted-foreground">of entered</p>
+                        </div>
+                        {index > 0 && (
+                          <>
+                            <div>
+                              <Badge variant={step.dropOffRate > 50 ? 'destructive' : 'secondary'}>
+                                -{step.dropOffRate.toFixed(1)}%
+                              </Badge>
+                              <p className="text-xs text-muted-foreground mt-1">drop-off</p>
+                            </div>
+                            <div>
+                              <p className="text-sm font-medium">{formatStepTime(step.medianTimeFromPrevious)}</p>
+                              <p className="text-xs text-muted-foreground">median time</p>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Top Paths */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Route className="h-5 w-5" />
+              Top Navigation Paths
+            </CardTitle>
+            <CardDescription>Most common page sequences per session</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {topPaths.length === 0 ? (
+              <p className="text-center text-gray-500 py-4">No page views recorded yet</p>
+            ) : (
+              <div className="space-y-3">
+                {topPaths.map(path => (
+                  <div key={path.path.join('>')} className="flex items-center justify-between">
+                    <p className="text-sm font-mono">{path.path.join(' → ')}</p>
+                    <div className="text-right">
+                      <p className="text-sm font-medium">{formatNumber(path.sessions)}</p>
+                      <p className="text-xs text-muted-foreground">{path.share.toFixed(1)}% of sessions</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Lead Attribution */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+            <div>
+              <CardTitle>Leads by Campaign</CardTitle>
+              <CardDescription>Contact form submissions by channel, source and campaign</CardDescription>
+            </div>
+            <Select value={attributionModel} onValueChange={(value) => setAttributionModel(value as AttributionModel)}>
+              <SelectTrigger className="w-40" aria-label="Attribution model">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lastTouch">Last touch</SelectItem>
+                <SelectItem value="firstTouch">First touch</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {leadsByCampaign.length === 0 ? (
+              <p className="text-center text-gray-500 py-4">No attributed leads recorded yet</p>
+            ) : (
+              <div className="space-y-3">
+                {leadsByCampaign.map(row => (
+                  <div key={`${row.channel}-${row.source}-${row.campaign ?? ''}`} className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Badge variant="outline">{row.channel}</Badge>
+                      <div>
+                        <p className="text-sm font-medium">{row.source}</p>
+                        <p className="text-xs text-muted-foreground">{row.campaign ?? 'No campaign'}</p>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm font-medium">{formatNumber(row.conversions)}</p>
+                      <p className="text-xs text-muted-foreground">{row.share.toFixed(1)}% of leads</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Funnel Builder */}
+        {!funnelsProp && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Add Funnel</CardTitle>
+              <CardDescription>
+                One step per line: an event name (form.submit_success), category:action (cta:click) or a page path (/analytics)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="funnel-name">Name</Label>
+                <Input
+                  id="funnel-name"
+                  value={funnelDraft.name}
+                  onChange={(e) => setFunnelDraft(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Estimator to contact"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="funnel-steps">Steps</Label>
+                <Textarea
+                  id="funnel-steps"
+                  rows={4}
+                  value={funnelDraft.steps}
+                  onChange={(e) => setFunnelDraft(prev => ({ ...prev, steps: e.target.value }))}
+                  placeholder={'estimator.submit\nform.submit_success'}
+                />
+              </div>
+              <Button onClick={handleAddFunnel}>Add funnel</Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    );
+  };
+
+  const renderHeatmapsTab = () => {
+    if (!data) return null;
+
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Flame className="h-5 w-5" />
+                Click Heatmaps
+              </CardTitle>
+              <CardDescription>Clicks per element, by page and viewport</CardDescription>
+            </div>
+            {data.heatmaps.length > 0 && selectedHeatmap && (
+              <Select value={getHeatmapKey(selectedHeatmap)} onValueChange={setSelectedHeatmapKey}>
+                <SelectTrigger className="w-56" aria-label="Select page">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {data.heatmaps.map(heatmap => (
+                    <SelectItem key={getHeatmapKey(heatmap)} value={getHeatmapKey(heatmap)}>
+                      {heatmap.route} · {heatmap.viewport}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </CardHeader>
+          <CardContent>
+            {!heatmapData || !selectedHeatmap ? (
+              <div className="text-center py-8">
+                <Flame className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">No clicks recorded yet</p>
+                <p className="text-sm text-gray-400">Clicks are aggregated per page and viewport as visitors browse</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Total clicks</p>
+                    <p className="text-2xl font-bold">{formatNumber(heatmapData.totalClicks)}</p>
+                  </div>
+                  <Button asChild variant="outline" size="sm">
+                    <a href={getOverlayUrl(heatmapData.route, heatmapData.viewport)}>
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      View overlay on page
+                    </a>
+                  </Button>
+                </div>
+
+                <div className="space-y-3">
+                  {topClickedElements.map(element => {
+                    const share: number = (element.clicks / heatmapData.totalClicks) * 100;
+
+                    return (
+                      <div key={element.selector} className="space-y-1">
+                        <div className="flex items-center justify-between gap-4">
+                          <p className="text-sm font-mono truncate" title={element.selector}>{element.selector}</p>
+                          <p className="text-sm font-medium shrink-0">
+                            {formatNumber(element.clicks)}{' '}
+                            <span className="text-xs text-muted-foreground">({share.toFixed(1)}%)</span>
+                          </p>
+                        </div>
+                        <div className="h-2 rounded bg-muted">
+                          <div className="h-2 rounded bg-orange-500" style={{ width: `${share}%` }} />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
   if (loading && !data) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -584,9 +999,11 @@ export const AnalyticsDashboard: React.FC<DashboardProps> = ({
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="events">Events</TabsTrigger>
+          <TabsTrigger value="funnels">Funnels</TabsTrigger>
+          <TabsTrigger value="heatmaps">Heatmaps</TabsTrigger>
           <TabsTrigger value="performance">Performance</TabsTrigger>
         </TabsList>
 
@@ -598,6 +1015,14 @@ export const AnalyticsDashboard: React.FC<DashboardProps> = ({
           {renderEventsTab()}
         </TabsContent>
 
+        <TabsContent value="funnels" className="space-y-6">
+          {renderFunnelsTab()}
+        </TabsContent>
+
+        <TabsContent value="heatmaps" className="space-y-6">
+          {renderHeatmapsTab()}
+        </TabsContent>
+
         <TabsContent value="performance" className="space-y-6">
           {renderPerformanceTab()}
         </TabsContent>
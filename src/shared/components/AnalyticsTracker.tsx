@@ -7,6 +7,7 @@
 
 import React, { ReactNode } from 'react';
 import { useAnalytics } from '@/shared/hooks/useAnalytics';
+import { createClickPoint, type ClickPoint } from '@/shared/services/heatmap';
 
 // =========================== TYPES ===========================
 
@@ -59,6 +60,9 @@ export const ClickTracker: React.FC<ClickTrackerProps> = ({
 
   const handleClick = (event: React.MouseEvent) => {
     if (!disabled) {
+      // The wrapper uses display: contents, so measure the clicked control
+      const position: ClickPoint = createClickPoint(event, event.target as Element);
+
       trackClick(element, undefined, {
         category,
         action,
@@ -66,6 +70,10 @@ export const ClickTracker: React.FC<ClickTrackerProps> = ({
         value,
         ...properties,
         clickedText: event.currentTarget.textContent,
+        selector: position.selector,
+        offsetX: position.x,
+        offsetY: position.y,
+        viewport: position.viewport,
         timestamp: Date.now(),
       });
     }
@@ -212,6 +220,7 @@ interface GoalTrackerProps extends BaseTrackerProps {
   goalId: string;
   goalValue?: number;
   conversionType?: 'purchase' | 'signup' | 'download' | 'contact' | 'custom';
+  trigger?: 'click' | 'mount'; // 'mount' records the goal once when rendered, e.g. on a success screen
 }
 
 export const GoalTracker: React.FC<GoalTrackerProps> = ({
@@ -219,6 +228,7 @@ export const GoalTracker: React.FC<GoalTrackerProps> = ({
   goalId,
   goalValue,
   conversionType = 'custom',
+  trigger = 'click',
   category = 'conversion',
   action = 'goal_completed',
   label,
@@ -226,8 +236,9 @@ export const GoalTracker: React.FC<GoalTrackerProps> = ({
   properties,
 }) => {
   const { trackGoal, trackEvent } = useAnalytics();
+  const hasTrackedRef = React.useRef(false);
 
-  const handleGoalTrigger = () => {
+  const handleGoalTrigger = React.useCallback(() => {
     trackGoal(goalId, goalValue || value, {
       conversionType,
       goalId,
@@ -236,7 +247,18 @@ export const GoalTracker: React.FC<GoalTrackerProps> = ({
 
     // Also track as a regular event
     trackEvent(category, action, label || goalId, goalValue || value);
-  };
+  }, [trackGoal, trackEvent, goalId, goalValue, value, conversionType, properties, category, action, label]);
+
+  React.useEffect(() => {
+    if (trigger !== 'mount' || hasTrackedRef.current) return;
+
+    hasTrackedRef.current = true;
+    handleGoalTrigger();
+  }, [trigger, handleGoalTrigger]);
+
+  if (trigger === 'mount') {
+    return <>{children}</>;
+  }
 
   return (
     <div onClick={handleGoalTrigger} className="contents">
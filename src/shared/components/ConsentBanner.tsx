@@ -0,0 +1,150 @@
+/**
+ * Consent Banner Component
+ *
+ * Cookie/consent banner shown until the visitor makes a decision, plus a
+ * preferences dialog for per-category consent. The dialog can be reopened
+ * from anywhere via consentManager.openPreferences().
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Shield } from 'lucide-react';
+import { Button } from '@/shared/ui/button';
+import { Switch } from '@/shared/ui/switch';
+import { Label } from '@/shared/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/ui/dialog';
+import { useConsent } from '@/shared/hooks/useConsent';
+import { useI18n } from '@/shared/hooks/useI18n';
+import useHydrated from '@/shared/hooks/useHydrated';
+import { eventBus, EVENT_TYPES } from '@/shared/services/eventBus';
+import {
+  CONSENT_CATEGORIES,
+  type ConsentCategories,
+  type ConsentCategoryDefinition,
+} from '@/shared/services/consentManager';
+
+// =========================== TYPES ===========================
+
+interface ConsentBannerProps {
+  className?: string;
+}
+
+// =========================== MAIN COMPONENT ===========================
+
+export const ConsentBanner: React.FC<ConsentBannerProps> = ({ className = '' }) => {
+  const {
+    categories,
+    hasDecision,
+    isGPCEnabled,
+    acceptAll,
+    rejectAll,
+    savePreferences,
+  } = useConsent();
+  const { t } = useI18n();
+  // The stored decision is only known in the browser, so prerendered pages leave the banner out
+  const hydrated: boolean = useHydrated();
+
+  const [isPreferencesOpen, setIsPreferencesOpen] = useState(false);
+  const [draft, setDraft] = useState<ConsentCategories>(categories);
+
+  const openPreferences = useCallback(() => {
+    setDraft(categories);
+    setIsPreferencesOpen(true);
+  }, [categories]);
+
+  // Allow other components (e.g. the footer) to reopen the dialog
+  useEffect(() => {
+    return eventBus.on(EVENT_TYPES.CONSENT_PREFERENCES_REQUESTED, openPreferences);
+  }, [openPreferences]);
+
+  const handleSave = () => {
+    savePreferences(draft);
+    setIsPreferencesOpen(false);
+  };
+
+  const handleToggle = (category: ConsentCategoryDefinition, checked: boolean) => {
+    setDraft(prev => ({ ...prev, [category.id]: checked }));
+  };
+
+  const isLocked = (category: ConsentCategoryDefinition): boolean =>
+    category.required || (category.id === 'marketing' && isGPCEnabled);
+
+  return (
+    <>
+      {hydrated && !hasDecision && (
+        <div
+          role="region"
+          aria-label={t('consent.banner.label')}
+          className={`fixed inset-x-0 bottom-0 z-50 border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 shadow-lg ${className}`}
+        >
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex items-start gap-3 flex-1">
+              <Shield className="h-5 w-5 mt-0.5 text-primary shrink-0" aria-hidden="true" />
+              <p className="text-sm text-muted-foreground">
+                {t('consent.banner.body')}
+                {isGPCEnabled && ` ${t('consent.banner.gpc')}`}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2 shrink-0">
+              <Button variant="ghost" size="sm" onClick={openPreferences}>
+                {t('consent.customize')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => rejectAll()}>
+                {t('consent.rejectAll')}
+              </Button>
+              <Button size="sm" onClick={() => acceptAll()}>
+                {t('consent.acceptAll')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isPreferencesOpen} onOpenChange={setIsPreferencesOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{t('consent.preferences.title')}</DialogTitle>
+            <DialogDescription>
+              {t('consent.preferences.description')}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {CONSENT_CATEGORIES.map(category => (
+              <div key={category.id} className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor={`consent-${category.id}`}>{t(category.label)}</Label>
+                  <p id={`consent-${category.id}-description`} className="text-sm text-muted-foreground">
+                    {t(category.description)}
+                  </p>
+                </div>
+                <Switch
+                  id={`consent-${category.id}`}
+                  aria-describedby={`consent-${category.id}-description`}
+                  checked={draft[category.id]}
+                  disabled={isLocked(category)}
+                  onCheckedChange={(checked: boolean) => handleToggle(category, checked)}
+                />
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => { rejectAll('preferences'); setIsPreferencesOpen(false); }}>
+              {t('consent.rejectAll')}
+            </Button>
+            <Button onClick={handleSave}>{t('consent.preferences.save')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ConsentBanner;
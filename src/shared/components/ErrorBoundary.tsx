@@ -1,6 +1,9 @@
 import React, { Component, ReactNode } from 'react';
 import { AlertCircle, RefreshCw } from 'lucide-react';
 import { Button } from '@/shared/ui/button';
+import { errorHandler } from '@/shared/utils/errorHandler';
+import { sessionRecorder, type TimelineEntry } from '@/shared/services/sessionRecorder';
+import { TimelineStepList } from './SessionTimelinePanel';
 
 type ErrorLevel = 'app' | 'page' | 'section' | 'component';
 
@@ -15,6 +18,7 @@ interface Props {
 interface State {
   hasError: boolean;
   error?: Error;
+  timeline?: TimelineEntry[];
 }
 
 class ErrorBoundary extends Component<Props, State> {
@@ -34,6 +38,13 @@ class ErrorBoundary extends Component<Props, State> {
       console.error('Error caught by boundary:', error, errorInfo);
     }
     
+    // Report with the recorded interaction timeline so the issue can be reproduced
+    errorHandler.handleError(error, { componentStack: errorInfo.componentStack ?? '' }, {
+      component: 'ErrorBoundary',
+      message: error.message,
+    });
+    this.setState({ timeline: sessionRecorder.getTimeline() });
+
     // Call custom error handler if provided
     if (this.props.onError) {
       this.props.onError(error, errorInfo);
@@ -47,7 +58,7 @@ class ErrorBoundary extends Component<Props, State> {
   }
 
   handleRetry = () => {
-    this.setState({ hasError: false });
+    this.setState({ hasError: false, timeline: [] });
   };
 
   getErrorTitle = (): string => {
@@ -77,7 +88,6 @@ class ErrorBoundary extends Component<Props, State> {
       const errorTitle: string = this.getErrorTitle();
 
       return (
-        // @ts-ignore
           <div className={`flex flex-col items-center justify-center p-4 ${this.props.isolate ? 'min-h-32' : 'min-h-screen'}`}>
           <AlertCircle className="w-12 h-12 text-red-500 mb-4" />
           <h1 className="text-xl font-bold mb-2">{errorTitle}</h1>
@@ -89,6 +99,12 @@ class ErrorBoundary extends Component<Props, State> {
               <pre className="text-xs text-gray-600 mt-2 overflow-auto">
                 {this.state.error?.stack}
               </pre>
+              {this.state.timeline && this.state.timeline.length > 0 && (
+                <div className="mt-4">
+                  <h4 className="font-semibold text-sm mb-2">Steps before the error</h4>
+                  <TimelineStepList entries={this.state.timeline} />
+                </div>
+              )}
             </div>
           )}
           
@@ -0,0 +1,46 @@
+/**
+ * Experiment Component
+ *
+ * Declarative A/B testing: renders the <Variant> child matching the
+ * visitor's assigned variant and records the exposure.
+ *
+ * <Experiment id="hero-cta">
+ *   <Variant name="control">...</Variant>
+ *   <Variant name="free-consultation">...</Variant>
+ * </Experiment>
+ */
+
+import React, { Children, isValidElement } from 'react';
+import { useExperiment } from '@/shared/hooks/useAnalytics';
+
+// =========================== TYPES ===========================
+
+interface VariantProps {
+  name: string;
+  children: React.ReactNode;
+}
+
+interface ExperimentProps {
+  id: string;
+  children: React.ReactNode;
+}
+
+// =========================== COMPONENTS ===========================
+
+export const Variant: React.FC<VariantProps> = ({ children }) => <>{children}</>;
+
+export const Experiment: React.FC<ExperimentProps> = ({ id, children }) => {
+  const variant: string | null = useExperiment(id);
+
+  const variants: React.ReactElement<VariantProps>[] = Children.toArray(children).filter(
+    (child): child is React.ReactElement<VariantProps> => isValidElement(child) && child.type === Variant
+  );
+
+  // Unknown experiments and unlisted variants fall back to the first (control) variant
+  const selected: React.ReactElement<VariantProps> | undefined =
+    variants.find((child: React.ReactElement<VariantProps>) => child.props.name === variant) ?? variants[0];
+
+  return selected ?? null;
+};
+
+export default Experiment;
@@ -1,107 +1,89 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Link2, Search, X } from 'lucide-react';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/shared/ui/accordion';
 import { Button } from '@/shared/ui/button';
-import { HelpCircle, Clock, DollarSign, Users, Shield, Zap } from 'lucide-react';
+import { Input } from '@/shared/ui/input';
+import { getFaqCategories, getFaqs, type FAQCategory, type FAQItem } from '@/content';
+import { useHead } from '@/shared/hooks/useHead';
+import { useI18n } from '@/shared/hooks/useI18n';
+import analytics from '@/shared/services/analytics';
+import { tokenizeQuery, type SearchResult, type TextRange } from '@/shared/utils/fuzzySearch';
+import { createFaqStructuredData, getFaqAnchorId, getFaqFromHash, searchFaqs } from '@/shared/utils/faq';
+import { SEO_CONFIG } from '@/shared/utils/seo';
+
+const NO_MATCHES: TextRange[] = [];
+
+/** Text with the matched ranges wrapped in <mark> */
+const HighlightedText = ({ text, ranges }: { text: string; ranges: TextRange[] }) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range: TextRange) => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+    parts.push(
+      <mark key={range.start} className="bg-primary/20 text-foreground rounded-sm">
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
 
 const FAQSection = () => {
-  const [activeCategory, setActiveCategory] = useState('general');
-
-  const categories = [
-    { id: 'general', label: 'General', icon: HelpCircle },
-    { id: 'process', label: 'Process', icon: Clock },
-    { id: 'pricing', label: 'Pricing', icon: DollarSign },
-    { id: 'support', label: 'Support', icon: Users },
-    { id: 'security', label: 'Security', icon: Shield },
-    { id: 'technical', label: 'Technical', icon: Zap },
-  ];
-
-  const faqs = {
-    general: [
-      {
-        question: "What types of businesses do you work with?",
-        answer: "We work with businesses of all sizes across various industries including healthcare, finance, retail, manufacturing, and professional services. Our solutions are tailored to each industry's specific needs and compliance requirements."
-      },
-      {
-        question: "How long does a typical project take?",
-        answer: "Project timelines vary based on complexity. Simple web applications typically take 4-8 weeks, while comprehensive business platforms can take 3-6 months. We provide detailed timelines during the consultation phase."
-      },
-      {
-        question: "Do you provide ongoing support after launch?",
-        answer: "Yes! We offer comprehensive support packages including bug fixes, feature updates, security patches, and performance optimization. Most clients choose our monthly support plans for peace of mind."
-      }
-    ],
-    process: [
-      {
-        question: "What's your development methodology?",
-        answer: "We use Agile development with 2-week sprints, providing regular demos and progress updates. This ensures you're involved throughout the process and can provide feedback early and often."
-      },
-      {
-        question: "How do you ensure quality?",
-        answer: "We implement rigorous testing including automated unit tests, integration testing, and user acceptance testing. Every feature goes through code review and quality assurance before deployment."
-      },
-      {
-        question: "Can I see progress during development?",
-        answer: "Absolutely! You'll have access to a staging environment where you can test features as they're completed. We also provide weekly progress reports and demos."
-      }
-    ],
-    pricing: [
-      {
-        question: "How do you price your projects?",
-        answer: "We provide fixed-price quotes based on detailed requirements analysis. This gives you budget certainty and eliminates surprise costs. We also offer monthly payment plans for larger projects."
-      },
-      {
-        question: "What's included in the project cost?",
-        answer: "Our quotes include design, development, testing, deployment, documentation, and initial training. Hosting and third-party service costs are separate and clearly outlined."
-      },
-      {
-        question: "Do you offer payment plans?",
-        answer: "Yes! We offer flexible payment options including milestone-based payments and monthly installments for larger projects. We'll work with you to find a payment structure that fits your budget."
-      }
-    ],
-    support: [
-      {
-        question: "What kind of training do you provide?",
-        answer: "We provide comprehensive training including user manuals, video tutorials, and live training sessions. We ensure your team is confident using the new system before project completion."
-      },
-      {
-        question: "How quickly do you respond to support requests?",
-        answer: "Critical issues are addressed within 4 hours, while general support requests receive responses within 24 hours during business days. Emergency support is available for critical systems."
-      },
-      {
-        question: "Can you integrate with our existing systems?",
-        answer: "Yes! We specialize in system integration and can connect your new solution with existing CRM, accounting, inventory, and other business systems through APIs and data synchronization."
-      }
-    ],
-    security: [
-      {
-        question: "How do you ensure data security?",
-        answer: "We implement industry-standard security measures including data encryption, secure authentication, regular security audits, and compliance with regulations like GDPR and HIPAA when applicable."
-      },
-      {
-        question: "Where is our data stored?",
-        answer: "Data is stored in secure, enterprise-grade cloud infrastructure with automatic backups and disaster recovery. We can also deploy to your preferred cloud provider or on-premise servers."
-      },
-      {
-        question: "What about compliance requirements?",
-        answer: "We ensure compliance with relevant regulations including GDPR, HIPAA, SOX, and industry-specific requirements. We conduct compliance audits and provide necessary documentation."
-      }
-    ],
-    technical: [
-      {
-        question: "What technologies do you use?",
-        answer: "We use modern, proven technologies including React, Node.js, Python, cloud platforms (AWS, Azure), and enterprise databases. Technology choices are always aligned with your specific needs and constraints."
-      },
-      {
-        question: "Can you work with our existing tech stack?",
-        answer: "Absolutely! We're experienced with a wide range of technologies and can integrate with or extend your existing systems. We'll recommend the best approach based on your current infrastructure."
-      },
-      {
-        question: "How do you handle system scalability?",
-        answer: "We design systems with growth in mind, using scalable architectures, cloud infrastructure, and performance optimization techniques. Your solution will grow with your business needs."
-      }
-    ]
+  const { t, locale, localizePath } = useI18n();
+  const { hash } = useLocation();
+  const [activeCategory, setActiveCategory] = useState<string>(() => getFaqCategories()[0]?.id ?? '');
+  const [query, setQuery] = useState<string>('');
+  const [openItem, setOpenItem] = useState<string>('');
+  const [feedback, setFeedback] = useState<Record<string, boolean>>({});
+
+  const categories: FAQCategory[] = getFaqCategories(locale);
+  const allFaqs: FAQItem[] = useMemo(() => getFaqs({ locale }), [locale]);
+  const isSearching: boolean = tokenizeQuery(query).length > 0;
+  const results: SearchResult<FAQItem>[] = useMemo(() => searchFaqs(allFaqs, query), [allFaqs, query]);
+  const visible: SearchResult<FAQItem>[] = isSearching
+    ? results
+    : allFaqs
+      .filter((faq: FAQItem) => faq.category === activeCategory)
+      .map((faq: FAQItem) => ({ item: faq, score: 0, matches: {} }));
+
+  const structuredData = useMemo(
+    () => createFaqStructuredData(allFaqs, new URL(localizePath('/'), SEO_CONFIG.siteUrl).toString()),
+    [allFaqs, localizePath]
+  );
+  useHead({ structuredData: { faq: structuredData } });
+
+  // Deep links (#faq-<id>) open their question; Index scrolls to it once it renders
+  useEffect(() => {
+    const linked: FAQItem | undefined = getFaqFromHash(hash, allFaqs);
+    if (!linked) return;
+
+    setQuery('');
+    setActiveCategory(linked.category);
+    setOpenItem(linked.id);
+  }, [hash, allFaqs]);
+
+  const handleOpenChange = (id: string) => {
+    setOpenItem(id);
+    if (id) {
+      // Keep the address shareable without a router navigation, which would scroll and reset the search
+      window.history.replaceState(window.history.state, '', `#${getFaqAnchorId(id)}`);
+    }
   };
 
+  const handleFeedback = (faq: FAQItem, helpful: boolean) => {
+    analytics.track('faq.feedback', { questionId: faq.id, category: faq.category, helpful });
+    setFeedback((previous: Record<string, boolean>) => ({ ...previous, [faq.id]: helpful }));
+  };
+
+  const categoryLabel = (id: string): string | undefined =>
+    categories.find((category: FAQCategory) => category.id === id)?.label;
+
   const scrollToContact = () => {
     const element = document.querySelector('#contact');
     if (element) {
@@ -114,44 +96,105 @@ const FAQSection = () => {
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="text-center mb-16">
           <h2 className="font-playfair italic text-4xl md:text-5xl lg:text-6xl font-light text-foreground mb-6 leading-tight">
-            Frequently asked{' '}
-            <span className="text-primary">questions</span>
+            {t('faq.title')}{' '}
+            <span className="text-primary">{t('faq.titleAccent')}</span>
           </h2>
           <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
-            Get answers to common questions about our development process, pricing, and services.
+            {t('faq.intro')}
           </p>
         </div>
 
-        {/* Category Navigation - Simplified */}
-        <div className="flex flex-wrap justify-center gap-2 mb-8">
-          {categories.map((category) => (
+        {/* Search across every category */}
+        <div role="search" className="relative max-w-xl mx-auto mb-6">
+          <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
+          <Input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder={t('faq.search.placeholder')}
+            aria-label={t('faq.search.label')}
+            className="pl-10 pr-10"
+          />
+          {query && (
             <button
-              key={category.id}
-              onClick={() => setActiveCategory(category.id)}
-              className={`px-4 py-2 text-sm rounded-md font-medium transition-colors ${
-                activeCategory === category.id 
-                  ? 'bg-primary text-primary-foreground' 
-                  : 'bg-card text-foreground hover:bg-muted'
-              }`}
+              type="button"
+              onClick={() => setQuery('')}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              aria-label={t('faq.search.clear')}
             >
-              {category.label}
+              <X size={18} aria-hidden="true" />
             </button>
-          ))}
+          )}
         </div>
 
+        {/* Category Navigation - Simplified */}
+        {!isSearching && (
+          <div className="flex flex-wrap justify-center gap-2 mb-8">
+            {categories.map((category: FAQCategory) => (
+              <button
+                key={category.id}
+                onClick={() => setActiveCategory(category.id)}
+                className={`px-4 py-2 text-sm rounded-md font-medium transition-colors ${
+                  activeCategory === category.id
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-card text-foreground hover:bg-muted'
+                }`}
+              >
+                {category.label}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* FAQ Content - Simplified */}
         <div className="bg-card rounded-xl border border-border p-6 mb-8">
-          <h3 className="text-lg font-semibold text-foreground mb-4">
-            {categories.find(c => c.id === activeCategory)?.label} Questions
+          <h3 className="text-lg font-semibold text-foreground mb-4" aria-live="polite">
+            {isSearching
+              ? t('faq.search.results', { count: results.length, query: query.trim() })
+              : t('faq.categoryQuestions', { category: categoryLabel(activeCategory) })}
           </h3>
-          <Accordion type="single" collapsible className="w-full">
-            {faqs[activeCategory as keyof typeof faqs].map((faq, index) => (
-              <AccordionItem key={index} value={`item-${index}`}>
+          {isSearching && results.length === 0 && (
+            <p className="text-muted-foreground">{t('faq.search.empty')}</p>
+          )}
+          <Accordion type="single" collapsible value={openItem} onValueChange={handleOpenChange} className="w-full">
+            {visible.map(({ item: faq, matches }: SearchResult<FAQItem>) => (
+              <AccordionItem key={faq.id} value={faq.id} id={getFaqAnchorId(faq.id)} className="scroll-mt-24">
                 <AccordionTrigger className="text-left py-3">
-                  {faq.question}
+                  <span>
+                    {isSearching && (
+                      <span className="block text-xs font-medium uppercase tracking-wide text-primary mb-1">
+                        {categoryLabel(faq.category)}
+                      </span>
+                    )}
+                    <HighlightedText text={faq.question} ranges={matches['question'] ?? NO_MATCHES} />
+                  </span>
                 </AccordionTrigger>
                 <AccordionContent className="text-muted-foreground leading-relaxed pb-3">
-                  {faq.answer}
+                  <p>
+                    <HighlightedText text={faq.answer} ranges={matches['answer'] ?? NO_MATCHES} />
+                  </p>
+                  <div className="flex flex-wrap items-center gap-3 mt-4 text-sm">
+                    {faq.id in feedback ? (
+                      <span role="status">{t('faq.feedback.thanks')}</span>
+                    ) : (
+                      <>
+                        <span>{t('faq.feedback.question')}</span>
+                        <Button variant="outline" size="sm" onClick={() => handleFeedback(faq, true)}>
+                          {t('faq.feedback.yes')}
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleFeedback(faq, false)}>
+                          {t('faq.feedback.no')}
+                        </Button>
+                      </>
+                    )}
+                    <a
+                      href={`#${getFaqAnchorId(faq.id)}`}
+                      className="ml-auto inline-flex items-center gap-1 hover:text-foreground"
+                    >
+                      <Link2 size={14} aria-hidden="true" />
+                      {t('faq.link')}
+                    </a>
+                  </div>
                 </AccordionContent>
               </AccordionItem>
             ))}
@@ -161,16 +204,16 @@ const FAQSection = () => {
         {/* CTA Section - Simplified */}
         <div className="text-center bg-gradient-subtle p-8 rounded-2xl">
           <h3 className="text-xl font-bold text-foreground mb-3">
-            Still Have Questions?
+            {t('faq.cta.title')}
           </h3>
           <p className="text-muted-foreground mb-6 max-w-xl mx-auto">
-            We're here to help! Schedule a free consultation to discuss your specific needs.
+            {t('faq.cta.body')}
           </p>
-          <Button 
+          <Button
             onClick={scrollToContact}
             className="btn-hero"
           >
-            Schedule Free Consultation
+            {t('faq.cta.button')}
           </Button>
         </div>
       </div>
@@ -178,4 +221,4 @@ const FAQSection = () => {
   );
 };
 
-export default FAQSection;
\ No newline at end of file
+export default FAQSection;
@@ -1,29 +1,32 @@
 import { Mail, Phone, MapPin, Linkedin, Twitter, Github } from 'lucide-react';
+import { useI18n } from '@/shared/hooks/useI18n';
+import { consentManager } from '@/shared/services/consentManager';
 
 const Footer = () => {
+  const { t } = useI18n();
   const currentYear = new Date().getFullYear();
 
   const footerLinks = {
     services: [
-      { label: 'Custom Web Apps', href: '#services' },
-      { label: 'Mobile Development', href: '#services' },
-      { label: 'Workflow Automation', href: '#services' },
-      { label: 'CRM Solutions', href: '#services' },
-      { label: 'Analytics Dashboards', href: '#services' },
+      { label: t('footer.services.webApps'), href: '#services' },
+      { label: t('footer.services.mobile'), href: '#services' },
+      { label: t('footer.services.automation'), href: '#services' },
+      { label: t('footer.services.crm'), href: '#services' },
+      { label: t('footer.services.analytics'), href: '#services' },
     ],
     company: [
-      { label: 'About Us', href: '#about' },
-      { label: 'Our Process', href: '#contact' },
-      { label: 'Case Studies', href: '#portfolio' },
-      { label: 'Client Testimonials', href: '#testimonials' },
-      { label: 'Contact', href: '#contact' },
+      { label: t('footer.company.about'), href: '#about' },
+      { label: t('footer.company.process'), href: '#contact' },
+      { label: t('footer.company.caseStudies'), href: '#portfolio' },
+      { label: t('footer.company.testimonials'), href: '#testimonials' },
+      { label: t('footer.company.contact'), href: '#contact' },
     ],
     resources: [
-      { label: 'Free Consultation', href: '#contact' },
-      { label: 'Project Planning', href: '#contact' },
-      { label: 'Technical Support', href: '#contact' },
-      { label: 'Success Stories', href: '#testimonials' },
-      { label: 'Industry Insights', href: '#contact' },
+      { label: t('footer.resources.consultation'), href: '#contact' },
+      { label: t('footer.resources.planning'), href: '#contact' },
+      { label: t('footer.resources.support'), href: '#contact' },
+      { label: t('footer.resources.stories'), href: '#testimonials' },
+      { label: t('footer.resources.insights'), href: '#contact' },
     ]
   };
 
@@ -58,7 +61,7 @@ const Footer = () => {
               </div>
             </div>
             <p className="text-primary-foreground mb-6 leading-relaxed opacity-90">
-              We help small and medium businesses transform their operations with custom software solutions that drive real results.
+              {t('footer.tagline')}
             </p>
             
             <div className="space-y-3">
@@ -81,7 +84,7 @@ const Footer = () => {
               <a 
                 href="#" 
                 className="group relative w-11 h-11 bg-primary-foreground/10 rounded-xl flex items-center justify-center hover:bg-primary transition-all duration-300 overflow-hidden"
-                aria-label="Visit our LinkedIn profile"
+                aria-label={t('footer.social.linkedin')}
               >
                 <Linkedin className="h-5 w-5 group-hover:text-primary-foreground transition-colors duration-300" />
                 <div className="absolute inset-0 bg-gradient-to-br from-primary/20 to-secondary/20 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
@@ -89,7 +92,7 @@ const Footer = () => {
               <a 
                 href="#" 
                 className="group relative w-11 h-11 bg-primary-foreground/10 rounded-xl flex items-center justify-center hover:bg-primary transition-all duration-300 overflow-hidden"
-                aria-label="Follow us on Twitter"
+                aria-label={t('footer.social.twitter')}
               >
                 <Twitter className="h-5 w-5 group-hover:text-primary-foreground transition-colors duration-300" />
                 <div className="absolute inset-0 bg-gradient-to-br from-primary/20 to-secondary/20 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
@@ -97,7 +100,7 @@ const Footer = () => {
               <a 
                 href="#" 
                 className="group relative w-11 h-11 bg-primary-foreground/10 rounded-xl flex items-center justify-center hover:bg-primary transition-all duration-300 overflow-hidden"
-                aria-label="Check out our GitHub projects"
+                aria-label={t('footer.social.github')}
               >
                 <Github className="h-5 w-5 group-hover:text-primary-foreground transition-colors duration-300" />
                 <div className="absolute inset-0 bg-gradient-to-br from-primary/20 to-secondary/20 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
@@ -107,7 +110,7 @@ const Footer = () => {
 
           {/* Services */}
           <div>
-            <h3 className="text-lg font-semibold mb-6">Services</h3>
+            <h3 className="text-lg font-semibold mb-6">{t('footer.services')}</h3>
             <ul className="space-y-3">
               {footerLinks.services.map((link, index) => (
                 <li key={index}>
@@ -124,7 +127,7 @@ const Footer = () => {
 
           {/* Company */}
           <div>
-            <h3 className="text-lg font-semibold mb-6">Company</h3>
+            <h3 className="text-lg font-semibold mb-6">{t('footer.company')}</h3>
             <ul className="space-y-3">
               {footerLinks.company.map((link, index) => (
                 <li key={index}>
@@ -141,7 +144,7 @@ const Footer = () => {
 
           {/* Resources & CTA */}
           <div>
-            <h3 className="text-lg font-semibold mb-6">Resources</h3>
+            <h3 className="text-lg font-semibold mb-6">{t('footer.resources')}</h3>
             <ul className="space-y-3 mb-8">
               {footerLinks.resources.map((link, index) => (
                 <li key={index}>
@@ -156,15 +159,15 @@ const Footer = () => {
             </ul>
 
             <div className="bg-secondary/20 p-6 rounded-2xl">
-              <h4 className="font-semibold mb-2">Ready to Get Started?</h4>
+              <h4 className="font-semibold mb-2">{t('footer.cta.title')}</h4>
               <p className="text-primary-foreground text-sm mb-4 opacity-90">
-                Book your free consultation today and see how we can transform your business.
+                {t('footer.cta.body')}
               </p>
               <button
                 onClick={() => scrollToSection('#contact')}
                 className="bg-secondary text-secondary-foreground px-4 py-2 rounded-lg text-sm font-medium hover:bg-secondary/90 transition-colors"
               >
-                Schedule Free Call
+                {t('footer.cta.button')}
               </button>
             </div>
           </div>
@@ -176,19 +179,26 @@ const Footer = () => {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           <div className="flex flex-col md:flex-row justify-between items-center gap-4">
             <p className="text-primary-foreground text-sm opacity-75">
-              © {currentYear} Optimum Solutions Group. All rights reserved.
+              {t('footer.copyright', { year: String(currentYear) })}
             </p>
             
             <div className="flex gap-6 text-sm">
               <a href="#" className="text-primary-foreground hover:text-primary-foreground transition-colors opacity-75 hover:opacity-100">
-                Privacy Policy
+                {t('footer.privacy')}
               </a>
               <a href="#" className="text-primary-foreground hover:text-primary-foreground transition-colors opacity-75 hover:opacity-100">
-                Terms of Service
+                {t('footer.terms')}
               </a>
               <a href="#" className="text-primary-foreground hover:text-primary-foreground transition-colors opacity-75 hover:opacity-100">
-                Cookie Policy
+                {t('footer.cookies')}
               </a>
+              <button
+                type="button"
+                onClick={() => consentManager.openPreferences()}
+                className="text-primary-foreground hover:text-primary-foreground transition-colors opacity-75 hover:opacity-100"
+              >
+                {t('footer.cookiePreferences')}
+              </button>
             </div>
           </div>
         </div>
@@ -0,0 +1,46 @@
+/**
+ * Head Component
+ *
+ * Declares document head tags for the part of the app it renders in. Heads
+ * rendered inside its children are nested in it and override its tags, so
+ * App sets site-wide defaults and each page only sets what differs.
+ */
+
+import React, { useContext } from 'react';
+import { useLocation } from 'react-router-dom';
+import { HeadContext, HeadDepthContext } from '../contexts/HeadContext';
+import { useHead } from '../hooks/useHead';
+import { useI18n } from '../hooks/useI18n';
+import { getAlternateLinks } from '../i18n';
+import type { HeadManager, HeadOptions } from '../head';
+import { SEO_CONFIG } from '../utils/seoConfig';
+
+// =========================== TYPES ===========================
+
+export interface HeadProps extends HeadOptions {
+  /** Page exists in every locale: add its hreflang alternates and og:locale */
+  localized?: boolean;
+  children?: React.ReactNode;
+}
+
+// =========================== COMPONENTS ===========================
+
+export const Head: React.FC<HeadProps> = ({ localized = false, children, ...options }) => {
+  const { pathname } = useLocation();
+  const { config } = useI18n();
+  const depth: number = useContext(HeadDepthContext);
+
+  useHead(localized
+    ? { ...options, locale: config.ogLocale, alternates: getAlternateLinks(pathname, SEO_CONFIG.siteUrl) }
+    : options);
+
+  if (children === undefined) return null;
+  return <HeadDepthContext.Provider value={depth + 1}>{children}</HeadDepthContext.Provider>;
+};
+
+/** Supplies the head manager for the tree: the prerender entry passes a fresh one per page and serializes it afterwards */
+export const HeadProvider: React.FC<{ manager: HeadManager; children: React.ReactNode }> = ({ manager, children }) => (
+  <HeadContext.Provider value={manager}>{children}</HeadContext.Provider>
+);
+
+export default Head;
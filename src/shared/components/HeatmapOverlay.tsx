@@ -0,0 +1,222 @@
+/**
+ * Heatmap Overlay Component
+ *
+ * Draws the recorded click heatmap for the current route on top of the live
+ * page. Opened from the Heatmaps tab on /analytics, which links to the page
+ * with `?heatmap=<viewport>`.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useLocation, useNavigate, type Location } from 'react-router-dom';
+import { Flame, X } from 'lucide-react';
+import { Badge } from '@/shared/ui/badge';
+import { Button } from '@/shared/ui/button';
+import analytics from '@/shared/services/analytics';
+import {
+  GRID_SIZE,
+  getViewportClass,
+  type HeatmapData,
+  type HeatmapElement,
+  type ViewportClass,
+} from '@/shared/services/heatmap';
+
+// =========================== CONSTANTS ===========================
+
+export const HEATMAP_QUERY_PARAM = 'heatmap';
+
+const VIEWPORTS: ViewportClass[] = ['mobile', 'tablet', 'desktop'];
+const POINT_RADIUS = 28;
+
+// Cold to hot, indexed by click intensity 0-255
+const PALETTE_STOPS: Array<[number, string]> = [
+  [0.2, 'rgb(0, 0, 255)'],
+  [0.45, 'rgb(0, 255, 255)'],
+  [0.65, 'rgb(0, 255, 0)'],
+  [0.85, 'rgb(255, 255, 0)'],
+  [1, 'rgb(255, 0, 0)'],
+];
+
+// =========================== RENDERING ===========================
+
+function createPalette(): Uint8ClampedArray {
+  const canvas: HTMLCanvasElement = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const context: CanvasRenderingContext2D | null = canvas.getContext('2d');
+  if (!context) return new Uint8ClampedArray(256 * 4);
+
+  const gradient: CanvasGradient = context.createLinearGradient(0, 0, 256, 0);
+  PALETTE_STOPS.forEach(([offset, color]) => gradient.addColorStop(offset, color));
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, 256, 1);
+
+  return context.getImageData(0, 0, 256, 1).data;
+}
+
+const findElement = (selector: string): Element | null => {
+  try {
+    return document.querySelector(selector);
+  } catch {
+    return null; // Selector recorded by an older build
+  }
+};
+
+/**
+ * Draw click density as alpha, then map alpha onto the color palette
+ */
+function drawHeatmap(canvas: HTMLCanvasElement, data: HeatmapData): string[] {
+  const context: CanvasRenderingContext2D | null = canvas.getContext('2d');
+  if (!context) return [];
+
+  context.clearRect(0, 0, canvas.width, canvas.height);
+
+  const elements: HeatmapElement[] = Object.values(data.elements);
+  const maxCell: number = Math.max(1, ...elements.flatMap((element: HeatmapElement) => element.cells));
+  const missing: string[] = [];
+
+  elements.forEach((element: HeatmapElement) => {
+    const target: Element | null = findElement(element.selector);
+    if (!target) {
+      missing.push(element.selector);
+      return;
+    }
+
+    const rect: DOMRect = target.getBoundingClientRect();
+    const left: number = rect.left + window.scrollX;
+    const top: number = rect.top + window.scrollY;
+
+    element.cells.forEach((count: number, index: number) => {
+      if (count === 0) return;
+
+      const x: number = left + ((index % GRID_SIZE) + 0.5) / GRID_SIZE * rect.width;
+      const y: number = top + (Math.floor(index / GRID_SIZE) + 0.5) / GRID_SIZE * rect.height;
+      const gradient: CanvasGradient = context.createRadialGradient(x, y, 0, x, y, POINT_RADIUS);
+      gradient.addColorStop(0, `rgba(0, 0, 0, ${Math.max(0.15, count / maxCell)})`);
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+
+      context.fillStyle = gradient;
+      context.fillRect(x - POINT_RADIUS, y - POINT_RADIUS, POINT_RADIUS * 2, POINT_RADIUS * 2);
+    });
+  });
+
+  const palette: Uint8ClampedArray = createPalette();
+  const image: ImageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const alpha: number = image.data[i + 3]!;
+    if (alpha === 0) continue;
+
+    image.data[i] = palette[alpha * 4]!;
+    image.data[i + 1] = palette[alpha * 4 + 1]!;
+    image.data[i + 2] = palette[alpha * 4 + 2]!;
+    image.data[i + 3] = Math.min(200, alpha + 40);
+  }
+  context.putImageData(image, 0, 0);
+
+  return missing;
+}
+
+// =========================== OVERLAY ===========================
+
+interface HeatmapOverlayProps {
+  data: HeatmapData;
+  onClose: () => void;
+}
+
+export const HeatmapOverlay: React.FC<HeatmapOverlayProps> = ({ data, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [missing, setMissing] = useState<string[]>([]);
+  const currentViewport: ViewportClass = getViewportClass();
+
+  const redraw: () => void = useCallback(() => {
+    const canvas: HTMLCanvasElement | null = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.width = document.documentElement.scrollWidth;
+    canvas.height = document.documentElement.scrollHeight;
+    setMissing(drawHeatmap(canvas, data));
+  }, [data]);
+
+  useEffect(() => {
+    // Wait a frame so lazy sections have laid out
+    const frame: number = requestAnimationFrame(redraw);
+    window.addEventListener('resize', redraw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('resize', redraw);
+    };
+  }, [redraw]);
+
+  return createPortal(
+    <>
+      <canvas
+        ref={canvasRef}
+        className="pointer-events-none absolute left-0 top-0 z-[60]"
+        aria-hidden="true"
+      />
+      <div
+        className="fixed right-4 top-4 z-[61] w-72 rounded-lg border bg-background/95 p-4 text-sm shadow-xl backdrop-blur"
+        role="dialog"
+        aria-label="Click heatmap"
+      >
+        <div className="mb-2 flex items-center justify-between">
+          <p className="flex items-center gap-2 font-semibold">
+            <Flame className="h-4 w-4 text-orange-500" />
+            Click heatmap
+          </p>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close heatmap">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-muted-foreground">
+          {data.route} · <Badge variant="outline">{data.viewport}</Badge> · {data.totalClicks} clicks
+        </p>
+        {currentViewport !== data.viewport && (
+          <p className="mt-2 text-xs text-amber-600">
+            Recorded on {data.viewport} screens; resize to a {data.viewport} width for accurate positions.
+          </p>
+        )}
+        {missing.length > 0 && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            {missing.length} clicked element{missing.length === 1 ? ' is' : 's are'} not on the page right now.
+          </p>
+        )}
+      </div>
+    </>,
+    document.body
+  );
+};
+
+// =========================== ROUTE HOST ===========================
+
+/**
+ * Shows the overlay when the page is opened with `?heatmap=<viewport>`
+ */
+export const HeatmapOverlayHost: React.FC = () => {
+  const location: Location = useLocation();
+  const navigate = useNavigate();
+
+  const viewport: ViewportClass | null = useMemo(() => {
+    const value: string | null = new URLSearchParams(location.search).get(HEATMAP_QUERY_PARAM);
+    return VIEWPORTS.find((candidate: ViewportClass) => candidate === value) ?? null;
+  }, [location.search]);
+
+  const data: HeatmapData | null = useMemo(
+    () => (viewport ? analytics.getHeatmaps().get(location.pathname, viewport) : null),
+    [location.pathname, viewport]
+  );
+
+  const close: () => void = useCallback(() => {
+    const params = new URLSearchParams(location.search);
+    params.delete(HEATMAP_QUERY_PARAM);
+    const search: string = params.toString();
+    navigate({ pathname: location.pathname, search: search ? `?${search}` : '' }, { replace: true });
+  }, [location.pathname, location.search, navigate]);
+
+  if (!data) return null;
+
+  return <HeatmapOverlay data={data} onClose={close} />;
+};
+
+export default HeatmapOverlayHost;
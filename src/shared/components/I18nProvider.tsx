@@ -0,0 +1,55 @@
+/**
+ * I18n Provider
+ *
+ * Provides the translator for the locale of the current route, keeps the
+ * html lang attribute in sync and announces locale changes on the event bus.
+ * Visitors landing on an unprefixed page are sent to the locale they picked
+ * before, or the one their browser prefers on a first visit.
+ */
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { I18nContext } from '../contexts/I18nContext';
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  detectLocale,
+  getStoredLocale,
+  localizePath,
+  type Locale,
+  type Translator,
+} from '../i18n';
+import { eventBus, EVENT_TYPES } from '../services/eventBus';
+
+// Shared across the per-locale route trees, which remount on a switch
+let activeLocale: Locale | null = null;
+
+export function I18nProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  const translator: Translator = useMemo(() => createTranslator(locale), [locale]);
+  const navigate = useNavigate();
+  const { pathname, search, hash } = useLocation();
+  // Only checked on entry: later navigation inside this locale is deliberate
+  const hasCheckedPreference = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (hasCheckedPreference.current || locale !== DEFAULT_LOCALE) return;
+    hasCheckedPreference.current = true;
+
+    const preferred: Locale = getStoredLocale() ?? detectLocale(navigator.languages ?? [navigator.language]);
+    if (preferred !== locale) {
+      navigate(localizePath(`${pathname}${search}${hash}`, preferred), { replace: true });
+    }
+  }, [locale, navigate, pathname, search, hash]);
+
+  useEffect(() => {
+    document.documentElement.lang = translator.config.intlLocale;
+
+    const previousLocale: Locale | null = activeLocale;
+    activeLocale = locale;
+    if (previousLocale && previousLocale !== locale) {
+      eventBus.emit(EVENT_TYPES.LANGUAGE_CHANGED, { locale, previousLocale }, 'I18nProvider');
+    }
+  }, [locale, translator]);
+
+  return <I18nContext.Provider value={translator}>{children}</I18nContext.Provider>;
+}
@@ -1,92 +1,145 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/shared/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/ui/select';
 import { Checkbox } from '@/shared/ui/checkbox';
-import { Calculator, Settings, MessageCircle } from 'lucide-react';
+import { Link, useLocation } from 'react-router-dom';
+import { Calculator, Settings, MessageCircle, Link2, Send, FileDown, Printer } from 'lucide-react';
 import { useToast } from '@/shared/hooks/use-toast';
+import { useI18n } from '@/shared/hooks/useI18n';
+import useHydrated from '@/shared/hooks/useHydrated';
+import analytics from '@/shared/services/analytics';
+import { EVENT_TYPES, eventBus } from '@/shared/services/eventBus';
+import {
+  DEFAULT_PRICING_RULES,
+  QUOTE_QUERY_PARAM,
+  calculateQuote,
+  createEmptySelection,
+  decodeQuote,
+  encodeQuote,
+  formatPrice,
+  getQuoteUrl,
+  getUnavailableFeatures,
+  isSelectionComplete,
+  resolveFeatures,
+  toggleFeature,
+  type PricingFeature,
+  type Quote,
+  type QuoteLineItem,
+  type QuoteSelection,
+} from '@/shared/services/pricingEngine';
+import { createQuoteDocument, downloadQuotePdf, type QuoteDocument } from '@/shared/services/quoteDocument';
+
+const rules = DEFAULT_PRICING_RULES;
+
+// A quote shared via ?quote=, if the link holds a valid one
+const getSharedSelection = (search: string): QuoteSelection | null => {
+  const encoded: string | null = new URLSearchParams(search).get(QUOTE_QUERY_PARAM);
+  return encoded ? decodeQuote(encoded, rules) : null;
+};
+
+// Start in the visitor's currency when we price in it
+const getDefaultSelection = (currency: string): QuoteSelection => {
+  const empty: QuoteSelection = createEmptySelection(rules);
+  return currency in rules.currencies ? { ...empty, currency } : empty;
+};
 
 const ProjectEstimator = () => {
   const { toast } = useToast();
-  const [projectType, setProjectType] = useState('');
-  const [design, setDesign] = useState('');
-  const [environment, setEnvironment] = useState('');
-  const [features, setFeatures] = useState<string[]>([]);
-
-  const featureOptions = [
-    { id: 'accounts', label: 'User accounts', basePrice: 5000 },
-    { id: 'payments', label: 'Payments', basePrice: 8000 },
-    { id: 'chat', label: 'Chat', basePrice: 6000 },
-    { id: 'admin', label: 'Admin panel', basePrice: 7000 },
-    { id: 'iot', label: 'IoT Integration', basePrice: 12000 },
-    { id: 'analytics', label: 'Analytics Dashboard', basePrice: 9000 },
-    { id: 'api', label: 'Advanced API', basePrice: 4000 },
-    { id: 'mobile', label: 'Mobile App', basePrice: 15000 },
-  ];
-
-  const projectTypes = {
-    'web-app': { label: 'Web application', basePrice: 7000 },
-    'mobile-app': { label: 'Mobile application', basePrice: 12000 },
-    'iot-platform': { label: 'IoT Platform', basePrice: 25000 },
-    'ecommerce': { label: 'E-commerce platform', basePrice: 15000 },
-    'crm': { label: 'CRM System', basePrice: 18000 },
-  };
+  const { t, config, localizePath } = useI18n();
+  const { search } = useLocation();
+  const hydrated: boolean = useHydrated();
+  const [selection, setSelection] = useState<QuoteSelection>(
+    () => (hydrated && getSharedSelection(search)) || getDefaultSelection(config.currency)
+  );
+  const [restoredOnMount] = useState<boolean>(hydrated);
 
-  const designTypes = {
-    'basic': { label: 'Basic', multiplier: 1 },
-    'custom': { label: 'Custom Design', multiplier: 1.5 },
-    'premium': { label: 'Premium UI/UX', multiplier: 2 },
-  };
+  // Prerendered pages hydrate with the default selection, then reopen the shared quote
+  useEffect(() => {
+    if (restoredOnMount || !hydrated) return;
+    const shared: QuoteSelection | null = getSharedSelection(search);
+    if (shared) setSelection(shared);
+  }, [hydrated, restoredOnMount, search]);
 
-  const environmentTypes = {
-    'frontend': { label: 'Frontend only', multiplier: 1 },
-    'fullstack': { label: 'Full-stack', multiplier: 1.8 },
-    'enterprise': { label: 'Enterprise solution', multiplier: 2.5 },
+  const quote: Quote = useMemo(() => calculateQuote(selection, rules), [selection]);
+  const unavailableFeatures: Set<string> = useMemo(() => getUnavailableFeatures(rules, selection), [selection]);
+  const isComplete: boolean = isSelectionComplete(selection);
+  const format = (amount: number): string => formatPrice(amount, quote.currency, rules, config.intlLocale);
+
+  // Changing an option can make selected features unavailable
+  const updateSelection = (update: Partial<QuoteSelection>) => {
+    setSelection((current: QuoteSelection) => {
+      const next: QuoteSelection = { ...current, ...update };
+      return { ...next, features: resolveFeatures(rules, next) };
+    });
   };
 
   const handleFeatureChange = (featureId: string, checked: boolean) => {
-    if (checked) {
-      setFeatures([...features, featureId]);
-    } else {
-      setFeatures(features.filter(f => f !== featureId));
-    }
+    setSelection((current: QuoteSelection) => ({
+      ...current,
+      features: toggleFeature(rules, current, featureId, checked),
+    }));
   };
 
-  const calculateEstimate = () => {
-    if (!projectType || !design || !environment) return { min: 0, max: 0 };
-
-    const basePrice = projectTypes[projectType as keyof typeof projectTypes]?.basePrice || 0;
-    const designMultiplier = designTypes[design as keyof typeof designTypes]?.multiplier || 1;
-    const envMultiplier = environmentTypes[environment as keyof typeof environmentTypes]?.multiplier || 1;
-    
-    const featuresPrice = features.reduce((total, featureId) => {
-      const feature = featureOptions.find(f => f.id === featureId);
-      return total + (feature?.basePrice || 0);
-    }, 0);
-
-    const totalBase = (basePrice + featuresPrice) * designMultiplier * envMultiplier;
-    
-    return {
-      min: Math.round(totalBase * 0.8),
-      max: Math.round(totalBase * 1.2)
-    };
+  const getFeatureHint = (feature: PricingFeature): string | null => {
+    if (unavailableFeatures.has(feature.id)) return t('estimator.feature.unavailable');
+    if (!feature.requires?.length) return null;
+
+    const labels: string[] = feature.requires.map((id: string) =>
+      rules.features.find((candidate: PricingFeature) => candidate.id === id)?.label ?? id
+    );
+    return t('estimator.feature.includes', { features: labels.join(', ') });
   };
 
-  const estimate = calculateEstimate();
+  const showIncompleteToast = () => {
+    toast({
+      title: t('estimator.toast.incomplete.title'),
+      description: t('estimator.toast.incomplete.description'),
+      variant: "destructive",
+    });
+  };
 
-  const handleSubmit = () => {
-    if (!projectType || !design || !environment) {
+  const handleCopyLink = async () => {
+    if (!isComplete) return showIncompleteToast();
+
+    try {
+      await navigator.clipboard.writeText(getQuoteUrl(selection, rules));
+      toast({ title: t('estimator.toast.copied.title'), description: t('estimator.toast.copied.description') });
+    } catch {
       toast({
-        title: "Please complete all fields",
-        description: "All project details are required for an accurate estimate.",
+        title: t('estimator.toast.copyFailed.title'),
+        description: t('estimator.toast.copyFailed.description'),
         variant: "destructive",
       });
-      return;
+      window.history.replaceState(null, '', getQuoteUrl(selection, rules));
     }
+  };
+
+  const handleDownloadPdf = () => {
+    if (!isComplete) return showIncompleteToast();
+
+    const document: QuoteDocument = createQuoteDocument(quote, { rules, url: getQuoteUrl(selection, rules) });
+    downloadQuotePdf(document, rules);
+    analytics.track('estimator.quote_export', { quoteId: document.id, format: 'pdf', estimate: quote.baseTotal });
+  };
+
+  const handleSubmit = () => {
+    if (!isComplete) return showIncompleteToast();
+
+    analytics.track('estimator.submit', {
+      projectType: selection.projectType,
+      estimate: quote.baseTotal,
+    });
+
+    // Hand the quote to the contact form, which adds it to the message
+    const url: string = getQuoteUrl(selection, rules);
+    window.history.replaceState(null, '', url.replace(/#.*$/, '#contact'));
+    eventBus.emit(EVENT_TYPES.QUOTE_SHARED, { selection, url }, 'ProjectEstimator');
+    document.getElementById('contact')?.scrollIntoView({ behavior: 'smooth' });
 
     toast({
-      title: "Estimate submitted!",
-      description: "We'll contact you within 24 hours to discuss your project in detail.",
+      title: t('estimator.toast.submitted.title'),
+      description: t('estimator.toast.submitted.description', { hours: 24 }),
     });
   };
 
@@ -95,10 +148,10 @@ const ProjectEstimator = () => {
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="text-center mb-12">
           <h2 className="font-playfair italic text-4xl md:text-5xl font-light text-foreground mb-4">
-            Estimate your <span className="text-primary">project</span>
+            {t('estimator.title')} <span className="text-primary">{t('estimator.titleAccent')}</span>
           </h2>
           <p className="text-lg text-muted-foreground">
-            Get a quick estimate for your next digital transformation project
+            {t('estimator.intro')}
           </p>
         </div>
 
@@ -106,22 +159,22 @@ const ProjectEstimator = () => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Calculator className="h-5 w-5 text-primary" />
-              Project Calculator
+              {t('estimator.card.title')}
             </CardTitle>
             <CardDescription>
-              Configure your project requirements to get an estimated cost range
+              {t('estimator.card.description')}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
             <div className="grid md:grid-cols-2 gap-6">
               <div className="space-y-2">
-                <label htmlFor="estimator-project-type" className="text-sm font-medium">Project type</label>
-                <Select value={projectType} onValueChange={setProjectType}>
+                <label htmlFor="estimator-project-type" className="text-sm font-medium">{t('estimator.projectType')}</label>
+                <Select value={selection.projectType} onValueChange={(projectType) => updateSelection({ projectType })}>
                   <SelectTrigger id="estimator-project-type">
-                    <SelectValue placeholder="Select project type" />
+                    <SelectValue placeholder={t('estimator.projectType.placeholder')} />
                   </SelectTrigger>
                   <SelectContent>
-                    {Object.entries(projectTypes).map(([key, value]) => (
+                    {Object.entries(rules.projectTypes).map(([key, value]) => (
                       <SelectItem key={key} value={key}>{value.label}</SelectItem>
                     ))}
                   </SelectContent>
@@ -129,13 +182,13 @@ const ProjectEstimator = () => {
               </div>
 
               <div className="space-y-2">
-                <label htmlFor="estimator-design" className="text-sm font-medium">Design</label>
-                <Select value={design} onValueChange={setDesign}>
+                <label htmlFor="estimator-design" className="text-sm font-medium">{t('estimator.design')}</label>
+                <Select value={selection.design} onValueChange={(design) => updateSelection({ design })}>
                   <SelectTrigger id="estimator-design">
-                    <SelectValue placeholder="Select design level" />
+                    <SelectValue placeholder={t('estimator.design.placeholder')} />
                   </SelectTrigger>
                   <SelectContent>
-                    {Object.entries(designTypes).map(([key, value]) => (
+                    {Object.entries(rules.designLevels).map(([key, value]) => (
                       <SelectItem key={key} value={key}>{value.label}</SelectItem>
                     ))}
                   </SelectContent>
@@ -145,67 +198,158 @@ const ProjectEstimator = () => {
 
             <div className="space-y-3">
               <fieldset>
-                <legend className="text-sm font-medium mb-3">Features</legend>
+                <legend className="text-sm font-medium mb-3">{t('estimator.features')}</legend>
                 <div className="grid md:grid-cols-2 gap-3">
-                  {featureOptions.map((feature) => (
-                    <div key={feature.id} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={`estimator-${feature.id}`}
-                        checked={features.includes(feature.id)}
-                        onCheckedChange={(checked) => 
-                          handleFeatureChange(feature.id, checked as boolean)
-                        }
-                      />
-                      <label
-                        htmlFor={`estimator-${feature.id}`}
-                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                      >
-                        {feature.label}
-                      </label>
-                    </div>
-                  ))}
+                  {rules.features.map((feature) => {
+                    const hint: string | null = getFeatureHint(feature);
+
+                    return (
+                      <div key={feature.id} className="flex items-start space-x-2">
+                        <Checkbox
+                          id={`estimator-${feature.id}`}
+                          checked={selection.features.includes(feature.id)}
+                          disabled={unavailableFeatures.has(feature.id)}
+                          onCheckedChange={(checked) =>
+                            handleFeatureChange(feature.id, checked as boolean)
+                          }
+                          {...(hint && { 'aria-describedby': `estimator-${feature.id}-hint` })}
+                        />
+                        <div className="grid gap-1">
+                          <label
+                            htmlFor={`estimator-${feature.id}`}
+                            className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                          >
+                            {feature.label}
+                          </label>
+                          {hint && (
+                            <p id={`estimator-${feature.id}-hint`} className="text-xs text-muted-foreground">{hint}</p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
               </fieldset>
             </div>
 
-            <div className="space-y-2">
-              <label htmlFor="estimator-environment" className="text-sm font-medium">Environment</label>
-              <Select value={environment} onValueChange={setEnvironment}>
-                <SelectTrigger id="estimator-environment">
-                  <SelectValue placeholder="Select environment" />
-                </SelectTrigger>
-                <SelectContent>
-                  {Object.entries(environmentTypes).map(([key, value]) => (
-                    <SelectItem key={key} value={key}>{value.label}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+            <div className="grid md:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                <label htmlFor="estimator-environment" className="text-sm font-medium">{t('estimator.environment')}</label>
+                <Select value={selection.environment} onValueChange={(environment) => updateSelection({ environment })}>
+                  <SelectTrigger id="estimator-environment">
+                    <SelectValue placeholder={t('estimator.environment.placeholder')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(rules.environments).map(([key, value]) => (
+                      <SelectItem key={key} value={key}>{value.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="estimator-timeline" className="text-sm font-medium">{t('estimator.timeline')}</label>
+                <Select value={selection.timeline} onValueChange={(timeline) => updateSelection({ timeline })}>
+                  <SelectTrigger id="estimator-timeline">
+                    <SelectValue placeholder={t('estimator.timeline.placeholder')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(rules.timelines).map(([key, value]) => (
+                      <SelectItem key={key} value={key}>{value.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="estimator-currency" className="text-sm font-medium">{t('estimator.currency')}</label>
+                <Select value={selection.currency} onValueChange={(currency) => updateSelection({ currency })}>
+                  <SelectTrigger id="estimator-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(rules.currencies).map((currency) => (
+                      <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
-            {estimate.min > 0 && (
-              <div className="text-center p-6 bg-gradient-to-r from-primary/10 to-secondary/10 rounded-xl">
-                <div className="text-3xl font-bold text-foreground mb-2">
-                  ${estimate.min.toLocaleString()} - ${estimate.max.toLocaleString()}
+            {quote.total > 0 && (
+              <div className="p-6 bg-gradient-to-r from-primary/10 to-secondary/10 rounded-xl space-y-4">
+                <div className="text-center" aria-live="polite">
+                  <div className="text-3xl font-bold text-foreground mb-2">
+                    {format(quote.min)} - {format(quote.max)}
+                  </div>
+                  <p className="text-muted-foreground">{t('estimator.estimatedCost')}</p>
                 </div>
-                <p className="text-muted-foreground">Estimated project cost</p>
+
+                <table className="w-full text-sm">
+                  <caption className="sr-only">{t('estimator.breakdown')}</caption>
+                  <tbody>
+                    {quote.lineItems.map((item: QuoteLineItem) => (
+                      <tr key={`${item.kind}-${item.id}`} className="border-t border-border/50">
+                        <th scope="row" className="py-1.5 text-left font-normal text-muted-foreground">
+                          {item.label}
+                          {item.multiplier && <span className="ml-1 text-xs">(×{item.multiplier})</span>}
+                        </th>
+                        <td className={`py-1.5 text-right tabular-nums ${item.amount < 0 ? 'text-green-600' : ''}`}>
+                          {format(item.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                    <tr className="border-t border-border font-semibold">
+                      <th scope="row" className="py-1.5 text-left">{t('estimator.total')}</th>
+                      <td className="py-1.5 text-right tabular-nums">{format(quote.total)}</td>
+                    </tr>
+                  </tbody>
+                </table>
               </div>
             )}
 
-            <Button
-              onClick={handleSubmit}
-              className="w-full btn-hero text-lg py-6"
-              disabled={!projectType || !design || !environment}
-            >
-              Submit Estimate Request
-            </Button>
+            <div className="grid sm:grid-cols-[1fr_auto] gap-3">
+              <Button
+                onClick={handleSubmit}
+                className="w-full btn-hero text-lg py-6"
+                disabled={!isComplete}
+              >
+                <Send className="h-5 w-5 mr-2" />
+                {t('estimator.submit')}
+              </Button>
+              <Button
+                variant="outline"
+                className="py-6"
+                onClick={handleCopyLink}
+                disabled={!isComplete}
+              >
+                <Link2 className="h-5 w-5 mr-2" />
+                {t('estimator.copyLink')}
+              </Button>
+            </div>
+
+            {isComplete && (
+              <div className="flex flex-wrap justify-center gap-3">
+                <Button variant="ghost" size="sm" onClick={handleDownloadPdf}>
+                  <FileDown className="h-4 w-4 mr-2" />
+                  {t('estimator.downloadPdf')}
+                </Button>
+                <Button variant="ghost" size="sm" asChild>
+                  <Link to={localizePath(`/quote?${QUOTE_QUERY_PARAM}=${encodeQuote(selection, rules)}`)}>
+                    <Printer className="h-4 w-4 mr-2" />
+                    {t('estimator.printable')}
+                  </Link>
+                </Button>
+              </div>
+            )}
 
             <div className="grid md:grid-cols-2 gap-4 pt-4">
               <Card>
                 <CardContent className="p-4 text-center">
                   <Settings className="h-8 w-8 text-primary mx-auto mb-2" />
-                  <h3 className="font-semibold mb-1">Track your estimate</h3>
+                  <h3 className="font-semibold mb-1">{t('estimator.track.title')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Submit your project to track it in the dashboard and receive follow-ups
+                    {t('estimator.track.body')}
                   </p>
                 </CardContent>
               </Card>
@@ -213,9 +357,9 @@ const ProjectEstimator = () => {
               <Card>
                 <CardContent className="p-4 text-center">
                   <MessageCircle className="h-8 w-8 text-primary mx-auto mb-2" />
-                  <h3 className="font-semibold mb-1">Get in touch with us</h3>
+                  <h3 className="font-semibold mb-1">{t('estimator.contact.title')}</h3>
                   <p className="text-sm text-muted-foreground">
-                    Do you have any questions? Contact us to discuss your needs
+                    {t('estimator.contact.body')}
                   </p>
                 </CardContent>
               </Card>
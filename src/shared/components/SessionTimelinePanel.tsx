@@ -0,0 +1,166 @@
+/**
+ * Session Timeline Panel
+ *
+ * Development panel listing the steps recorded by the session recorder,
+ * plus the step list used to show an error report's timeline
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  AlertTriangle,
+  ArrowDownUp,
+  Bug,
+  History,
+  Keyboard,
+  MousePointerClick,
+  Route,
+  X,
+  type LucideIcon,
+} from 'lucide-react';
+import { Badge } from '@/shared/ui/badge';
+import { Button } from '@/shared/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/ui/card';
+import {
+  sessionRecorder,
+  type TimelineEntry,
+  type TimelineEntryType,
+} from '@/shared/services/sessionRecorder';
+
+// =========================== CONSTANTS ===========================
+
+const ENTRY_ICONS: Record<TimelineEntryType, LucideIcon> = {
+  click: MousePointerClick,
+  input: Keyboard,
+  route: Route,
+  scroll: ArrowDownUp,
+  console_error: Bug,
+  error: AlertTriangle,
+};
+
+const ENTRY_LABELS: Record<TimelineEntryType, string> = {
+  click: 'Clicked',
+  input: 'Changed',
+  route: 'Navigated to',
+  scroll: 'Scrolled to',
+  console_error: 'Console error',
+  error: 'Error',
+};
+
+// =========================== STEP LIST ===========================
+
+interface TimelineStepListProps {
+  entries: TimelineEntry[];
+  emptyMessage?: string;
+}
+
+const describeEntry = (entry: TimelineEntry): string => {
+  switch (entry.type) {
+    case 'click':
+      return entry.target ?? 'element';
+    case 'input':
+      return [entry.target, entry.value && `→ ${entry.value}`].filter(Boolean).join(' ');
+    case 'route':
+    case 'scroll':
+      return entry.value ?? '';
+    default:
+      return [entry.detail, entry.target && `(${entry.target})`].filter(Boolean).join(' ');
+  }
+};
+
+/**
+ * Numbered steps with the time elapsed since the first step
+ */
+export const TimelineStepList: React.FC<TimelineStepListProps> = ({
+  entries,
+  emptyMessage = 'No interactions recorded yet',
+}) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">{emptyMessage}</p>;
+  }
+
+  const startedAt: number = entries[0]!.timestamp;
+
+  return (
+    <ol className="space-y-2">
+      {entries.map((entry: TimelineEntry, index: number) => {
+        const Icon: LucideIcon = ENTRY_ICONS[entry.type];
+        const isError: boolean = entry.type === 'error' || entry.type === 'console_error';
+
+        return (
+          <li key={`${entry.timestamp}-${index}`} className="flex items-start gap-2 text-xs">
+            <span className="w-6 shrink-0 text-right text-gray-400">{index + 1}.</span>
+            <Icon className={`h-4 w-4 shrink-0 ${isError ? 'text-red-500' : 'text-gray-500'}`} aria-hidden="true" />
+            <div className="min-w-0 flex-1">
+              <p className={isError ? 'text-red-600' : 'text-gray-800'}>
+                <span className="font-medium">{ENTRY_LABELS[entry.type]}</span>{' '}
+                <span className="break-all">{describeEntry(entry)}</span>
+              </p>
+              {entry.type !== 'route' && (
+                <p className="text-gray-400">{entry.path}</p>
+              )}
+            </div>
+            <span className="shrink-0 tabular-nums text-gray-400">
+              +{((entry.timestamp - startedAt) / 1000).toFixed(1)}s
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+// =========================== DEV PANEL ===========================
+
+export const SessionTimelinePanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>(() => sessionRecorder.getTimeline());
+
+  useEffect(() => {
+    setTimeline(sessionRecorder.getTimeline());
+    return sessionRecorder.subscribe(setTimeline);
+  }, []);
+
+  if (!sessionRecorder.isRecording()) return null;
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="fixed bottom-4 left-4 z-50 shadow-md"
+        onClick={() => setIsOpen(true)}
+        aria-label="Open session timeline"
+      >
+        <History className="mr-2 h-4 w-4" />
+        Timeline
+        <Badge variant="secondary" className="ml-2">{timeline.length}</Badge>
+      </Button>
+    );
+  }
+
+  return (
+    <Card className="fixed bottom-4 left-4 z-50 w-96 max-w-[calc(100vw-2rem)] shadow-xl">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">Session Timeline</CardTitle>
+            <CardDescription>Last {timeline.length} steps, attached to error reports</CardDescription>
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => setIsOpen(false)} aria-label="Close session timeline">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="max-h-80 overflow-y-auto pr-1">
+          <TimelineStepList entries={timeline} />
+        </div>
+        <Button variant="outline" size="sm" onClick={() => sessionRecorder.clear()} disabled={timeline.length === 0}>
+          Clear
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SessionTimelinePanel;
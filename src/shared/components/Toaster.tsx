@@ -0,0 +1,85 @@
+/**
+ * Toaster Component
+ *
+ * Renders the toast store through the shared/ui toast primitives and
+ * announces each new or changed toast to screen readers
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Toast,
+  ToastAction,
+  ToastClose,
+  ToastDescription,
+  ToastProvider,
+  ToastTitle,
+  ToastViewport,
+} from '@/shared/ui/toast';
+import { useToast, type ToasterToast } from '@/shared/hooks/use-toast';
+import { useAccessibilityContext } from './AccessibilityProvider';
+
+const getAnnouncement = (toast: ToasterToast): string =>
+  [toast.variant === 'destructive' && 'Error:', toast.title, toast.description]
+    .filter(Boolean)
+    .join(' ');
+
+export const Toaster: React.FC = () => {
+  const { toasts, dismiss } = useToast();
+  const { announceMessage } = useAccessibilityContext();
+  const announcedRef = useRef<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    const announced: Map<string, string> = announcedRef.current;
+
+    toasts
+      .filter((toast: ToasterToast) => toast.open)
+      .forEach((toast: ToasterToast) => {
+        const message: string = getAnnouncement(toast);
+        if (message && announced.get(toast.id) !== message) {
+          announced.set(toast.id, message);
+          announceMessage(message);
+        }
+      });
+
+    // Forget toasts that have left the screen
+    announced.forEach((_message: string, id: string) => {
+      if (!toasts.some((toast: ToasterToast) => toast.id === id)) announced.delete(id);
+    });
+  }, [toasts, announceMessage]);
+
+  return (
+    <ToastProvider>
+      {toasts.map((toast: ToasterToast) => (
+        // Radix keeps the duration a toast mounted with while the viewport is
+        // paused, so a settled promise toast remounts to pick up its new one
+        <Toast
+          key={`${toast.id}-${Boolean(toast.loading)}`}
+          variant={toast.variant ?? 'default'}
+          open={toast.open}
+          duration={toast.duration}
+          onOpenChange={(open: boolean) => {
+            if (!open) dismiss(toast.id);
+          }}
+        >
+          <div className="flex items-start gap-3">
+            {toast.loading && <Loader2 className="mt-0.5 h-4 w-4 shrink-0 animate-spin" aria-hidden="true" />}
+            <div className="grid gap-1">
+              {toast.title && <ToastTitle>{toast.title}</ToastTitle>}
+              {toast.description && <ToastDescription>{toast.description}</ToastDescription>}
+            </div>
+          </div>
+          {toast.action && (
+            <ToastAction altText={toast.action.altText ?? toast.action.label} onClick={toast.action.onClick}>
+              {toast.action.label}
+            </ToastAction>
+          )}
+          <ToastClose />
+        </Toast>
+      ))}
+      <ToastViewport />
+    </ToastProvider>
+  );
+};
+
+export default Toaster;
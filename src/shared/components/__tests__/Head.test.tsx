@@ -0,0 +1,97 @@
+/**
+ * Head Component Tests
+ * Nested per-route overrides, localized alternates and cleanup on unmount, inspected through the head manager
+ */
+
+import { render } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { Head, HeadProvider } from '../Head';
+import { HeadManager, type HeadTag } from '../../head';
+
+const renderHead = (manager: HeadManager, ui: React.ReactNode, path: string = '/') =>
+  render(
+    <HeadProvider manager={manager}>
+      <MemoryRouter initialEntries={[path]}>{ui}</MemoryRouter>
+    </HeadProvider>
+  );
+
+const getContent = (manager: HeadManager, key: string): string | undefined => {
+  const tag: HeadTag | undefined = manager.getTag(key);
+  return tag?.content ?? tag?.attributes['content'] ?? tag?.attributes['href'];
+};
+
+describe('Head', () => {
+  it('should let a nested page Head override the site defaults', () => {
+    const manager = new HeadManager();
+    renderHead(manager, (
+      <Head title="Site" description="Site description" twitterSite="@site">
+        <Head title="Portfolio" />
+      </Head>
+    ));
+
+    expect(getContent(manager, 'title')).toBe('Portfolio');
+    expect(getContent(manager, 'meta:og:title')).toBe('Portfolio');
+    expect(getContent(manager, 'meta:description')).toBe('Site description');
+    expect(getContent(manager, 'meta:twitter:site')).toBe('@site');
+  });
+
+  it('should add hreflang alternates and og:locale for localized pages', () => {
+    const manager = new HeadManager();
+    renderHead(manager, <Head title="Études de cas" localized />, '/fr/portfolio');
+
+    expect(getContent(manager, 'link:alternate:en')).toBe('https://example.com/portfolio');
+    expect(getContent(manager, 'link:alternate:fr')).toBe('https://example.com/fr/portfolio');
+    expect(getContent(manager, 'link:alternate:x-default')).toBe('https://example.com/portfolio');
+    expect(manager.getTag('meta:og:locale')).toBeDefined();
+  });
+
+  it('should update the tags when its props change', () => {
+    const manager = new HeadManager();
+    const { rerender } = renderHead(manager, <Head title="Quote 1" />);
+
+    rerender(
+      <HeadProvider manager={manager}>
+        <MemoryRouter>
+          <Head title="Quote 2" />
+        </MemoryRouter>
+      </HeadProvider>
+    );
+
+    expect(getContent(manager, 'title')).toBe('Quote 2');
+  });
+
+  it('should remove its tags on unmount and bring back the ones it overrode', () => {
+    const manager = new HeadManager();
+    const { rerender, unmount } = renderHead(manager, (
+      <Head title="Site">
+        <Head title="Case study" structuredData={{ caseStudy: { '@type': 'CreativeWork' } }} />
+      </Head>
+    ));
+
+    rerender(
+      <HeadProvider manager={manager}>
+        <MemoryRouter>
+          <Head title="Site" />
+        </MemoryRouter>
+      </HeadProvider>
+    );
+
+    expect(getContent(manager, 'title')).toBe('Site');
+    expect(manager.getTag('script:ld+json:caseStudy')).toBeUndefined();
+
+    unmount();
+    expect(manager.getTags()).toEqual([]);
+  });
+
+  it('should keep the document head in sync', () => {
+    document.head.innerHTML = '<title>Template</title>';
+    const manager = new HeadManager({ document });
+    const { unmount } = renderHead(manager, <Head title="Portfolio" canonicalUrl="https://example.com/portfolio" />);
+
+    expect(document.title).toBe('Portfolio');
+    expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe('https://example.com/portfolio');
+
+    unmount();
+    expect(document.head.querySelector('link[rel="canonical"]')).toBeNull();
+  });
+});
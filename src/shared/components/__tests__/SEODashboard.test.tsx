@@ -7,7 +7,7 @@ import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { SEODashboard } from '../SEODashboard';
-import { useSEO } from '../../hooks/useSEO';
+import { useSEO, type SEOAnalysisResult } from '../../hooks/useSEO';
 
 // Mock the useSEO hook
 jest.mock('../../hooks/useSEO');
@@ -30,34 +30,43 @@ const TestWrapper = ({ children }: { children: React.ReactNode }) => (
 );
 
 // Mock SEO data
-const mockSEOData = {
-  analysis: {
-    score: 85,
-    issues: [
-      {
-        category: 'meta',
-        type: 'error',
-        message: 'Missing title tag',
-        recommendation: 'Add a descriptive title tag',
-        impact: 'high'
-      },
-      {
-        category: 'performance',
-        type: 'warning',
-        message: 'Slow loading time',
-        recommendation: 'Optimize images and scripts',
-        impact: 'medium'
-      }
-    ],
-    recommendations: ['Add a descriptive title tag', 'Optimize images and scripts'],
-    coreWebVitals: {
-      lcp: 2500,
-      fid: 100,
-      cls: 0.1,
-      fcp: 1800,
-      ttfb: 800
+const mockAnalysis: SEOAnalysisResult = {
+  score: 85,
+  issues: [
+    {
+      category: 'meta',
+      type: 'error',
+      message: 'Missing title tag',
+      recommendation: 'Add a descriptive title tag',
+      impact: 'high'
+    },
+    {
+      category: 'performance',
+      type: 'warning',
+      message: 'Slow loading time',
+      recommendation: 'Optimize images and scripts',
+      impact: 'medium'
     }
+  ],
+  recommendations: ['Add a descriptive title tag', 'Optimize images and scripts'],
+  coreWebVitals: {
+    lcp: 2500,
+    fid: 100,
+    cls: 0.1,
+    fcp: 1800,
+    ttfb: 800
   },
+  metaTags: [
+    { name: 'description', content: 'Test Description', status: 'present' },
+    { property: 'og:title', content: 'Test Page', status: 'present' }
+  ],
+  structuredDataValid: true,
+  performanceScore: 100,
+  accessibilityScore: 100
+};
+
+const mockSEOData: ReturnType<typeof useSEO> = {
+  analysis: mockAnalysis,
   score: 85,
   isAnalyzing: false,
   runAnalysis: jest.fn(),
@@ -76,10 +85,7 @@ const mockSEOData = {
     description: 'Test Description',
     url: 'https://example.com/test'
   },
-  metaTags: [
-    { name: 'description', content: 'Test Description' },
-    { property: 'og:title', content: 'Test Page' }
-  ],
+  metaTags: mockAnalysis.metaTags,
   structuredDataValid: true,
   performanceMetrics: {
     lastAnalysisTime: Date.now(),
@@ -309,7 +315,7 @@ describe('SEODashboard Component', () => {
       mockUseSEO.mockReturnValue({
         ...mockSEOData,
         analysis: {
-          ...mockSEOData.analysis,
+          ...mockAnalysis,
           issues: []
         }
       });
@@ -418,7 +424,7 @@ describe('SEODashboard Component', () => {
         </TestWrapper>
       );
 
-      expect(onIssuesDetected).toHaveBeenCalledWith(mockSEOData.analysis.issues);
+      expect(onIssuesDetected).toHaveBeenCalledWith(mockAnalysis.issues);
     });
   });
 
@@ -443,7 +449,7 @@ describe('SEODashboard Component', () => {
       mockUseSEO.mockReturnValue({
         ...mockSEOData,
         analysis: {
-          ...mockSEOData.analysis,
+          ...mockAnalysis,
           issues: []
         }
       });
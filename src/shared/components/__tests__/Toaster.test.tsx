@@ -0,0 +1,83 @@
+/**
+ * Toaster Component Tests
+ * Rendering toasts, action buttons, promise toasts and screen reader announcements
+ */
+
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import { AccessibilityProvider } from '../AccessibilityProvider';
+import { Toaster } from '../Toaster';
+import { toast, TOAST_DURATION } from '../../hooks/use-toast';
+
+const getAnnouncements = (): string[] =>
+  Array.from(document.body.querySelectorAll(':scope > [aria-live="polite"]')).map(node => node.textContent ?? '');
+
+describe('Toaster', () => {
+  afterEach(() => {
+    act(() => toast.dismiss());
+    jest.useRealTimers();
+  });
+
+  it('should render toasts and announce them', () => {
+    render(
+      <AccessibilityProvider>
+        <Toaster />
+      </AccessibilityProvider>
+    );
+
+    act(() => {
+      toast({ title: 'Message sent', description: 'We will reply soon.' });
+    });
+
+    expect(screen.getByText('Message sent')).toBeInTheDocument();
+    expect(getAnnouncements()).toContain('Message sent We will reply soon.');
+  });
+
+  it('should run the action when its button is clicked', () => {
+    const onClick = jest.fn();
+    render(
+      <AccessibilityProvider>
+        <Toaster />
+      </AccessibilityProvider>
+    );
+
+    act(() => {
+      toast({ title: 'Could not send', variant: 'destructive', action: { label: 'Retry', onClick } });
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+    expect(onClick).toHaveBeenCalled();
+    expect(getAnnouncements()).toContain('Error: Could not send');
+  });
+
+  it('should close a settled promise toast after hovering over it while it was loading', async () => {
+    jest.useFakeTimers();
+    let resolve: (value: string) => void = () => undefined;
+    render(
+      <AccessibilityProvider>
+        <Toaster />
+      </AccessibilityProvider>
+    );
+
+    act(() => {
+      void toast.promise(new Promise<string>(done => { resolve = done; }), {
+        loading: 'Sending message',
+        success: 'Message sent',
+        error: 'Could not send',
+      });
+    });
+
+    const viewport = screen.getByRole('region');
+    fireEvent.pointerMove(viewport);
+    await act(async () => {
+      resolve('ok');
+    });
+    expect(within(viewport).getByText('Message sent')).toBeInTheDocument();
+
+    fireEvent.pointerLeave(viewport);
+    act(() => {
+      jest.advanceTimersByTime(TOAST_DURATION);
+    });
+
+    expect(within(viewport).queryByText('Message sent')).not.toBeInTheDocument();
+  });
+});
@@ -9,6 +9,12 @@ export { default as Footer } from './Footer';
 export { default as LazyImage } from './LazyImage';
 export { default as FAQSection } from './FAQSection';
 export { default as ProjectEstimator } from './ProjectEstimator';
+export { default as ConsentBanner } from './ConsentBanner';
+export { default as Head, HeadProvider } from './Head';
+export { default as Toaster } from './Toaster';
+export { Experiment, Variant } from './Experiment';
+export { default as SessionTimelinePanel, TimelineStepList } from './SessionTimelinePanel';
+export { default as HeatmapOverlayHost, HeatmapOverlay } from './HeatmapOverlay';
 
 // Performance Components
 export { default as CriticalCSS } from './CriticalCSS';
@@ -20,7 +26,6 @@ export { default as ParticleSystem } from './ParticleSystem';
 export { default as LazySection } from './optimized/LazySection';
 export { default as MemoizedCard } from './optimized/MemoizedCard';
 export { default as OptimizedImage } from './optimized/OptimizedImage';
-export { default as SEOHead } from './optimized/SEOHead';
 export { default as LazyLoad } from './optimized/LazyLoad';
 
 // Hook exports  
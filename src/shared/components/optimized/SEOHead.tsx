@@ -1,83 +0,0 @@
-import { useEffect } from 'react';
-
-interface SEOHeadProps {
-  title?: string;
-  description?: string;
-  keywords?: string[];
-  ogImage?: string;
-  canonicalUrl?: string;
-  structuredData?: Record<string, unknown>;
-}
-
-const SEOHead = ({
-  title = 'Optimum Solutions Group - Digital Transformation & IoT Solutions',
-  description = 'Transform your business with custom software, IoT systems, and digital solutions. Optimum Solutions Group helps ambitious businesses drive real, measurable results.',
-  keywords = ['digital transformation', 'IoT solutions', 'custom software', 'business automation', 'web development'],
-  ogImage = '/og-image.jpg',
-  canonicalUrl = window.location.href,
-  structuredData
-}: SEOHeadProps) => {
-  useEffect(() => {
-    // Update document title
-    document.title = title;
-
-    // Update meta tags
-    const updateMetaTag = (name: string, content: string, property = false) => {
-      const selector = property ? `meta[property="${name}"]` : `meta[name="${name}"]`;
-      let meta = document.querySelector(selector) as HTMLMetaElement;
-      
-      if (!meta) {
-        meta = document.createElement('meta');
-        if (property) {
-          meta.setAttribute('property', name);
-        } else {
-          meta.setAttribute('name', name);
-        }
-        document.head.appendChild(meta);
-      }
-      
-      meta.setAttribute('content', content);
-    };
-
-    // Standard meta tags
-    updateMetaTag('description', description);
-    updateMetaTag('keywords', keywords.join(', '));
-
-    // Open Graph tags
-    updateMetaTag('og:title', title, true);
-    updateMetaTag('og:description', description, true);
-    updateMetaTag('og:image', ogImage, true);
-    updateMetaTag('og:url', canonicalUrl, true);
-    updateMetaTag('og:type', 'website', true);
-
-    // Twitter tags
-    updateMetaTag('twitter:card', 'summary_large_image');
-    updateMetaTag('twitter:title', title);
-    updateMetaTag('twitter:description', description);
-    updateMetaTag('twitter:image', ogImage);
-
-    // Canonical URL
-    let canonical = document.querySelector('link[rel="canonical"]') as HTMLLinkElement;
-    if (!canonical) {
-      canonical = document.createElement('link');
-      canonical.rel = 'canonical';
-      document.head.appendChild(canonical);
-    }
-    canonical.href = canonicalUrl;
-
-    // Structured data
-    if (structuredData) {
-      let script = document.querySelector('script[type="application/ld+json"]') as HTMLScriptElement;
-      if (!script) {
-        script = document.createElement('script');
-        script.type = 'application/ld+json';
-        document.head.appendChild(script);
-      }
-      script.textContent = JSON.stringify(structuredData);
-    }
-  }, [title, description, keywords, ogImage, canonicalUrl, structuredData]);
-
-  return null;
-};
-
-export default SEOHead;
\ No newline at end of file
@@ -0,0 +1,17 @@
+/**
+ * Head Context
+ * Separated from components to fix React Fast Refresh warnings
+ */
+
+import React from 'react';
+import { headManager, type HeadManager } from '../head';
+
+/**
+ * Head manager Heads register with, defaulting to the document's so they work outside a provider
+ */
+export const HeadContext = React.createContext<HeadManager>(headManager);
+
+/**
+ * Nesting level of the closest Head: tags from deeper Heads override shallower ones
+ */
+export const HeadDepthContext = React.createContext<number>(0);
@@ -0,0 +1,12 @@
+/**
+ * I18n Context
+ * Separated from components to fix React Fast Refresh warnings
+ */
+
+import React from 'react';
+import { createTranslator, DEFAULT_LOCALE, type Translator } from '../i18n';
+
+/**
+ * I18n Context, defaulting to the default locale so components render outside a provider
+ */
+export const I18nContext = React.createContext<Translator>(createTranslator(DEFAULT_LOCALE));
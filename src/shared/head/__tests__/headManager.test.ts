@@ -0,0 +1,146 @@
+/**
+ * Head Manager Tests
+ * Tag building, resolution by key across nested Heads, document sync and prerender markup
+ */
+
+import { HeadManager } from '../headManager';
+import { HEAD_KEY_ATTRIBUTE, buildHeadTags, renderHeadTags, type HeadTag } from '../headTags';
+
+const contentOf = (manager: HeadManager, key: string): string | undefined => {
+  const tag: HeadTag | undefined = manager.getTag(key);
+  return tag?.content ?? tag?.attributes['content'] ?? tag?.attributes['href'];
+};
+
+describe('buildHeadTags', () => {
+  it('should expand the title and description into Open Graph and Twitter tags', () => {
+    const keys: string[] = buildHeadTags({ title: 'Case studies', description: 'Our work' }).map((tag: HeadTag) => tag.key);
+
+    expect(keys).toEqual([
+      'title',
+      'meta:og:title',
+      'meta:twitter:title',
+      'meta:description',
+      'meta:og:description',
+      'meta:twitter:description',
+    ]);
+  });
+
+  it('should key canonical, hreflang alternates and JSON-LD so they can be overridden', () => {
+    const keys: string[] = buildHeadTags({
+      canonicalUrl: 'https://example.com/fr',
+      alternates: [
+        { hrefLang: 'en', href: 'https://example.com/' },
+        { hrefLang: 'fr', href: 'https://example.com/fr' },
+      ],
+      structuredData: { faq: { '@type': 'FAQPage' } },
+    }).map((tag: HeadTag) => tag.key);
+
+    expect(keys).toEqual([
+      'link:canonical',
+      'meta:og:url',
+      'link:alternate:en',
+      'link:alternate:fr',
+      'script:ld+json:faq',
+    ]);
+  });
+});
+
+describe('HeadManager', () => {
+  it('should let deeper Heads override shallower ones whatever the mount order', () => {
+    const manager = new HeadManager();
+    manager.set('page', 1, buildHeadTags({ title: 'Page' }));
+    manager.set('site', 0, buildHeadTags({ title: 'Site', description: 'Site description' }));
+
+    expect(contentOf(manager, 'title')).toBe('Page');
+    expect(contentOf(manager, 'meta:description')).toBe('Site description');
+  });
+
+  it('should let later siblings win and keep their place when they update', () => {
+    const manager = new HeadManager();
+    manager.set('first', 1, buildHeadTags({ title: 'First' }));
+    manager.set('second', 1, buildHeadTags({ title: 'Second' }));
+    manager.set('first', 1, buildHeadTags({ title: 'First, updated' }));
+
+    expect(contentOf(manager, 'title')).toBe('Second');
+  });
+
+  it('should keep one tag per key', () => {
+    const manager = new HeadManager();
+    manager.set('site', 0, buildHeadTags({ structuredData: { website: { name: 'Site' } } }));
+    manager.set('page', 1, buildHeadTags({ structuredData: { website: { name: 'Page' } } }));
+
+    expect(manager.getTags()).toHaveLength(1);
+    expect(contentOf(manager, 'script:ld+json:website')).toBe('{"name":"Page"}');
+  });
+
+  it('should restore the overridden tags when a Head is removed', () => {
+    const manager = new HeadManager();
+    manager.set('site', 0, buildHeadTags({ title: 'Site' }));
+    manager.set('page', 1, buildHeadTags({ title: 'Page', keywords: ['crm'] }));
+    manager.remove('page');
+
+    expect(contentOf(manager, 'title')).toBe('Site');
+    expect(manager.getTag('meta:keywords')).toBeUndefined();
+  });
+});
+
+describe('document sync', () => {
+  beforeEach(() => {
+    document.head.innerHTML = [
+      '<title>Template title</title>',
+      '<meta name="description" content="Template description">',
+      '<meta name="theme-color" content="#1a365d">',
+      '<link rel="alternate" type="application/rss+xml" href="/feed.xml">',
+    ].join('');
+  });
+
+  it('should take over template tags instead of duplicating them', () => {
+    const manager = new HeadManager({ document });
+    manager.set('page', 1, buildHeadTags({ title: 'Page', description: 'Page description' }));
+
+    expect(document.title).toBe('Page');
+    expect(document.head.querySelectorAll('title')).toHaveLength(1);
+    expect(document.head.querySelectorAll('meta[name="description"]')).toHaveLength(1);
+    expect(document.head.querySelector('meta[name="description"]')?.getAttribute('content')).toBe('Page description');
+    expect(document.head.querySelector('meta[name="theme-color"]')).not.toBeNull();
+    expect(document.head.querySelector('link[type="application/rss+xml"]')).not.toBeNull();
+  });
+
+  it('should remove tags nothing provides any more', () => {
+    const manager = new HeadManager({ document });
+    manager.set('page', 1, buildHeadTags({
+      canonicalUrl: 'https://example.com/pwa',
+      structuredData: { faq: { '@type': 'FAQPage' } },
+    }));
+    manager.remove('page');
+
+    expect(document.head.querySelector(`[${HEAD_KEY_ATTRIBUTE}]`)).toBeNull();
+    expect(document.head.querySelector('link[rel="canonical"]')).toBeNull();
+  });
+
+  it('should adopt prerendered tags by key', () => {
+    const tags: HeadTag[] = buildHeadTags({ title: 'Page', canonicalUrl: 'https://example.com/pwa' });
+    document.head.innerHTML = renderHeadTags(tags);
+    const canonical: Element | null = document.head.querySelector('link[rel="canonical"]');
+
+    new HeadManager({ document }).set('page', 1, tags);
+
+    expect(document.head.querySelector('link[rel="canonical"]')).toBe(canonical);
+    expect(document.head.querySelectorAll(`[${HEAD_KEY_ATTRIBUTE}]`)).toHaveLength(tags.length);
+  });
+});
+
+describe('renderHeadTags', () => {
+  it('should escape attributes and text, and keep JSON-LD from closing its script', () => {
+    const html: string = renderHeadTags(buildHeadTags({
+      title: 'R&D <Lab>',
+      description: 'Say "hi"',
+      structuredData: { page: { name: '</script><script>alert(1)</script>' } },
+    }));
+
+    expect(html).toContain('<title data-head-key="title">R&amp;D &lt;Lab&gt;</title>');
+    expect(html).toContain('<meta data-head-key="meta:description" name="description" content="Say &quot;hi&quot;"/>');
+    expect(html).not.toContain('</script><script>');
+    expect(html).toContain('\\u003c/script>');
+  });
+});
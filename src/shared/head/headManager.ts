@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Head Manager
+ * @description Collects the tags every mounted Head contributes, resolves them to one tag per key and keeps the document head in sync
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { HEAD_KEY_ATTRIBUTE, getTagKey, renderHeadTags, type HeadTag, type HeadTagName } from './headTags';
+
+// =========================== TYPES ===========================
+
+export interface HeadManagerOptions {
+  /** Document whose head follows the resolved tags; left out when prerendering, where the tags are serialized instead */
+  document?: Document;
+}
+
+interface HeadEntry {
+  depth: number;
+  /** Mount order, kept across updates so re-rendering a Head does not move it ahead of its siblings */
+  order: number;
+  tags: HeadTag[];
+}
+
+// =========================== DOM ===========================
+
+const getElementAttributes = (element: Element): Record<string, string> =>
+  Object.fromEntries(Array.from(element.attributes, (attribute: Attr) => [attribute.name, attribute.value]));
+
+function syncElement(element: Element, { key, attributes, content }: HeadTag): void {
+  Array.from(element.attributes).forEach((attribute: Attr) => {
+    if (attribute.name !== HEAD_KEY_ATTRIBUTE && !(attribute.name in attributes)) element.removeAttribute(attribute.name);
+  });
+  Object.entries(attributes).forEach(([name, value]: [string, string]) => {
+    if (element.getAttribute(name) !== value) element.setAttribute(name, value);
+  });
+  element.setAttribute(HEAD_KEY_ATTRIBUTE, key);
+  if (content !== undefined && element.textContent !== content) element.textContent = content;
+}
+
+function applyHeadTags(document: Document, tags: HeadTag[]): void {
+  const keys = new Set<string>(tags.map((tag: HeadTag) => tag.key));
+  const managed = new Map<string, Element>();
+
+  document.head.querySelectorAll(`[${HEAD_KEY_ATTRIBUTE}]`).forEach((element: Element) => {
+    managed.set(element.getAttribute(HEAD_KEY_ATTRIBUTE) ?? '', element);
+  });
+  // Take over the index.html default a tag replaces rather than adding a duplicate next to it
+  document.head.querySelectorAll(`title:not([${HEAD_KEY_ATTRIBUTE}]), meta:not([${HEAD_KEY_ATTRIBUTE}]), link:not([${HEAD_KEY_ATTRIBUTE}])`).forEach((element: Element) => {
+    const key: string | undefined = getTagKey(element.tagName.toLowerCase() as HeadTagName, getElementAttributes(element));
+    if (key && keys.has(key) && !managed.has(key)) managed.set(key, element);
+  });
+
+  tags.forEach((tag: HeadTag) => {
+    let element: Element | undefined = managed.get(tag.key);
+    managed.delete(tag.key);
+    if (element?.tagName.toLowerCase() !== tag.tag) {
+      element?.remove();
+      element = document.createElement(tag.tag);
+      document.head.appendChild(element);
+    }
+    syncElement(element, tag);
+  });
+
+  // Whatever is left was contributed by Heads that have unmounted
+  managed.forEach((element: Element) => element.remove());
+}
+
+// =========================== MANAGER ===========================
+
+export class HeadManager {
+  private readonly entries = new Map<string, HeadEntry>();
+  private readonly document: Document | undefined;
+  private nextOrder: number = 0;
+
+  constructor(options: HeadManagerOptions = {}) {
+    this.document = options.document;
+  }
+
+  /** Add or replace the tags of one Head */
+  set(id: string, depth: number, tags: HeadTag[]): void {
+    const order: number = this.entries.get(id)?.order ?? this.nextOrder++;
+    this.entries.set(id, { depth, order, tags });
+    this.flush();
+  }
+
+  /** Drop a Head's tags, bringing back whatever it was overriding */
+  remove(id: string): void {
+    if (this.entries.delete(id)) this.flush();
+  }
+
+  /** The head as it stands: one tag per key, deeper Heads over shallower ones, then later over earlier */
+  getTags(): HeadTag[] {
+    const resolved = new Map<string, HeadTag>();
+    Array.from(this.entries.values())
+      .sort((a: HeadEntry, b: HeadEntry) => a.depth - b.depth || a.order - b.order)
+      .forEach((entry: HeadEntry) => entry.tags.forEach((tag: HeadTag) => resolved.set(tag.key, tag)));
+    return Array.from(resolved.values());
+  }
+
+  getTag(key: string): HeadTag | undefined {
+    return this.getTags().find((tag: HeadTag) => tag.key === key);
+  }
+
+  /** Markup of the resolved head, written into prerendered pages */
+  toString(): string {
+    return renderHeadTags(this.getTags());
+  }
+
+  private flush(): void {
+    if (this.document) applyHeadTags(this.document, this.getTags());
+  }
+}
+
+/** The browser's head manager, bound to the current document */
+export const headManager = new HeadManager(typeof document === 'undefined' ? {} : { document });
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Head Tags
+ * @description Title, meta, link and JSON-LD tags for the document head, keyed so nested pages can override them
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import type { AlternateLink } from '../i18n/locales';
+
+// =========================== TYPES ===========================
+
+export type HeadTagName = 'title' | 'meta' | 'link' | 'script';
+
+export interface HeadTag {
+  /** Tags with the same key are one tag: the most deeply nested, most recently mounted Head wins */
+  key: string;
+  tag: HeadTagName;
+  attributes: Record<string, string>;
+  /** Text of a title or script */
+  content?: string;
+}
+
+export interface HeadOptions {
+  title?: string;
+  description?: string;
+  keywords?: string[];
+  /** Absolute URL of the page, also used for og:url */
+  canonicalUrl?: string;
+  /** Share image for Open Graph and Twitter cards */
+  image?: string;
+  type?: 'website' | 'article' | 'product';
+  siteName?: string;
+  /** Open Graph locale, e.g. fr_FR */
+  locale?: string;
+  /** hreflang alternates of the page, keyed by language so a nested Head can replace one */
+  alternates?: AlternateLink[];
+  robots?: string;
+  /** Twitter handle of the site, e.g. @optimumsolutions */
+  twitterSite?: string;
+  /** JSON-LD documents by id: a Head that reuses an id replaces the document instead of adding a second one */
+  structuredData?: Record<string, object>;
+}
+
+/** Marks the head elements the head manager owns, so it can update and remove them later */
+export const HEAD_KEY_ATTRIBUTE = 'data-head-key';
+
+// =========================== KEYS ===========================
+
+/** Identity of a tag, shared by the tags a Head builds and the ones already in index.html */
+export function getTagKey(tag: HeadTagName, attributes: Record<string, string>): string | undefined {
+  const { name, property, rel, hreflang } = attributes;
+
+  switch (tag) {
+    case 'title':
+      return 'title';
+    case 'meta': {
+      const identity: string | undefined = name ?? property;
+      return identity && `meta:${identity}`;
+    }
+    case 'link':
+      if (rel === 'canonical') return 'link:canonical';
+      return rel === 'alternate' && hreflang ? `link:alternate:${hreflang}` : undefined;
+    default:
+      return undefined;
+  }
+}
+
+const createTag = (tag: HeadTagName, attributes: Record<string, string>, content?: string): HeadTag => ({
+  key: getTagKey(tag, attributes) ?? `${tag}:${JSON.stringify(attributes)}`,
+  tag,
+  attributes,
+  ...(content !== undefined && { content }),
+});
+
+const metaName = (name: string, content: string): HeadTag => createTag('meta', { name, content });
+const metaProperty = (property: string, content: string): HeadTag => createTag('meta', { property, content });
+
+// =========================== TAGS ===========================
+
+/** Expand head options into tags: a title also sets og:title and twitter:title, and so on */
+export function buildHeadTags(options: HeadOptions): HeadTag[] {
+  const tags: HeadTag[] = [];
+  const { title, description, keywords, canonicalUrl, image, type, siteName, locale, alternates, robots, twitterSite, structuredData } = options;
+
+  if (title !== undefined) {
+    tags.push(createTag('title', {}, title), metaProperty('og:title', title), metaName('twitter:title', title));
+  }
+  if (description !== undefined) {
+    tags.push(
+      metaName('description', description),
+      metaProperty('og:description', description),
+      metaName('twitter:description', description)
+    );
+  }
+  if (keywords?.length) tags.push(metaName('keywords', keywords.join(', ')));
+  if (robots) tags.push(metaName('robots', robots));
+
+  if (canonicalUrl) {
+    tags.push(createTag('link', { rel: 'canonical', href: canonicalUrl }), metaProperty('og:url', canonicalUrl));
+  }
+  alternates?.forEach(({ hrefLang, href }: AlternateLink) => {
+    tags.push(createTag('link', { rel: 'alternate', hreflang: hrefLang, href }));
+  });
+
+  if (type) tags.push(metaProperty('og:type', type));
+  if (siteName) tags.push(metaProperty('og:site_name', siteName));
+  if (locale) tags.push(metaProperty('og:locale', locale));
+  if (image) {
+    tags.push(metaProperty('og:image', image), metaName('twitter:card', 'summary_large_image'), metaName('twitter:image', image));
+  }
+  if (twitterSite) tags.push(metaName('twitter:site', twitterSite));
+
+  Object.entries(structuredData ?? {}).forEach(([id, data]: [string, object]) => {
+    tags.push({
+      key: `script:ld+json:${id}`,
+      tag: 'script',
+      attributes: { type: 'application/ld+json' },
+      content: JSON.stringify(data),
+    });
+  });
+
+  return tags;
+}
+
+// =========================== HTML ===========================
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Markup for the prerendered HTML; the client adopts these elements by their key instead of adding copies */
+export function renderHeadTags(tags: HeadTag[]): string {
+  return tags
+    .map(({ key, tag, attributes, content }: HeadTag) => {
+      const entries: Array<[string, string]> = [[HEAD_KEY_ATTRIBUTE, key], ...Object.entries(attributes)];
+      const attributeList: string = entries.map(([name, value]: [string, string]) => ` ${name}="${escapeHtml(value)}"`).join('');
+
+      if (tag === 'title') return `<title${attributeList}>${escapeHtml(content ?? '')}</title>`;
+      // JSON is not HTML-escaped inside a script; only a closing tag could break out of it
+      if (tag === 'script') return `<script${attributeList}>${(content ?? '').replace(/</g, '\\u003c')}</script>`;
+      return `<${tag}${attributeList}/>`;
+    })
+    .join('');
+}
@@ -0,0 +1,11 @@
+// Barrel exports for head management
+export { HeadManager, headManager, type HeadManagerOptions } from './headManager';
+export {
+  HEAD_KEY_ATTRIBUTE,
+  buildHeadTags,
+  getTagKey,
+  renderHeadTags,
+  type HeadOptions,
+  type HeadTag,
+  type HeadTagName,
+} from './headTags';
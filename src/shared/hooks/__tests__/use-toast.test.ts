@@ -0,0 +1,148 @@
+/**
+ * Toast Store Tests
+ * Queue limits, dismissal, durations and promise toasts
+ */
+
+import { act, renderHook } from '@testing-library/react';
+import {
+  TOAST_DURATION,
+  TOAST_ERROR_DURATION,
+  TOAST_LIMIT,
+  TOAST_REMOVE_DELAY,
+  reducer,
+  toast,
+  useToast,
+  type ToasterToast,
+  type ToastState,
+} from '../use-toast';
+
+const createToast = (id: string): ToasterToast => ({
+  id,
+  open: true,
+  duration: TOAST_DURATION,
+  createdAt: 0,
+  title: `Toast ${id}`,
+});
+
+describe('toast reducer', () => {
+  const fill = (): ToastState =>
+    Array.from({ length: TOAST_LIMIT + 2 }, (_, index) => createToast(String(index + 1)))
+      .reduce((state: ToastState, item: ToasterToast) => reducer(state, { type: 'ADD_TOAST', toast: item }), { toasts: [], queue: [] });
+
+  it('should queue toasts beyond the on-screen limit', () => {
+    const state: ToastState = fill();
+
+    expect(state.toasts.map(item => item.id)).toEqual(['3', '2', '1']);
+    expect(state.queue.map(item => item.id)).toEqual(['4', '5']);
+  });
+
+  it('should show the oldest queued toast when one is dismissed', () => {
+    const state: ToastState = reducer(fill(), { type: 'DISMISS_TOAST', toastId: '2' });
+
+    expect(state.toasts.filter(item => item.open).map(item => item.id)).toEqual(['4', '3', '1']);
+    expect(state.queue.map(item => item.id)).toEqual(['5']);
+  });
+
+  it('should dismiss everything, including the queue', () => {
+    const state: ToastState = reducer(fill(), { type: 'DISMISS_TOAST' });
+
+    expect(state.toasts.every(item => !item.open)).toBe(true);
+    expect(state.queue).toEqual([]);
+  });
+
+  it('should update queued toasts in place', () => {
+    const state: ToastState = reducer(fill(), { type: 'UPDATE_TOAST', toast: { id: '5', title: 'Updated' } });
+
+    expect(state.queue[1]?.title).toBe('Updated');
+  });
+});
+
+describe('useToast', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    act(() => {
+      toast.dismiss();
+      jest.runOnlyPendingTimers();
+    });
+    jest.useRealTimers();
+  });
+
+  it('should show toasts with variant-specific durations', () => {
+    const { result } = renderHook(() => useToast());
+
+    act(() => {
+      toast({ title: 'Saved' });
+      toast({ title: 'Failed', variant: 'destructive' });
+    });
+
+    expect(result.current.toasts.map(item => [item.title, item.duration])).toEqual([
+      ['Failed', TOAST_ERROR_DURATION],
+      ['Saved', TOAST_DURATION],
+    ]);
+  });
+
+  it('should remove dismissed toasts after the exit animation', () => {
+    const { result } = renderHook(() => useToast());
+    let handle: ReturnType<typeof toast> | undefined;
+
+    act(() => {
+      handle = toast({ title: 'Saved' });
+    });
+    act(() => handle?.dismiss());
+
+    expect(result.current.toasts[0]?.open).toBe(false);
+
+    act(() => {
+      jest.advanceTimersByTime(TOAST_REMOVE_DELAY);
+    });
+
+    expect(result.current.toasts).toEqual([]);
+  });
+
+  it('should turn a loading toast into a success or error toast', async () => {
+    const { result } = renderHook(() => useToast());
+    let resolve: (value: number) => void = () => {};
+
+    act(() => {
+      void toast.promise(new Promise<number>((done) => { resolve = done; }), {
+        loading: { title: 'Sending…', description: 'Please wait' },
+        success: (count: number) => `Sent ${count} messages`,
+        error: 'Could not send',
+      });
+    });
+
+    expect(result.current.toasts[0]).toEqual(expect.objectContaining({ loading: true, duration: Infinity }));
+
+    await act(async () => {
+      resolve(2);
+    });
+
+    expect(result.current.toasts[0]).toEqual(expect.objectContaining({
+      title: 'Sent 2 messages',
+      description: '',
+      loading: false,
+      duration: TOAST_DURATION,
+    }));
+  });
+
+  it('should mark rejected promises as destructive', async () => {
+    const { result } = renderHook(() => useToast());
+
+    await act(async () => {
+      await toast.promise(Promise.reject(new Error('offline')), {
+        loading: 'Sending…',
+        success: 'Sent',
+        error: (error: unknown) => ({ title: 'Could not send', description: (error as Error).message }),
+      }).catch(() => undefined);
+    });
+
+    expect(result.current.toasts[0]).toEqual(expect.objectContaining({
+      title: 'Could not send',
+      description: 'offline',
+      variant: 'destructive',
+    }));
+  });
+});
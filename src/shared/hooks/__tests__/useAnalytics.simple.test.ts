@@ -613,23 +613,27 @@ describe('useAnalytics Hook - Smoke Tests', () => {
         act(() => {
           result.current.trackFormStart();
         });
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('form', 'start', 'contact-form', undefined);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('form.start', { formName: 'contact-form' }, undefined);
 
         act(() => {
           result.current.trackFormSubmit(true, ['email required']);
         });
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('form', 'submit_success', 'contact-form', undefined);
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('form', 'validation_error', 'contact-form', 1);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('form.submit_success', { formName: 'contact-form' }, undefined);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('form.validation_error', {
+          formName: 'contact-form',
+          errorCount: 1,
+          errors: ['email required'],
+        }, undefined);
 
         act(() => {
           result.current.trackFieldFocus('email');
         });
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('form', 'field_focus', 'contact-form_email', undefined);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('form.field_focus', { formName: 'contact-form', fieldName: 'email' }, undefined);
 
         act(() => {
           result.current.trackFieldError('email');
         });
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('form', 'field_error', 'contact-form_email', undefined);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('form.field_error', { formName: 'contact-form', fieldName: 'email' }, undefined);
       });
     });
 
@@ -643,24 +647,24 @@ describe('useAnalytics Hook - Smoke Tests', () => {
             { id: 'item-2', name: 'Product 2', category: 'electronics', quantity: 1, price: 50.00 },
           ]);
         });
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'purchase', 'txn-123', 99.99);
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'purchase_item', 'item-1_Product 1', 49.99);
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'purchase_item', 'item-2_Product 2', 50.00);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('ecommerce.purchase', { transactionId: 'txn-123', value: 99.99, itemCount: 2 }, undefined);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('ecommerce.purchase_item', expect.objectContaining({ itemId: 'item-1', price: 49.99 }), undefined);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('ecommerce.purchase_item', expect.objectContaining({ itemId: 'item-2', price: 50.00 }), undefined);
 
         act(() => {
           result.current.trackAddToCart('item-3', 'Product 3', 25.00, 2);
         });
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'add_to_cart', 'item-3_Product 3', 50.00);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('ecommerce.add_to_cart', { itemId: 'item-3', itemName: 'Product 3', price: 25.00, quantity: 2 }, undefined);
 
         act(() => {
           result.current.trackRemoveFromCart('item-3', 'Product 3', 25.00, 1);
         });
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'remove_from_cart', 'item-3_Product 3', 25.00);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('ecommerce.remove_from_cart', { itemId: 'item-3', itemName: 'Product 3', price: 25.00, quantity: 1 }, undefined);
 
         act(() => {
           result.current.trackViewItem('item-4', 'Product 4');
         });
-        expect(mockAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'view_item', 'item-4_Product 4', undefined);
+        expect(mockAnalytics.track).toHaveBeenCalledWith('ecommerce.view_item', { itemId: 'item-4', itemName: 'Product 4' }, undefined);
       });
     });
 
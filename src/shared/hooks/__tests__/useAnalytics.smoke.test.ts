@@ -187,6 +187,9 @@ describe('useAnalytics Hook - Smoke Tests', () => {
     mockedAnalytics.isEnabled.mockReturnValue(true);
     mockedAnalytics.getSession.mockReturnValue({
       id: 'test-session-123',
+      visitorId: 'visitor-1',
+      visitNumber: 1,
+      isReturning: false,
       startTime: Date.now(),
       lastActivity: Date.now(),
       pageViews: 1,
@@ -358,6 +361,9 @@ describe('useAnalytics Hook - Smoke Tests', () => {
     it('should call getSession when analytics is enabled', () => {
       const mockSession = {
         id: 'session-123',
+        visitorId: 'visitor-1',
+        visitNumber: 1,
+        isReturning: false,
         startTime: Date.now(),
         lastActivity: Date.now(),
         pageViews: 5,
@@ -582,23 +588,27 @@ describe('useAnalytics Hook - Smoke Tests', () => {
         act(() => {
           result.current.trackFormStart();
         });
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('form', 'start', 'contact-form', undefined);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('form.start', { formName: 'contact-form' }, undefined);
 
         act(() => {
           result.current.trackFormSubmit(true, ['email required']);
         });
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('form', 'submit_success', 'contact-form', undefined);
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('form', 'validation_error', 'contact-form', 1);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('form.submit_success', { formName: 'contact-form' }, undefined);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('form.validation_error', {
+          formName: 'contact-form',
+          errorCount: 1,
+          errors: ['email required'],
+        }, undefined);
 
         act(() => {
           result.current.trackFieldFocus('email');
         });
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('form', 'field_focus', 'contact-form_email', undefined);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('form.field_focus', { formName: 'contact-form', fieldName: 'email' }, undefined);
 
         act(() => {
           result.current.trackFieldError('email');
         });
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('form', 'field_error', 'contact-form_email', undefined);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('form.field_error', { formName: 'contact-form', fieldName: 'email' }, undefined);
       });
     });
 
@@ -612,24 +622,24 @@ describe('useAnalytics Hook - Smoke Tests', () => {
             { id: 'item-2', name: 'Product 2', category: 'electronics', quantity: 1, price: 50.00 },
           ]);
         });
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'purchase', 'txn-123', 99.99);
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'purchase_item', 'item-1_Product 1', 49.99);
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'purchase_item', 'item-2_Product 2', 50.00);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('ecommerce.purchase', { transactionId: 'txn-123', value: 99.99, itemCount: 2 }, undefined);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('ecommerce.purchase_item', expect.objectContaining({ itemId: 'item-1', price: 49.99 }), undefined);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('ecommerce.purchase_item', expect.objectContaining({ itemId: 'item-2', price: 50.00 }), undefined);
 
         act(() => {
           result.current.trackAddToCart('item-3', 'Product 3', 25.00, 2);
         });
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'add_to_cart', 'item-3_Product 3', 50.00);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('ecommerce.add_to_cart', { itemId: 'item-3', itemName: 'Product 3', price: 25.00, quantity: 2 }, undefined);
 
         act(() => {
           result.current.trackRemoveFromCart('item-3', 'Product 3', 25.00, 1);
         });
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'remove_from_cart', 'item-3_Product 3', 25.00);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('ecommerce.remove_from_cart', { itemId: 'item-3', itemName: 'Product 3', price: 25.00, quantity: 1 }, undefined);
 
         act(() => {
           result.current.trackViewItem('item-4', 'Product 4');
         });
-        expect(mockedAnalytics.trackEvent).toHaveBeenCalledWith('ecommerce', 'view_item', 'item-4_Product 4', undefined);
+        expect(mockedAnalytics.track).toHaveBeenCalledWith('ecommerce.view_item', { itemId: 'item-4', itemName: 'Product 4' }, undefined);
       });
     });
 
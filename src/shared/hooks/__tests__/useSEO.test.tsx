@@ -6,6 +6,7 @@
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { useSEO, type SEOMetadata } from '../useSEO';
+import { eventBus, EVENT_TYPES } from '../../services/eventBus';
 
 // Mock react-router-dom
 const mockLocation = {
@@ -39,7 +40,10 @@ describe('useSEO Hook', () => {
   });
 
   afterEach(() => {
-    jest.runOnlyPendingTimers();
+    // Pending timers include the automatic route analysis, which updates state
+    act(() => {
+      jest.runOnlyPendingTimers();
+    });
     jest.useRealTimers();
   });
 
@@ -218,10 +222,10 @@ describe('useSEO Hook', () => {
       
       expect(titleIssue).toBeTruthy();
       expect(titleIssue?.type).toBe('error');
-      expect(titleIssue?.impact).toBe('high');
+      expect(titleIssue?.impact).toBe('critical');
     });
 
-    it('should detect missing description as warning', async () => {
+    it('should detect missing description as error', async () => {
       const { result } = renderHook(() => useSEO({}), {
         wrapper: TestWrapper
       });
@@ -236,8 +240,65 @@ describe('useSEO Hook', () => {
       const descIssue: { message: string; type: string; impact: string } | undefined = issues.find((issue: { message: string; type: string; impact: string }) => issue.message === 'Missing meta description');
       
       expect(descIssue).toBeTruthy();
-      expect(descIssue?.type).toBe('warning');
-      expect(descIssue?.impact).toBe('medium');
+      expect(descIssue?.type).toBe('error');
+      expect(descIssue?.impact).toBe('high');
+    });
+
+    it('should analyze the live document instead of the declared metadata', async () => {
+      document.head.innerHTML = `
+        <meta name="description" content="Tailored web platforms, integrations and automation for teams that have outgrown spreadsheets and off-the-shelf tools. Book a free call.">
+        <script type="application/ld+json">{"@context":"https://schema.org","@type":"Organization","name":"Optimum"}</script>
+      `;
+      document.title = 'Custom Software Development for Growing Businesses';
+
+      const { result } = renderHook(() => useSEO({ title: 'Declared' }), {
+        wrapper: TestWrapper
+      });
+
+      await act(async () => {
+        await result.current.runAnalysis();
+      });
+
+      const messages: string[] = (result.current.analysis?.issues || []).map((issue: { message: string }) => issue.message);
+      expect(messages).not.toContain('Missing title tag');
+      expect(messages).not.toContain('Title too short');
+      expect(messages).not.toContain('Missing meta description');
+      expect(result.current.structuredDataValid).toBe(true);
+      expect(result.current.metaTags.length).toBeGreaterThan(0);
+    });
+
+    it('should publish the analysis on the event bus', async () => {
+      const listener = jest.fn();
+      const unsubscribe = eventBus.on(EVENT_TYPES.SEO_ANALYSIS_COMPLETE, listener);
+
+      const { result } = renderHook(() => useSEO(), {
+        wrapper: TestWrapper
+      });
+
+      await act(async () => {
+        await result.current.runAnalysis();
+      });
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        score: result.current.score,
+        issuesCount: result.current.analysis?.issues.length,
+      }));
+      unsubscribe();
+    });
+
+    it('should analyze automatically once the route has rendered', async () => {
+      const { result } = renderHook(() => useSEO(), {
+        wrapper: TestWrapper
+      });
+
+      expect(result.current.analysis).toBeNull();
+
+      await act(async () => {
+        jest.advanceTimersByTime(500);
+      });
+
+      expect(result.current.analysis).toBeTruthy();
+      expect(result.current.performanceMetrics.totalAnalyses).toBe(1);
     });
 
     it('should have isAnalyzing state during analysis', async () => {
@@ -1,10 +1,14 @@
 // Barrel exports for hooks
 export { default as useScrollAnimation } from './useScrollAnimation';
+export { default as useHashScroll } from './useHashScroll';
+export { default as useHydrated } from './useHydrated';
 export { default as usePerformanceMonitor } from './usePerformanceMonitor';
 export { default as useServiceWorker } from './useServiceWorker';
 export { useToast, toast } from './use-toast';
 export { useIsMobile } from './use-mobile';
 export { useErrorHandler, useRetry } from './useErrorHandler';
+export { useConsent } from './useConsent';
+export { useHead } from './useHead';
 
 // Performance benchmark hooks
 export {
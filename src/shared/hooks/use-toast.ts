@@ -1,16 +1,236 @@
-interface ToastOptions {
+/**
+ * Toast notification store
+ *
+ * Module-level store so `toast()` can be called from anywhere, including
+ * outside React. At most TOAST_LIMIT toasts are on screen; the rest wait in a
+ * queue and appear as visible ones are dismissed. Rendered by `Toaster`.
+ */
+
+import { useEffect, useState } from 'react';
+
+// =========================== TYPES ===========================
+
+export type ToastVariant = 'default' | 'destructive';
+
+export interface ToastActionOptions {
+  label: string;
+  onClick: () => void;
+  altText?: string; // Screen reader alternative for when the toast closes, defaults to label
+}
+
+export interface ToastOptions {
   title?: string;
   description?: string;
-  variant?: 'default' | 'destructive';
-  duration?: number;
+  variant?: ToastVariant;
+  duration?: number; // milliseconds, Infinity keeps the toast until dismissed
+  action?: ToastActionOptions;
 }
 
-export function useToast() {
+export interface ToasterToast extends ToastOptions {
+  id: string;
+  open: boolean;
+  duration: number;
+  loading?: boolean;
+  createdAt: number;
+}
+
+export interface ToastState {
+  toasts: ToasterToast[]; // On screen, newest first, including ones animating out
+  queue: ToasterToast[]; // Waiting for a free slot, oldest first
+}
+
+export type ToastStoreAction =
+  | { type: 'ADD_TOAST'; toast: ToasterToast }
+  | { type: 'UPDATE_TOAST'; toast: Partial<ToasterToast> & { id: string } }
+  | { type: 'DISMISS_TOAST'; toastId?: string }
+  | { type: 'REMOVE_TOAST'; toastId?: string };
+
+export interface ToastHandle {
+  id: string;
+  dismiss: () => void;
+  update: (options: ToastOptions) => void;
+}
+
+type ToastMessage<T> = string | ToastOptions | ((value: T) => string | ToastOptions);
+
+export interface ToastPromiseMessages<T> {
+  loading: string | ToastOptions;
+  success: ToastMessage<T>;
+  error: ToastMessage<unknown>;
+}
+
+// =========================== CONSTANTS ===========================
+
+export const TOAST_LIMIT = 3;
+export const TOAST_DURATION = 5000;
+export const TOAST_ERROR_DURATION = 8000; // Errors usually need more reading time
+export const TOAST_REMOVE_DELAY = 300; // Exit animation
+
+// =========================== REDUCER ===========================
+
+const openCount = (toasts: ToasterToast[]): number => toasts.filter((toast) => toast.open).length;
+
+/**
+ * Move queued toasts on screen while there are free slots
+ */
+function promote(state: ToastState): ToastState {
+  const free: number = TOAST_LIMIT - openCount(state.toasts);
+  if (free <= 0 || state.queue.length === 0) return state;
+
+  const promoted: ToasterToast[] = state.queue.slice(0, free).reverse();
   return {
-    toasts: [],
-    toast: (_options?: ToastOptions) => {},
-    dismiss: () => {}
+    toasts: [...promoted, ...state.toasts],
+    queue: state.queue.slice(free),
   };
 }
 
-export const toast = (_options?: ToastOptions) => {};
\ No newline at end of file
+export function reducer(state: ToastState, action: ToastStoreAction): ToastState {
+  switch (action.type) {
+    case 'ADD_TOAST':
+      if (openCount(state.toasts) >= TOAST_LIMIT) {
+        return { ...state, queue: [...state.queue, action.toast] };
+      }
+      return { ...state, toasts: [action.toast, ...state.toasts] };
+
+    case 'UPDATE_TOAST': {
+      const update = (toast: ToasterToast): ToasterToast =>
+        toast.id === action.toast.id ? { ...toast, ...action.toast } : toast;
+      return { toasts: state.toasts.map(update), queue: state.queue.map(update) };
+    }
+
+    case 'DISMISS_TOAST': {
+      const { toastId } = action;
+      return promote({
+        toasts: state.toasts.map((toast) =>
+          toastId === undefined || toast.id === toastId ? { ...toast, open: false } : toast
+        ),
+        queue: toastId === undefined ? [] : state.queue.filter((toast) => toast.id !== toastId),
+      });
+    }
+
+    case 'REMOVE_TOAST':
+      if (action.toastId === undefined) {
+        return { toasts: [], queue: [] };
+      }
+      return promote({
+        ...state,
+        toasts: state.toasts.filter((toast) => toast.id !== action.toastId),
+      });
+  }
+}
+
+// =========================== STORE ===========================
+
+const listeners: Array<(state: ToastState) => void> = [];
+let memoryState: ToastState = { toasts: [], queue: [] };
+const removeTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+let count = 0;
+const genId = (): string => {
+  count = (count + 1) % Number.MAX_SAFE_INTEGER;
+  return count.toString();
+};
+
+const scheduleRemoval = (toastId: string): void => {
+  if (removeTimeouts.has(toastId)) return;
+
+  removeTimeouts.set(toastId, setTimeout(() => {
+    removeTimeouts.delete(toastId);
+    dispatch({ type: 'REMOVE_TOAST', toastId });
+  }, TOAST_REMOVE_DELAY));
+};
+
+function dispatch(action: ToastStoreAction): void {
+  memoryState = reducer(memoryState, action);
+
+  if (action.type === 'DISMISS_TOAST') {
+    memoryState.toasts
+      .filter((toast) => !toast.open)
+      .forEach((toast) => scheduleRemoval(toast.id));
+  }
+
+  listeners.forEach((listener) => listener(memoryState));
+}
+
+const getDefaultDuration = (options: ToastOptions, loading?: boolean): number => {
+  if (loading) return Infinity;
+  return options.variant === 'destructive' ? TOAST_ERROR_DURATION : TOAST_DURATION;
+};
+
+// =========================== API ===========================
+
+export function dismiss(toastId?: string): void {
+  dispatch({ type: 'DISMISS_TOAST', ...(toastId !== undefined && { toastId }) });
+}
+
+function createToast(options: ToastOptions & { loading?: boolean }): ToastHandle {
+  const id: string = genId();
+
+  dispatch({
+    type: 'ADD_TOAST',
+    toast: {
+      ...options,
+      id,
+      open: true,
+      createdAt: Date.now(),
+      duration: options.duration ?? getDefaultDuration(options, options.loading),
+    },
+  });
+
+  return {
+    id,
+    dismiss: () => dismiss(id),
+    update: (update: ToastOptions) => dispatch({
+      type: 'UPDATE_TOAST',
+      toast: { ...update, id, loading: false, duration: update.duration ?? getDefaultDuration(update) },
+    }),
+  };
+}
+
+const resolveMessage = <T,>(message: ToastMessage<T>, value: T): ToastOptions => {
+  const resolved: string | ToastOptions = typeof message === 'function' ? message(value) : message;
+  return typeof resolved === 'string' ? { title: resolved } : resolved;
+};
+
+/**
+ * Show a loading toast that turns into a success or error toast when the
+ * promise settles. Resolves or rejects with the original promise.
+ */
+function promiseToast<T>(promise: Promise<T>, messages: ToastPromiseMessages<T>): Promise<T> {
+  const handle: ToastHandle = createToast({ ...resolveMessage(messages.loading, undefined), loading: true });
+
+  // Clear the loading description unless the result brings its own
+  promise.then(
+    (value: T) => handle.update({ description: '', ...resolveMessage(messages.success, value) }),
+    (error: unknown) => handle.update({ description: '', variant: 'destructive', ...resolveMessage(messages.error, error) })
+  );
+
+  return promise;
+}
+
+export const toast = Object.assign(createToast, {
+  promise: promiseToast,
+  dismiss,
+});
+
+export function useToast() {
+  const [state, setState] = useState<ToastState>(memoryState);
+
+  useEffect(() => {
+    listeners.push(setState);
+    setState(memoryState);
+
+    return () => {
+      const index: number = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    ...state,
+    toast,
+    dismiss,
+  };
+}
@@ -5,9 +5,11 @@
  * with automatic tracking of page views, user interactions, and performance
  */
 
-import { useEffect, useCallback, useRef, MutableRefObject } from 'react';
+import { useEffect, useCallback, useMemo, useRef, MutableRefObject } from 'react';
 import { useLocation, type Location } from 'react-router-dom';
 import analytics, { type UserSession } from '@/shared/services/analytics';
+import type { AnalyticsEventMap, AnalyticsEventName, TrackOptions } from '@/shared/services/analyticsSchema';
+import useHydrated from './useHydrated';
 // Import will be resolved from the existing hooks
 // Note: For now, we'll create a simplified integration
 
@@ -34,7 +36,16 @@ export interface AnalyticsHookConfig {
   conversionEvents?: string[];
 }
 
+export type TrackSchemaEvent = <K extends AnalyticsEventName>(
+  name: K,
+  properties: AnalyticsEventMap[K],
+  options?: TrackOptions
+) => void;
+
 export interface AnalyticsHookReturn {
+  // Typed tracking against the event schema registry
+  track: TrackSchemaEvent;
+
   // Basic tracking methods
   trackEvent: (category: string, action: string, label?: string, value?: number) => void;
   trackClick: (element: string, url?: string, properties?: Record<string, unknown>) => void;
@@ -44,6 +55,7 @@ export interface AnalyticsHookReturn {
   
   // User identification
   identify: (userId: string, properties?: Record<string, unknown>) => void;
+  reset: () => void;
   setUserProperty: (key: string, value: unknown) => void;
   
   // A/B Testing
@@ -202,6 +214,14 @@ export function useAnalytics(config: AnalyticsHookConfig = {}): AnalyticsHookRet
 
   // =========================== RETURN METHODS ===========================
 
+  const track: TrackSchemaEvent = useCallback(<K extends AnalyticsEventName>(
+    name: K,
+    properties: AnalyticsEventMap[K],
+    options?: TrackOptions
+  ) => {
+    analytics.track(name, properties, options);
+  }, []);
+
   const trackEvent: (category: string, action: string, label?: string, value?: number) => void = useCallback((
     category: string,
     action: string,
@@ -273,6 +293,10 @@ export function useAnalytics(config: AnalyticsHookConfig = {}): AnalyticsHookRet
     });
   }, [config.customProperties]);
 
+  const reset: () => void = useCallback(() => {
+    analytics.reset();
+  }, []);
+
   const setUserProperty: (key: string, value: unknown) => void = useCallback((key: string, value: unknown) => {
     analytics.setUserProperty(key, value);
   }, []);
@@ -298,12 +322,14 @@ export function useAnalytics(config: AnalyticsHookConfig = {}): AnalyticsHookRet
   }, []);
 
   return {
+    track,
     trackEvent,
     trackClick,
     trackPageView,
     trackGoal,
     trackTiming,
     identify,
+    reset,
     setUserProperty,
     setExperiment,
     getExperiment,
@@ -319,33 +345,44 @@ export function useAnalytics(config: AnalyticsHookConfig = {}): AnalyticsHookRet
  * Hook for tracking form interactions
  */
 export function useFormAnalytics(formName: string) {
-  const { trackEvent } = useAnalytics();
+  const { track } = useAnalytics();
 
   const trackFormStart: () => void = useCallback(() => {
-    trackEvent('form', 'start', formName);
-  }, [trackEvent, formName]);
+    track('form.start', { formName });
+  }, [track, formName]);
 
   const trackFormSubmit: (success: boolean, errors?: string[]) => void = useCallback((success: boolean, errors?: string[]) => {
-    trackEvent('form', success ? 'submit_success' : 'submit_error', formName);
+    track(success ? 'form.submit_success' : 'form.submit_error', { formName });
     
     if (errors && errors.length > 0) {
-      trackEvent('form', 'validation_error', formName, errors.length);
+      track('form.validation_error', { formName, errorCount: errors.length, errors });
     }
-  }, [trackEvent, formName]);
+  }, [track, formName]);
 
   const trackFieldFocus: (fieldName: string) => void = useCallback((fieldName: string) => {
-    trackEvent('form', 'field_focus', `${formName}_${fieldName}`);
-  }, [trackEvent, formName]);
+    track('form.field_focus', { formName, fieldName });
+  }, [track, formName]);
 
   const trackFieldError: (fieldName: string) => void = useCallback((fieldName: string) => {
-    trackEvent('form', 'field_error', `${formName}_${fieldName}`);
-  }, [trackEvent, formName]);
+    track('form.field_error', { formName, fieldName });
+  }, [track, formName]);
+
+  const trackStepComplete: (step: string, stepIndex: number) => void = useCallback((step: string, stepIndex: number) => {
+    track('form.step_complete', { formName, step, stepIndex });
+  }, [track, formName]);
+
+  // Drop-off: the last field touched before the visitor left without submitting
+  const trackFormAbandon: (fieldName: string, step?: string) => void = useCallback((fieldName: string, step?: string) => {
+    track('form.abandon', { formName, fieldName, ...(step && { step }) });
+  }, [track, formName]);
 
   return {
     trackFormStart,
     trackFormSubmit,
     trackFieldFocus,
     trackFieldError,
+    trackStepComplete,
+    trackFormAbandon,
   };
 }
 
@@ -353,20 +390,27 @@ export function useFormAnalytics(formName: string) {
  * Hook for tracking e-commerce events
  */
 export function useEcommerceAnalytics() {
-  const { trackEvent } = useAnalytics();
+  const { track } = useAnalytics();
 
   const trackPurchase: (transactionId: string, value: number, items: Array<{ id: string; name: string; category: string; quantity: number; price: number }>) => void = useCallback((
     transactionId: string,
     value: number,
     items: Array<{ id: string; name: string; category: string; quantity: number; price: number }>
   ) => {
-    trackEvent('ecommerce', 'purchase', transactionId, value);
+    track('ecommerce.purchase', { transactionId, value, itemCount: items.length });
     
     // Track individual items
     items.forEach(item => {
-      trackEvent('ecommerce', 'purchase_item', `${item.id}_${item.name}`, item.price * item.quantity);
+      track('ecommerce.purchase_item', {
+        transactionId,
+        itemId: item.id,
+        itemName: item.name,
+        itemCategory: item.category,
+        quantity: item.quantity,
+        price: item.price,
+      });
     });
-  }, [trackEvent]);
+  }, [track]);
 
   const trackAddToCart: (itemId: string, itemName: string, price: number, quantity?: number) => void = useCallback((
     itemId: string,
@@ -374,8 +418,8 @@ export function useEcommerceAnalytics() {
     price: number,
     quantity = 1
   ) => {
-    trackEvent('ecommerce', 'add_to_cart', `${itemId}_${itemName}`, price * quantity);
-  }, [trackEvent]);
+    track('ecommerce.add_to_cart', { itemId, itemName, price, quantity });
+  }, [track]);
 
   const trackRemoveFromCart: (itemId: string, itemName: string, price: number, quantity?: number) => void = useCallback((
     itemId: string,
@@ -383,12 +427,12 @@ export function useEcommerceAnalytics() {
     price: number,
     quantity = 1
   ) => {
-    trackEvent('ecommerce', 'remove_from_cart', `${itemId}_${itemName}`, price * quantity);
-  }, [trackEvent]);
+    track('ecommerce.remove_from_cart', { itemId, itemName, price, quantity });
+  }, [track]);
 
   const trackViewItem: (itemId: string, itemName: string) => void = useCallback((itemId: string, itemName: string) => {
-    trackEvent('ecommerce', 'view_item', `${itemId}_${itemName}`);
-  }, [trackEvent]);
+    track('ecommerce.view_item', { itemId, itemName });
+  }, [track]);
 
   return {
     trackPurchase,
@@ -398,6 +442,26 @@ export function useEcommerceAnalytics() {
   };
 }
 
+/**
+ * Hook for A/B experiments. Returns the variant to render (the default
+ * variant for visitors outside the traffic allocation) and records the
+ * exposure once the component mounts. Prerendered pages show the default
+ * variant until hydration completes.
+ */
+export function useExperiment(experimentId: string): string | null {
+  const hydrated: boolean = useHydrated();
+  const variant: string | null = useMemo(
+    () => (hydrated ? analytics.getExperimentVariant(experimentId) : null),
+    [experimentId, hydrated]
+  );
+
+  useEffect(() => {
+    analytics.trackExposure(experimentId);
+  }, [experimentId]);
+
+  return variant;
+}
+
 /**
  * Hook for tracking media consumption
  */
@@ -0,0 +1,77 @@
+/**
+ * React Hook for Consent Management
+ *
+ * Exposes the shared ConsentManager state to components and keeps it
+ * in sync when consent changes anywhere in the app
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  consentManager,
+  type ConsentCategories,
+  type ConsentCategory,
+  type ConsentRecord,
+  type ConsentSource,
+} from '@/shared/services/consentManager';
+
+export interface ConsentHookReturn {
+  record: ConsentRecord | null;
+  categories: ConsentCategories;
+  hasDecision: boolean;
+  isGPCEnabled: boolean;
+  isGranted: (category: ConsentCategory) => boolean;
+  acceptAll: (source?: ConsentSource) => void;
+  rejectAll: (source?: ConsentSource) => void;
+  savePreferences: (categories: Partial<ConsentCategories>, source?: ConsentSource) => void;
+  openPreferences: () => void;
+}
+
+export function useConsent(): ConsentHookReturn {
+  const [record, setRecord] = useState<ConsentRecord | null>(() => consentManager.getRecord());
+  // Read through the manager so GPC overrides are applied consistently
+  const [categories, setCategories] = useState<ConsentCategories>(() => consentManager.getCategories());
+
+  useEffect(() => {
+    return consentManager.subscribe(() => {
+      setRecord(consentManager.getRecord());
+      setCategories(consentManager.getCategories());
+    });
+  }, []);
+
+  const isGranted: (category: ConsentCategory) => boolean = useCallback((category: ConsentCategory) => {
+    return categories[category];
+  }, [categories]);
+
+  const acceptAll: (source?: ConsentSource) => void = useCallback((source: ConsentSource = 'banner') => {
+    consentManager.grantAll(source);
+  }, []);
+
+  const rejectAll: (source?: ConsentSource) => void = useCallback((source: ConsentSource = 'banner') => {
+    consentManager.denyAll(source);
+  }, []);
+
+  const savePreferences: (categories: Partial<ConsentCategories>, source?: ConsentSource) => void = useCallback((
+    categories: Partial<ConsentCategories>,
+    source: ConsentSource = 'preferences'
+  ) => {
+    consentManager.update(categories, source);
+  }, []);
+
+  const openPreferences: () => void = useCallback(() => {
+    consentManager.openPreferences();
+  }, []);
+
+  return {
+    record,
+    categories,
+    hasDecision: record !== null,
+    isGPCEnabled: consentManager.isGPCEnabled(),
+    isGranted,
+    acceptAll,
+    rejectAll,
+    savePreferences,
+    openPreferences,
+  };
+}
+
+export default useConsent;
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+
+const HASH_SCROLL_TIMEOUT = 5000;
+
+/**
+ * Scroll to the element named in the URL hash after client-side navigation,
+ * e.g. a "/#contact" link from another page. Lazy sections may mount later,
+ * so the target is watched for until it appears or the timeout passes.
+ */
+const useHashScroll = (enabled: boolean = true) => {
+  const { hash } = useLocation();
+
+  useEffect(() => {
+    if (!enabled || !hash) return;
+
+    const id: string = decodeURIComponent(hash.slice(1));
+    const scrollToTarget = (): boolean => {
+      const element = document.getElementById(id);
+      element?.scrollIntoView();
+      return Boolean(element);
+    };
+
+    if (scrollToTarget()) return;
+
+    const observer = new MutationObserver(() => {
+      if (scrollToTarget()) observer.disconnect();
+    });
+    observer.observe(document.body, { childList: true, subtree: true });
+    const timeout: number = window.setTimeout(() => observer.disconnect(), HASH_SCROLL_TIMEOUT);
+
+    return () => {
+      observer.disconnect();
+      window.clearTimeout(timeout);
+    };
+  }, [enabled, hash]);
+};
+
+export default useHashScroll;
@@ -0,0 +1,35 @@
+/**
+ * React Hook for the Document Head
+ *
+ * Contributes tags to the document head while the component is mounted.
+ * Tags are deduplicated by key: the most deeply nested, most recently mounted
+ * Head wins, and unmounting brings back the tags it was overriding.
+ */
+
+import { useContext, useEffect, useId, useLayoutEffect, useMemo } from 'react';
+import { HeadContext, HeadDepthContext } from '../contexts/HeadContext';
+import { buildHeadTags, type HeadManager, type HeadOptions, type HeadTag } from '../head';
+
+const isServer: boolean = typeof window === 'undefined';
+// Layout effects update the head before paint; the server has neither, so keep React from warning there
+const useIsomorphicLayoutEffect = isServer ? useEffect : useLayoutEffect;
+
+export function useHead(options: HeadOptions): void {
+  const manager: HeadManager = useContext(HeadContext);
+  const depth: number = useContext(HeadDepthContext);
+  const id: string = useId();
+  // Compare by content so callers can pass options inline on every render
+  const serialized: string = JSON.stringify(options);
+  const tags: HeadTag[] = useMemo(() => buildHeadTags(JSON.parse(serialized) as HeadOptions), [serialized]);
+
+  // Effects never run while prerendering, so the page's tags are collected as it renders
+  if (isServer) manager.set(id, depth, tags);
+
+  useIsomorphicLayoutEffect(() => {
+    manager.set(id, depth, tags);
+  }, [manager, id, depth, tags]);
+
+  useIsomorphicLayoutEffect(() => () => manager.remove(id), [manager, id]);
+}
+
+export default useHead;
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (): (() => void) => () => {};
+
+/**
+ * False while prerendering and during hydration, true from then on. Markup
+ * that depends on the visitor (stored choices, experiments, browser state)
+ * should wait for it so the first client render matches the prerendered HTML.
+ * Pages rendered straight in the browser get true on their first render.
+ */
+const useHydrated = (): boolean => useSyncExternalStore(subscribe, () => true, () => false);
+
+export default useHydrated;
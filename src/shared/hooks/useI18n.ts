@@ -0,0 +1,13 @@
+/**
+ * React Hook for Translations
+ *
+ * Returns the translator for the locale of the current route
+ */
+
+import { useContext } from 'react';
+import { I18nContext } from '../contexts/I18nContext';
+import type { Translator } from '../i18n';
+
+export function useI18n(): Translator {
+  return useContext(I18nContext);
+}
@@ -1,66 +1,43 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useLocation } from 'react-router-dom';
+import { seoAnalysisService, type SEOAnalysisResult, type SEOMetadata } from '../services/seoAnalysisService';
+import { extractSEOMetadata } from '../utils/seoSnapshot';
+import type { HeadOptions } from '../head';
+import { useHead } from './useHead';
 
-export interface SEOMetadata {
-  title?: string;
-  description?: string;
-  keywords?: string[];
-  image?: string;
-  url?: string;
-  type?: string;
-  siteName?: string;
-  locale?: string;
-  author?: string;
-  publishedTime?: string;
-  modifiedTime?: string;
-  twitterCard?: 'summary' | 'summary_large_image' | 'app' | 'player';
-  twitterSite?: string;
-  twitterCreator?: string;
-  canonicalUrl?: string;
-  robots?: string;
-  structuredData?: Record<string, unknown>;
-}
+// Give the new route time to render and update the head before snapshotting it
+const ROUTE_ANALYSIS_DELAY = 500;
+
+export type { SEOMetadata, SEOAnalysisResult, SEOIssue } from '../services/seoAnalysisService';
 
 interface WebVital {
   name: string;
   value: number;
 }
 
-export interface SEOAnalysisResult {
-  score: number;
-  issues: Array<{
-    category: string;
-    type: string;
-    message: string;
-    recommendation: string;
-    impact: string;
-  }>;
-  recommendations: string[];
-  coreWebVitals?: {
-    lcp?: number;
-    fid?: number;
-    cls?: number;
-    fcp?: number;
-    ttfb?: number;
-  };
-}
-
 interface SEOOptions {
   enableAnalysis?: boolean;
   enableTracking?: boolean;
   enableWebVitals?: boolean;
   trackingInterval?: number;
+  /** Content analyzer ids from seoAnalyzerRegistry; all of them by default */
+  analyzers?: string[];
 }
 
-export const useSEO = (initialMetadata: SEOMetadata = {}, _options: SEOOptions = {}) => {
+export const useSEO = (initialMetadata: SEOMetadata = {}, options: SEOOptions = {}) => {
+  const { enableAnalysis = true, analyzers } = options;
   const location = useLocation();
   const [currentMetadata, setCurrentMetadata] = useState<SEOMetadata>(initialMetadata);
   const [analysis, setAnalysis] = useState<SEOAnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const analyzingRef = useRef<boolean>(false);
   const [webVitals] = useState<Record<string, WebVital>>({});
   const [trackingEnabled, setTrackingEnabled] = useState(true);
-  const [metaTags, setMetaTags] = useState<Array<{ name?: string; property?: string; content: string }>>([]);
+  const [metaTags, setMetaTags] = useState<SEOAnalysisResult['metaTags']>([]);
   const [structuredDataValid, setStructuredDataValid] = useState(true);
+  // Title and description set through updateSEO, applied over the page's own until unmount
+  const [headOverrides, setHeadOverrides] = useState<HeadOptions>({});
+  useHead(headOverrides);
   
   const [performanceMetrics, setPerformanceMetrics] = useState({
     lastAnalysisTime: 0,
@@ -69,50 +46,27 @@ export const useSEO = (initialMetadata: SEOMetadata = {}, _options: SEOOptions =
     scoreHistory: [] as Array<{ timestamp: number; score: number }>
   });
 
+  /**
+   * Analyze what is actually on the page. The live document wins; the given
+   * metadata only fills fields the page does not expose, such as keywords.
+   * SEOAnalysisService publishes SEO_ANALYSIS_COMPLETE with the result.
+   */
   const runAnalysis = useCallback(async (metadata?: SEOMetadata): Promise<void> => {
-    if (isAnalyzing) return;
+    if (analyzingRef.current) return;
 
+    analyzingRef.current = true;
     setIsAnalyzing(true);
     
     try {
-      // Add a small delay to make the analysis actually async
-      await new Promise(resolve => setTimeout(resolve, 10));
-      
-      // Use provided metadata or fall back to current metadata
-      const metadataToAnalyze = metadata || currentMetadata;
-      
-      // Simple SEO analysis
-      const result: SEOAnalysisResult = {
-        score: Math.floor(Math.random() * 100),
-        issues: [],
-        recommendations: []
+      const snapshot: SEOMetadata = {
+        ...(metadata || currentMetadata),
+        ...extractSEOMetadata(document),
       };
-      
-      if (!metadataToAnalyze.title) {
-        result.issues.push({
-          category: 'meta',
-          type: 'error',
-          message: 'Missing title tag',
-          recommendation: 'Add a descriptive title tag',
-          impact: 'high'
-        });
-        result.recommendations.push('Add a descriptive title tag');
-      }
-      
-      if (!metadataToAnalyze.description) {
-        result.issues.push({
-          category: 'meta', 
-          type: 'warning',
-          message: 'Missing meta description',
-          recommendation: 'Add a meta description',
-          impact: 'medium'
-        });
-        result.recommendations.push('Add a meta description');
-      }
+      const result: SEOAnalysisResult = seoAnalysisService.analyze(snapshot, analyzers ? { analyzers } : {});
       
       setAnalysis(result);
-      setMetaTags([]);
-      setStructuredDataValid(true);
+      setMetaTags(result.metaTags);
+      setStructuredDataValid(result.structuredDataValid);
       
       // Update performance metrics
       const now: number = Date.now();
@@ -126,9 +80,23 @@ export const useSEO = (initialMetadata: SEOMetadata = {}, _options: SEOOptions =
     } catch (error) {
       console.error('SEO Analysis failed:', error);
     } finally {
+      analyzingRef.current = false;
       setIsAnalyzing(false);
     }
-  }, [isAnalyzing, currentMetadata]);
+  }, [currentMetadata, analyzers]);
+
+  // Re-analyze on every route change while tracking is live
+  const runAnalysisRef = useRef(runAnalysis);
+  runAnalysisRef.current = runAnalysis;
+
+  useEffect(() => {
+    if (!enableAnalysis || !trackingEnabled) return undefined;
+
+    const timer: ReturnType<typeof setTimeout> = setTimeout(() => {
+      void runAnalysisRef.current();
+    }, ROUTE_ANALYSIS_DELAY);
+    return () => clearTimeout(timer);
+  }, [enableAnalysis, trackingEnabled, location.pathname]);
 
   const updateSEO = useCallback((metadata: SEOMetadata) => {
     const updatedMetadata: SEOMetadata = {
@@ -138,22 +106,11 @@ export const useSEO = (initialMetadata: SEOMetadata = {}, _options: SEOOptions =
     };
 
     setCurrentMetadata(updatedMetadata);
-    
-    // Update document metadata
-    if (metadata.title) {
-      document.title = metadata.title;
-    }
-    
-    // Update meta description
-    if (metadata.description) {
-      let metaDesc: HTMLMetaElement | null = document.querySelector('meta[name="description"]') as HTMLMetaElement;
-      if (!metaDesc) {
-        metaDesc = document.createElement('meta');
-        metaDesc.name = 'description';
-        document.head.appendChild(metaDesc);
-      }
-      metaDesc.content = metadata.description;
-    }
+    setHeadOverrides((previous: HeadOptions) => ({
+      ...previous,
+      ...(metadata.title ? { title: metadata.title } : {}),
+      ...(metadata.description ? { description: metadata.description } : {}),
+    }));
     
     // Run analysis after a delay with the fresh metadata
     setTimeout(() => runAnalysis(updatedMetadata), 100);
@@ -161,11 +118,8 @@ export const useSEO = (initialMetadata: SEOMetadata = {}, _options: SEOOptions =
 
   const resetSEO = useCallback(() => {
     setCurrentMetadata(initialMetadata);
-    setAnalysis({
-      score: 0,
-      issues: [],
-      recommendations: []
-    });
+    setHeadOverrides({});
+    setAnalysis(null);
   }, [initialMetadata]);
 
   const score: number = useMemo(() => analysis?.score || 0, [analysis]);
@@ -189,11 +143,6 @@ export const useSEO = (initialMetadata: SEOMetadata = {}, _options: SEOOptions =
     };
   }, [currentMetadata]);
 
-  // Remove automatic analysis on mount to avoid test issues
-  // useEffect(() => {
-  //   runAnalysis();
-  // }, [currentMetadata]);
-
   return {
     updateSEO,
     resetSEO,
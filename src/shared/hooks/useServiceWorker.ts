@@ -8,7 +8,7 @@ export const useServiceWorker = () => {
     // Check if service workers are supported
     setIsSupported('serviceWorker' in navigator);
 
-    if ('serviceWorker' in navigator && import.meta.env['MODE'] === 'production') {
+    if ('serviceWorker' in navigator && import.meta.env.PROD) {
       navigator.serviceWorker.register('/sw.js')
         .then(() => setIsRegistered(true))
         .catch(() => setIsRegistered(false));
@@ -0,0 +1,68 @@
+/**
+ * Locales Tests
+ * Locale detection, prefixed paths, hreflang alternates and catalog completeness
+ */
+
+import {
+  DEFAULT_LOCALE,
+  MESSAGE_CATALOGS,
+  SUPPORTED_LOCALES,
+  createTranslator,
+  detectLocale,
+  getAlternateLinks,
+  getLocaleFromPath,
+  localizePath,
+  parseMessage,
+  stripLocalePrefix,
+  type Locale,
+} from '..';
+
+describe('locale paths', () => {
+  it('should read the locale from the first path segment', () => {
+    expect(getLocaleFromPath('/fr/portfolio')).toBe('fr');
+    expect(getLocaleFromPath('/portfolio')).toBe(DEFAULT_LOCALE);
+    expect(getLocaleFromPath('/france')).toBe(DEFAULT_LOCALE);
+  });
+
+  it('should strip and add prefixes, keeping query strings and hashes', () => {
+    expect(stripLocalePrefix('/fr')).toBe('/');
+    expect(stripLocalePrefix('/fr/portfolio?tech=React')).toBe('/portfolio?tech=React');
+    expect(localizePath('/', 'fr')).toBe('/fr');
+    expect(localizePath('/#contact', 'fr')).toBe('/fr#contact');
+    expect(localizePath('/portfolio?tech=React', 'fr')).toBe('/fr/portfolio?tech=React');
+    expect(localizePath('/fr/portfolio', 'en')).toBe('/portfolio');
+  });
+
+  it('should list an alternate per locale plus x-default', () => {
+    expect(getAlternateLinks('/fr/portfolio', 'https://optimum.example')).toEqual([
+      { hrefLang: 'en', href: 'https://optimum.example/portfolio' },
+      { hrefLang: 'fr', href: 'https://optimum.example/fr/portfolio' },
+      { hrefLang: 'x-default', href: 'https://optimum.example/portfolio' },
+    ]);
+  });
+
+  it('should detect the first supported browser language', () => {
+    expect(detectLocale(['de-DE', 'fr-CA', 'en'])).toBe('fr');
+    expect(detectLocale(['de-DE'])).toBe(DEFAULT_LOCALE);
+  });
+});
+
+describe('message catalogs', () => {
+  const sourceKeys: string[] = Object.keys(MESSAGE_CATALOGS[DEFAULT_LOCALE]).sort();
+
+  it.each(SUPPORTED_LOCALES)('should translate every key in %s with valid ICU messages', (locale: Locale) => {
+    const catalog: Record<string, string | undefined> = MESSAGE_CATALOGS[locale];
+
+    expect(Object.keys(catalog).sort()).toEqual(sourceKeys);
+    Object.values(catalog).forEach((message: string | undefined) => expect(() => parseMessage(message ?? '')).not.toThrow());
+  });
+
+  it('should format messages and prices for the locale', () => {
+    const fr = createTranslator('fr');
+
+    expect(fr.t('portfolioPage.count', { count: 3 })).toBe('3 études de cas affichées');
+    expect(fr.formatCurrency(12500)).toMatch(/^12\s500\s€$/);
+    expect(fr.localizePath('/portfolio')).toBe('/fr/portfolio');
+    expect(createTranslator('en').t('portfolioPage.count', { count: 1 })).toBe('1 case study shown');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Message Format Tests
+ * ICU argument, number, plural, selectordinal and select formatting
+ */
+
+import { formatMessage, parseMessage } from '../messageFormat';
+
+describe('formatMessage', () => {
+  it('should substitute arguments and leave unknown ones visible', () => {
+    expect(formatMessage('Hello {name}, meet {other}', { name: 'Ada' })).toBe('Hello Ada, meet {other}');
+  });
+
+  it('should format numbers, percents and currencies for the locale', () => {
+    expect(formatMessage('{count, number}', { count: 1234.5 }, 'en-US')).toBe('1,234.5');
+    expect(formatMessage('{share, number, percent}', { share: 0.4 }, 'en-US')).toBe('40%');
+    expect(formatMessage('{amount, number, ::currency/EUR}', { amount: 1500 }, 'fr-FR')).toMatch(/^1\s500\s€$/);
+  });
+
+  it('should pick plural branches by exact value, then plural category', () => {
+    const message = '{count, plural, =0 {No items} one {# item} other {# items}}';
+
+    expect(formatMessage(message, { count: 0 })).toBe('No items');
+    expect(formatMessage(message, { count: 1 })).toBe('1 item');
+    expect(formatMessage(message, { count: 1200 }, 'en-US')).toBe('1,200 items');
+  });
+
+  it('should follow the plural rules of the locale', () => {
+    const message = '{count, plural, one {# étude} other {# études}}';
+
+    // French treats 0 and 1 as "one"
+    expect(formatMessage(message, { count: 0 }, 'fr-FR')).toBe('0 étude');
+    expect(formatMessage(message, { count: 2 }, 'fr-FR')).toBe('2 études');
+  });
+
+  it('should support selectordinal and select with nested arguments', () => {
+    const ordinal = '{place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}';
+    const select = '{role, select, admin {{name} manages the team} other {{name} is a member}}';
+
+    expect([1, 2, 3, 4].map((place: number) => formatMessage(ordinal, { place }))).toEqual(['1st', '2nd', '3rd', '4th']);
+    expect(formatMessage(select, { role: 'admin', name: 'Ada' })).toBe('Ada manages the team');
+    expect(formatMessage(select, { role: 'guest', name: 'Bo' })).toBe('Bo is a member');
+  });
+
+  it('should treat quoted syntax characters as text', () => {
+    expect(formatMessage("Use '{braces}' and it''s fine", {})).toBe("Use {braces} and it's fine");
+    expect(formatMessage("We'll call {name}", { name: 'Ada' })).toBe("We'll call Ada");
+  });
+});
+
+describe('parseMessage', () => {
+  it('should reject malformed messages', () => {
+    expect(() => parseMessage('Hello {name')).toThrow(SyntaxError);
+    expect(() => parseMessage('{count, plural, one {# item}}')).toThrow('Missing "other"');
+    expect(() => parseMessage('{count, spellout}')).toThrow('Unsupported format');
+  });
+});
@@ -0,0 +1,4 @@
+// Barrel exports for i18n
+export * from './locales';
+export { formatMessage, parseMessage, type MessageValue, type MessageValues } from './messageFormat';
+export { createTranslator, MESSAGE_CATALOGS, type MessageCatalog, type MessageKey, type Translator } from './translator';
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Locales
+ * @description Supported locales, locale-prefixed paths and hreflang alternates
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// =========================== CONFIGURATION ===========================
+
+export const SUPPORTED_LOCALES = ['en', 'fr'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+/** The default locale is served without a prefix; every other locale lives under /<locale> */
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_STORAGE_KEY = 'preferred_locale';
+
+export interface LocaleConfig {
+  /** Name of the language in that language, for the switcher */
+  nativeName: string;
+  /** BCP 47 tag used for Intl formatting and the html lang attribute */
+  intlLocale: string;
+  ogLocale: string;
+  /** Currency the estimator starts with */
+  currency: string;
+}
+
+export const LOCALE_CONFIG: Record<Locale, LocaleConfig> = {
+  en: { nativeName: 'English', intlLocale: 'en-US', ogLocale: 'en_US', currency: 'USD' },
+  fr: { nativeName: 'Français', intlLocale: 'fr-FR', ogLocale: 'fr_FR', currency: 'EUR' },
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+/** Best match for the visitor's languages, e.g. navigator.languages */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base: string | undefined = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** Locale the visitor picked in the switcher, if any */
+export function getStoredLocale(): Locale | null {
+  try {
+    const stored: string | null = localStorage.getItem(LOCALE_STORAGE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeLocale(locale: Locale): void {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Storage unavailable (private mode); the URL still carries the locale
+  }
+}
+
+// =========================== PATHS ===========================
+
+const splitPath = (path: string): [string, string] => {
+  const index: number = path.search(/[?#]/);
+  return index === -1 ? [path, ''] : [path.slice(0, index), path.slice(index)];
+};
+
+export function getLocaleFromPath(pathname: string): Locale {
+  const segment: string | undefined = pathname.split('/')[1];
+  return isLocale(segment) && segment !== DEFAULT_LOCALE ? segment : DEFAULT_LOCALE;
+}
+
+/** Remove the locale prefix: /fr/portfolio → /portfolio, /fr → / */
+export function stripLocalePrefix(path: string): string {
+  const [pathname, suffix] = splitPath(path);
+  const locale: Locale = getLocaleFromPath(pathname);
+  if (locale === DEFAULT_LOCALE) return path;
+
+  return (pathname.slice(locale.length + 1) || '/') + suffix;
+}
+
+/** Point an app path at a locale, keeping any query string and hash: /portfolio → /fr/portfolio */
+export function localizePath(path: string, locale: Locale): string {
+  const unprefixed: string = stripLocalePrefix(path);
+  if (locale === DEFAULT_LOCALE) return unprefixed;
+
+  const [pathname, suffix] = splitPath(unprefixed);
+  return `/${locale}${pathname === '/' ? '' : pathname}${suffix}`;
+}
+
+export interface AlternateLink {
+  hrefLang: string;
+  href: string;
+}
+
+/** hreflang alternates for a page, including x-default pointing at the default locale */
+export function getAlternateLinks(pathname: string, origin: string): AlternateLink[] {
+  const [path] = splitPath(pathname);
+  const toUrl = (locale: Locale): string => new URL(localizePath(path, locale), origin).toString();
+
+  return [
+    ...SUPPORTED_LOCALES.map((locale: Locale) => ({ hrefLang: locale, href: toUrl(locale) })),
+    { hrefLang: 'x-default', href: toUrl(DEFAULT_LOCALE) },
+  ];
+}
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview ICU Message Format
+ * @description Parser and formatter for the ICU MessageFormat subset used by the catalogs: arguments, number/date/time formats, plural, selectordinal and select
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// =========================== TYPES ===========================
+
+export type MessageValue = string | number | Date | null | undefined;
+export type MessageValues = Record<string, MessageValue>;
+
+type ArgumentFormat = 'number' | 'date' | 'time';
+type BranchFormat = 'plural' | 'selectordinal' | 'select';
+
+type MessageNode =
+  | { type: 'text'; value: string }
+  | { type: 'pound' }
+  | { type: 'argument'; name: string; format?: ArgumentFormat; style?: string }
+  | { type: 'branch'; name: string; format: BranchFormat; options: Record<string, MessageNode[]> };
+
+// =========================== PARSER ===========================
+
+const ARGUMENT_FORMATS: readonly string[] = ['number', 'date', 'time'];
+const BRANCH_FORMATS: readonly string[] = ['plural', 'selectordinal', 'select'];
+
+class MessageParser {
+  private position = 0;
+
+  constructor(private readonly message: string) {}
+
+  parse(): MessageNode[] {
+    const nodes: MessageNode[] = this.parseNodes(false);
+    if (this.position < this.message.length) this.fail('Unexpected "}"');
+    return nodes;
+  }
+
+  private fail(reason: string): never {
+    throw new SyntaxError(`${reason} at position ${this.position} in message "${this.message}"`);
+  }
+
+  private parseNodes(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+
+    while (this.position < this.message.length) {
+      const char: string = this.message[this.position]!;
+
+      if (char === '}') break;
+
+      if (char === '{') {
+        flushText();
+        nodes.push(this.parseArgument());
+      } else if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        this.position++;
+      } else if (char === "'") {
+        text += this.parseQuoted(inPlural);
+      } else {
+        text += char;
+        this.position++;
+      }
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  // ICU quoting: '' is a literal apostrophe, and a quote before a syntax character escapes up to the next quote
+  private parseQuoted(inPlural: boolean): string {
+    const next: string | undefined = this.message[this.position + 1];
+
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+    if (next === '{' || next === '}' || (inPlural && next === '#')) {
+      const end: number = this.message.indexOf("'", this.position + 1);
+      if (end === -1) this.fail('Unterminated quote');
+      const literal: string = this.message.slice(this.position + 1, end);
+      this.position = end + 1;
+      return literal;
+    }
+
+    this.position++;
+    return "'";
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.message[this.position] ?? '')) this.position++;
+  }
+
+  private readWord(): string {
+    this.skipWhitespace();
+    const match: RegExpMatchArray | null = this.message.slice(this.position).match(/^[^\s{},]+/);
+    if (!match) this.fail('Expected an identifier');
+    this.position += match[0].length;
+    this.skipWhitespace();
+    return match[0];
+  }
+
+  private expect(char: string): void {
+    this.skipWhitespace();
+    if (this.message[this.position] !== char) this.fail(`Expected "${char}"`);
+    this.position++;
+  }
+
+  private parseArgument(): MessageNode {
+    this.expect('{');
+    const name: string = this.readWord();
+
+    if (this.message[this.position] === '}') {
+      this.position++;
+      return { type: 'argument', name };
+    }
+
+    this.expect(',');
+    const format: string = this.readWord();
+
+    if (ARGUMENT_FORMATS.includes(format)) {
+      let style: string | undefined;
+      if (this.message[this.position] === ',') {
+        this.position++;
+        style = this.readWord();
+      }
+      this.expect('}');
+      return { type: 'argument', name, format: format as ArgumentFormat, ...(style && { style }) };
+    }
+
+    if (!BRANCH_FORMATS.includes(format)) this.fail(`Unsupported format "${format}"`);
+
+    this.expect(',');
+    const options: Record<string, MessageNode[]> = {};
+
+    this.skipWhitespace();
+    while (this.message[this.position] !== '}') {
+      if (this.position >= this.message.length) this.fail('Unterminated argument');
+      const selector: string = this.readWord();
+      this.expect('{');
+      options[selector] = this.parseNodes(format !== 'select');
+      this.expect('}');
+      this.skipWhitespace();
+    }
+    this.position++;
+
+    if (!options['other']) this.fail(`Missing "other" option for {${name}, ${format}}`);
+    return { type: 'branch', name, format: format as BranchFormat, options };
+  }
+}
+
+// =========================== FORMATTER ===========================
+
+const parseCache = new Map<string, MessageNode[]>();
+
+export function parseMessage(message: string): MessageNode[] {
+  let nodes: MessageNode[] | undefined = parseCache.get(message);
+  if (!nodes) {
+    nodes = new MessageParser(message).parse();
+    parseCache.set(message, nodes);
+  }
+  return nodes;
+}
+
+const NUMBER_STYLES: Record<string, Intl.NumberFormatOptions> = {
+  integer: { maximumFractionDigits: 0 },
+  percent: { style: 'percent' },
+};
+
+const DATE_STYLES: readonly string[] = ['short', 'medium', 'long', 'full'];
+
+function formatArgument(value: MessageValue, locale: string, format?: ArgumentFormat, style?: string): string {
+  if (value === null || value === undefined) return '';
+
+  if (format === 'number') {
+    // ICU number skeletons are limited to currency here, e.g. {amount, number, ::currency/EUR}
+    const currency: string | undefined = style?.match(/^::currency\/([A-Z]{3})$/)?.[1];
+    const options: Intl.NumberFormatOptions = currency
+      ? { style: 'currency', currency, maximumFractionDigits: 0 }
+      : NUMBER_STYLES[style ?? ''] ?? {};
+    return new Intl.NumberFormat(locale, options).format(Number(value));
+  }
+
+  if (format === 'date' || format === 'time') {
+    const dateStyle = (style && DATE_STYLES.includes(style) ? style : 'medium') as Intl.DateTimeFormatOptions['dateStyle'];
+    const options: Intl.DateTimeFormatOptions = format === 'date' ? { dateStyle } : { timeStyle: dateStyle };
+    return new Intl.DateTimeFormat(locale, options).format(value instanceof Date ? value : new Date(value));
+  }
+
+  return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : String(value);
+}
+
+function formatNodes(nodes: MessageNode[], values: MessageValues, locale: string, pluralValue?: number): string {
+  return nodes.map((node: MessageNode): string => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'pound':
+        return pluralValue === undefined ? '#' : new Intl.NumberFormat(locale).format(pluralValue);
+      case 'argument':
+        return node.name in values ? formatArgument(values[node.name], locale, node.format, node.style) : `{${node.name}}`;
+      case 'branch': {
+        const value: MessageValue = values[node.name];
+
+        if (node.format === 'select') {
+          const branch: MessageNode[] = node.options[String(value)] ?? node.options['other']!;
+          return formatNodes(branch, values, locale, pluralValue);
+        }
+
+        const count: number = Number(value);
+        const category: string = new Intl.PluralRules(locale, {
+          type: node.format === 'selectordinal' ? 'ordinal' : 'cardinal',
+        }).select(count);
+        const branch: MessageNode[] = node.options[`=${count}`] ?? node.options[category] ?? node.options['other']!;
+        return formatNodes(branch, values, locale, count);
+      }
+    }
+  }).join('');
+}
+
+/** Format an ICU message; unknown arguments are left as `{name}` so gaps are visible */
+export function formatMessage(message: string, values: MessageValues = {}, locale: string = 'en'): string {
+  return formatNodes(parseMessage(message), values, locale);
+}
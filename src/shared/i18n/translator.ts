@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Translator
+ * @description Message lookup and locale-aware number, currency and date formatting for one locale
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import en from './messages/en.json';
+import fr from './messages/fr.json';
+import { formatMessage, type MessageValues } from './messageFormat';
+import { DEFAULT_LOCALE, LOCALE_CONFIG, localizePath, type Locale, type LocaleConfig } from './locales';
+
+// =========================== CATALOGS ===========================
+
+/** English is the source catalog: every key must exist there, other locales fall back to it */
+export type MessageKey = keyof typeof en;
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+export const MESSAGE_CATALOGS: Record<Locale, MessageCatalog> = { en, fr };
+
+// =========================== TRANSLATOR ===========================
+
+export interface Translator {
+  locale: Locale;
+  config: LocaleConfig;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatCurrency: (amount: number, currency?: string) => string;
+  formatDate: (date: Date | string, options?: Intl.DateTimeFormatOptions) => string;
+  /** Point an unprefixed app path at this locale, e.g. /portfolio → /fr/portfolio */
+  localizePath: (path: string) => string;
+}
+
+const translators = new Map<Locale, Translator>();
+
+export function createTranslator(locale: Locale): Translator {
+  const cached: Translator | undefined = translators.get(locale);
+  if (cached) return cached;
+
+  const config: LocaleConfig = LOCALE_CONFIG[locale];
+  const catalog: MessageCatalog = MESSAGE_CATALOGS[locale];
+
+  const translator: Translator = {
+    locale,
+    config,
+    t: (key: MessageKey, values?: MessageValues): string => {
+      const message: string = catalog[key] ?? MESSAGE_CATALOGS[DEFAULT_LOCALE][key] ?? key;
+      return formatMessage(message, values, config.intlLocale);
+    },
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions): string =>
+      new Intl.NumberFormat(config.intlLocale, options).format(value),
+    formatCurrency: (amount: number, currency: string = config.currency): string =>
+      new Intl.NumberFormat(config.intlLocale, { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount),
+    formatDate: (date: Date | string, options: Intl.DateTimeFormatOptions = { dateStyle: 'long' }): string =>
+      new Intl.DateTimeFormat(config.intlLocale, options).format(typeof date === 'string' ? new Date(date) : date),
+    localizePath: (path: string): string => localizePath(path, locale),
+  };
+
+  translators.set(locale, translator);
+  return translator;
+}
@@ -0,0 +1,223 @@
+/**
+ * Analytics Service Tests
+ * Delivery through AnalyticsService (retry backoff, offline persistence, replay of persisted batches)
+ * and what it stores before consent and after consent is withdrawn
+ */
+
+import { AnalyticsService, type AnalyticsConfig } from '../analytics';
+import type { AnalyticsBatch, AnalyticsTransport, PersistentBatchQueue } from '../analyticsTransport';
+import { ConsentManager } from '../consentManager';
+import { HEATMAP_STORAGE_KEY } from '../heatmap';
+
+jest.mock('../analyticsEnv', () => ({
+  ANALYTICS_ENV: { debug: false, enabled: false, identifierSalt: '' },
+}));
+
+class FakeTransport implements AnalyticsTransport {
+  readonly name = 'fake';
+  readonly sent: AnalyticsBatch[] = [];
+  failures = 0;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async send(batch: AnalyticsBatch): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Network error');
+    }
+    this.sent.push(batch);
+  }
+}
+
+class FakeQueue implements PersistentBatchQueue {
+  readonly name = 'fake-queue';
+  readonly batches = new Map<string, AnalyticsBatch>();
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async send(batch: AnalyticsBatch): Promise<void> {
+    this.batches.set(batch.id, batch);
+  }
+
+  async getAll(): Promise<AnalyticsBatch[]> {
+    return Array.from(this.batches.values());
+  }
+
+  async remove(batchId: string): Promise<void> {
+    this.batches.delete(batchId);
+  }
+
+  async clear(): Promise<void> {
+    this.batches.clear();
+  }
+}
+
+const sentEventActions = (transport: FakeTransport): string[] =>
+  transport.sent.flatMap((batch: AnalyticsBatch) => batch.events.map(event => event.action));
+
+const CONSENT_STORAGE_KEY = 'test_analytics_consent';
+
+describe('AnalyticsService', () => {
+  let transport: FakeTransport;
+  let queue: FakeQueue;
+  let services: AnalyticsService[] = [];
+
+  const createService = (config: Partial<AnalyticsConfig> = {}): AnalyticsService => {
+    const service = new AnalyticsService({
+      cookieConsent: false,
+      trackPageViews: false,
+      trackUserInteractions: false,
+      transport,
+      offlineQueue: queue,
+      batchSize: 100,
+      flushInterval: 100,
+      retryBaseDelay: 1000,
+      retryMaxDelay: 1000,
+      ...config,
+    });
+    services.push(service);
+    return service;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    transport = new FakeTransport();
+    queue = new FakeQueue();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    services.forEach((service: AnalyticsService) => service.destroy());
+    services = [];
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('delivery', () => {
+    it('should keep failed events queued and wait out the backoff before retrying', async () => {
+      jest.useFakeTimers();
+      const service = createService();
+      await service.initialize();
+      transport.failures = 1;
+
+      service.trackEvent('test', 'first');
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(transport.sent).toHaveLength(0);
+      expect(service.getDeliveryStats()).toEqual({ queued: 1, dropped: 0, retryAttempt: 1 });
+
+      // The backoff is at least half the base delay, so timer flushes before then are skipped
+      service.trackEvent('test', 'second');
+      await jest.advanceTimersByTimeAsync(300);
+      expect(transport.sent).toHaveLength(0);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(sentEventActions(transport)).toEqual(['first', 'second']);
+      expect(service.getDeliveryStats()).toEqual({ queued: 0, dropped: 0, retryAttempt: 0 });
+    });
+
+    it('should persist batches while offline instead of sending them', async () => {
+      jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const service = createService();
+      await service.initialize();
+
+      service.trackEvent('test', 'offline');
+      await service.forceFlush();
+
+      expect(transport.sent).toHaveLength(0);
+      expect(Array.from(queue.batches.values()).map(batch => batch.events[0]?.action)).toEqual(['offline']);
+      expect(service.getDeliveryStats().queued).toBe(0);
+    });
+
+    it('should replay persisted batches once when initialize and coming back online overlap', async () => {
+      const service = createService();
+      const persisted: AnalyticsBatch = {
+        id: 'batch_persisted',
+        events: [],
+        session: service.getSession(),
+        metadata: { timestamp: 1000, version: '1.0.0' },
+      };
+      await queue.send(persisted);
+
+      const initialized: Promise<void> = service.initialize();
+      window.dispatchEvent(new Event('online'));
+      await initialized;
+      await service.forceFlush();
+
+      expect(transport.sent.filter((batch: AnalyticsBatch) => batch.id === persisted.id)).toHaveLength(1);
+      expect(queue.batches.size).toBe(0);
+    });
+  });
+
+  describe('consent', () => {
+    let consent: ConsentManager;
+
+    beforeEach(() => {
+      consent = new ConsentManager({ storageKey: CONSENT_STORAGE_KEY });
+    });
+
+    it('should not store anything while analytics consent is not given', async () => {
+      const service = createService({ cookieConsent: true, consentManager: consent, trackUserInteractions: true });
+      await service.initialize();
+      service.trackEvent('test', 'before-consent');
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      expect(localStorage.getItem('analytics_data')).toBeNull();
+      expect(localStorage.getItem('analytics_history')).toBeNull();
+    });
+
+    it('should stop storing session data once analytics consent is withdrawn', async () => {
+      const service = createService({ cookieConsent: true, consentManager: consent, trackUserInteractions: true });
+      consent.update({ analytics: true }, 'banner');
+      await service.initialize();
+      expect(localStorage.getItem('analytics_data')).not.toBeNull();
+
+      consent.update({ analytics: false }, 'banner');
+      expect(localStorage.getItem('analytics_data')).toBeNull();
+
+      // Switching tabs used to end the session and write it back
+      const visibility = jest.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+      document.dispatchEvent(new Event('visibilitychange'));
+      visibility.mockReturnValue('visible');
+      document.dispatchEvent(new Event('visibilitychange'));
+      service.trackEvent('test', 'after-revoke');
+      await service.forceFlush();
+
+      expect(localStorage.getItem('analytics_data')).toBeNull();
+      expect(localStorage.getItem('analytics_history')).toBeNull();
+      expect(transport.sent).toHaveLength(0);
+    });
+
+    it('should stop recording heatmap clicks once analytics consent is withdrawn', async () => {
+      const service = createService({ cookieConsent: true, consentManager: consent, trackUserInteractions: true });
+      consent.update({ analytics: true }, 'banner');
+      await service.initialize();
+      const button: HTMLButtonElement = document.body.appendChild(document.createElement('button'));
+
+      button.click();
+      expect(localStorage.getItem(HEATMAP_STORAGE_KEY)).not.toBeNull();
+
+      consent.update({ analytics: false }, 'banner');
+      button.click();
+
+      expect(localStorage.getItem(HEATMAP_STORAGE_KEY)).toBeNull();
+      button.remove();
+    });
+
+    it('should stop recording heatmap clicks while tracking is turned off', async () => {
+      const service = createService({ trackUserInteractions: true });
+      await service.initialize();
+      const button: HTMLButtonElement = document.body.appendChild(document.createElement('button'));
+
+      service.setTrackingEnabled(false);
+      button.click();
+
+      expect(localStorage.getItem(HEATMAP_STORAGE_KEY)).toBeNull();
+      button.remove();
+    });
+  });
+});
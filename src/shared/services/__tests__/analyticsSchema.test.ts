@@ -0,0 +1,116 @@
+/**
+ * Analytics Event Schema Tests
+ * Registry lookups and runtime validation of tracked events
+ */
+
+import { EVENT_SCHEMAS, EventSchemaRegistry } from '../analyticsSchema';
+
+describe('EventSchemaRegistry', () => {
+  let registry: EventSchemaRegistry;
+
+  beforeEach(() => {
+    registry = new EventSchemaRegistry(EVENT_SCHEMAS);
+  });
+
+  describe('validate', () => {
+    it('should accept events matching their schema', () => {
+      expect(registry.validate('form.field_focus', { formName: 'contact', fieldName: 'email' }))
+        .toEqual({ valid: true, errors: [] });
+    });
+
+    it('should accept missing optional properties', () => {
+      expect(registry.validate('form.validation_error', { formName: 'contact', errorCount: 2 }).valid).toBe(true);
+    });
+
+    it('should report missing required properties', () => {
+      const result = registry.validate('form.field_focus', { formName: 'contact' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Missing required property "fieldName"');
+    });
+
+    it('should report wrong property types', () => {
+      const result = registry.validate('ecommerce.add_to_cart', {
+        itemId: 'sku-1',
+        itemName: 'Widget',
+        price: '9.99',
+        quantity: 1,
+      });
+
+      expect(result.errors).toEqual(['Property "price" should be number but was string']);
+    });
+
+    it('should distinguish arrays from objects', () => {
+      const result = registry.validate('form.validation_error', {
+        formName: 'contact',
+        errorCount: 1,
+        errors: { email: 'required' },
+      });
+
+      expect(result.errors).toEqual(['Property "errors" should be array but was object']);
+    });
+
+    it('should report unexpected properties', () => {
+      const result = registry.validate('form.start', { formName: 'contact', fromName: 'typo' });
+
+      expect(result.errors).toEqual(['Unexpected property "fromName"']);
+    });
+
+    it('should report unknown event names', () => {
+      expect(registry.validate('form.sumbit', {}).errors).toEqual(['Unknown event "form.sumbit"']);
+    });
+  });
+
+  describe('validateEvent', () => {
+    it('should validate named events against their schema', () => {
+      const result = registry.validateEvent({
+        name: 'ecommerce.view_item',
+        category: 'ecommerce',
+        action: 'view_item',
+        properties: { itemId: 'sku-1' },
+      });
+
+      expect(result.valid).toBe(false);
+    });
+
+    it('should flag misspelled actions in registered categories', () => {
+      const result = registry.validateEvent({ category: 'form', action: 'sumbit_success' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('Unknown action "sumbit_success" for category "form"');
+    });
+
+    it('should let free-form events in unregistered categories through', () => {
+      expect(registry.validateEvent({ category: 'engagement', action: 'click' }).valid).toBe(true);
+    });
+  });
+
+  describe('registration', () => {
+    it('should find names from legacy category/action pairs', () => {
+      expect(registry.findName('form', 'field_error')).toBe('form.field_error');
+      expect(registry.findName('form', 'unknown')).toBeUndefined();
+    });
+
+    it('should allow runtime registration of additional events', () => {
+      registry.register('newsletter.subscribe', {
+        category: 'newsletter',
+        action: 'subscribe',
+        description: 'Visitor subscribed to the newsletter',
+        properties: { source: { type: 'string', required: true } },
+      });
+
+      expect(registry.has('newsletter.subscribe')).toBe(true);
+      expect(registry.validate('newsletter.subscribe', { source: 'footer' }).valid).toBe(true);
+    });
+  });
+
+  describe('schema labels', () => {
+    it('should derive legacy labels and values for dashboards', () => {
+      const schema = EVENT_SCHEMAS['ecommerce.add_to_cart'];
+      const properties = { itemId: 'sku-1', itemName: 'Widget', price: 10, quantity: 3 };
+
+      expect(schema.label?.(properties)).toBe('sku-1_Widget');
+      expect(schema.value?.(properties)).toBe(30);
+    });
+  });
+});
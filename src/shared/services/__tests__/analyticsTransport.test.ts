@@ -0,0 +1,135 @@
+/**
+ * Analytics Transport Tests
+ * Delivery mechanisms and queue helpers used by AnalyticsService.flush()
+ */
+
+import {
+  BeaconTransport,
+  FetchTransport,
+  IndexedDBQueueTransport,
+  enforceQueueLimit,
+  getBackoffDelay,
+  type AnalyticsBatch,
+} from '../analyticsTransport';
+
+const createBatch = (overrides: Partial<AnalyticsBatch> = {}): AnalyticsBatch => ({
+  id: 'batch_1',
+  events: [],
+  session: {
+    id: 'session-1',
+    visitorId: 'visitor-1',
+    visitNumber: 1,
+    isReturning: false,
+    startTime: 0,
+    lastActivity: 0,
+    pageViews: 0,
+    interactions: 0,
+    duration: 0,
+    isActive: true,
+    referrer: '',
+    landingPage: 'http://localhost:3000/',
+    scrollDepth: 0,
+    timeOnPage: 0,
+    bounceRate: false,
+  },
+  metadata: { timestamp: 1000, version: '1.0.0' },
+  ...overrides,
+});
+
+describe('Analytics Transport', () => {
+  describe('FetchTransport', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should POST the batch with authorization when an API key is set', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      await new FetchTransport('/collect', 'secret').send(createBatch());
+
+      expect(fetchMock).toHaveBeenCalledWith('/collect', expect.objectContaining({
+        method: 'POST',
+        keepalive: true,
+        headers: expect.objectContaining({ Authorization: 'Bearer secret' }),
+      }));
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).id).toBe('batch_1');
+    });
+
+    it('should reject on non-ok responses', async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503 }) as unknown as typeof fetch;
+
+      await expect(new FetchTransport('/collect').send(createBatch())).rejects.toThrow('Analytics API error: 503');
+    });
+  });
+
+  describe('BeaconTransport', () => {
+    afterEach(() => {
+      delete (navigator as { sendBeacon?: unknown }).sendBeacon;
+    });
+
+    it('should report unavailable when sendBeacon is missing', () => {
+      expect(new BeaconTransport('/collect').isAvailable()).toBe(false);
+    });
+
+    it('should reject when the browser refuses the beacon', async () => {
+      Object.defineProperty(navigator, 'sendBeacon', { value: jest.fn(() => false), configurable: true });
+
+      await expect(new BeaconTransport('/collect').send(createBatch())).rejects.toThrow('rejected');
+    });
+
+    it('should resolve when the beacon is queued', async () => {
+      const sendBeacon = jest.fn(() => true);
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+
+      await new BeaconTransport('/collect').send(createBatch());
+
+      expect(sendBeacon).toHaveBeenCalledWith('/collect', expect.any(Blob));
+    });
+  });
+
+  describe('IndexedDBQueueTransport', () => {
+    it('should degrade gracefully without IndexedDB', async () => {
+      const queue = new IndexedDBQueueTransport();
+
+      expect(queue.isAvailable()).toBe(false);
+      await expect(queue.getAll()).resolves.toEqual([]);
+      await expect(queue.send(createBatch())).rejects.toThrow('IndexedDB is not supported');
+    });
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should grow exponentially up to the maximum delay', () => {
+      const options = { baseDelay: 1000, maxDelay: 5000, jitter: false };
+
+      expect(getBackoffDelay(0, options)).toBe(1000);
+      expect(getBackoffDelay(1, options)).toBe(2000);
+      expect(getBackoffDelay(2, options)).toBe(4000);
+      expect(getBackoffDelay(3, options)).toBe(5000);
+    });
+
+    it('should keep jittered delays within half and full exponential delay', () => {
+      for (let i = 0; i < 20; i++) {
+        const delay = getBackoffDelay(2, { baseDelay: 1000, maxDelay: 60000 });
+        expect(delay).toBeGreaterThanOrEqual(2000);
+        expect(delay).toBeLessThanOrEqual(4000);
+      }
+    });
+  });
+
+  describe('enforceQueueLimit', () => {
+    it('should leave queues under the limit untouched', () => {
+      expect(enforceQueueLimit([1, 2], 3, 'drop-oldest')).toEqual({ queue: [1, 2], dropped: 0 });
+    });
+
+    it('should drop the oldest entries', () => {
+      expect(enforceQueueLimit([1, 2, 3, 4], 2, 'drop-oldest')).toEqual({ queue: [3, 4], dropped: 2 });
+    });
+
+    it('should drop the newest entries', () => {
+      expect(enforceQueueLimit([1, 2, 3, 4], 2, 'drop-newest')).toEqual({ queue: [1, 2], dropped: 2 });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Attribution Tests
+ * UTM, click id and referrer channel grouping with first/last-touch models
+ */
+
+import { parseTouchPoint, updateAttribution } from '../attribution';
+
+const SITE = 'https://optimum.example';
+
+describe('parseTouchPoint', () => {
+  it('should treat visits without referrer or campaign as direct', () => {
+    expect(parseTouchPoint(`${SITE}/`, '', 1)).toEqual({
+      channel: 'direct',
+      source: '(direct)',
+      medium: '(none)',
+      landingPage: '/',
+      timestamp: 1,
+    });
+  });
+
+  it('should parse UTM parameters', () => {
+    const touch = parseTouchPoint(
+      `${SITE}/?utm_source=linkedin&utm_medium=paid_social&utm_campaign=spring&utm_content=video`,
+      'https://www.linkedin.com/'
+    );
+
+    expect(touch).toMatchObject({
+      channel: 'paid',
+      source: 'linkedin',
+      medium: 'paid_social',
+      campaign: 'spring',
+      content: 'video',
+      referrerDomain: 'linkedin.com',
+    });
+  });
+
+  it.each([
+    ['newsletter medium', `${SITE}/?utm_source=mailchimp&utm_medium=email`, '', 'email'],
+    ['bare social source', `${SITE}/?utm_source=facebook`, '', 'social'],
+    ['google click id', `${SITE}/?gclid=abc123`, 'https://www.google.com/', 'paid'],
+    ['facebook click id', `${SITE}/?fbclid=xyz`, 'https://l.facebook.com/', 'social'],
+    ['search engine referrer', `${SITE}/`, 'https://www.google.co.uk/', 'organic'],
+    ['social referrer', `${SITE}/`, 'https://t.co/abc', 'social'],
+    ['webmail referrer', `${SITE}/`, 'https://mail.google.com/', 'email'],
+    ['other site referrer', `${SITE}/`, 'https://news.ycombinator.com/item', 'referral'],
+    ['internal navigation', `${SITE}/analytics`, `${SITE}/`, 'direct'],
+  ])('should group %s', (_, url, referrer, channel) => {
+    expect(parseTouchPoint(url, referrer).channel).toBe(channel);
+  });
+
+  it('should record click ids', () => {
+    expect(parseTouchPoint(`${SITE}/?msclkid=m1`, '').clickId).toEqual({ type: 'msclkid', value: 'm1' });
+  });
+});
+
+describe('updateAttribution', () => {
+  const campaign = parseTouchPoint(`${SITE}/?utm_source=newsletter&utm_medium=email&utm_campaign=launch`, '', 1);
+  const organic = parseTouchPoint(`${SITE}/`, 'https://www.bing.com/', 2);
+  const direct = parseTouchPoint(`${SITE}/`, '', 3);
+
+  it('should use the first touch for both models initially', () => {
+    expect(updateAttribution(undefined, campaign)).toEqual({ firstTouch: campaign, lastTouch: campaign });
+  });
+
+  it('should keep the first touch and move the last touch', () => {
+    const attribution = updateAttribution(updateAttribution(undefined, campaign), organic);
+
+    expect(attribution.firstTouch).toBe(campaign);
+    expect(attribution.lastTouch).toBe(organic);
+  });
+
+  it('should not let direct visits overwrite the last campaign', () => {
+    const attribution = updateAttribution(updateAttribution(undefined, campaign), direct);
+
+    expect(attribution.lastTouch).toBe(campaign);
+  });
+});
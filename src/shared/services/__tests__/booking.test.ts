@@ -0,0 +1,163 @@
+/**
+ * Booking Tests
+ * Timezone conversion, weekly availability, ICS feeds and invites, and providers
+ */
+
+import {
+  HttpAvailabilityProvider,
+  JsonAvailabilityProvider,
+  createBookingIcs,
+  createBookingRequest,
+  expandWeeklyAvailability,
+  groupSlotsByDay,
+  parseIcsAvailability,
+  resolveAvailability,
+  zonedTimeToUtc,
+  type Availability,
+  type AvailabilitySlot,
+  type BookingConfirmation,
+  type WeeklyAvailability,
+} from '../booking';
+
+const weekly: WeeklyAvailability = {
+  timeZone: 'America/New_York',
+  slotMinutes: 30,
+  hours: { mon: [['09:00', '10:00']], fri: [['16:00', '17:00']] },
+  closedDates: [],
+};
+
+const slot = (start: string, end: string): AvailabilitySlot => ({ id: new Date(start).toISOString(), start: new Date(start), end: new Date(end) });
+
+describe('zonedTimeToUtc', () => {
+  it('should convert wall-clock times on both sides of a DST change', () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 6 }, '09:00', 'America/New_York').toISOString()).toBe('2026-03-06T14:00:00.000Z');
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 9 }, '09:00', 'America/New_York').toISOString()).toBe('2026-03-09T13:00:00.000Z');
+  });
+});
+
+describe('expandWeeklyAvailability', () => {
+  it('should create slots for the configured weekdays only', () => {
+    // Monday 9 March to Sunday 15 March 2026
+    const slots = expandWeeklyAvailability(weekly, { from: new Date('2026-03-09T00:00:00Z'), to: new Date('2026-03-16T00:00:00Z') });
+
+    expect(slots.map(s => s.id)).toEqual([
+      '2026-03-09T13:00:00.000Z',
+      '2026-03-09T13:30:00.000Z',
+      '2026-03-13T20:00:00.000Z',
+      '2026-03-13T20:30:00.000Z',
+    ]);
+  });
+
+  it('should skip closed dates', () => {
+    const slots = expandWeeklyAvailability(
+      { ...weekly, closedDates: ['2026-03-09'] },
+      { from: new Date('2026-03-09T00:00:00Z'), to: new Date('2026-03-10T00:00:00Z') }
+    );
+
+    expect(slots).toEqual([]);
+  });
+});
+
+describe('resolveAvailability', () => {
+  it('should drop slots inside the notice period and de-duplicate explicit slots', () => {
+    const availability: Availability = {
+      slots: [
+        { start: '2026-03-09T13:00:00Z', end: '2026-03-09T13:30:00Z' },
+        { start: '2026-03-10T15:00:00Z', end: '2026-03-10T15:30:00Z' },
+      ],
+      weekly,
+      minNoticeHours: 24,
+    };
+
+    const slots = resolveAvailability(
+      availability,
+      { from: new Date('2026-03-08T00:00:00Z'), to: new Date('2026-03-11T00:00:00Z') },
+      new Date('2026-03-08T13:15:00Z')
+    );
+
+    expect(slots.map(s => s.id)).toEqual(['2026-03-09T13:30:00.000Z', '2026-03-10T15:00:00.000Z']);
+  });
+});
+
+describe('groupSlotsByDay', () => {
+  it('should group by the calendar day in the given timezone', () => {
+    const late = slot('2026-03-10T03:30:00Z', '2026-03-10T04:00:00Z');
+    const days = groupSlotsByDay([late], 'America/Los_Angeles');
+
+    expect([...days.keys()]).toEqual(['2026-03-09']);
+    expect([...groupSlotsByDay([late], 'Europe/Paris').keys()]).toEqual(['2026-03-10']);
+  });
+});
+
+describe('ICS', () => {
+  it('should read UTC events from an availability feed', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART:20260310T150000Z',
+      'DTEND:20260310T153000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20260311',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseIcsAvailability(ics)).toEqual([slot('2026-03-10T15:00:00Z', '2026-03-10T15:30:00Z')]);
+  });
+
+  it('should create an escaped, folded invite', () => {
+    const booking: BookingConfirmation = {
+      id: 'abc-123',
+      slot: slot('2026-03-10T15:00:00Z', '2026-03-10T15:30:00Z'),
+      attendee: { name: 'Doe, Jane', email: 'jane@example.com', notes: 'Discuss pricing; integrations and a long list of requirements for the new platform' },
+      provider: 'json',
+    };
+    const ics: string = createBookingIcs(booking, new Date('2026-03-01T00:00:00Z'));
+
+    expect(ics).toContain('UID:abc-123@optimumsolutions.com');
+    expect(ics).toContain('DTSTART:20260310T150000Z\r\nDTEND:20260310T153000Z');
+    expect(ics).toContain('ATTENDEE;CN="Doe, Jane";RSVP=FALSE:mailto:jane@example.com');
+    ics.split('\r\n').forEach((line: string) => expect(line.length).toBeLessThanOrEqual(75));
+    expect(ics.replace(/\r\n /g, '')).toContain('Discuss pricing\\; integrations');
+  });
+});
+
+describe('providers', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should resolve inline JSON availability', async () => {
+    const provider = new JsonAvailabilityProvider({
+      slots: [{ start: '2099-01-05T15:00:00Z', end: '2099-01-05T15:30:00Z' }],
+      minNoticeHours: 0,
+    });
+
+    const slots = await provider.getSlots({ from: new Date('2099-01-01T00:00:00Z'), to: new Date('2099-02-01T00:00:00Z') });
+    expect(slots).toHaveLength(1);
+  });
+
+  it('should reserve slots through the HTTP API with an idempotency key', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 201, json: () => Promise.resolve({ id: 'booking-1' }) });
+    const provider = new HttpAvailabilityProvider('/api/bookings');
+    const request = createBookingRequest(slot('2099-01-05T15:00:00Z', '2099-01-05T15:30:00Z'), { name: 'Jane', email: 'jane@example.com' }, 'UTC');
+
+    const booking: BookingConfirmation = await provider.book(request);
+
+    expect(booking.id).toBe('booking-1');
+    expect(global.fetch).toHaveBeenCalledWith('/api/bookings', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ 'Idempotency-Key': request.idempotencyKey }),
+    }));
+  });
+
+  it('should flag server errors as retryable', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503 });
+
+    await expect(new HttpAvailabilityProvider().getSlots({ from: new Date(), to: new Date() }))
+      .rejects.toMatchObject({ retryable: true });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Consent Manager Tests
+ * Per-category consent records, versioning and Global Privacy Control
+ */
+
+import { ConsentManager, CONSENT_VERSION } from '../consentManager';
+import { eventBus, EVENT_TYPES } from '../eventBus';
+
+const STORAGE_KEY = 'test_consent';
+
+const setGPC = (value: boolean | undefined) => {
+  Object.defineProperty(navigator, 'globalPrivacyControl', { value, configurable: true });
+};
+
+describe('ConsentManager', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    eventBus.clear();
+    setGPC(undefined);
+  });
+
+  it('should only grant necessary consent before a decision', () => {
+    const manager = new ConsentManager({ storageKey: STORAGE_KEY });
+
+    expect(manager.hasDecision()).toBe(false);
+    expect(manager.isGranted('necessary')).toBe(true);
+    expect(manager.isGranted('analytics')).toBe(false);
+    expect(manager.isGranted('performance')).toBe(false);
+    expect(manager.isGranted('marketing')).toBe(false);
+  });
+
+  it('should persist a versioned record and reload it', () => {
+    new ConsentManager({ storageKey: STORAGE_KEY }).update({ analytics: true }, 'preferences');
+
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+    expect(stored.version).toBe(CONSENT_VERSION);
+    expect(stored.source).toBe('preferences');
+
+    const reloaded = new ConsentManager({ storageKey: STORAGE_KEY });
+    expect(reloaded.hasDecision()).toBe(true);
+    expect(reloaded.isGranted('analytics')).toBe(true);
+    expect(reloaded.isGranted('performance')).toBe(false);
+  });
+
+  it('should discard records from an older consent version', () => {
+    new ConsentManager({ storageKey: STORAGE_KEY, version: 1 }).grantAll();
+
+    const upgraded = new ConsentManager({ storageKey: STORAGE_KEY, version: 2 });
+
+    expect(upgraded.hasDecision()).toBe(false);
+    expect(upgraded.isGranted('analytics')).toBe(false);
+  });
+
+  it('should never allow necessary consent to be revoked', () => {
+    const manager = new ConsentManager({ storageKey: STORAGE_KEY });
+
+    manager.update({ necessary: false });
+
+    expect(manager.isGranted('necessary')).toBe(true);
+  });
+
+  it('should force marketing off when Global Privacy Control is on', () => {
+    setGPC(true);
+    const manager = new ConsentManager({ storageKey: STORAGE_KEY });
+
+    const record = manager.grantAll();
+
+    expect(record.gpc).toBe(true);
+    expect(manager.isGranted('analytics')).toBe(true);
+    expect(manager.isGranted('marketing')).toBe(false);
+  });
+
+  it('should ignore Global Privacy Control when configured to', () => {
+    setGPC(true);
+    const manager = new ConsentManager({ storageKey: STORAGE_KEY, respectGPC: false });
+
+    manager.grantAll();
+
+    expect(manager.isGranted('marketing')).toBe(true);
+  });
+
+  it('should notify subscribers on changes and reset', () => {
+    const manager = new ConsentManager({ storageKey: STORAGE_KEY });
+    const listener = jest.fn();
+    manager.subscribe(listener);
+
+    manager.denyAll('banner');
+    manager.reset();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[0][0].source).toBe('banner');
+    expect(listener.mock.calls[1][0]).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('should request the preferences dialog through the event bus', () => {
+    const listener = jest.fn();
+    eventBus.on(EVENT_TYPES.CONSENT_PREFERENCES_REQUESTED, listener);
+
+    new ConsentManager({ storageKey: STORAGE_KEY }).openPreferences();
+
+    expect(listener).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Event Sampling Tests
+ * Per-rule sampling, token-bucket rate limits, dedupe windows and weights
+ */
+
+import type { AnalyticsEvent } from '../analytics';
+import { SamplingPolicy, TokenBucket, estimateEventCount, type SamplingRule } from '../eventSampling';
+
+const createEvent = (overrides: Partial<AnalyticsEvent> = {}): AnalyticsEvent => ({
+  type: 'interaction',
+  category: 'engagement',
+  action: 'scroll',
+  timestamp: 0,
+  sessionId: 's1',
+  url: 'https://example.com/',
+  referrer: '',
+  title: 'Test',
+  userAgent: 'jest',
+  language: 'en',
+  timezone: 'UTC',
+  screenResolution: '1920x1080',
+  deviceType: 'desktop',
+  ...overrides,
+});
+
+const error = (message: string) =>
+  createEvent({ type: 'error', category: 'technical', action: 'javascript_error', label: message });
+
+describe('SamplingPolicy', () => {
+  let now: number;
+  let random: number;
+
+  const createPolicy = (rules: SamplingRule[], sampleRate = 1) =>
+    new SamplingPolicy({ rules, sampleRate, random: () => random, now: () => now });
+
+  beforeEach(() => {
+    now = 0;
+    random = 0.5;
+  });
+
+  it('should keep every event with weight 1 by default', () => {
+    expect(createPolicy([]).evaluate(createEvent())).toEqual({ keep: true, weight: 1 });
+  });
+
+  it('should sample by the first matching rule and record the weight', () => {
+    const policy = createPolicy([
+      { id: 'scroll', match: { action: 'scroll' }, sampleRate: 0.25 },
+      { id: 'engagement', match: { category: 'engagement' }, sampleRate: 1 },
+    ]);
+
+    random = 0.1;
+    expect(policy.evaluate(createEvent())).toEqual({ keep: true, weight: 4, ruleId: 'scroll' });
+
+    random = 0.3;
+    expect(policy.evaluate(createEvent())).toEqual({ keep: false, reason: 'sampled', ruleId: 'scroll' });
+  });
+
+  it('should fall back to the global sample rate', () => {
+    const policy = createPolicy([{ id: 'goals', match: { type: 'goal' }, sampleRate: 1 }], 0.1);
+
+    expect(policy.evaluate(createEvent()).keep).toBe(false);
+    expect(policy.evaluate(createEvent({ type: 'goal' }))).toMatchObject({ keep: true, weight: 1 });
+  });
+
+  it('should drop identical events inside the dedupe window', () => {
+    const policy = createPolicy([{ id: 'errors', match: { type: 'error' }, dedupeWindow: 1000 }]);
+
+    expect(policy.evaluate(error('boom')).keep).toBe(true);
+    expect(policy.evaluate(error('boom'))).toMatchObject({ keep: false, reason: 'duplicate' });
+    expect(policy.evaluate(error('other')).keep).toBe(true);
+
+    now = 1000;
+    expect(policy.evaluate(error('boom')).keep).toBe(true);
+  });
+
+  it('should rate limit with a token bucket', () => {
+    const policy = createPolicy([
+      { id: 'errors', match: { type: 'error' }, rateLimit: { capacity: 2, refillPerSecond: 1 } },
+    ]);
+
+    expect(policy.evaluate(error('a')).keep).toBe(true);
+    expect(policy.evaluate(error('b')).keep).toBe(true);
+    expect(policy.evaluate(error('c'))).toMatchObject({ keep: false, reason: 'rate_limited' });
+
+    now = 1000;
+    expect(policy.evaluate(error('d')).keep).toBe(true);
+    expect(policy.getStats()).toEqual({ kept: 3, dropped: { sampled: 0, rate_limited: 1, duplicate: 0 } });
+  });
+
+  it('should apply rule and rate changes at runtime', () => {
+    const policy = createPolicy([{ id: 'scroll', match: { action: 'scroll' }, sampleRate: 0 }]);
+    expect(policy.evaluate(createEvent()).keep).toBe(false);
+
+    policy.setRule({ id: 'scroll-override', match: { action: 'scroll' }, sampleRate: 1 });
+    expect(policy.evaluate(createEvent())).toMatchObject({ keep: true, ruleId: 'scroll-override' });
+
+    policy.setRules([]);
+    policy.setSampleRate(0.2);
+    expect(policy.evaluate(createEvent()).keep).toBe(false);
+  });
+});
+
+describe('TokenBucket', () => {
+  it('should not refill beyond its capacity', () => {
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 10 }, 0);
+
+    expect(bucket.take(10000)).toBe(true);
+    expect(bucket.take(10000)).toBe(false);
+  });
+});
+
+describe('estimateEventCount', () => {
+  it('should re-scale counts by sampling weight', () => {
+    expect(estimateEventCount([createEvent({ sampleWeight: 4 }), createEvent(), createEvent({ sampleWeight: 2 })])).toBe(7);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Experiment Engine Tests
+ * Deterministic bucketing, traffic allocation, overrides and exposure tracking
+ */
+
+import {
+  ExperimentEngine,
+  assignVariant,
+  parseOverrides,
+  type ExperimentAssignment,
+  type ExperimentDefinition,
+  type ExperimentHost,
+} from '../experiments';
+
+const DEFINITION: ExperimentDefinition = {
+  id: 'cta',
+  variants: [
+    { id: 'control', weight: 50 },
+    { id: 'treatment', weight: 50 },
+  ],
+  trafficAllocation: 1,
+};
+
+const createHost = (bucketingId = 'visitor-1') => {
+  const stored: Record<string, string> = {};
+  const exposures: ExperimentAssignment[] = [];
+  let tracking = true;
+
+  const host: ExperimentHost = {
+    getBucketingId: () => bucketingId,
+    getStoredVariant: (experimentId: string) => stored[experimentId] ?? null,
+    storeVariant: (experimentId: string, variant: string) => {
+      stored[experimentId] = variant;
+    },
+    trackExposure: (assignment: ExperimentAssignment) => {
+      if (tracking) exposures.push(assignment);
+      return tracking;
+    },
+  };
+
+  return { host, stored, exposures, setTracking: (value: boolean) => { tracking = value; } };
+};
+
+const countAssignments = (definition: ExperimentDefinition, units: number): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (let i = 0; i < units; i++) {
+    const variant = assignVariant(definition, `unit-${i}`) ?? 'none';
+    counts[variant] = (counts[variant] ?? 0) + 1;
+  }
+  return counts;
+};
+
+describe('assignVariant', () => {
+  it('should assign the same unit to the same variant every time', () => {
+    const first = assignVariant(DEFINITION, 'visitor-42');
+
+    for (let i = 0; i < 10; i++) {
+      expect(assignVariant(DEFINITION, 'visitor-42')).toBe(first);
+    }
+  });
+
+  it('should split traffic according to variant weights', () => {
+    const counts = countAssignments({
+      ...DEFINITION,
+      variants: [
+        { id: 'control', weight: 80 },
+        { id: 'treatment', weight: 20 },
+      ],
+    }, 5000);
+
+    expect(counts['control']! / 5000).toBeCloseTo(0.8, 1);
+    expect(counts['treatment']! / 5000).toBeCloseTo(0.2, 1);
+  });
+
+  it('should only enroll the allocated share of traffic', () => {
+    const counts = countAssignments({ ...DEFINITION, trafficAllocation: 0.25 }, 5000);
+
+    expect(counts['none']! / 5000).toBeCloseTo(0.75, 1);
+  });
+
+  it('should not enroll anyone in disabled experiments', () => {
+    expect(assignVariant({ ...DEFINITION, enabled: false }, 'visitor-1')).toBeNull();
+  });
+});
+
+describe('parseOverrides', () => {
+  it('should parse comma separated experiment:variant pairs', () => {
+    expect(parseOverrides('?experiment=cta:treatment,pricing:b&utm_source=x')).toEqual({
+      cta: 'treatment',
+      pricing: 'b',
+    });
+  });
+
+  it('should ignore malformed pairs', () => {
+    expect(parseOverrides('?experiment=cta,:b')).toEqual({});
+  });
+});
+
+describe('ExperimentEngine', () => {
+  it('should store hash assignments so they survive a new bucketing id', () => {
+    const { host, stored } = createHost();
+    const engine = new ExperimentEngine(host, [DEFINITION], { getSearch: () => '' });
+
+    const variant = engine.getVariant('cta');
+
+    expect(stored['cta']).toBe(variant);
+    expect(engine.getAssignment('cta').source).toBe('stored');
+  });
+
+  it('should prefer valid query string overrides', () => {
+    const { host } = createHost();
+    const engine = new ExperimentEngine(host, [DEFINITION], { getSearch: () => '?experiment=cta:treatment' });
+
+    expect(engine.getAssignment('cta')).toEqual({ experimentId: 'cta', variant: 'treatment', source: 'override' });
+  });
+
+  it('should ignore overrides for unknown variants', () => {
+    const { host } = createHost();
+    const engine = new ExperimentEngine(host, [DEFINITION], { getSearch: () => '?experiment=cta:missing' });
+
+    expect(engine.getAssignment('cta').source).toBe('hash');
+  });
+
+  it('should render the default variant for visitors outside the allocation', () => {
+    const { host } = createHost();
+    const engine = new ExperimentEngine(host, [{ ...DEFINITION, trafficAllocation: 0, defaultVariant: 'control' }], {
+      getSearch: () => '',
+    });
+
+    expect(engine.getVariant('cta')).toBeNull();
+    expect(engine.getRenderedVariant('cta')).toBe('control');
+  });
+
+  it('should track exposure once per experiment', () => {
+    const { host, exposures } = createHost();
+    const engine = new ExperimentEngine(host, [DEFINITION], { getSearch: () => '' });
+
+    engine.expose('cta');
+    engine.expose('cta');
+
+    expect(exposures).toHaveLength(1);
+    expect(exposures[0]!.experimentId).toBe('cta');
+  });
+
+  it('should not expose visitors who are not enrolled', () => {
+    const { host, exposures } = createHost();
+    const engine = new ExperimentEngine(host, [{ ...DEFINITION, trafficAllocation: 0 }], { getSearch: () => '' });
+
+    expect(engine.expose('cta')).toBeNull();
+    expect(exposures).toHaveLength(0);
+  });
+
+  it('should retry exposures the host could not record', () => {
+    const { host, exposures, setTracking } = createHost();
+    const engine = new ExperimentEngine(host, [DEFINITION], { getSearch: () => '' });
+
+    setTracking(false);
+    engine.expose('cta');
+    setTracking(true);
+    engine.expose('cta');
+
+    expect(exposures).toHaveLength(1);
+  });
+});
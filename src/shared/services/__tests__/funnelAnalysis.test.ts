@@ -0,0 +1,179 @@
+/**
+ * Funnel Analysis Tests
+ * Funnel conversion, drop-off, step timing, navigation paths and lead attribution
+ */
+
+import type { AnalyticsEvent } from '../analytics';
+import {
+  analyzeAttribution,
+  analyzeFunnel,
+  analyzePaths,
+  median,
+  parseStepExpression,
+  type FunnelDefinition,
+} from '../funnelAnalysis';
+import { matchesEvent } from '../eventMatcher';
+
+const createEvent = (sessionId: string, timestamp: number, overrides: Partial<AnalyticsEvent> = {}): AnalyticsEvent => ({
+  type: 'event',
+  category: 'general',
+  action: 'unknown',
+  timestamp,
+  sessionId,
+  url: 'https://example.com/',
+  referrer: '',
+  title: 'Test',
+  userAgent: 'jest',
+  language: 'en',
+  timezone: 'UTC',
+  screenResolution: '1920x1080',
+  deviceType: 'desktop',
+  ...overrides,
+});
+
+const cta = (sessionId: string, timestamp: number) =>
+  createEvent(sessionId, timestamp, { name: 'cta.click', category: 'cta', action: 'click', properties: { ctaId: 'hero-primary' } });
+const estimate = (sessionId: string, timestamp: number) =>
+  createEvent(sessionId, timestamp, { name: 'estimator.submit', category: 'estimator', action: 'submit' });
+const contact = (sessionId: string, timestamp: number) =>
+  createEvent(sessionId, timestamp, { name: 'form.submit_success', category: 'form', action: 'submit_success', properties: { formName: 'contact' } });
+const pageView = (sessionId: string, timestamp: number, path: string) =>
+  createEvent(sessionId, timestamp, { type: 'pageview', category: 'navigation', action: 'page_view', properties: { path } });
+
+const FUNNEL: FunnelDefinition = {
+  id: 'test',
+  name: 'Test funnel',
+  steps: [
+    { id: 'cta', label: 'CTA', match: { name: 'cta.click', properties: { ctaId: 'hero-primary' } } },
+    { id: 'estimate', label: 'Estimate', match: { name: 'estimator.submit' } },
+    { id: 'contact', label: 'Contact', match: { category: 'form', action: 'submit_success' } },
+  ],
+};
+
+describe('funnelAnalysis', () => {
+  describe('matchesEvent', () => {
+    it('should require every matcher field and property to match', () => {
+      const event = cta('s1', 0);
+
+      expect(matchesEvent(event, { name: 'cta.click', properties: { ctaId: 'hero-primary' } })).toBe(true);
+      expect(matchesEvent(event, { name: 'cta.click', properties: { ctaId: 'footer' } })).toBe(false);
+      expect(matchesEvent(event, { category: 'cta', action: 'submit' })).toBe(false);
+    });
+  });
+
+  describe('analyzeFunnel', () => {
+    it('should count sessions, drop-off and conversion per step', () => {
+      const events = [
+        cta('a', 0), estimate('a', 1000), contact('a', 5000),
+        cta('b', 0), estimate('b', 3000),
+        cta('c', 0),
+        estimate('d', 0), contact('d', 100), // never entered the funnel
+      ];
+
+      const result = analyzeFunnel(events, FUNNEL);
+
+      expect(result.totalSessions).toBe(4);
+      expect(result.entered).toBe(3);
+      expect(result.converted).toBe(1);
+      expect(result.conversionRate).toBeCloseTo(33.33, 1);
+      expect(result.steps.map(step => step.sessions)).toEqual([3, 2, 1]);
+      expect(result.steps[1]!.dropOff).toBe(1);
+      expect(result.steps[2]!.dropOffRate).toBe(50);
+    });
+
+    it('should compute median time between steps', () => {
+      const events = [
+        cta('a', 0), estimate('a', 1000),
+        cta('b', 0), estimate('b', 3000),
+        cta('c', 0), estimate('c', 8000),
+      ];
+
+      const result = analyzeFunnel(events, FUNNEL);
+
+      expect(result.steps[0]!.medianTimeFromPrevious).toBeNull();
+      expect(result.steps[1]!.medianTimeFromPrevious).toBe(3000);
+    });
+
+    it('should only count steps completed in order', () => {
+      const result = analyzeFunnel([estimate('a', 0), cta('a', 1000), contact('a', 2000)], FUNNEL);
+
+      expect(result.steps.map(step => step.sessions)).toEqual([1, 0, 0]);
+    });
+
+    it('should ignore steps outside the conversion window', () => {
+      const events = [cta('a', 0), estimate('a', 10000)];
+
+      const result = analyzeFunnel(events, { ...FUNNEL, conversionWindow: 5000 });
+
+      expect(result.steps[1]!.sessions).toBe(0);
+    });
+
+    it('should sort events chronologically within a session', () => {
+      const result = analyzeFunnel([contact('a', 3000), estimate('a', 2000), cta('a', 1000)], FUNNEL);
+
+      expect(result.converted).toBe(1);
+      expect(result.medianTimeToConvert).toBe(2000);
+    });
+  });
+
+  describe('analyzePaths', () => {
+    it('should rank page sequences and collapse repeated views', () => {
+      const events = [
+        pageView('a', 0, '/'), pageView('a', 1, '/'), pageView('a', 2, '/analytics'),
+        pageView('b', 0, '/'), pageView('b', 1, '/analytics'),
+        pageView('c', 0, '/pwa'),
+        cta('d', 0),
+      ];
+
+      const paths = analyzePaths(events);
+
+      expect(paths[0]).toEqual({ path: ['/', '/analytics'], sessions: 2, share: (2 / 3) * 100 });
+      expect(paths[1]!.path).toEqual(['/pwa']);
+    });
+
+    it('should truncate paths to the maximum length', () => {
+      const events = ['/', '/a', '/b', '/c'].map((path, index) => pageView('a', index, path));
+
+      expect(analyzePaths(events, { maxLength: 2 })[0]!.path).toEqual(['/', '/a']);
+    });
+  });
+
+  describe('analyzeAttribution', () => {
+    it('should group contact leads by the selected touch', () => {
+      const withTouch = (event: AnalyticsEvent, campaign: string): AnalyticsEvent => ({
+        ...event,
+        attribution: {
+          firstTouch: { channel: 'organic', source: 'google', medium: 'organic' },
+          lastTouch: { channel: 'email', source: 'newsletter', medium: 'email', campaign },
+        },
+      });
+      const events = [
+        withTouch(contact('a', 0), 'launch'),
+        withTouch(contact('b', 0), 'launch'),
+        withTouch(contact('c', 0), 'spring'),
+        withTouch(cta('d', 0), 'launch'),
+      ];
+
+      const lastTouch = analyzeAttribution(events);
+      const firstTouch = analyzeAttribution(events, undefined, 'firstTouch');
+
+      expect(lastTouch[0]).toEqual({ channel: 'email', source: 'newsletter', campaign: 'launch', conversions: 2, share: (2 / 3) * 100 });
+      expect(lastTouch).toHaveLength(2);
+      expect(firstTouch).toEqual([{ channel: 'organic', source: 'google', conversions: 3, share: 100 }]);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should parse editor step expressions', () => {
+      expect(parseStepExpression('form.submit_success')).toEqual({ name: 'form.submit_success' });
+      expect(parseStepExpression('cta:click')).toEqual({ category: 'cta', action: 'click' });
+      expect(parseStepExpression('/analytics')).toEqual({ type: 'pageview', path: '/analytics' });
+    });
+
+    it('should compute medians of odd and even length lists', () => {
+      expect(median([])).toBeNull();
+      expect(median([5, 1, 3])).toBe(3);
+      expect(median([4, 1, 3, 2])).toBe(2.5);
+    });
+  });
+});
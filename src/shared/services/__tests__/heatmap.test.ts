@@ -0,0 +1,132 @@
+/**
+ * Heatmap Tests
+ * Stable selectors, element-relative click points and per-route/viewport aggregation
+ */
+
+import {
+  GRID_SIZE,
+  HeatmapStore,
+  createClickPoint,
+  getStableSelector,
+  getTopElements,
+  getViewportClass,
+  type ClickPoint,
+} from '../heatmap';
+
+const STORAGE_KEY = 'test_heatmap';
+
+const point = (overrides: Partial<ClickPoint> = {}): ClickPoint => ({
+  selector: '#cta',
+  x: 0.5,
+  y: 0.5,
+  route: '/',
+  viewport: 'desktop',
+  ...overrides,
+});
+
+describe('heatmap selectors', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should anchor on the closest data-heatmap-id', () => {
+    document.body.innerHTML = '<section data-heatmap-id="hero"><div><span>One</span><span>Two</span></div></section>';
+    const target = document.querySelectorAll('span')[1] as Element;
+
+    expect(getStableSelector(target)).toBe('[data-heatmap-id="hero"] > div > span:nth-of-type(2)');
+  });
+
+  it('should anchor on stable ids and skip generated ones', () => {
+    document.body.innerHTML = '<div id="services"><button id=":r1:">Go</button></div>';
+    const button = document.querySelector('button') as Element;
+
+    expect(getStableSelector(button)).toBe('#services > button');
+  });
+
+  it('should fall back to a path from body that resolves to the element', () => {
+    document.body.innerHTML = '<main><p>First</p><p>Second <a href="#">link</a></p></main>';
+    const link = document.querySelector('a') as Element;
+    const selector: string = getStableSelector(link);
+
+    expect(selector).toBe('main > p:nth-of-type(2) > a');
+    expect(document.querySelector(selector)).toBe(link);
+  });
+
+  it('should classify viewports by layout breakpoint', () => {
+    expect(getViewportClass(375)).toBe('mobile');
+    expect(getViewportClass(800)).toBe('tablet');
+    expect(getViewportClass(1440)).toBe('desktop');
+  });
+});
+
+describe('createClickPoint', () => {
+  it('should attribute clicks to the interactive element with relative offsets', () => {
+    document.body.innerHTML = '<button data-heatmap-id="cta"><svg></svg>Start</button>';
+    const button = document.querySelector('button') as Element;
+    jest.spyOn(button, 'getBoundingClientRect').mockReturnValue({
+      left: 100, top: 50, width: 200, height: 40,
+    } as DOMRect);
+
+    const clickPoint: ClickPoint = createClickPoint(
+      { clientX: 150, clientY: 80 },
+      document.querySelector('svg') as Element,
+      '/services'
+    );
+
+    expect(clickPoint).toEqual(expect.objectContaining({
+      selector: '[data-heatmap-id="cta"]',
+      x: 0.25,
+      y: 0.75,
+      route: '/services',
+    }));
+  });
+});
+
+describe('HeatmapStore', () => {
+  let store: HeatmapStore;
+
+  beforeEach(() => {
+    localStorage.clear();
+    store = new HeatmapStore({ storageKey: STORAGE_KEY, maxElements: 2 });
+  });
+
+  it('should aggregate clicks into grid cells per route and viewport', () => {
+    store.record(point({ x: 0, y: 0 }));
+    store.record(point({ x: 0.05, y: 0.05 }));
+    store.record(point({ x: 1, y: 1 }));
+    store.record(point({ viewport: 'mobile' }));
+
+    const data = store.get('/', 'desktop');
+    expect(data?.totalClicks).toBe(3);
+    expect(data?.elements['#cta']?.cells[0]).toBe(2);
+    expect(data?.elements['#cta']?.cells[GRID_SIZE * GRID_SIZE - 1]).toBe(1);
+    expect(store.get('/', 'mobile')?.totalClicks).toBe(1);
+  });
+
+  it('should list pages most clicked first', () => {
+    store.record(point({ route: '/pwa' }));
+    store.record(point());
+    store.record(point());
+
+    expect(store.list().map(summary => summary.route)).toEqual(['/', '/pwa']);
+  });
+
+  it('should keep only the most clicked elements per page', () => {
+    store.record(point({ selector: '#a' }));
+    store.record(point({ selector: '#a' }));
+    store.record(point({ selector: '#b' }));
+    store.record(point({ selector: '#b' }));
+    store.record(point({ selector: '#c' }));
+
+    const data = store.get('/', 'desktop')!;
+    expect(Object.keys(data.elements).sort()).toEqual(['#a', '#b']);
+    expect(getTopElements(data, 1)[0]?.selector).toBe('#a');
+  });
+
+  it('should clear recorded heatmaps', () => {
+    store.record(point());
+    store.clear();
+
+    expect(store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Identity Manager Tests
+ * Anonymous ids, identify/alias stitching, hashing and reset
+ */
+
+import { ConsentManager } from '../consentManager';
+import { IdentityManager, type IdentifierHasher, type IdentityManagerOptions } from '../identity';
+
+const STORAGE_KEY = 'test_identity';
+const CONSENT_STORAGE_KEY = 'test_identity_consent';
+
+const fakeHasher: IdentifierHasher = async (value: string, salt: string) => `hashed(${salt}${value})`;
+
+describe('IdentityManager', () => {
+  let consent: ConsentManager;
+  let managers: IdentityManager[] = [];
+
+  const createManager = (options: IdentityManagerOptions): IdentityManager => {
+    const manager = new IdentityManager(options);
+    managers.push(manager);
+    return manager;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    consent = new ConsentManager({ storageKey: CONSENT_STORAGE_KEY });
+    consent.update({ analytics: true }, 'api');
+  });
+
+  afterEach(() => {
+    managers.forEach((manager: IdentityManager) => manager.destroy());
+    managers = [];
+  });
+
+  it('should persist the anonymous id across instances', () => {
+    const first = createManager({ storageKey: STORAGE_KEY, consent });
+    const second = createManager({ storageKey: STORAGE_KEY, consent });
+
+    expect(first.getAnonymousId()).toBeTruthy();
+    expect(second.getAnonymousId()).toBe(first.getAnonymousId());
+    expect(second.getUserId()).toBeUndefined();
+  });
+
+  it('should alias the anonymous id on the first identify', async () => {
+    const manager = createManager({ storageKey: STORAGE_KEY, consent });
+    const anonymousId = manager.getAnonymousId();
+
+    const result = await manager.identify('user-1');
+
+    expect(result).toEqual({ userId: 'user-1', anonymousId, aliasedFrom: anonymousId });
+    expect(manager.getDistinctId()).toBe('user-1');
+    expect(manager.getAliases()).toEqual([anonymousId]);
+  });
+
+  it('should not alias again when the same user is identified', async () => {
+    const manager = createManager({ storageKey: STORAGE_KEY, consent });
+    await manager.identify('user-1');
+
+    const result = await createManager({ storageKey: STORAGE_KEY, consent }).identify('user-1');
+
+    expect(result.aliasedFrom).toBeUndefined();
+  });
+
+  it('should start a fresh identity when a different user is identified', async () => {
+    const manager = createManager({ storageKey: STORAGE_KEY, consent });
+    const firstAnonymousId = manager.getAnonymousId();
+    await manager.identify('user-1');
+
+    const result = await manager.identify('user-2');
+
+    expect(result.previousUserId).toBe('user-1');
+    expect(result.anonymousId).not.toBe(firstAnonymousId);
+    expect(manager.getAliases()).toEqual([result.anonymousId]);
+  });
+
+  it('should only store salted hashes when hashing is enabled', async () => {
+    const manager = createManager({
+      storageKey: STORAGE_KEY,
+      consent,
+      hashIdentifiers: true,
+      salt: 'pepper:',
+      hasher: fakeHasher,
+    });
+
+    await manager.identify('jane@example.com');
+
+    expect(manager.getUserId()).toBe('hashed(pepper:jane@example.com)');
+    expect(localStorage.getItem(STORAGE_KEY)).not.toContain('"userId":"jane@example.com"');
+  });
+
+  it('should refuse to identify when hashing is unavailable', async () => {
+    const manager = createManager({ storageKey: STORAGE_KEY, hashIdentifiers: true, consent });
+
+    await expect(manager.identify('jane@example.com')).rejects.toThrow('Web Crypto');
+    expect(manager.getUserId()).toBeUndefined();
+  });
+
+  it('should forget the user and rotate the anonymous id on reset', async () => {
+    const manager = createManager({ storageKey: STORAGE_KEY, consent });
+    const anonymousId = manager.getAnonymousId();
+    await manager.identify('user-1');
+
+    manager.reset();
+
+    expect(manager.getUserId()).toBeUndefined();
+    expect(manager.getAnonymousId()).not.toBe(anonymousId);
+    expect(manager.getAliases()).toEqual([]);
+    expect(createManager({ storageKey: STORAGE_KEY, consent }).getAnonymousId()).toBe(manager.getAnonymousId());
+  });
+
+  it('should remove the stored identity on clear', () => {
+    const manager = createManager({ storageKey: STORAGE_KEY, consent });
+
+    manager.clear();
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('should keep the identity in memory until analytics consent is granted', () => {
+    consent.reset();
+    const manager = createManager({ storageKey: STORAGE_KEY, consent });
+
+    expect(manager.getAnonymousId()).toBeTruthy();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+
+    consent.update({ analytics: true }, 'banner');
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!).anonymousId).toBe(manager.getAnonymousId());
+
+    consent.update({ analytics: false }, 'preferences');
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
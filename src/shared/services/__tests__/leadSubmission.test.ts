@@ -0,0 +1,321 @@
+/**
+ * Lead Submission Tests
+ * Contact form validation, spam heuristics, adapter fallback, offline queueing and idempotency
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { deserialize, serialize } from 'v8';
+import { MessageChannel } from 'worker_threads';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  CONTACT_SYNC_TAG,
+  HttpLeadAdapter,
+  LeadSubmissionService,
+  ServiceWorkerLeadQueue,
+  buildMailtoUrl,
+  detectSpam,
+  validateContactForm,
+  type LeadAdapter,
+  type LeadQueue,
+  type LeadSubmission,
+} from '../leadSubmission';
+
+const VALID_FORM = {
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  company: '',
+  phone: '',
+  projectType: 'web-app',
+  timeline: '',
+  budget: '',
+  message: 'We need a customer portal for our team.',
+};
+
+const HUMAN = { honeypot: '', startedAt: Date.now() - 60000 };
+
+const createAdapter = (name: string, submit: LeadAdapter['submit'] = jest.fn().mockResolvedValue(undefined)) => ({
+  name,
+  isAvailable: () => true,
+  submit: jest.fn(submit),
+});
+
+const createQueue = (accepts: boolean): LeadQueue & { enqueue: jest.Mock } => ({
+  enqueue: jest.fn().mockResolvedValue(accepts),
+});
+
+describe('validateContactForm', () => {
+  it('should accept a valid form with empty optional selects', () => {
+    const result = validateContactForm(VALID_FORM);
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should report the first error per field', () => {
+    const result = validateContactForm({ ...VALID_FORM, email: 'not-an-email', message: 'Hi' });
+
+    expect(result).toEqual({
+      success: false,
+      errors: {
+        email: 'validation.email.invalid',
+        message: 'validation.message.tooShort',
+      },
+    });
+  });
+
+  it('should reject unknown project types', () => {
+    const result = validateContactForm({ ...VALID_FORM, projectType: 'crypto' });
+
+    expect(result).toEqual({ success: false, errors: { projectType: 'validation.choice.invalid' } });
+  });
+});
+
+describe('detectSpam', () => {
+  const now = 100000;
+
+  it('should flag a filled honeypot', () => {
+    expect(detectSpam({ honeypot: 'https://spam.example', startedAt: 0 }, now)).toBe('honeypot');
+  });
+
+  it('should flag forms submitted faster than a person can type', () => {
+    expect(detectSpam({ startedAt: now - 500 }, now)).toBe('too_fast');
+  });
+
+  it('should let normal submissions through', () => {
+    expect(detectSpam({ honeypot: '', startedAt: now - 30000 }, now)).toBeNull();
+  });
+});
+
+describe('buildMailtoUrl', () => {
+  it('should prefill the subject and body with the lead and reference', () => {
+    const submission: LeadSubmission = {
+      idempotencyKey: 'key-1',
+      lead: { ...VALID_FORM, company: 'Acme' } as LeadSubmission['lead'],
+      submittedAt: 0,
+      page: '/',
+    };
+
+    const url: string = buildMailtoUrl(submission, 'hello@example.com');
+    const params = new URLSearchParams(url.split('?')[1]);
+
+    expect(url.startsWith('mailto:hello@example.com?')).toBe(true);
+    expect(url).not.toContain('+');
+    expect(params.get('subject')).toBe('Project enquiry from Jane Doe');
+    expect(params.get('body')).toContain('Company: Acme');
+    expect(params.get('body')).toContain('Reference: key-1');
+  });
+});
+
+describe('HttpLeadAdapter', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should post the submission with an Idempotency-Key header', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 201 });
+    const adapter = new HttpLeadAdapter('/api/leads');
+
+    await adapter.submit({ idempotencyKey: 'key-1', lead: VALID_FORM as LeadSubmission['lead'], submittedAt: 0, page: '/' });
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/leads', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ 'Idempotency-Key': 'key-1' }),
+    }));
+  });
+
+  it('should treat a duplicate key as delivered and flag server errors as retryable', async () => {
+    const adapter = new HttpLeadAdapter();
+    const submission = { idempotencyKey: 'key-1', lead: VALID_FORM as LeadSubmission['lead'], submittedAt: 0, page: '/' };
+
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 409 });
+    await expect(adapter.submit(submission)).resolves.toBeUndefined();
+
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503 });
+    await expect(adapter.submit(submission)).rejects.toMatchObject({ retryable: true });
+  });
+});
+
+describe('LeadSubmissionService', () => {
+  it('should deliver through the first adapter that succeeds', async () => {
+    const http = createAdapter('http', () => Promise.reject(new Error('Contact API error: 400')));
+    const mailto = createAdapter('mailto');
+    const service = new LeadSubmissionService({ adapters: [http, mailto], queue: createQueue(true) });
+
+    const result = await service.submit(VALID_FORM, HUMAN, 'key-1');
+
+    expect(result).toEqual({ status: 'sent', adapter: 'mailto' });
+    expect(mailto.submit).toHaveBeenCalledWith(expect.objectContaining({ idempotencyKey: 'key-1' }));
+  });
+
+  it('should queue submissions that fail because of the network', async () => {
+    const queue = createQueue(true);
+    const mailto = createAdapter('mailto');
+    const service = new LeadSubmissionService({
+      endpoint: '/api/leads',
+      adapters: [createAdapter('http', () => Promise.reject(new TypeError('Failed to fetch'))), mailto],
+      queue,
+    });
+
+    const result = await service.submit(VALID_FORM, HUMAN, 'key-1');
+
+    expect(result).toEqual({ status: 'queued' });
+    expect(queue.enqueue).toHaveBeenCalledWith('/api/leads', expect.objectContaining({ idempotencyKey: 'key-1' }));
+    expect(mailto.submit).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the next adapter when the queue is unavailable', async () => {
+    const service = new LeadSubmissionService({
+      adapters: [createAdapter('http', () => Promise.reject(new TypeError('Failed to fetch'))), createAdapter('mailto')],
+      queue: createQueue(false),
+    });
+
+    expect(await service.submit(VALID_FORM, HUMAN)).toEqual({ status: 'sent', adapter: 'mailto' });
+  });
+
+  it('should report failure when every adapter fails', async () => {
+    const service = new LeadSubmissionService({
+      adapters: [createAdapter('http', () => Promise.reject(new Error('Contact API error: 400')))],
+      queue: createQueue(false),
+    });
+
+    expect(await service.submit(VALID_FORM, HUMAN)).toEqual({ status: 'failed', error: 'Contact API error: 400' });
+  });
+
+  it('should not deliver invalid or spam submissions', async () => {
+    const http = createAdapter('http');
+    const service = new LeadSubmissionService({ adapters: [http], queue: createQueue(true) });
+
+    const invalid = await service.submit({ ...VALID_FORM, email: '' }, HUMAN);
+    const spam = await service.submit(VALID_FORM, { honeypot: 'bot', startedAt: 0 });
+
+    expect(invalid.status).toBe('invalid');
+    expect(spam).toEqual({ status: 'spam', reason: 'honeypot' });
+    expect(http.submit).not.toHaveBeenCalled();
+  });
+
+  it('should deliver concurrent submissions with the same key once', async () => {
+    const http = createAdapter('http');
+    const service = new LeadSubmissionService({ adapters: [http], queue: createQueue(true) });
+
+    const [first, second] = await Promise.all([
+      service.submit(VALID_FORM, HUMAN, 'key-1'),
+      service.submit(VALID_FORM, HUMAN, 'key-1'),
+    ]);
+
+    expect(first).toBe(second);
+    expect(http.submit).toHaveBeenCalledTimes(1);
+  });
+});
+
+interface WorkerEvent {
+  data?: unknown;
+  ports?: MessagePort[];
+  tag?: string;
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+/**
+ * Runs public/sw.js against an in-memory IndexedDB and a fetch mock, and
+ * dispatches events to it the way the browser would
+ */
+const loadServiceWorker = (fetchMock: jest.Mock) => {
+  const listeners = new Map<string, (event: WorkerEvent) => void>();
+  const scope = {
+    addEventListener: (type: string, listener: (event: WorkerEvent) => void) => listeners.set(type, listener),
+    skipWaiting: jest.fn(),
+  };
+  const source: string = readFileSync(resolve(__dirname, '../../../../public/sw.js'), 'utf8');
+  new Function('self', 'indexedDB', 'fetch', source)(scope, new IDBFactory(), fetchMock);
+
+  return async (type: string, init: Omit<WorkerEvent, 'waitUntil'> = {}): Promise<void> => {
+    const pending: Array<Promise<unknown>> = [];
+    listeners.get(type)?.({ ...init, waitUntil: (promise: Promise<unknown>) => pending.push(promise) });
+    await Promise.all(pending);
+  };
+};
+
+describe('ServiceWorkerLeadQueue', () => {
+  // JSDOM has neither; the page/worker messages and fake-indexeddb need them
+  beforeAll(() => {
+    Object.assign(global, { MessageChannel, structuredClone: <T,>(value: T): T => deserialize(serialize(value)) });
+  });
+
+  afterAll(() => {
+    Reflect.deleteProperty(global, 'MessageChannel');
+    Reflect.deleteProperty(global, 'structuredClone');
+  });
+
+  const submission: LeadSubmission = {
+    idempotencyKey: 'key-1',
+    lead: VALID_FORM as LeadSubmission['lead'],
+    submittedAt: 0,
+    page: '/',
+  };
+
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, 'serviceWorker');
+  });
+
+  const controlWith = (dispatch: ReturnType<typeof loadServiceWorker>) => {
+    const register = jest.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'serviceWorker', {
+      configurable: true,
+      value: {
+        controller: {
+          postMessage: (data: unknown, ports: MessagePort[]) => void dispatch('message', { data, ports }),
+        },
+        ready: Promise.resolve({ sync: { register } }),
+      },
+    });
+    return register;
+  };
+
+  it('should queue offline leads in public/sw.js and deliver them on background sync', async () => {
+    const fetchMock = jest.fn().mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValue({ ok: true, status: 201 });
+    const dispatch = loadServiceWorker(fetchMock);
+    const register = controlWith(dispatch);
+    const mailto = createAdapter('mailto');
+    const service = new LeadSubmissionService({
+      endpoint: '/api/leads',
+      adapters: [createAdapter('http', () => Promise.reject(new TypeError('Failed to fetch'))), mailto],
+      queue: new ServiceWorkerLeadQueue(1000),
+    });
+
+    expect(await service.submit(VALID_FORM, HUMAN, 'key-1')).toEqual({ status: 'queued' });
+    expect(mailto.submit).not.toHaveBeenCalled();
+    expect(register).toHaveBeenCalledWith(CONTACT_SYNC_TAG);
+
+    // Still offline: the sync fails so the browser retries, and the lead stays queued
+    await expect(dispatch('sync', { tag: CONTACT_SYNC_TAG })).rejects.toThrow('Failed to fetch');
+    await dispatch('sync', { tag: CONTACT_SYNC_TAG });
+    await dispatch('sync', { tag: CONTACT_SYNC_TAG });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenLastCalledWith('/api/leads', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ 'Idempotency-Key': 'key-1' }),
+    }));
+  });
+
+  it('should replay queued leads when the page asks after coming back online', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 409 });
+    const dispatch = loadServiceWorker(fetchMock);
+    controlWith(dispatch);
+
+    expect(await new ServiceWorkerLeadQueue(1000).enqueue('/api/contact', submission)).toBe(true);
+    await dispatch('message', { data: { type: 'SYNC_FORMS' } });
+    await dispatch('message', { data: { type: 'SYNC_FORMS' } });
+
+    // 409: the lead already arrived, so it is dropped from the queue
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual(submission);
+  });
+
+  it('should not report a submission as queued without a controlling service worker', async () => {
+    const queue = new ServiceWorkerLeadQueue(10);
+
+    expect(await queue.enqueue('/api/contact', submission)).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Pricing Engine Tests
+ * Rule validation, feature dependencies, line items, discounts, rush pricing, currencies and quote URLs
+ */
+
+import {
+  DEFAULT_PRICING_RULES,
+  calculateQuote,
+  createEmptySelection,
+  decodeQuote,
+  encodeQuote,
+  formatQuoteSummary,
+  parsePricingRules,
+  resolveFeatures,
+  toggleFeature,
+  type PricingRules,
+  type QuoteSelection,
+} from '../pricingEngine';
+
+const rules: PricingRules = parsePricingRules({
+  version: 2,
+  baseCurrency: 'USD',
+  estimateRange: { low: 0.9, high: 1.1 },
+  projectTypes: {
+    web: { label: 'Web app', basePrice: 10000 },
+    mobile: { label: 'Mobile app', basePrice: 20000, excludedFeatures: ['native'] },
+  },
+  designLevels: { basic: { label: 'Basic', multiplier: 1 }, custom: { label: 'Custom', multiplier: 1.5 } },
+  environments: { fullstack: { label: 'Full-stack', multiplier: 2 } },
+  features: [
+    { id: 'accounts', label: 'Accounts', price: 1000 },
+    { id: 'payments', label: 'Payments', price: 2000, requires: ['accounts'] },
+    { id: 'sso', label: 'SSO', price: 1500, requires: ['accounts'], excludes: ['magic'] },
+    { id: 'magic', label: 'Magic links', price: 500, requires: ['accounts'] },
+    { id: 'native', label: 'Native app', price: 5000 },
+  ],
+  volumeDiscounts: [
+    { minFeatures: 2, rate: 0.05, label: 'Bundle (2+)' },
+    { minFeatures: 3, rate: 0.1, label: 'Bundle (3+)' },
+  ],
+  timelines: { standard: { label: 'Standard', multiplier: 1 }, rush: { label: 'Rush', multiplier: 1.5 } },
+  defaultTimeline: 'standard',
+  currencies: { USD: { rate: 1, locale: 'en-US' }, EUR: { rate: 0.5, locale: 'de-DE' } },
+});
+
+const select = (overrides: Partial<QuoteSelection> = {}): QuoteSelection => ({
+  ...createEmptySelection(rules),
+  projectType: 'web',
+  design: 'basic',
+  environment: 'fullstack',
+  ...overrides,
+});
+
+describe('parsePricingRules', () => {
+  it('should load the bundled rule set', () => {
+    expect(parsePricingRules(DEFAULT_PRICING_RULES).features.length).toBeGreaterThan(0);
+  });
+
+  it('should reject rules that reference unknown features', () => {
+    expect(() => parsePricingRules({
+      ...rules,
+      features: [{ id: 'payments', label: 'Payments', price: 1, requires: ['accounts'] }],
+    })).toThrow(/Unknown feature references: accounts/);
+  });
+});
+
+describe('feature dependencies', () => {
+  it('should add required features when checking a feature', () => {
+    expect(toggleFeature(rules, select(), 'payments', true)).toEqual(['accounts', 'payments']);
+  });
+
+  it('should remove dependent features when unchecking a requirement', () => {
+    const selection: QuoteSelection = select({ features: ['accounts', 'payments', 'magic'] });
+
+    expect(toggleFeature(rules, selection, 'accounts', false)).toEqual([]);
+  });
+
+  it('should replace mutually exclusive features', () => {
+    const selection: QuoteSelection = select({ features: ['accounts', 'magic'] });
+
+    expect(toggleFeature(rules, selection, 'sso', true)).toEqual(['accounts', 'sso']);
+  });
+
+  it('should drop features the project type excludes', () => {
+    expect(resolveFeatures(rules, select({ projectType: 'mobile', features: ['native', 'accounts'] }))).toEqual(['accounts']);
+  });
+});
+
+describe('calculateQuote', () => {
+  it('should return an empty quote until the selection is complete', () => {
+    expect(calculateQuote(select({ design: '' }), rules).total).toBe(0);
+  });
+
+  it('should break the total down into line items that add up', () => {
+    const quote = calculateQuote(select({ design: 'custom', features: ['payments'] }), rules);
+
+    // (10000 + 1000 + 2000) × 1.5 × 2 = 39000, then 5% bundle discount
+    expect(quote.lineItems.map(item => [item.kind, item.amount])).toEqual([
+      ['base', 10000],
+      ['feature', 1000],
+      ['feature', 2000],
+      ['multiplier', 6500],
+      ['multiplier', 19500],
+      ['discount', -1950],
+    ]);
+    expect(quote.total).toBe(37050);
+    expect(quote.min).toBe(33345);
+    expect(quote.max).toBe(40755);
+  });
+
+  it('should apply the best volume discount and the rush multiplier last', () => {
+    const quote = calculateQuote(select({ features: ['accounts', 'payments', 'sso'], timeline: 'rush' }), rules);
+    const [discount, rush] = quote.lineItems.slice(-2);
+
+    expect(discount).toEqual(expect.objectContaining({ kind: 'discount', label: 'Bundle (3+)', amount: -2900 }));
+    expect(rush).toEqual(expect.objectContaining({ kind: 'timeline', multiplier: 1.5, amount: 13050 }));
+    expect(quote.total).toBe(39150);
+  });
+
+  it('should convert every amount to the selected currency', () => {
+    const usd = calculateQuote(select(), rules);
+    const eur = calculateQuote(select({ currency: 'EUR' }), rules);
+
+    expect(eur.currency).toBe('EUR');
+    expect(eur.total).toBe(usd.total / 2);
+    expect(eur.baseTotal).toBe(usd.baseTotal);
+  });
+
+  it('should fall back to the base currency for unknown currencies', () => {
+    expect(calculateQuote(select({ currency: 'XYZ' }), rules).currency).toBe('USD');
+  });
+});
+
+describe('shareable quotes', () => {
+  it('should round-trip a selection through a URL-safe string', () => {
+    const selection: QuoteSelection = select({ features: ['accounts', 'payments'], timeline: 'rush', currency: 'EUR' });
+    const encoded: string = encodeQuote(selection, rules);
+
+    expect(encoded).toMatch(/^[\w-]+$/);
+    expect(decodeQuote(encoded, rules)).toEqual(selection);
+  });
+
+  it('should drop options that no longer exist and reject malformed input', () => {
+    const encoded: string = encodeQuote(select({ projectType: 'retired', features: ['accounts', 'retired'] }), rules);
+
+    expect(decodeQuote(encoded, rules)).toEqual(expect.objectContaining({ projectType: '', features: ['accounts'] }));
+    expect(decodeQuote('not a quote', rules)).toBeNull();
+  });
+
+  it('should summarise a quote as plain text', () => {
+    const summary: string = formatQuoteSummary(calculateQuote(select({ timeline: 'rush' }), rules), rules);
+
+    expect(summary).toContain('Project estimate: $27,000 - $33,000');
+    expect(summary).toContain('- Rush (×1.5): $10,000');
+    expect(summary).toContain('Timeline: Rush');
+  });
+});
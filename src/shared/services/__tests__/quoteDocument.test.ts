@@ -0,0 +1,61 @@
+/**
+ * Quote Document Tests
+ * Quote IDs, validity dates, document details and PDF rendering
+ */
+
+import { DEFAULT_PRICING_RULES, calculateQuote, type Quote, type QuoteSelection } from '../pricingEngine';
+import { createQuoteDocument, generateQuoteId, renderQuotePdf, type QuoteDocument } from '../quoteDocument';
+
+const rules = DEFAULT_PRICING_RULES;
+const [projectType] = Object.keys(rules.projectTypes);
+const [design] = Object.keys(rules.designLevels);
+const [environment] = Object.keys(rules.environments);
+
+const selection: QuoteSelection = {
+  projectType: projectType!,
+  design: design!,
+  environment: environment!,
+  features: [],
+  timeline: rules.defaultTimeline,
+  currency: rules.baseCurrency,
+};
+
+const issuedAt = new Date('2026-03-10T12:00:00Z');
+
+describe('generateQuoteId', () => {
+  it('should include the issue date and be stable for the same configuration', () => {
+    const quote: Quote = calculateQuote(selection, rules);
+    const id: string = generateQuoteId(quote, issuedAt, rules);
+
+    expect(id).toMatch(/^OSG-20260310-[0-9A-Z]{5}$/);
+    expect(generateQuoteId(calculateQuote({ ...selection }, rules), issuedAt, rules)).toBe(id);
+  });
+
+  it('should differ between configurations', () => {
+    const other: Quote = calculateQuote({ ...selection, currency: 'EUR' }, rules);
+
+    expect(generateQuoteId(other, issuedAt, rules)).not.toBe(generateQuoteId(calculateQuote(selection, rules), issuedAt, rules));
+  });
+});
+
+describe('createQuoteDocument', () => {
+  it('should set the validity date and list the selected options', () => {
+    const document: QuoteDocument = createQuoteDocument(calculateQuote(selection, rules), { rules, issuedAt, validityDays: 14 });
+
+    expect(document.validUntil.toISOString()).toBe('2026-03-24T12:00:00.000Z');
+    expect(document.details.map(detail => detail.label)).toEqual(['Project type', 'Design', 'Environment', 'Timeline', 'Currency']);
+    expect(document.details[0]?.value).toBe(rules.projectTypes[projectType!]?.label);
+  });
+});
+
+describe('renderQuotePdf', () => {
+  it('should render the quote ID and every line item', () => {
+    const document: QuoteDocument = createQuoteDocument(calculateQuote(selection, rules), { rules, issuedAt });
+    const source: string = renderQuotePdf(document, rules).build();
+
+    expect(source).toContain(`(${document.id})`);
+    document.quote.lineItems.forEach((item) => {
+      expect(source).toContain(item.label.replace(/[()\\]/g, '\\$&'));
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * SEO Content Analyzers Tests
+ * Heading outline, readability, keyword density, image alt, link and anchor analyzers and their registry
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  anchorTargetAnalyzer,
+  calculateKeywordDensity,
+  calculateReadability,
+  countSyllables,
+  headingOutlineAnalyzer,
+  imageAltAnalyzer,
+  keywordDensityAnalyzer,
+  linkProfileAnalyzer,
+  readabilityAnalyzer,
+  SEOAnalyzerRegistry,
+  type SEOAnalyzer,
+} from '../seoContentAnalyzers';
+import { SEOAnalysisService, type SEOIssue } from '../seoAnalysisService';
+
+const messages = (issues: SEOIssue[]): string[] => issues.map((issue: SEOIssue) => issue.message);
+
+const EASY_TEXT: string = Array(30).fill('We build good apps. You get them fast.').join('\n');
+const HARD_TEXT: string = Array(10)
+  .fill('Comprehensive organizational transformation necessitates sophisticated interdisciplinary collaboration, methodological experimentation and institutionalized accountability across distributed operational responsibilities')
+  .join(', ');
+
+describe('SEO Content Analyzers', () => {
+  describe('text metrics', () => {
+    it('should estimate syllables', () => {
+      expect(countSyllables('app')).toBe(1);
+      expect(countSyllables('software')).toBe(2);
+      expect(countSyllables('integration')).toBe(4);
+    });
+
+    it('should score easy text above hard text and skip short text', () => {
+      expect(calculateReadability(EASY_TEXT)).toBeGreaterThan(80);
+      expect(calculateReadability(HARD_TEXT)).toBe(0);
+      expect(calculateReadability('Too short to judge.')).toBeNull();
+    });
+
+    it('should measure phrase density accent-insensitively', () => {
+      expect(calculateKeywordDensity('Custom software. Logiciel sur mesure, café.', 'custom software')).toBeCloseTo(2 * 100 / 6);
+      expect(calculateKeywordDensity('Un café', 'cafe')).toBe(50);
+      expect(calculateKeywordDensity('Nothing here', 'software')).toBe(0);
+    });
+  });
+
+  describe('headingOutlineAnalyzer', () => {
+    it('should require exactly one H1', () => {
+      expect(messages(headingOutlineAnalyzer.analyze({ headings: [{ level: 2, text: 'Services' }] }))).toContain('Missing H1 heading');
+      expect(messages(headingOutlineAnalyzer.analyze({
+        headings: [{ level: 1, text: 'One' }, { level: 1, text: 'Two' }],
+      }))).toContain('Multiple H1 headings');
+    });
+
+    it('should flag skipped levels and empty headings', () => {
+      const issues: SEOIssue[] = headingOutlineAnalyzer.analyze({
+        headings: [{ level: 1, text: 'Home' }, { level: 3, text: 'Pricing' }, { level: 2, text: '' }],
+      });
+
+      expect(messages(issues)).toEqual(['Heading levels skipped', 'Empty headings']);
+      expect(issues[0]?.value).toBe('H1 → H3 "Pricing"');
+    });
+
+    it('should accept a clean outline and skip snapshots without headings', () => {
+      expect(headingOutlineAnalyzer.analyze({
+        headings: [{ level: 1, text: 'Home' }, { level: 2, text: 'Services' }, { level: 3, text: 'Web' }, { level: 2, text: 'FAQ' }],
+      })).toEqual([]);
+      expect(headingOutlineAnalyzer.analyze({ title: 'Metadata only' })).toEqual([]);
+    });
+  });
+
+  describe('readabilityAnalyzer', () => {
+    it('should flag very difficult prose', () => {
+      const issues: SEOIssue[] = readabilityAnalyzer.analyze({ contentText: HARD_TEXT });
+
+      expect(issues[0]).toEqual(expect.objectContaining({ message: 'Content is very difficult to read', impact: 'medium' }));
+      expect(readabilityAnalyzer.analyze({ contentText: EASY_TEXT })).toEqual([]);
+    });
+  });
+
+  describe('keywordDensityAnalyzer', () => {
+    it('should report missing and stuffed keywords', () => {
+      const issues: SEOIssue[] = keywordDensityAnalyzer.analyze({ keywords: ['apps', 'blockchain'], contentText: EASY_TEXT });
+
+      expect(issues.map((issue: SEOIssue) => [issue.message, issue.value])).toEqual([
+        ['Keywords missing from content', 'blockchain'],
+        ['Keyword stuffing', 'apps: 12.5%'],
+      ]);
+    });
+  });
+
+  describe('imageAltAnalyzer', () => {
+    it('should report alt coverage, accepting empty alt on decorative images', () => {
+      const issues: SEOIssue[] = imageAltAnalyzer.analyze({
+        images: [{ src: '/a.png', alt: 'Dashboard' }, { src: '/b.png', alt: '' }, { src: '/c.png' }],
+      });
+
+      expect(issues).toEqual([expect.objectContaining({ impact: 'medium', value: '1 of 3 images (67% coverage)' })]);
+    });
+  });
+
+  describe('linkProfileAnalyzer', () => {
+    it('should flag pages without internal links and unlabeled links', () => {
+      const issues: SEOIssue[] = linkProfileAnalyzer.analyze({
+        links: [{ href: 'https://github.com/', text: '', internal: false }],
+      });
+
+      expect(messages(issues)).toEqual(['No internal links', 'Links without descriptive text']);
+    });
+
+    it('should note when most links are external', () => {
+      const issues: SEOIssue[] = linkProfileAnalyzer.analyze({
+        links: [
+          { href: 'https://example.com/portfolio', text: 'Portfolio', internal: true },
+          { href: 'https://github.com/', text: 'GitHub', internal: false },
+          { href: 'https://linkedin.com/', text: 'LinkedIn', internal: false },
+          { href: 'https://x.com/', text: 'X', internal: false },
+        ],
+      });
+
+      expect(issues).toEqual([expect.objectContaining({ message: 'Most links point to other sites', value: '1 internal, 3 external' })]);
+    });
+  });
+
+  describe('anchorTargetAnalyzer', () => {
+    it('should report anchors whose target is missing', () => {
+      const issues: SEOIssue[] = anchorTargetAnalyzer.analyze({
+        anchorIds: ['faq'],
+        links: [
+          { href: 'https://example.com/#faq', text: 'FAQ', internal: true, fragment: 'faq' },
+          { href: 'https://example.com/#contact', text: 'Contact', internal: true, fragment: 'contact' },
+          { href: 'https://example.com/#contact', text: 'Get in touch', internal: true, fragment: 'contact' },
+          { href: 'https://example.com/#top', text: 'Back to top', internal: true, fragment: 'top' },
+        ],
+      });
+
+      expect(issues).toEqual([expect.objectContaining({ message: 'Broken anchor links', impact: 'high', value: '#contact' })]);
+    });
+  });
+
+  describe('SEOAnalyzerRegistry', () => {
+    const custom: SEOAnalyzer = {
+      id: 'custom',
+      description: 'Always complains',
+      analyze: (): SEOIssue[] => [{ category: 'content', type: 'warning', message: 'Custom issue', recommendation: 'Fix it', impact: 'medium' }],
+    };
+
+    it('should select all analyzers by default or the given ids in order', () => {
+      const registry = new SEOAnalyzerRegistry([headingOutlineAnalyzer, imageAltAnalyzer]);
+      registry.register(custom);
+
+      expect(registry.select().map((analyzer: SEOAnalyzer) => analyzer.id)).toEqual(['heading-outline', 'image-alt', 'custom']);
+      expect(registry.select(['custom', 'image-alt']).map((analyzer: SEOAnalyzer) => analyzer.id)).toEqual(['custom', 'image-alt']);
+      expect(() => registry.select(['missing'])).toThrow('Unknown SEO analyzer "missing"');
+      expect(registry.unregister('custom')).toBe(true);
+      expect(registry.has('custom')).toBe(false);
+    });
+
+    it('should feed selected analyzers into SEOAnalysisService', () => {
+      const service = new SEOAnalysisService(new SEOAnalyzerRegistry([headingOutlineAnalyzer, custom]));
+      const metadata = { title: 'Custom Software Development for Growing Teams', headings: [] };
+
+      const all = service.analyze(metadata);
+      const selected = service.analyze(metadata, { analyzers: ['heading-outline'] });
+
+      expect(messages(all.issues)).toEqual(expect.arrayContaining(['Missing H1 heading', 'Custom issue']));
+      expect(messages(selected.issues)).not.toContain('Custom issue');
+      expect(selected.score - all.score).toBe(5);
+    });
+  });
+});
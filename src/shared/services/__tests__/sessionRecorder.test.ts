@@ -0,0 +1,125 @@
+/**
+ * Session Recorder Tests
+ * Ring buffer, masked inputs, route changes and error report timelines
+ */
+
+import { ConsentManager } from '../consentManager';
+import { ErrorReportingService } from '../errorReportingService';
+import { eventBus } from '../eventBus';
+import { RingBuffer, SessionRecorder, describeElement, maskValue } from '../sessionRecorder';
+
+const STORAGE_KEY = 'test_consent';
+
+describe('RingBuffer', () => {
+  it('should overwrite the oldest items once full', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach((item: number) => buffer.push(item));
+
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.size).toBe(3);
+  });
+});
+
+describe('SessionRecorder', () => {
+  let consent: ConsentManager;
+  let recorder: SessionRecorder;
+
+  beforeEach(() => {
+    localStorage.clear();
+    eventBus.clear();
+    document.body.innerHTML = '';
+    consent = new ConsentManager({ storageKey: STORAGE_KEY });
+    consent.update({ performance: true });
+    recorder = new SessionRecorder({ capacity: 5, consent });
+    recorder.start();
+  });
+
+  afterEach(() => {
+    recorder.stop();
+  });
+
+  it('should record clicks with a short element description', () => {
+    document.body.innerHTML = '<button id="send" class="primary large">Send message</button>';
+
+    document.getElementById('send')!.click();
+
+    expect(recorder.getTimeline()).toEqual([
+      expect.objectContaining({ type: 'click', target: 'button#send.primary "Send message"', path: '/' }),
+    ]);
+  });
+
+  it('should mask input values', () => {
+    document.body.innerHTML = '<input name="email" />';
+    const input = document.querySelector('input')!;
+
+    input.value = 'jane@example.com';
+    input.dispatchEvent(new Event('change', { bubbles: true }));
+
+    const [entry] = recorder.getTimeline();
+    expect(entry).toMatchObject({ type: 'input', target: 'input[name="email"]', value: '••••••••••••' });
+    expect(JSON.stringify(recorder.getTimeline())).not.toContain('jane');
+  });
+
+  it('should record route changes made through the history API', () => {
+    window.history.pushState({}, '', '/analytics');
+    window.history.pushState({}, '', '/analytics');
+    window.history.replaceState({}, '', '/');
+
+    expect(recorder.getTimeline().map(entry => entry.value)).toEqual(['/analytics', '/']);
+  });
+
+  it('should capture console errors and restore console.error on stop', () => {
+    recorder.stop();
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    recorder.start();
+
+    console.error('Request failed', new Error('timeout'));
+
+    expect(recorder.getTimeline()[0]).toMatchObject({ type: 'console_error', detail: 'Request failed timeout' });
+    expect(spy).toHaveBeenCalled();
+
+    recorder.stop();
+    expect(console.error).toBe(spy);
+    spy.mockRestore();
+  });
+
+  it('should only keep the most recent entries', () => {
+    for (let i = 0; i < 8; i++) {
+      recorder.recordError(`error ${i}`);
+    }
+
+    expect(recorder.getTimeline().map(entry => entry.detail)).toEqual(['error 3', 'error 4', 'error 5', 'error 6', 'error 7']);
+  });
+
+  it('should not record and should clear the buffer without performance consent', () => {
+    recorder.recordError('before');
+    consent.update({ performance: false });
+    recorder.recordError('after');
+
+    expect(recorder.getTimeline()).toEqual([]);
+  });
+
+  it('should attach the timeline to error reports', () => {
+    const reporting = new ErrorReportingService(consent, recorder);
+    recorder.recordRoute('/pwa');
+    recorder.recordError('boom', 'Global');
+
+    const report = reporting.reportError(new Error('boom'), { component: 'Global' });
+
+    expect(report.timeline?.map(entry => entry.type)).toEqual(['route', 'error']);
+  });
+});
+
+describe('helpers', () => {
+  it('should never describe form fields by their value', () => {
+    document.body.innerHTML = '<textarea id="message">secret text</textarea>';
+
+    expect(describeElement(document.getElementById('message')!)).toBe('textarea#message');
+  });
+
+  it('should cap the mask length', () => {
+    expect(maskValue('')).toBe('');
+    expect(maskValue('abc')).toBe('•••');
+    expect(maskValue('x'.repeat(100))).toHaveLength(12);
+  });
+});
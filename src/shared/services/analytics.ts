@@ -9,8 +9,55 @@
  * - Session management
  * - A/B testing support
  * - Privacy-compliant data collection
+ * - Resilient delivery (retry, offline persistence, unload beacons)
  */
 
+import {
+  BeaconTransport,
+  FetchTransport,
+  IndexedDBQueueTransport,
+  enforceQueueLimit,
+  generateBatchId,
+  getBackoffDelay,
+  type AnalyticsBatch,
+  type AnalyticsTransport,
+  type PersistentBatchQueue,
+  type QueueDropPolicy,
+} from './analyticsTransport';
+import { ANALYTICS_ENV } from './analyticsEnv';
+import type { EventUnsubscribe } from './eventBus';
+import { consentManager, type ConsentCategory, type ConsentManager } from './consentManager';
+import {
+  eventSchemaRegistry,
+  type AnalyticsEventMap,
+  type AnalyticsEventName,
+  type EventSchemaRegistry,
+  type TrackOptions,
+} from './analyticsSchema';
+import {
+  EXPERIMENT_DEFINITIONS,
+  ExperimentEngine,
+  type ExperimentAssignment,
+  type ExperimentDefinition,
+} from './experiments';
+import { IdentityManager, type IdentifyResult } from './identity';
+import {
+  parseTouchPoint,
+  summarizeAttribution,
+  updateAttribution,
+  type AttributionData,
+  type AttributionSummary,
+  type TouchPoint,
+} from './attribution';
+import {
+  DEFAULT_SAMPLING_RULES,
+  SamplingPolicy,
+  type SamplingDecision,
+  type SamplingRule,
+  type SamplingStats,
+} from './eventSampling';
+import { HeatmapStore, createClickPoint, type ClickPoint } from './heatmap';
+
 // =========================== TYPES ===========================
 
 export interface AnalyticsConfig {
@@ -23,16 +70,44 @@ export interface AnalyticsConfig {
   // Privacy settings
   respectDNT: boolean; // Respect Do Not Track
   anonymizeIP: boolean;
-  cookieConsent: boolean;
+  cookieConsent: boolean; // Require per-category consent from the ConsentManager
+  consentManager?: ConsentManager;
   
   // Sampling and performance
-  sampleRate: number; // 0-1, 1 = track all events
+  sampleRate: number; // 0-1, 1 = track all events; default for events without a sampling rule
+  samplingRules: SamplingRule[]; // Per-type sampling, rate limits and dedupe, first match wins
   batchSize: number;
   flushInterval: number; // milliseconds
+
+  // Delivery
+  transport?: AnalyticsTransport; // Overrides the default fetch transport
+  persistQueue: boolean; // Persist undeliverable batches to IndexedDB
+  offlineQueue?: PersistentBatchQueue; // Overrides the IndexedDB queue
+  maxQueueSize: number; // Maximum in-memory events awaiting delivery
+  queueDropPolicy: QueueDropPolicy;
+  maxRetries: number;
+  retryBaseDelay: number; // milliseconds
+  retryMaxDelay: number; // milliseconds
+
+  // Event schema validation (debug mode only)
+  schemaValidation: 'flag' | 'reject';
+  schemaRegistry?: EventSchemaRegistry;
+
+  // A/B testing
+  experiments?: ExperimentDefinition[];
+
+  // Local event history for funnel/path analysis (0 disables)
+  historySize: number;
+
+  // Identity
+  hashIdentifiers: boolean; // Send salted SHA-256 hashes instead of raw user ids
+  identifierSalt: string;
+  sessionTimeout: number; // milliseconds of inactivity before a new visit starts
   
   // Feature flags
   trackPageViews: boolean;
   trackUserInteractions: boolean;
+  trackHeatmaps: boolean; // Aggregate click positions per route and viewport
   trackPerformance: boolean;
   trackErrors: boolean;
   trackCustomEvents: boolean;
@@ -40,6 +115,7 @@ export interface AnalyticsConfig {
 
 export interface AnalyticsEvent {
   // Core event data
+  name?: string; // Registered schema name, e.g. 'form.start'
   type: string;
   category: string;
   action: string;
@@ -50,6 +126,7 @@ export interface AnalyticsEvent {
   timestamp: number;
   sessionId: string;
   userId?: string;
+  anonymousId?: string; // Stable per-device visitor id
   
   // Page context
   url: string;
@@ -62,9 +139,18 @@ export interface AnalyticsEvent {
   timezone: string;
   screenResolution: string;
   deviceType: 'desktop' | 'mobile' | 'tablet';
+
+  // Number of events this one stands for after sampling (1 / sample rate)
+  sampleWeight?: number;
   
+  // Campaign attribution (first and last non-direct touch)
+  attribution?: AttributionSummary;
+
   // Custom properties
   properties?: Record<string, unknown>;
+
+  // Validation problems flagged in debug mode
+  schemaErrors?: string[];
   
   // Performance context
   performanceMetrics?: {
@@ -78,6 +164,9 @@ export interface AnalyticsEvent {
 
 export interface UserSession {
   id: string;
+  visitorId: string;
+  visitNumber: number; // 1 for the first visit of this visitor
+  isReturning: boolean;
   startTime: number;
   lastActivity: number;
   pageViews: number;
@@ -100,6 +189,7 @@ export interface AnalyticsStorage {
   sessionId: string;
   userId?: string;
   experiments: Record<string, string>;
+  attribution?: AttributionData;
   preferences: {
     cookieConsent: boolean;
     trackingEnabled: boolean;
@@ -118,6 +208,28 @@ class AnalyticsService {
   private storage!: AnalyticsStorage;
   private flushTimer: number | null = null;
   private isInitialized = false;
+  private listeners: AbortController | null = null; // Aborted when analytics consent is withdrawn
+
+  // Delivery state
+  private transport: AnalyticsTransport | null = null;
+  private unloadTransport: AnalyticsTransport | null = null;
+  private offlineQueue: PersistentBatchQueue | null = null;
+  private isFlushing = false;
+  private retryAttempt = 0;
+  private nextRetryAt = 0;
+  private droppedEvents = 0;
+  private replayInFlight: Promise<void> | null = null;
+
+  private consent: ConsentManager;
+  private readonly unsubscribeConsent: EventUnsubscribe;
+  private schemas: EventSchemaRegistry;
+  private experiments: ExperimentEngine;
+  private pendingExposures = new Set<string>();
+  private eventHistory: AnalyticsEvent[] = [];
+  private identity: IdentityManager;
+  private sampling: SamplingPolicy;
+  private pendingTouch: TouchPoint | null = null;
+  private heatmap = new HeatmapStore();
 
   constructor(config: Partial<AnalyticsConfig> = {}) {
     this.config = {
@@ -125,21 +237,57 @@ class AnalyticsService {
       debug: false,
       respectDNT: true,
       anonymizeIP: true,
-      cookieConsent: false,
+      cookieConsent: true,
       sampleRate: 1.0,
+      samplingRules: DEFAULT_SAMPLING_RULES,
       batchSize: 10,
       flushInterval: 5000,
+      persistQueue: true,
+      maxQueueSize: 500,
+      queueDropPolicy: 'drop-oldest',
+      maxRetries: 5,
+      retryBaseDelay: 1000,
+      retryMaxDelay: 60000,
+      schemaValidation: 'flag',
+      historySize: 1000,
+      hashIdentifiers: false,
+      identifierSalt: '',
+      sessionTimeout: 30 * 60 * 1000,
       trackPageViews: true,
       trackUserInteractions: true,
+      trackHeatmaps: true,
       trackPerformance: true,
       trackErrors: true,
       trackCustomEvents: true,
       ...config,
     };
 
-    // Initialize storage and session
+    this.sampling = new SamplingPolicy({
+      sampleRate: this.config.sampleRate,
+      rules: this.config.samplingRules,
+    });
+
+    this.schemas = this.config.schemaRegistry ?? eventSchemaRegistry;
+    this.consent = this.config.consentManager ?? consentManager;
+    this.identity = new IdentityManager({
+      hashIdentifiers: this.config.hashIdentifiers,
+      salt: this.config.identifierSalt,
+      consent: this.consent,
+    });
+    this.unsubscribeConsent = this.consent.subscribe(() => this.handleConsentChange());
+
+    // Initialize storage and session; there is no visit to track while prerendering
     this.initializeStorage();
-    this.initializeSession();
+    if (typeof window !== 'undefined') this.initializeSession();
+    this.eventHistory = this.getStoredHistory();
+    this.initializeTransports();
+
+    this.experiments = new ExperimentEngine({
+      getBucketingId: () => this.identity.getDistinctId(),
+      getStoredVariant: (experimentId: string) => this.storage.experiments[experimentId] || null,
+      storeVariant: (experimentId: string, variant: string) => this.storeExperiment(experimentId, variant),
+      trackExposure: (assignment: ExperimentAssignment) => this.recordExposure(assignment),
+    }, this.config.experiments ?? EXPERIMENT_DEFINITIONS);
   }
 
   // =========================== INITIALIZATION ===========================
@@ -155,8 +303,16 @@ class AnalyticsService {
         return;
       }
 
+      // Wait for the visitor to opt in; handleConsentChange() resumes initialization
+      if (!this.hasConsent('analytics')) {
+        this.log('Analytics waiting for consent');
+        return;
+      }
+
       // Set up automatic event listeners
-      this.setupEventListeners();
+      this.listeners = new AbortController();
+      this.setupEventListeners(this.listeners.signal);
+      this.setupConnectivityListeners(this.listeners.signal);
 
       // Start flush timer
       this.startFlushTimer();
@@ -169,6 +325,13 @@ class AnalyticsService {
       this.isInitialized = true;
       this.log('Analytics service initialized successfully');
 
+      // Exposures seen before consent/initialization are sent now
+      this.pendingExposures.forEach((experimentId: string) => this.experiments.expose(experimentId));
+      this.pendingExposures.clear();
+
+      // Deliver batches persisted by a previous page load
+      await this.replayPersistedBatches();
+
     } catch (error) {
       console.error('[Analytics] Initialization failed:', error);
     }
@@ -176,12 +339,23 @@ class AnalyticsService {
 
   // =========================== CORE TRACKING METHODS ===========================
 
-  track(event: Partial<AnalyticsEvent>): void {
-    if (!this.config.enabled || !this.isInitialized) return;
-
-    // Apply sampling
-    if (Math.random() > this.config.sampleRate) return;
-
+  /**
+   * Track a registered event with typed properties, or a free-form event
+   */
+  track<K extends AnalyticsEventName>(name: K, properties: AnalyticsEventMap[K], options?: TrackOptions): void;
+  track(event: Partial<AnalyticsEvent>): void;
+  track(
+    eventOrName: Partial<AnalyticsEvent> | AnalyticsEventName,
+    properties?: AnalyticsEventMap[AnalyticsEventName],
+    options?: TrackOptions
+  ): void {
+    if (!this.config.enabled || !this.isInitialized || !this.hasConsent('analytics')) return;
+
+    const event: Partial<AnalyticsEvent> = typeof eventOrName === 'string'
+      ? this.createSchemaEvent(eventOrName, properties, options)
+      : eventOrName;
+
+    const userId: string | undefined = this.identity.getUserId();
     const fullEvent: AnalyticsEvent = {
       type: 'custom',
       category: 'general',
@@ -189,7 +363,8 @@ class AnalyticsService {
       ...event,
       timestamp: Date.now(),
       sessionId: this.session.id,
-      userId: this.session.id || '',
+      ...(userId && { userId }),
+      anonymousId: this.identity.getAnonymousId(),
       url: window.location.href,
       referrer: document.referrer,
       title: document.title,
@@ -200,14 +375,38 @@ class AnalyticsService {
       deviceType: this.getDeviceType(),
     };
 
-      if (this.config.trackPerformance) {
+    // Apply sampling, rate limits and dedupe
+    const decision: SamplingDecision = this.sampling.evaluate(fullEvent);
+    if (!decision.keep) {
+      this.log(`Event dropped (${decision.reason}):`, fullEvent.name ?? `${fullEvent.category}/${fullEvent.action}`);
+      return;
+    }
+    fullEvent.sampleWeight = decision.weight;
+
+    if (this.storage.attribution) {
+      fullEvent.attribution = summarizeAttribution(this.storage.attribution);
+
+      // Conversions carry the full touch points for campaign reporting
+      if (fullEvent.type === 'goal') {
+        fullEvent.properties = {
+          ...fullEvent.properties,
+          firstTouch: this.storage.attribution.firstTouch,
+          lastTouch: this.storage.attribution.lastTouch,
+        };
+      }
+    }
+
+      if (this.config.trackPerformance && this.hasConsent('performance')) {
         const perfMetrics = this.getPerformanceMetrics();
         if (perfMetrics) {
           fullEvent.performanceMetrics = perfMetrics;
         }
       }
 
-    this.eventQueue.push(fullEvent);
+    if (this.config.debug && !this.validateEvent(fullEvent)) return;
+
+    this.enqueue([fullEvent]);
+    this.recordHistory(fullEvent);
     this.updateSession();
 
     this.log('Event tracked:', fullEvent);
@@ -218,6 +417,45 @@ class AnalyticsService {
     }
   }
 
+  private createSchemaEvent(
+    name: string,
+    properties: AnalyticsEventMap[AnalyticsEventName] | undefined,
+    options: TrackOptions = {}
+  ): Partial<AnalyticsEvent> {
+    const schema = this.schemas.get(name);
+    const props: Record<string, unknown> = { ...properties };
+    const label: string | undefined = options.label ?? schema?.label?.(props);
+    const value: number | undefined = options.value ?? schema?.value?.(props);
+
+    return {
+      name,
+      type: 'event',
+      category: schema?.category ?? 'general',
+      action: schema?.action ?? name,
+      ...(label !== undefined && { label }),
+      ...(value !== undefined && { value }),
+      properties: props,
+    };
+  }
+
+  /**
+   * Check an event against the schema registry. Invalid events are either
+   * flagged (kept, with schemaErrors) or rejected depending on config.
+   */
+  private validateEvent(event: AnalyticsEvent): boolean {
+    const result = this.schemas.validateEvent(event);
+    if (result.valid) return true;
+
+    if (this.config.schemaValidation === 'reject') {
+      console.warn('[Analytics] Rejected invalid event:', event.name ?? `${event.category}/${event.action}`, result.errors);
+      return false;
+    }
+
+    console.warn('[Analytics] Invalid event:', event.name ?? `${event.category}/${event.action}`, result.errors);
+    event.schemaErrors = result.errors;
+    return true;
+  }
+
   trackPageView(url?: string, title?: string): void {
     this.track({
       type: 'pageview',
@@ -247,7 +485,7 @@ class AnalyticsService {
     });
   }
 
-  trackClick(element: string, url?: string): void {
+  trackClick(element: string, url?: string, position?: ClickPoint): void {
     this.track({
       type: 'interaction',
       category: 'engagement',
@@ -256,6 +494,12 @@ class AnalyticsService {
       properties: {
         targetUrl: url,
         elementType: element,
+        ...(position && {
+          selector: position.selector,
+          offsetX: position.x,
+          offsetY: position.y,
+          viewport: position.viewport,
+        }),
       },
     });
 
@@ -286,7 +530,7 @@ class AnalyticsService {
   }
 
   trackError(error: Error, context?: Record<string, unknown>): void {
-    if (!this.config.trackErrors) return;
+    if (!this.config.trackErrors || !this.hasConsent('performance')) return;
 
     this.track({
       type: 'error',
@@ -304,7 +548,7 @@ class AnalyticsService {
   }
 
   trackPerformance(metrics: Record<string, number>): void {
-    if (!this.config.trackPerformance) return;
+    if (!this.config.trackPerformance || !this.hasConsent('performance')) return;
 
     this.track({
       type: 'performance',
@@ -331,43 +575,144 @@ class AnalyticsService {
 
   // =========================== A/B TESTING ===========================
 
+  /**
+   * Force a variant for the current visitor (persisted across visits)
+   */
   setExperiment(experimentId: string, variant: string): void {
+    this.storeExperiment(experimentId, variant);
+    this.track('experiment.variant_assigned', { experimentId, variant });
+  }
+
+  /**
+   * Variant assigned to the visitor. Defined experiments are bucketed
+   * deterministically; null means the visitor is not enrolled.
+   */
+  getExperiment(experimentId: string): string | null {
+    if (this.experiments.has(experimentId)) {
+      return this.experiments.getVariant(experimentId);
+    }
+    return this.storage.experiments[experimentId] || null;
+  }
+
+  /**
+   * Variant to render, falling back to the default for non-enrolled visitors
+   */
+  getExperimentVariant(experimentId: string): string | null {
+    return this.experiments.getRenderedVariant(experimentId) ?? this.getExperiment(experimentId);
+  }
+
+  defineExperiment(definition: ExperimentDefinition): void {
+    this.experiments.define(definition);
+  }
+
+  getExperimentDefinition(experimentId: string): ExperimentDefinition | undefined {
+    return this.experiments.getDefinition(experimentId);
+  }
+
+  /**
+   * Send the exposure event for an experiment (once per page load). Deferred
+   * until initialization when analytics is not running yet.
+   */
+  trackExposure(experimentId: string): void {
+    if (!this.isEnabled()) {
+      this.pendingExposures.add(experimentId);
+      return;
+    }
+    this.experiments.expose(experimentId);
+  }
+
+  private storeExperiment(experimentId: string, variant: string): void {
     this.session.experiments = this.session.experiments || {};
     this.session.experiments[experimentId] = variant;
     this.storage.experiments[experimentId] = variant;
     this.saveStorage();
-
-    this.track({
-      type: 'experiment',
-      category: 'ab_testing',
-      action: 'variant_assigned',
-      label: experimentId,
-      properties: {
-        experimentId,
-        variant,
-      },
-    });
   }
 
-  getExperiment(experimentId: string): string | null {
-    return this.storage.experiments[experimentId] || null;
+  private recordExposure(assignment: ExperimentAssignment): boolean {
+    if (!this.isEnabled() || !this.hasConsent('analytics') || !assignment.variant) return false;
+
+    this.track('experiment.exposure', {
+      experimentId: assignment.experimentId,
+      variant: assignment.variant,
+      source: assignment.source,
+    });
+    return true;
   }
 
   // =========================== USER MANAGEMENT ===========================
 
-  identify(userId: string, properties?: Record<string, unknown>): void {
-    this.storage.userId = userId;
+  /**
+   * Identify the visitor. The anonymous visitor id is aliased to the user so
+   * earlier events can be stitched to them; with hashIdentifiers enabled only
+   * the salted hash of userId ever leaves the browser.
+   */
+  async identify(userId: string, properties?: Record<string, unknown>): Promise<void> {
+    let result: IdentifyResult;
+    try {
+      result = await this.identity.identify(userId);
+    } catch (error) {
+      console.warn('[Analytics] Identify failed:', error);
+      return;
+    }
+
+    this.storage.userId = result.userId;
     this.saveStorage();
 
+    if (result.aliasedFrom) {
+      this.track({
+        type: 'alias',
+        category: 'user',
+        action: 'alias',
+        properties: {
+          previousId: result.aliasedFrom,
+          userId: result.userId,
+          ...(result.previousUserId && { previousUserId: result.previousUserId }),
+        },
+      });
+    }
+
     this.track({
       type: 'identify',
       category: 'user',
       action: 'identify',
-      userId,
+      userId: result.userId,
       properties: properties || {},
     });
   }
 
+  /**
+   * Forget the identified user (e.g. on logout) and continue as a new
+   * anonymous visitor with a fresh session
+   */
+  reset(): void {
+    this.endSession();
+    this.identity.reset();
+
+    const now = Date.now();
+    delete this.storage.userId;
+    delete this.storage.attribution;
+    this.storage.sessionId = '';
+    this.storage.firstVisit = now;
+    this.storage.visitCount = 0;
+
+    this.initializeSession();
+  }
+
+  getAnonymousId(): string {
+    return this.identity.getAnonymousId();
+  }
+
+  /**
+   * First-touch and last (non-direct) touch campaign attribution
+   */
+  getAttribution(): AttributionData | undefined {
+    return this.storage.attribution;
+  }
+
+  getUserId(): string | undefined {
+    return this.identity.getUserId();
+  }
+
   setUserProperty(key: string, value: unknown): void {
     this.track({
       type: 'user_property',
@@ -382,11 +727,38 @@ class AnalyticsService {
 
   // =========================== SESSION MANAGEMENT ===========================
 
+  /**
+   * Start a session, or continue the previous one when the visitor comes back
+   * within sessionTimeout. Each new session counts as a visit.
+   */
   private initializeSession(): void {
+    const now = Date.now();
+    const canResume: boolean = Boolean(this.storage.sessionId)
+      && now - this.storage.lastVisit < this.config.sessionTimeout;
+
+    // Tab returning from the background: keep the in-memory session going
+    if (canResume && this.session?.id === this.storage.sessionId) {
+      this.session.isActive = true;
+      this.session.lastActivity = now;
+      return;
+    }
+
+    if (!canResume) {
+      this.storage.sessionId = this.generateSessionId();
+      this.storage.visitCount++;
+    }
+    this.storage.lastVisit = now;
+    this.pendingTouch = parseTouchPoint(window.location.href, document.referrer, now);
+    this.applyAttribution();
+    this.saveStorage();
+
     this.session = {
-      id: this.generateSessionId(),
-      startTime: Date.now(),
-      lastActivity: Date.now(),
+      id: this.storage.sessionId,
+      visitorId: this.identity.getAnonymousId(),
+      visitNumber: this.storage.visitCount,
+      isReturning: this.storage.visitCount > 1,
+      startTime: now,
+      lastActivity: now,
       pageViews: 0,
       interactions: 0,
       duration: 0,
@@ -400,9 +772,27 @@ class AnalyticsService {
     };
   }
 
+  /**
+   * Record the landing touch point once marketing consent allows it, so a
+   * visitor who opts in after landing is still attributed to their campaign.
+   * Stored touches are dropped when marketing consent is not granted.
+   */
+  private applyAttribution(): void {
+    if (!this.hasConsent('marketing')) {
+      delete this.storage.attribution;
+      return;
+    }
+
+    if (this.pendingTouch) {
+      this.storage.attribution = updateAttribution(this.storage.attribution, this.pendingTouch);
+      this.pendingTouch = null;
+    }
+  }
+
   private updateSession(): void {
     const now = Date.now();
     this.session.lastActivity = now;
+    this.storage.lastVisit = now;
     this.session.duration = now - this.session.startTime;
     this.session.timeOnPage = now - this.session.startTime;
     
@@ -431,7 +821,9 @@ class AnalyticsService {
       },
     });
 
-    this.flush(); // Ensure session end is recorded
+    this.flushOnUnload(); // Ensure session end is recorded
+    this.saveHistory();
+    this.saveStorage();
   }
 
   // =========================== DATA PERSISTENCE ===========================
@@ -449,17 +841,9 @@ class AnalyticsService {
       },
       firstVisit: now,
       lastVisit: now,
-      visitCount: 1,
+      visitCount: 0, // Incremented when a session starts
       ...stored,
     };
-
-    // Update visit tracking
-    if (stored) {
-      this.storage.lastVisit = now;
-      this.storage.visitCount++;
-    }
-
-    this.saveStorage();
   }
 
   private getStoredData(): AnalyticsStorage | null {
@@ -472,6 +856,8 @@ class AnalyticsService {
   }
 
   private saveStorage(): void {
+    if (!this.hasConsent('analytics')) return;
+
     try {
       localStorage.setItem('analytics_data', JSON.stringify(this.storage));
     } catch (error) {
@@ -479,21 +865,55 @@ class AnalyticsService {
     }
   }
 
+  private getStoredHistory(): AnalyticsEvent[] {
+    try {
+      const stored = localStorage.getItem('analytics_history');
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private recordHistory(event: AnalyticsEvent): void {
+    if (this.config.historySize <= 0) return;
+
+    this.eventHistory.push(event);
+    if (this.eventHistory.length > this.config.historySize) {
+      this.eventHistory.splice(0, this.eventHistory.length - this.config.historySize);
+    }
+  }
+
+  private saveHistory(): void {
+    if (this.config.historySize <= 0 || !this.hasConsent('analytics')) return;
+
+    try {
+      localStorage.setItem('analytics_history', JSON.stringify(this.eventHistory));
+    } catch (error) {
+      this.log('Failed to save event history:', error);
+    }
+  }
+
   // =========================== EVENT LISTENERS ===========================
 
-  private setupEventListeners(): void {
+  private setupEventListeners(signal: AbortSignal): void {
     if (!this.config.trackUserInteractions) return;
 
     // Click tracking
     document.addEventListener('click', (event) => {
       const target = event.target as HTMLElement;
+      const position: ClickPoint = createClickPoint(event, target);
+      // Recorded straight to storage, so it needs the same checks as track()
+      if (this.config.trackHeatmaps && this.config.enabled && this.hasConsent('analytics')) {
+        this.heatmap.record(position);
+      }
+
       if (target.tagName === 'A') {
         const href = (target as HTMLAnchorElement).href;
-        this.trackClick('link', href);
+        this.trackClick('link', href, position);
       } else if (target.tagName === 'BUTTON') {
-        this.trackClick('button', target.textContent || 'unknown');
+        this.trackClick('button', target.textContent || 'unknown', position);
       }
-    }, { passive: true });
+    }, { passive: true, signal });
 
     // Scroll tracking (throttled)
     let scrollTimeout: number | null = null;
@@ -505,7 +925,7 @@ class AnalyticsService {
         );
         this.trackScroll(Math.min(scrollPercent, 100));
       }, 250);
-    }, { passive: true });
+    }, { passive: true, signal });
 
     // Page visibility
     document.addEventListener('visibilitychange', () => {
@@ -514,71 +934,189 @@ class AnalyticsService {
       } else {
         this.initializeSession();
       }
-    });
+    }, { signal });
 
     // Before unload
     window.addEventListener('beforeunload', () => {
       this.endSession();
-    });
+    }, { signal });
 
     // Error tracking
     if (this.config.trackErrors) {
       window.addEventListener('error', (event) => {
         this.trackError(event.error || new Error(event.message));
-      });
+      }, { signal });
 
       window.addEventListener('unhandledrejection', (event) => {
         this.trackError(new Error(`Unhandled Promise Rejection: ${event.reason}`));
-      });
+      }, { signal });
     }
   }
 
+  private setupConnectivityListeners(signal: AbortSignal): void {
+    window.addEventListener('online', () => {
+      // Connectivity is back: skip any pending backoff and drain what we have
+      this.nextRetryAt = 0;
+      this.replayPersistedBatches().then(() => this.flush());
+    }, { signal });
+  }
+
   // =========================== DATA TRANSMISSION ===========================
 
-  private async flush(): Promise<void> {
+  private initializeTransports(): void {
+    const { apiEndpoint, apiKey, transport, persistQueue, offlineQueue } = this.config;
+
+    this.transport = transport ?? (apiEndpoint ? new FetchTransport(apiEndpoint, apiKey) : null);
+    this.unloadTransport = apiEndpoint ? new BeaconTransport(apiEndpoint) : null;
+
+    const queue: PersistentBatchQueue = offlineQueue ?? new IndexedDBQueueTransport();
+    this.offlineQueue = persistQueue && queue.isAvailable() ? queue : null;
+  }
+
+  private async flush(force = false): Promise<void> {
+    if (this.eventQueue.length === 0 || this.isFlushing) return;
+
+    this.saveHistory();
+
+    // Respect backoff after a failed delivery
+    if (!force && Date.now() < this.nextRetryAt) return;
+
+    const batch: AnalyticsBatch = this.createBatch(this.eventQueue.splice(0, this.eventQueue.length));
+
+    if (!this.transport) {
+      await this.sendToConsole(batch.events);
+      return;
+    }
+
+    if (!this.isOnline()) {
+      await this.persistBatch(batch);
+      return;
+    }
+
+    this.isFlushing = true;
+    try {
+      await this.transport.send(batch);
+      this.retryAttempt = 0;
+      this.nextRetryAt = 0;
+      this.log(`Flushed ${batch.events.length} events via ${this.transport.name}`);
+    } catch (error) {
+      await this.handleFailedBatch(batch, error);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private async handleFailedBatch(batch: AnalyticsBatch, error: unknown): Promise<void> {
+    if (this.retryAttempt >= this.config.maxRetries) {
+      this.retryAttempt = 0;
+      this.nextRetryAt = 0;
+      console.error(`[Analytics] Giving up on batch after ${this.config.maxRetries} retries:`, error);
+      await this.persistBatch(batch);
+      return;
+    }
+
+    const delay: number = getBackoffDelay(this.retryAttempt, {
+      baseDelay: this.config.retryBaseDelay,
+      maxDelay: this.config.retryMaxDelay,
+    });
+    this.retryAttempt++;
+    this.nextRetryAt = Date.now() + delay;
+
+    // Return events to the front of the queue for the next attempt
+    this.enqueue(batch.events, 'front');
+    console.error(`[Analytics] Failed to flush events, retrying in ${delay}ms:`, error);
+  }
+
+  /**
+   * Deliver whatever is queued while the page is going away. Beacons survive
+   * unload; anything the browser refuses is persisted for the next visit.
+   */
+  private flushOnUnload(): void {
     if (this.eventQueue.length === 0) return;
 
-    const events = [...this.eventQueue];
-    this.eventQueue = [];
+    const batch: AnalyticsBatch = this.createBatch(this.eventQueue.splice(0, this.eventQueue.length));
+
+    if (!this.transport) {
+      this.sendToConsole(batch.events);
+      return;
+    }
+
+    const transport: AnalyticsTransport = this.unloadTransport?.isAvailable()
+      ? this.unloadTransport
+      : this.transport;
+
+    transport.send(batch).catch(() => this.persistBatch(batch));
+  }
+
+  private async persistBatch(batch: AnalyticsBatch): Promise<void> {
+    if (!this.offlineQueue) {
+      this.droppedEvents += batch.events.length;
+      this.log(`Dropped ${batch.events.length} undeliverable events (persistence disabled)`);
+      return;
+    }
 
     try {
-      if (this.config.apiEndpoint) {
-        await this.sendToAPI(events);
-      } else {
-        await this.sendToConsole(events);
-      }
+      await this.offlineQueue.send(batch);
+      this.log(`Persisted batch ${batch.id} for later delivery`);
+    } catch (error) {
+      this.droppedEvents += batch.events.length;
+      this.log('Failed to persist analytics batch:', error);
+    }
+  }
+
+  // initialize() and the online listener can both ask for a replay; running two would send every batch twice
+  private replayPersistedBatches(): Promise<void> {
+    if (!this.replayInFlight) {
+      this.replayInFlight = this.sendPersistedBatches().finally(() => {
+        this.replayInFlight = null;
+      });
+    }
+    return this.replayInFlight;
+  }
+
+  private async sendPersistedBatches(): Promise<void> {
+    if (!this.offlineQueue || !this.transport || !this.isOnline()) return;
+
+    try {
+      const batches: AnalyticsBatch[] = await this.offlineQueue.getAll();
 
-      this.log(`Flushed ${events.length} events`);
+      for (const batch of batches) {
+        await this.transport.send(batch);
+        await this.offlineQueue.remove(batch.id);
+        this.log(`Replayed persisted batch ${batch.id}`);
+      }
     } catch (error) {
-      // Return events to queue on failure
-      this.eventQueue.unshift(...events);
-      console.error('[Analytics] Failed to flush events:', error);
+      // Remaining batches stay persisted until the next replay
+      this.log('Failed to replay persisted batches:', error);
     }
   }
 
-  private async sendToAPI(events: AnalyticsEvent[]): Promise<void> {
-    const response = await fetch(this.config.apiEndpoint!, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
-      },
-      body: JSON.stringify({
-        events,
-        session: this.session,
-        metadata: {
-          timestamp: Date.now(),
-          version: '1.0.0',
-        },
-      }),
-      keepalive: true, // Important for page unload events
-    });
+  private enqueue(events: AnalyticsEvent[], position: 'front' | 'back' = 'back'): void {
+    const combined: AnalyticsEvent[] = position === 'front'
+      ? [...events, ...this.eventQueue]
+      : [...this.eventQueue, ...events];
+
+    const { queue, dropped } = enforceQueueLimit(combined, this.config.maxQueueSize, this.config.queueDropPolicy);
+    this.eventQueue = queue;
 
-    if (!response.ok) {
-      throw new Error(`Analytics API error: ${response.status}`);
+    if (dropped > 0) {
+      this.droppedEvents += dropped;
+      this.log(`Queue full, dropped ${dropped} events (${this.config.queueDropPolicy})`);
     }
   }
 
+  private createBatch(events: AnalyticsEvent[]): AnalyticsBatch {
+    return {
+      id: generateBatchId(),
+      events,
+      session: { ...this.session },
+      metadata: {
+        timestamp: Date.now(),
+        version: '1.0.0',
+      },
+    };
+  }
+
   private async sendToConsole(events: AnalyticsEvent[]): Promise<void> {
     if (this.config.debug) {
       console.group('[Analytics] Events Batch');
@@ -595,18 +1133,22 @@ class AnalyticsService {
 
   // =========================== UTILITY METHODS ===========================
 
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
   private shouldRespectPrivacy(): boolean {
     if (this.config.respectDNT && navigator.doNotTrack === '1') {
       return true;
     }
 
-    if (this.config.cookieConsent && !this.storage.preferences.cookieConsent) {
-      return true;
-    }
-
     return false;
   }
 
+  private hasConsent(category: ConsentCategory): boolean {
+    return !this.config.cookieConsent || this.consent.isGranted(category);
+  }
+
   private getDeviceType(): 'desktop' | 'mobile' | 'tablet' {
     const userAgent = navigator.userAgent.toLowerCase();
     
@@ -658,15 +1200,33 @@ class AnalyticsService {
 
   // =========================== GDPR/PRIVACY METHODS ===========================
 
+  /**
+   * Shorthand for granting or revoking the analytics consent category
+   */
   setCookieConsent(consent: boolean): void {
-    this.storage.preferences.cookieConsent = consent;
     this.config.enabled = consent;
-    this.saveStorage();
+    this.consent.update({ analytics: consent });
+  }
+
+  private handleConsentChange(): void {
+    const granted: boolean = this.hasConsent('analytics');
+    this.storage.preferences.cookieConsent = granted;
+    this.applyAttribution();
 
-    if (consent && !this.isInitialized) {
-      this.initialize();
-    } else if (!consent) {
+    if (!granted) {
       this.clearData();
+      this.stopListening();
+      return;
+    }
+
+    this.saveStorage();
+
+    if (!this.isInitialized) {
+      if (this.config.enabled) {
+        this.initialize();
+      }
+    } else if (!this.flushTimer) {
+      this.startFlushTimer();
     }
   }
 
@@ -680,19 +1240,69 @@ class AnalyticsService {
     }
   }
 
+  /**
+   * Detach the page listeners so nothing is collected until consent is given
+   * again, which initializes the service anew
+   */
+  private stopListening(): void {
+    this.listeners?.abort();
+    this.listeners = null;
+    this.isInitialized = false;
+  }
+
   private clearData(): void {
     this.eventQueue = [];
+    this.eventHistory = [];
+    this.identity.clear();
+    this.heatmap.clear();
+    this.offlineQueue?.clear().catch(() => {
+      // Ignore storage errors
+    });
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
       this.flushTimer = null;
     }
     try {
       localStorage.removeItem('analytics_data');
+      localStorage.removeItem('analytics_history');
     } catch {
       // Ignore storage errors
     }
   }
 
+  // =========================== SAMPLING ===========================
+
+  /**
+   * Change the global sample rate and/or replace the sampling rules at runtime
+   */
+  configureSampling(options: { sampleRate?: number; rules?: SamplingRule[] }): void {
+    if (options.sampleRate !== undefined) {
+      this.sampling.setSampleRate(options.sampleRate);
+      this.config.sampleRate = this.sampling.getSampleRate();
+    }
+    if (options.rules) {
+      this.sampling.setRules(options.rules);
+      this.config.samplingRules = this.sampling.getRules();
+    }
+  }
+
+  /**
+   * Add or replace a single rule; it takes precedence over existing rules
+   */
+  setSamplingRule(rule: SamplingRule): void {
+    this.sampling.setRule(rule);
+    this.config.samplingRules = this.sampling.getRules();
+  }
+
+  removeSamplingRule(ruleId: string): void {
+    this.sampling.removeRule(ruleId);
+    this.config.samplingRules = this.sampling.getRules();
+  }
+
+  getSamplingStats(): SamplingStats {
+    return this.sampling.getStats();
+  }
+
   // =========================== PUBLIC API ===========================
 
   getSession(): UserSession {
@@ -707,26 +1317,52 @@ class AnalyticsService {
     return this.config.enabled && this.isInitialized;
   }
 
+  /**
+   * Locally recorded events (oldest first), used for funnel and path analysis
+   */
+  getEventHistory(): AnalyticsEvent[] {
+    return [...this.eventHistory];
+  }
+
+  /**
+   * Aggregated click heatmaps recorded on this device
+   */
+  getHeatmaps(): HeatmapStore {
+    return this.heatmap;
+  }
+
+  getDeliveryStats(): { queued: number; dropped: number; retryAttempt: number } {
+    return {
+      queued: this.eventQueue.length,
+      dropped: this.droppedEvents,
+      retryAttempt: this.retryAttempt,
+    };
+  }
+
   async forceFlush(): Promise<void> {
-    await this.flush();
+    await this.flush(true);
   }
 
   destroy(): void {
     this.endSession();
     this.clearData();
-    this.isInitialized = false;
+    this.stopListening();
+    this.unsubscribeConsent();
+    this.identity.destroy();
   }
 }
 
 // =========================== SINGLETON INSTANCE ===========================
 
 export const analytics = new AnalyticsService({
-  debug: import.meta.env.MODE === 'development',
-  enabled: import.meta.env.MODE === 'production',
+  debug: ANALYTICS_ENV.debug,
+  enabled: ANALYTICS_ENV.enabled,
   trackPageViews: true,
   trackUserInteractions: true,
   trackPerformance: true,
   trackErrors: true,
+  hashIdentifiers: Boolean(ANALYTICS_ENV.identifierSalt),
+  identifierSalt: ANALYTICS_ENV.identifierSalt,
 });
 
 // Auto-initialize in browser environment
@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Analytics Environment
+ * @description Build settings for the analytics singleton, read from Vite's import.meta.env
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// Kept out of analytics.ts so the service can be loaded where import.meta is unavailable (Jest mocks this module)
+export const ANALYTICS_ENV = {
+  debug: import.meta.env.MODE === 'development',
+  enabled: import.meta.env.PROD,
+  identifierSalt: import.meta.env['VITE_ANALYTICS_ID_SALT'] ?? '',
+};
@@ -0,0 +1,368 @@
+/**
+ * @fileoverview Analytics Event Schema Registry
+ * @description Declares known analytics events, their properties and runtime validation
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// =========================== TYPES ===========================
+
+export type SchemaPropertyType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface SchemaProperty {
+  type: SchemaPropertyType;
+  required: boolean;
+}
+
+export interface EventSchema<P extends object = Record<string, unknown>> {
+  category: string;
+  action: string;
+  description: string;
+  properties: { [K in keyof P]-?: SchemaProperty };
+  // Derive the legacy label/value fields so existing dashboards keep working
+  label?: (properties: P) => string;
+  value?: (properties: P) => number | undefined;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export interface TrackOptions {
+  label?: string;
+  value?: number;
+}
+
+/**
+ * Compile-time map of every registered event name to its property shape.
+ * Add an entry here and a matching schema in EVENT_SCHEMAS to declare a new event.
+ */
+export interface AnalyticsEventMap {
+  'form.start': { formName: string };
+  'form.submit_success': { formName: string };
+  'form.submit_error': { formName: string };
+  'form.validation_error': { formName: string; errorCount: number; errors?: string[] };
+  'form.field_focus': { formName: string; fieldName: string };
+  'form.field_error': { formName: string; fieldName: string };
+  'form.step_complete': { formName: string; step: string; stepIndex: number };
+  'form.abandon': { formName: string; fieldName: string; step?: string };
+  'ecommerce.purchase': { transactionId: string; value: number; itemCount: number };
+  'ecommerce.purchase_item': {
+    transactionId: string;
+    itemId: string;
+    itemName: string;
+    itemCategory: string;
+    quantity: number;
+    price: number;
+  };
+  'ecommerce.add_to_cart': { itemId: string; itemName: string; price: number; quantity: number };
+  'ecommerce.remove_from_cart': { itemId: string; itemName: string; price: number; quantity: number };
+  'ecommerce.view_item': { itemId: string; itemName: string };
+  'experiment.variant_assigned': { experimentId: string; variant: string };
+  'experiment.exposure': { experimentId: string; variant: string; source: string };
+  'cta.click': { ctaId: string; variant?: string };
+  'estimator.submit': { projectType: string; estimate: number };
+  'estimator.quote_export': { quoteId: string; format: 'pdf' | 'print'; estimate: number };
+  'faq.feedback': { questionId: string; category: string; helpful: boolean };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEventMap;
+
+type EventSchemaMap = { [K in AnalyticsEventName]: EventSchema<AnalyticsEventMap[K]> };
+
+// Registry entries are stored without their property generic
+type RegisteredEventSchema = EventSchema<Record<string, unknown>>;
+
+// =========================== SCHEMAS ===========================
+
+const required = (type: SchemaPropertyType): SchemaProperty => ({ type, required: true });
+const optional = (type: SchemaPropertyType): SchemaProperty => ({ type, required: false });
+
+const itemLabel = (properties: { itemId: string; itemName: string }): string =>
+  `${properties.itemId}_${properties.itemName}`;
+
+export const EVENT_SCHEMAS: EventSchemaMap = {
+  'form.start': {
+    category: 'form',
+    action: 'start',
+    description: 'Visitor started filling in a form',
+    properties: { formName: required('string') },
+    label: p => p.formName,
+  },
+  'form.submit_success': {
+    category: 'form',
+    action: 'submit_success',
+    description: 'Form submitted successfully',
+    properties: { formName: required('string') },
+    label: p => p.formName,
+  },
+  'form.submit_error': {
+    category: 'form',
+    action: 'submit_error',
+    description: 'Form submission failed',
+    properties: { formName: required('string') },
+    label: p => p.formName,
+  },
+  'form.validation_error': {
+    category: 'form',
+    action: 'validation_error',
+    description: 'Form submission was blocked by validation errors',
+    properties: {
+      formName: required('string'),
+      errorCount: required('number'),
+      errors: optional('array'),
+    },
+    label: p => p.formName,
+    value: p => p.errorCount,
+  },
+  'form.field_focus': {
+    category: 'form',
+    action: 'field_focus',
+    description: 'A form field received focus',
+    properties: { formName: required('string'), fieldName: required('string') },
+    label: p => `${p.formName}_${p.fieldName}`,
+  },
+  'form.field_error': {
+    category: 'form',
+    action: 'field_error',
+    description: 'A form field failed validation',
+    properties: { formName: required('string'), fieldName: required('string') },
+    label: p => `${p.formName}_${p.fieldName}`,
+  },
+  'form.step_complete': {
+    category: 'form',
+    action: 'step_complete',
+    description: 'A step of a multi-step form passed validation',
+    properties: { formName: required('string'), step: required('string'), stepIndex: required('number') },
+    label: p => `${p.formName}_${p.step}`,
+    value: p => p.stepIndex,
+  },
+  'form.abandon': {
+    category: 'form',
+    action: 'abandon',
+    description: 'Visitor left a started form without submitting; fieldName is the last field touched',
+    properties: { formName: required('string'), fieldName: required('string'), step: optional('string') },
+    label: p => `${p.formName}_${p.fieldName}`,
+  },
+  'ecommerce.purchase': {
+    category: 'ecommerce',
+    action: 'purchase',
+    description: 'A transaction was completed',
+    properties: {
+      transactionId: required('string'),
+      value: required('number'),
+      itemCount: required('number'),
+    },
+    label: p => p.transactionId,
+    value: p => p.value,
+  },
+  'ecommerce.purchase_item': {
+    category: 'ecommerce',
+    action: 'purchase_item',
+    description: 'A single line item of a completed transaction',
+    properties: {
+      transactionId: required('string'),
+      itemId: required('string'),
+      itemName: required('string'),
+      itemCategory: required('string'),
+      quantity: required('number'),
+      price: required('number'),
+    },
+    label: itemLabel,
+    value: p => p.price * p.quantity,
+  },
+  'ecommerce.add_to_cart': {
+    category: 'ecommerce',
+    action: 'add_to_cart',
+    description: 'An item was added to the cart',
+    properties: {
+      itemId: required('string'),
+      itemName: required('string'),
+      price: required('number'),
+      quantity: required('number'),
+    },
+    label: itemLabel,
+    value: p => p.price * p.quantity,
+  },
+  'ecommerce.remove_from_cart': {
+    category: 'ecommerce',
+    action: 'remove_from_cart',
+    description: 'An item was removed from the cart',
+    properties: {
+      itemId: required('string'),
+      itemName: required('string'),
+      price: required('number'),
+      quantity: required('number'),
+    },
+    label: itemLabel,
+    value: p => p.price * p.quantity,
+  },
+  'ecommerce.view_item': {
+    category: 'ecommerce',
+    action: 'view_item',
+    description: 'An item detail was viewed',
+    properties: { itemId: required('string'), itemName: required('string') },
+    label: itemLabel,
+  },
+  'experiment.variant_assigned': {
+    category: 'ab_testing',
+    action: 'variant_assigned',
+    description: 'A variant was assigned manually through setExperiment()',
+    properties: { experimentId: required('string'), variant: required('string') },
+    label: p => p.experimentId,
+  },
+  'experiment.exposure': {
+    category: 'ab_testing',
+    action: 'exposure',
+    description: 'The visitor was shown an experiment variant',
+    properties: {
+      experimentId: required('string'),
+      variant: required('string'),
+      source: required('string'),
+    },
+    label: p => `${p.experimentId}:${p.variant}`,
+  },
+  'cta.click': {
+    category: 'cta',
+    action: 'click',
+    description: 'A primary call to action was clicked',
+    properties: { ctaId: required('string'), variant: optional('string') },
+    label: p => p.ctaId,
+  },
+  'estimator.submit': {
+    category: 'estimator',
+    action: 'submit',
+    description: 'A completed ProjectEstimator estimate was submitted',
+    properties: { projectType: required('string'), estimate: required('number') },
+    label: p => p.projectType,
+    value: p => p.estimate,
+  },
+  'estimator.quote_export': {
+    category: 'estimator',
+    action: 'quote_export',
+    description: 'A quote was downloaded as a PDF or opened for printing',
+    properties: { quoteId: required('string'), format: required('string'), estimate: required('number') },
+    label: p => p.format,
+    value: p => p.estimate,
+  },
+  'faq.feedback': {
+    category: 'faq',
+    action: 'feedback',
+    description: 'A visitor rated whether an FAQ answer was helpful',
+    properties: { questionId: required('string'), category: required('string'), helpful: required('boolean') },
+    label: p => p.questionId,
+    value: p => (p.helpful ? 1 : 0),
+  },
+};
+
+// =========================== REGISTRY ===========================
+
+export class EventSchemaRegistry {
+  private schemas = new Map<string, RegisteredEventSchema>();
+
+  constructor(schemas: Partial<EventSchemaMap> = {}) {
+    Object.entries(schemas).forEach(([name, schema]) => {
+      this.register(name, schema as unknown as RegisteredEventSchema);
+    });
+  }
+
+  /**
+   * Register an additional event at runtime (untyped; prefer AnalyticsEventMap)
+   */
+  register(name: string, schema: RegisteredEventSchema): void {
+    this.schemas.set(name, schema);
+  }
+
+  get(name: string): RegisteredEventSchema | undefined {
+    return this.schemas.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.schemas.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.schemas.keys());
+  }
+
+  /**
+   * Find the registered name for a legacy category/action pair
+   */
+  findName(category: string, action: string): string | undefined {
+    for (const [name, schema] of this.schemas) {
+      if (schema.category === category && schema.action === action) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Validate properties against a named schema
+   */
+  validate(name: string, properties: Record<string, unknown> = {}): SchemaValidationResult {
+    const schema: RegisteredEventSchema | undefined = this.schemas.get(name);
+    if (!schema) {
+      return { valid: false, errors: [`Unknown event "${name}"`] };
+    }
+
+    const errors: string[] = [];
+
+    Object.entries(schema.properties).forEach(([key, definition]) => {
+      const value: unknown = properties[key];
+
+      if (value === undefined || value === null) {
+        if (definition.required) {
+          errors.push(`Missing required property "${key}"`);
+        }
+        return;
+      }
+
+      const actualType: SchemaPropertyType | string = this.getType(value);
+      if (actualType !== definition.type) {
+        errors.push(`Property "${key}" should be ${definition.type} but was ${actualType}`);
+      }
+    });
+
+    Object.keys(properties).forEach((key: string) => {
+      if (!(key in schema.properties)) {
+        errors.push(`Unexpected property "${key}"`);
+      }
+    });
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validate a tracked event. Named events are checked against their schema;
+   * unnamed events are only checked for unknown actions in registered categories,
+   * which catches misspelled legacy trackEvent() calls.
+   */
+  validateEvent(event: { name?: string; category: string; action: string; properties?: Record<string, unknown> }): SchemaValidationResult {
+    if (event.name) {
+      return this.validate(event.name, event.properties);
+    }
+
+    const categoryActions: string[] = Array.from(this.schemas.values())
+      .filter((schema: RegisteredEventSchema) => schema.category === event.category)
+      .map((schema: RegisteredEventSchema) => schema.action);
+
+    if (categoryActions.length > 0 && !categoryActions.includes(event.action)) {
+      return {
+        valid: false,
+        errors: [`Unknown action "${event.action}" for category "${event.category}" (expected one of: ${categoryActions.join(', ')})`],
+      };
+    }
+
+    return { valid: true, errors: [] };
+  }
+
+  private getType(value: unknown): string {
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+}
+
+// Singleton instance
+export const eventSchemaRegistry = new EventSchemaRegistry(EVENT_SCHEMAS);
@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Analytics Transport Layer
+ * @description Pluggable delivery mechanisms for analytics event batches
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import type { AnalyticsEvent, UserSession } from './analytics';
+
+// =========================== TYPES ===========================
+
+export interface AnalyticsBatch {
+  id: string;
+  events: AnalyticsEvent[];
+  session: UserSession;
+  metadata: {
+    timestamp: number;
+    version: string;
+  };
+}
+
+export interface AnalyticsTransport {
+  readonly name: string;
+  isAvailable(): boolean;
+  send(batch: AnalyticsBatch): Promise<void>;
+}
+
+/**
+ * Storage for batches that could not be delivered: send() persists a batch,
+ * and the service replays getAll() through a network transport later
+ */
+export interface PersistentBatchQueue extends AnalyticsTransport {
+  getAll(): Promise<AnalyticsBatch[]>;
+  remove(batchId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type QueueDropPolicy = 'drop-oldest' | 'drop-newest';
+
+export interface RetryOptions {
+  baseDelay: number; // milliseconds
+  maxDelay: number; // milliseconds
+  jitter?: boolean;
+}
+
+// =========================== FETCH TRANSPORT ===========================
+
+export class FetchTransport implements AnalyticsTransport {
+  readonly name = 'fetch';
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly apiKey?: string
+  ) {}
+
+  isAvailable(): boolean {
+    return typeof fetch === 'function';
+  }
+
+  async send(batch: AnalyticsBatch): Promise<void> {
+    const response: Response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify(batch),
+      keepalive: true, // Important for page unload events
+    });
+
+    if (!response.ok) {
+      throw new Error(`Analytics API error: ${response.status}`);
+    }
+  }
+}
+
+// =========================== BEACON TRANSPORT ===========================
+
+/**
+ * Uses navigator.sendBeacon, which survives page unload but cannot carry
+ * authorization headers and is limited to ~64KB per payload.
+ */
+export class BeaconTransport implements AnalyticsTransport {
+  readonly name = 'beacon';
+
+  constructor(private readonly endpoint: string) {}
+
+  isAvailable(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function';
+  }
+
+  async send(batch: AnalyticsBatch): Promise<void> {
+    if (!this.isAvailable()) {
+      throw new Error('sendBeacon is not supported');
+    }
+
+    const payload: Blob = new Blob([JSON.stringify(batch)], { type: 'application/json' });
+    const queued: boolean = navigator.sendBeacon(this.endpoint, payload);
+
+    if (!queued) {
+      throw new Error('Beacon payload was rejected by the browser');
+    }
+  }
+}
+
+// =========================== INDEXEDDB QUEUE TRANSPORT ===========================
+
+/**
+ * Persists batches to IndexedDB instead of sending them. Used for batches that
+ * could not be delivered (offline, retries exhausted, tab closing) so they can
+ * be replayed through a network transport on the next initialization.
+ */
+export class IndexedDBQueueTransport implements PersistentBatchQueue {
+  readonly name = 'indexeddb';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName = 'analytics_queue',
+    private readonly storeName = 'batches',
+    private readonly maxBatches = 50
+  ) {}
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async send(batch: AnalyticsBatch): Promise<void> {
+    const db: IDBDatabase = await this.open();
+    await this.request(db.transaction(this.storeName, 'readwrite').objectStore(this.storeName).put(batch));
+    await this.trim(db);
+  }
+
+  /**
+   * Read all persisted batches, oldest first
+   */
+  async getAll(): Promise<AnalyticsBatch[]> {
+    if (!this.isAvailable()) return [];
+
+    const db: IDBDatabase = await this.open();
+    const batches: AnalyticsBatch[] = await this.request(
+      db.transaction(this.storeName, 'readonly').objectStore(this.storeName).getAll()
+    );
+    return batches.sort((a, b) => a.metadata.timestamp - b.metadata.timestamp);
+  }
+
+  async remove(batchId: string): Promise<void> {
+    const db: IDBDatabase = await this.open();
+    await this.request(db.transaction(this.storeName, 'readwrite').objectStore(this.storeName).delete(batchId));
+  }
+
+  async clear(): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const db: IDBDatabase = await this.open();
+    await this.request(db.transaction(this.storeName, 'readwrite').objectStore(this.storeName).clear());
+  }
+
+  private async trim(db: IDBDatabase): Promise<void> {
+    const batches: AnalyticsBatch[] = await this.getAll();
+    const excess: AnalyticsBatch[] = batches.slice(0, Math.max(0, batches.length - this.maxBatches));
+
+    for (const batch of excess) {
+      await this.request(db.transaction(this.storeName, 'readwrite').objectStore(this.storeName).delete(batch.id));
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.isAvailable()) {
+      return Promise.reject(new Error('IndexedDB is not supported'));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const openRequest: IDBOpenDBRequest = indexedDB.open(this.dbName, 1);
+        openRequest.onupgradeneeded = () => {
+          if (!openRequest.result.objectStoreNames.contains(this.storeName)) {
+            openRequest.result.createObjectStore(this.storeName, { keyPath: 'id' });
+          }
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => {
+          this.dbPromise = null;
+          reject(openRequest.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// =========================== QUEUE HELPERS ===========================
+
+/**
+ * Exponential backoff delay for the given (zero-based) retry attempt
+ */
+export function getBackoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential: number = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt);
+
+  if (options.jitter === false) {
+    return exponential;
+  }
+
+  // Full jitter keeps clients that failed together from retrying together
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Trim a queue to its maximum size according to the drop policy.
+ * Returns the events that were kept and the number that were dropped.
+ */
+export function enforceQueueLimit<T>(
+  queue: T[],
+  maxSize: number,
+  policy: QueueDropPolicy
+): { queue: T[]; dropped: number } {
+  if (queue.length <= maxSize) {
+    return { queue, dropped: 0 };
+  }
+
+  const dropped: number = queue.length - maxSize;
+  return {
+    queue: policy === 'drop-oldest' ? queue.slice(dropped) : queue.slice(0, maxSize),
+    dropped,
+  };
+}
+
+export function generateBatchId(): string {
+  return `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
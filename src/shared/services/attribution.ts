@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Campaign Attribution
+ * @description UTM, click id and referrer parsing into channel groupings with first/last-touch models
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// =========================== TYPES ===========================
+
+export type AttributionChannel = 'direct' | 'organic' | 'paid' | 'social' | 'email' | 'referral';
+
+export type ClickIdType = 'gclid' | 'gbraid' | 'wbraid' | 'dclid' | 'msclkid' | 'fbclid' | 'ttclid' | 'li_fat_id' | 'twclid';
+
+export interface TouchPoint {
+  channel: AttributionChannel;
+  source: string; // utm_source or referrer domain, '(direct)' when unknown
+  medium: string; // utm_medium or derived from the channel
+  campaign?: string;
+  term?: string;
+  content?: string;
+  clickId?: { type: ClickIdType; value: string };
+  referrerDomain?: string;
+  landingPage: string;
+  timestamp: number;
+}
+
+export interface AttributionData {
+  firstTouch: TouchPoint;
+  lastTouch: TouchPoint; // Last non-direct touch; direct visits don't overwrite campaigns
+}
+
+/**
+ * Compact form attached to every analytics event
+ */
+export type TouchSummary = Pick<TouchPoint, 'channel' | 'source' | 'medium' | 'campaign'>;
+
+export interface AttributionSummary {
+  firstTouch: TouchSummary;
+  lastTouch: TouchSummary;
+}
+
+// =========================== CONSTANTS ===========================
+
+const PAID_CLICK_IDS: ClickIdType[] = ['gclid', 'gbraid', 'wbraid', 'dclid', 'msclkid', 'ttclid', 'li_fat_id', 'twclid'];
+
+// fbclid is appended to every outbound Facebook link, paid or not
+const SOCIAL_CLICK_IDS: ClickIdType[] = ['fbclid'];
+
+const SEARCH_ENGINES: string[] = ['google.', 'bing.com', 'duckduckgo.com', 'yahoo.', 'baidu.com', 'yandex.', 'ecosia.org', 'search.brave.com'];
+
+const SOCIAL_NETWORKS: string[] = [
+  'facebook.com', 'fb.com', 'instagram.com', 'linkedin.com', 'lnkd.in', 'twitter.com', 't.co', 'x.com',
+  'reddit.com', 'youtube.com', 'pinterest.com', 'tiktok.com', 'threads.net', 'mastodon.social',
+];
+
+const EMAIL_PROVIDERS: string[] = ['mail.google.com', 'outlook.live.com', 'outlook.office.com', 'mail.yahoo.com', 'mail.proton.me'];
+
+// Bare utm_source values, e.g. utm_source=linkedin
+const SEARCH_SOURCES: string[] = ['google', 'bing', 'duckduckgo', 'yahoo', 'baidu', 'yandex', 'ecosia', 'brave'];
+const SOCIAL_SOURCES: string[] = [
+  'facebook', 'instagram', 'linkedin', 'twitter', 'x', 'reddit', 'youtube', 'pinterest', 'tiktok', 'threads', 'mastodon',
+];
+const EMAIL_SOURCES: string[] = ['newsletter', 'email', 'mailchimp', 'sendgrid', 'hubspot'];
+
+const PAID_MEDIUMS = /^(cpc|ppc|cpm|cpv|paid|paid[-_]?search|paid[-_]?social|display|banner|retargeting|affiliate)$/i;
+const EMAIL_MEDIUMS = /^(e[-_]?mail|newsletter)$/i;
+const SOCIAL_MEDIUMS = /^(social|social[-_]?network|social[-_]?media|sm)$/i;
+const ORGANIC_MEDIUMS = /^organic$/i;
+
+const DEFAULT_MEDIUMS: Record<AttributionChannel, string> = {
+  direct: '(none)',
+  organic: 'organic',
+  paid: 'cpc',
+  social: 'social',
+  email: 'email',
+  referral: 'referral',
+};
+
+// =========================== PARSING ===========================
+
+const matchesDomain = (domain: string, patterns: string[]): boolean =>
+  patterns.some((pattern: string) =>
+    pattern.endsWith('.')
+      ? domain.includes(pattern) // Country-specific engines such as google.co.uk
+      : domain === pattern || domain.endsWith(`.${pattern}`)
+  );
+
+export function getReferrerDomain(referrer: string): string | undefined {
+  if (!referrer) return undefined;
+
+  try {
+    return new URL(referrer).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+function getClickId(params: URLSearchParams): TouchPoint['clickId'] {
+  for (const type of [...PAID_CLICK_IDS, ...SOCIAL_CLICK_IDS]) {
+    const value: string | null = params.get(type);
+    if (value) return { type, value };
+  }
+  return undefined;
+}
+
+function getChannelFromSource(source: string): AttributionChannel {
+  const name: string = source.toLowerCase();
+
+  if (SEARCH_SOURCES.includes(name)) return 'organic';
+  if (SOCIAL_SOURCES.includes(name)) return 'social';
+  if (EMAIL_SOURCES.includes(name)) return 'email';
+
+  // Sources given as domains, e.g. utm_source=news.ycombinator.com
+  return getChannelFromDomain(name);
+}
+
+function getChannelFromDomain(domain: string | undefined): AttributionChannel {
+  if (!domain) return 'direct';
+  if (EMAIL_PROVIDERS.includes(domain)) return 'email';
+  if (matchesDomain(domain, SEARCH_ENGINES)) return 'organic';
+  if (matchesDomain(domain, SOCIAL_NETWORKS)) return 'social';
+  return 'referral';
+}
+
+/**
+ * Channel grouping. Explicit campaign tagging wins over click ids, which win
+ * over the referrer.
+ */
+export function getChannel(
+  utm: { source?: string; medium?: string },
+  clickId: TouchPoint['clickId'],
+  referrerDomain: string | undefined
+): AttributionChannel {
+  const medium: string = utm.medium ?? '';
+
+  if (PAID_MEDIUMS.test(medium)) return 'paid';
+  if (EMAIL_MEDIUMS.test(medium)) return 'email';
+  if (SOCIAL_MEDIUMS.test(medium)) return 'social';
+  if (ORGANIC_MEDIUMS.test(medium)) return 'organic';
+
+  if (clickId) {
+    return PAID_CLICK_IDS.includes(clickId.type) ? 'paid' : 'social';
+  }
+
+  if (utm.source) {
+    return getChannelFromSource(utm.source);
+  }
+
+  return getChannelFromDomain(referrerDomain);
+}
+
+/**
+ * Parse the landing URL and referrer into a touch point. Referrers from the
+ * site itself are internal navigation and count as direct.
+ */
+export function parseTouchPoint(url: string, referrer: string, timestamp: number = Date.now()): TouchPoint {
+  let params = new URLSearchParams();
+  let host = '';
+  let landingPage: string = url;
+
+  try {
+    const parsed = new URL(url);
+    params = parsed.searchParams;
+    host = parsed.hostname.replace(/^www\./, '');
+    landingPage = `${parsed.pathname}${parsed.search}`;
+  } catch {
+    // Keep defaults for malformed URLs
+  }
+
+  const externalReferrer: string | undefined = getReferrerDomain(referrer);
+  const referrerDomain: string | undefined = externalReferrer === host ? undefined : externalReferrer;
+
+  const source: string | undefined = params.get('utm_source') ?? undefined;
+  const medium: string | undefined = params.get('utm_medium') ?? undefined;
+  const campaign: string | undefined = params.get('utm_campaign') ?? undefined;
+  const term: string | undefined = params.get('utm_term') ?? undefined;
+  const content: string | undefined = params.get('utm_content') ?? undefined;
+  const clickId: TouchPoint['clickId'] = getClickId(params);
+
+  const channel: AttributionChannel = getChannel(
+    { ...(source && { source }), ...(medium && { medium }) },
+    clickId,
+    referrerDomain
+  );
+
+  return {
+    channel,
+    source: source ?? referrerDomain ?? (clickId ? clickId.type : '(direct)'),
+    medium: medium ?? DEFAULT_MEDIUMS[channel],
+    ...(campaign && { campaign }),
+    ...(term && { term }),
+    ...(content && { content }),
+    ...(clickId && { clickId }),
+    ...(referrerDomain && { referrerDomain }),
+    landingPage,
+    timestamp,
+  };
+}
+
+// =========================== MODELS ===========================
+
+/**
+ * Apply a new touch: first touch is kept forever, last touch follows the
+ * last non-direct model so returning direct visits keep their campaign
+ */
+export function updateAttribution(current: AttributionData | undefined, touch: TouchPoint): AttributionData {
+  if (!current) {
+    return { firstTouch: touch, lastTouch: touch };
+  }
+
+  return {
+    firstTouch: current.firstTouch,
+    lastTouch: touch.channel === 'direct' ? current.lastTouch : touch,
+  };
+}
+
+export function summarizeTouch(touch: TouchPoint): TouchSummary {
+  return {
+    channel: touch.channel,
+    source: touch.source,
+    medium: touch.medium,
+    ...(touch.campaign && { campaign: touch.campaign }),
+  };
+}
+
+export function summarizeAttribution(attribution: AttributionData): AttributionSummary {
+  return {
+    firstTouch: summarizeTouch(attribution.firstTouch),
+    lastTouch: summarizeTouch(attribution.lastTouch),
+  };
+}
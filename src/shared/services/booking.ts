@@ -0,0 +1,487 @@
+/**
+ * @fileoverview Call Booking
+ * @description Availability providers (static JSON, ICS feed, HTTP API), timezone-aware slot
+ * grouping, booking confirmation and .ics invite generation
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import {
+  DEFAULT_LEAD_EMAIL,
+  generateIdempotencyKey,
+  leadSubmissionService,
+  type LeadSubmissionResult,
+} from './leadSubmission';
+
+// =========================== TYPES ===========================
+
+export interface AvailabilitySlot {
+  id: string; // Start time as an ISO string, unique per provider
+  start: Date;
+  end: Date;
+}
+
+export interface AvailabilityRange {
+  from: Date;
+  to: Date;
+}
+
+export interface BookingRequest {
+  slot: AvailabilitySlot;
+  attendee: BookingAttendee;
+  timeZone: string; // The visitor's timezone, for the confirmation email
+  idempotencyKey: string;
+}
+
+export interface BookingConfirmation {
+  id: string;
+  slot: AvailabilitySlot;
+  attendee: BookingAttendee;
+  provider: string;
+}
+
+/**
+ * Where bookable slots come from. Providers that can reserve a slot
+ * themselves implement `book`; otherwise the request is sent to the team as a lead.
+ */
+export interface AvailabilityProvider {
+  readonly name: string;
+  getSlots(range: AvailabilityRange): Promise<AvailabilitySlot[]>;
+  book?(request: BookingRequest): Promise<BookingConfirmation>;
+}
+
+// =========================== SCHEMA ===========================
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+const slotSchema = z.object({
+  start: z.string().datetime({ offset: true }),
+  end: z.string().datetime({ offset: true }),
+});
+
+/**
+ * Static availability: explicit slots, recurring weekly hours in the
+ * business timezone, or both
+ */
+export const availabilitySchema = z.object({
+  slots: z.array(slotSchema).default([]),
+  weekly: z
+    .object({
+      timeZone: z.string(),
+      slotMinutes: z.number().int().positive(),
+      hours: z.record(z.enum(WEEKDAYS), z.array(z.tuple([timeOfDay, timeOfDay]))),
+      closedDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).default([]),
+    })
+    .optional(),
+  minNoticeHours: z.number().min(0).default(24),
+});
+
+// Error messages are i18n catalog keys, translated where they are shown
+export const bookingAttendeeSchema = z.object({
+  name: z.string().trim().min(2, 'validation.name.required').max(100, 'validation.name.tooLong'),
+  email: z.string().trim().email('validation.email.invalid').max(254, 'validation.email.invalid'),
+  notes: z.string().trim().max(1000, 'validation.notes.tooLong').optional(),
+});
+
+export type Availability = z.infer<typeof availabilitySchema>;
+export type WeeklyAvailability = NonNullable<Availability['weekly']>;
+export type BookingAttendee = z.infer<typeof bookingAttendeeSchema>;
+
+// =========================== CONSTANTS ===========================
+
+export const DEFAULT_AVAILABILITY_URL = '/availability.json';
+export const BOOKING_DURATION_MINUTES = 30;
+const BOOKING_DURATION_LABEL = `${BOOKING_DURATION_MINUTES}-minute consultation`;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// =========================== TIMEZONES ===========================
+
+export const getVisitorTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  })
+    .formatToParts(date)
+    .forEach((part: Intl.DateTimeFormatPart) => {
+      if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    });
+
+  const asUtc: number = Date.UTC(parts['year']!, parts['month']! - 1, parts['day']!, parts['hour']!, parts['minute']!, parts['second']!);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * The instant at which a wall-clock time occurs in a timezone, e.g.
+ * 09:00 on 2026-03-09 in America/New_York. Re-checks the offset once so
+ * times next to a DST change land on the right side of it.
+ */
+export function zonedTimeToUtc(
+  date: { year: number; month: number; day: number },
+  time: string,
+  timeZone: string
+): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock: number = Date.UTC(date.year, date.month - 1, date.day, hours, minutes);
+
+  const guess: number = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * `yyyy-MM-dd` of the instant in the given timezone
+ */
+export function getDayKey(date: Date, timeZone: string = getVisitorTimeZone()): string {
+  // en-CA formats dates as yyyy-MM-dd
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+export function groupSlotsByDay(
+  slots: AvailabilitySlot[],
+  timeZone: string = getVisitorTimeZone()
+): Map<string, AvailabilitySlot[]> {
+  const days: Map<string, AvailabilitySlot[]> = new Map();
+  [...slots]
+    .sort((a: AvailabilitySlot, b: AvailabilitySlot) => a.start.getTime() - b.start.getTime())
+    .forEach((slot: AvailabilitySlot) => {
+      const key: string = getDayKey(slot.start, timeZone);
+      days.set(key, [...(days.get(key) ?? []), slot]);
+    });
+  return days;
+}
+
+export function formatSlotTime(slot: AvailabilitySlot, timeZone: string = getVisitorTimeZone(), locale?: string): string {
+  const format = new Intl.DateTimeFormat(locale, { timeZone, hour: 'numeric', minute: '2-digit' });
+  return `${format.format(slot.start)} - ${format.format(slot.end)}`;
+}
+
+// =========================== AVAILABILITY ===========================
+
+const toSlot = (start: Date, end: Date): AvailabilitySlot => ({ id: start.toISOString(), start, end });
+
+/**
+ * Expand recurring weekly hours into concrete slots within the range
+ */
+export function expandWeeklyAvailability(weekly: WeeklyAvailability, range: AvailabilityRange): AvailabilitySlot[] {
+  const slots: AvailabilitySlot[] = [];
+  const slotMs: number = weekly.slotMinutes * 60 * 1000;
+
+  // Walk calendar dates with a day of margin, since the business day may be offset from UTC
+  for (let time = range.from.getTime() - DAY_MS; time <= range.to.getTime() + DAY_MS; time += DAY_MS) {
+    const day = new Date(time);
+    const date = { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate() };
+    const dateKey: string = day.toISOString().slice(0, 10);
+    const weekday = WEEKDAYS[day.getUTCDay()]!;
+
+    if (weekly.closedDates.includes(dateKey)) continue;
+
+    (weekly.hours[weekday] ?? []).forEach(([open, close]: [string, string]) => {
+      const closesAt: number = zonedTimeToUtc(date, close, weekly.timeZone).getTime();
+
+      for (let start = zonedTimeToUtc(date, open, weekly.timeZone).getTime(); start + slotMs <= closesAt; start += slotMs) {
+        slots.push(toSlot(new Date(start), new Date(start + slotMs)));
+      }
+    });
+  }
+
+  return slots.filter((slot: AvailabilitySlot) => slot.start >= range.from && slot.end <= range.to);
+}
+
+/**
+ * Concrete slots from an availability document, skipping anything inside
+ * the minimum notice period and de-duplicating overlapping definitions
+ */
+export function resolveAvailability(availability: Availability, range: AvailabilityRange, now: Date = new Date()): AvailabilitySlot[] {
+  const earliest: Date = new Date(Math.max(range.from.getTime(), now.getTime() + availability.minNoticeHours * HOUR_MS));
+  const bounded: AvailabilityRange = { from: earliest, to: range.to };
+
+  const explicit: AvailabilitySlot[] = availability.slots
+    .map((slot) => toSlot(new Date(slot.start), new Date(slot.end)))
+    .filter((slot: AvailabilitySlot) => slot.start >= bounded.from && slot.end <= bounded.to);
+  const weekly: AvailabilitySlot[] = availability.weekly ? expandWeeklyAvailability(availability.weekly, bounded) : [];
+
+  const unique: Map<string, AvailabilitySlot> = new Map();
+  [...explicit, ...weekly].forEach((slot: AvailabilitySlot) => unique.set(slot.id, slot));
+  return [...unique.values()].sort((a: AvailabilitySlot, b: AvailabilitySlot) => a.start.getTime() - b.start.getTime());
+}
+
+// =========================== ICS ===========================
+
+const ICS_LINE_LIMIT = 75;
+
+const formatIcsDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const parseIcsDate = (value: string): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(Date.UTC(year!, month! - 1, day!, hours!, minutes!, seconds!));
+};
+
+export const escapeIcsText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Parameter values are quoted rather than escaped and cannot contain quotes
+const quoteIcsParam = (value: string): string => `"${value.replace(/["\r\n]/g, '')}"`;
+
+const utf8Length = (char: string): number => {
+  const code: number = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [''];
+  let octets = 0;
+
+  Array.from(line).forEach((char: string) => {
+    const length: number = utf8Length(char);
+    // Continuation lines start with a space, which counts towards their limit
+    if (octets + length > ICS_LINE_LIMIT - (chunks.length > 1 ? 1 : 0)) {
+      chunks.push('');
+      octets = 0;
+    }
+    chunks[chunks.length - 1] += char;
+    octets += length;
+  });
+
+  return chunks.join('\r\n ');
+};
+
+/**
+ * Free slots published as an ICS feed: every VEVENT with UTC start and end
+ * times is one bookable slot. Events with TZID or all-day dates are skipped.
+ */
+export function parseIcsAvailability(ics: string): AvailabilitySlot[] {
+  const lines: string[] = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const slots: AvailabilitySlot[] = [];
+  let event: { start?: Date | null; end?: Date | null } | null = null;
+
+  lines.forEach((line: string) => {
+    if (line === 'BEGIN:VEVENT') event = {};
+    else if (line === 'END:VEVENT' && event) {
+      if (event.start && event.end && event.end > event.start) slots.push(toSlot(event.start, event.end));
+      event = null;
+    } else if (event) {
+      const [key, value = ''] = line.split(/:(.*)/s);
+      if (key === 'DTSTART') event.start = parseIcsDate(value);
+      if (key === 'DTEND') event.end = parseIcsDate(value);
+    }
+  });
+
+  return slots;
+}
+
+/**
+ * Calendar invite for a confirmed booking, to add to the visitor's calendar
+ */
+export function createBookingIcs(booking: BookingConfirmation, now: Date = new Date()): string {
+  const { attendee, slot } = booking;
+  const description: string = [
+    `${BOOKING_DURATION_LABEL} with Optimum Solutions Group.`,
+    `We'll send the meeting link to ${attendee.email}.`,
+    ...(attendee.notes ? ['', attendee.notes] : []),
+  ].join('\n');
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Optimum Solutions Group//Booking//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${booking.id}@optimumsolutions.com`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `DTSTART:${formatIcsDate(slot.start)}`,
+    `DTEND:${formatIcsDate(slot.end)}`,
+    `SUMMARY:${escapeIcsText('Consultation call - Optimum Solutions Group')}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `ORGANIZER;CN=Optimum Solutions Group:mailto:${DEFAULT_LEAD_EMAIL}`,
+    `ATTENDEE;CN=${quoteIcsParam(attendee.name)};RSVP=FALSE:mailto:${attendee.email}`,
+    'STATUS:CONFIRMED',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ]
+    .map(foldIcsLine)
+    .join('\r\n') + '\r\n';
+}
+
+export function downloadBookingIcs(booking: BookingConfirmation): void {
+  const url: string = URL.createObjectURL(new Blob([createBookingIcs(booking)], { type: 'text/calendar;charset=utf-8' }));
+
+  const link: HTMLAnchorElement = document.createElement('a');
+  link.href = url;
+  link.download = 'optimum-solutions-call.ics';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// =========================== PROVIDERS ===========================
+
+const fetchOk = async (url: string, init?: RequestInit): Promise<Response> => {
+  const response: Response = await fetch(url, init);
+  if (!response.ok) {
+    throw Object.assign(new Error(`Booking API error: ${response.status}`), {
+      retryable: response.status >= 500 || response.status === 429,
+    });
+  }
+  return response;
+};
+
+/**
+ * Static JSON availability, either inline or fetched from a URL such as
+ * /availability.json
+ */
+export class JsonAvailabilityProvider implements AvailabilityProvider {
+  readonly name = 'json';
+
+  constructor(private readonly source: string | Availability = DEFAULT_AVAILABILITY_URL) {}
+
+  async getSlots(range: AvailabilityRange): Promise<AvailabilitySlot[]> {
+    const json: unknown = typeof this.source === 'string'
+      ? await (await fetchOk(this.source)).json()
+      : this.source;
+
+    return resolveAvailability(availabilitySchema.parse(json), range);
+  }
+}
+
+/**
+ * Free slots from an ICS feed, e.g. a published "available" calendar
+ */
+export class IcsAvailabilityProvider implements AvailabilityProvider {
+  readonly name = 'ics';
+
+  constructor(
+    private readonly url: string,
+    private readonly minNoticeHours: number = 24
+  ) {}
+
+  async getSlots(range: AvailabilityRange): Promise<AvailabilitySlot[]> {
+    const ics: string = await (await fetchOk(this.url)).text();
+    const slots = parseIcsAvailability(ics).map((slot: AvailabilitySlot) => ({
+      start: slot.start.toISOString(),
+      end: slot.end.toISOString(),
+    }));
+
+    return resolveAvailability({ slots, minNoticeHours: this.minNoticeHours }, range);
+  }
+}
+
+/**
+ * Scheduling backend: `GET endpoint?from&to` returns an availability document
+ * and `POST endpoint` reserves a slot, so double bookings are prevented server-side
+ */
+export class HttpAvailabilityProvider implements AvailabilityProvider {
+  readonly name = 'http';
+
+  constructor(private readonly endpoint: string = '/api/bookings') {}
+
+  async getSlots(range: AvailabilityRange): Promise<AvailabilitySlot[]> {
+    const params = new URLSearchParams({ from: range.from.toISOString(), to: range.to.toISOString() });
+    const json: unknown = await (await fetchOk(`${this.endpoint}?${params.toString()}`)).json();
+
+    return resolveAvailability(availabilitySchema.parse(json), range);
+  }
+
+  async book(request: BookingRequest): Promise<BookingConfirmation> {
+    const response: Response = await fetchOk(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': request.idempotencyKey,
+      },
+      body: JSON.stringify({
+        start: request.slot.start.toISOString(),
+        end: request.slot.end.toISOString(),
+        attendee: request.attendee,
+        timeZone: request.timeZone,
+      }),
+    });
+    const body = (await response.json().catch(() => ({}))) as { id?: string };
+
+    return {
+      id: body.id ?? request.idempotencyKey,
+      slot: request.slot,
+      attendee: request.attendee,
+      provider: this.name,
+    };
+  }
+}
+
+// =========================== BOOKING ===========================
+
+export type BookingResult =
+  | { status: 'confirmed'; booking: BookingConfirmation }
+  | { status: 'failed'; error: string };
+
+export function createBookingRequest(slot: AvailabilitySlot, attendee: BookingAttendee, timeZone: string = getVisitorTimeZone()): BookingRequest {
+  return { slot, attendee, timeZone, idempotencyKey: generateIdempotencyKey() };
+}
+
+/**
+ * Reserve the slot with the provider, or for static providers send the
+ * request to the team through the contact lead pipeline
+ */
+export async function confirmBooking(
+  provider: AvailabilityProvider,
+  request: BookingRequest,
+  startedAt: number
+): Promise<BookingResult> {
+  try {
+    if (provider.book) {
+      return { status: 'confirmed', booking: await provider.book(request) };
+    }
+
+    const when: string = new Intl.DateTimeFormat('en-US', {
+      timeZone: request.timeZone,
+      dateStyle: 'full',
+      timeStyle: 'short',
+    }).format(request.slot.start);
+
+    const result: LeadSubmissionResult = await leadSubmissionService.submit(
+      {
+        name: request.attendee.name,
+        email: request.attendee.email,
+        message: [
+          `Call booking request: ${when} (${request.timeZone})`,
+          `Starts ${request.slot.start.toISOString()}, ends ${request.slot.end.toISOString()}`,
+          ...(request.attendee.notes ? ['', request.attendee.notes] : []),
+        ].join('\n'),
+      },
+      { startedAt },
+      request.idempotencyKey
+    );
+
+    if (result.status === 'failed') return { status: 'failed', error: result.error };
+    if (result.status === 'invalid') return { status: 'failed', error: Object.values(result.errors)[0] ?? 'Invalid booking details' };
+
+    return {
+      status: 'confirmed',
+      booking: { id: request.idempotencyKey, slot: request.slot, attendee: request.attendee, provider: provider.name },
+    };
+  } catch (error) {
+    return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Singleton instance
+export const availabilityProvider: AvailabilityProvider = new JsonAvailabilityProvider();
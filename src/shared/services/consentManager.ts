@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Consent Management Service
+ * @description Per-category consent state shared by analytics, performance and error reporting
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { eventBus, EVENT_TYPES, type EventUnsubscribe } from './eventBus';
+import type { MessageKey } from '../i18n';
+
+// =========================== TYPES ===========================
+
+export type ConsentCategory = 'necessary' | 'analytics' | 'performance' | 'marketing';
+
+export type ConsentCategories = Record<ConsentCategory, boolean>;
+
+export type ConsentSource = 'banner' | 'preferences' | 'api';
+
+export interface ConsentRecord {
+  version: number;
+  timestamp: number;
+  source: ConsentSource;
+  categories: ConsentCategories;
+  gpc: boolean; // Global Privacy Control signal at the time of the decision
+}
+
+export interface ConsentCategoryDefinition {
+  id: ConsentCategory;
+  label: MessageKey;
+  description: MessageKey;
+  required: boolean;
+}
+
+export interface ConsentManagerOptions {
+  storageKey?: string;
+  version?: number;
+  respectGPC?: boolean;
+}
+
+// =========================== CONSTANTS ===========================
+
+/**
+ * Bump when categories or their meaning change; stored records with an
+ * older version are discarded and visitors are asked again.
+ */
+export const CONSENT_VERSION = 1;
+
+export const CONSENT_CATEGORIES: ConsentCategoryDefinition[] = [
+  {
+    id: 'necessary',
+    label: 'consent.category.necessary.label',
+    description: 'consent.category.necessary.description',
+    required: true,
+  },
+  {
+    id: 'analytics',
+    label: 'consent.category.analytics.label',
+    description: 'consent.category.analytics.description',
+    required: false,
+  },
+  {
+    id: 'performance',
+    label: 'consent.category.performance.label',
+    description: 'consent.category.performance.description',
+    required: false,
+  },
+  {
+    id: 'marketing',
+    label: 'consent.category.marketing.label',
+    description: 'consent.category.marketing.description',
+    required: false,
+  },
+];
+
+const DEFAULT_CATEGORIES: ConsentCategories = {
+  necessary: true,
+  analytics: false,
+  performance: false,
+  marketing: false,
+};
+
+// =========================== CONSENT MANAGER ===========================
+
+export class ConsentManager {
+  private readonly storageKey: string;
+  private readonly version: number;
+  private readonly respectGPC: boolean;
+  private record: ConsentRecord | null;
+
+  constructor(options: ConsentManagerOptions = {}) {
+    this.storageKey = options.storageKey ?? 'consent_preferences';
+    this.version = options.version ?? CONSENT_VERSION;
+    this.respectGPC = options.respectGPC ?? true;
+    this.record = this.loadRecord();
+  }
+
+  /**
+   * Whether the visitor has made a decision for the current consent version
+   */
+  hasDecision(): boolean {
+    return this.record !== null;
+  }
+
+  getRecord(): ConsentRecord | null {
+    return this.record ? { ...this.record, categories: { ...this.record.categories } } : null;
+  }
+
+  getCategories(): ConsentCategories {
+    return this.applyGPC(this.record ? this.record.categories : DEFAULT_CATEGORIES);
+  }
+
+  isGranted(category: ConsentCategory): boolean {
+    return this.getCategories()[category];
+  }
+
+  isGPCEnabled(): boolean {
+    if (!this.respectGPC || typeof navigator === 'undefined') return false;
+    return (navigator as Navigator & { globalPrivacyControl?: boolean }).globalPrivacyControl === true;
+  }
+
+  /**
+   * Record a consent decision. Unspecified categories keep their current value.
+   */
+  update(categories: Partial<ConsentCategories>, source: ConsentSource = 'api'): ConsentRecord {
+    const record: ConsentRecord = {
+      version: this.version,
+      timestamp: Date.now(),
+      source,
+      categories: this.applyGPC({
+        ...this.getCategories(),
+        ...categories,
+        necessary: true,
+      }),
+      gpc: this.isGPCEnabled(),
+    };
+
+    this.record = record;
+    this.saveRecord(record);
+    eventBus.emit(EVENT_TYPES.CONSENT_CHANGED, this.getRecord(), 'ConsentManager');
+
+    return record;
+  }
+
+  grantAll(source: ConsentSource = 'api'): ConsentRecord {
+    return this.update({ analytics: true, performance: true, marketing: true }, source);
+  }
+
+  denyAll(source: ConsentSource = 'api'): ConsentRecord {
+    return this.update({ analytics: false, performance: false, marketing: false }, source);
+  }
+
+  /**
+   * Forget the stored decision so the banner is shown again
+   */
+  reset(): void {
+    this.record = null;
+    try {
+      localStorage.removeItem(this.storageKey);
+    } catch {
+      // Ignore storage errors
+    }
+    eventBus.emit(EVENT_TYPES.CONSENT_CHANGED, null, 'ConsentManager');
+  }
+
+  /**
+   * Subscribe to consent changes. The listener receives null after reset().
+   */
+  subscribe(listener: (record: ConsentRecord | null) => void): EventUnsubscribe {
+    return eventBus.on<ConsentRecord | null>(EVENT_TYPES.CONSENT_CHANGED, listener);
+  }
+
+  /**
+   * Ask the consent UI to open the preferences dialog
+   */
+  openPreferences(): void {
+    eventBus.emit(EVENT_TYPES.CONSENT_PREFERENCES_REQUESTED, null, 'ConsentManager');
+  }
+
+  private applyGPC(categories: ConsentCategories): ConsentCategories {
+    return this.isGPCEnabled() ? { ...categories, marketing: false } : { ...categories };
+  }
+
+  private loadRecord(): ConsentRecord | null {
+    try {
+      const stored: string | null = localStorage.getItem(this.storageKey);
+      if (!stored) return null;
+
+      const record: ConsentRecord = JSON.parse(stored);
+      return record.version === this.version && record.categories ? record : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveRecord(record: ConsentRecord): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(record));
+    } catch (error) {
+      console.warn('Failed to save consent preferences:', error);
+    }
+  }
+}
+
+// Singleton instance
+export const consentManager = new ConsentManager();
@@ -6,6 +6,8 @@
  */
 
 import { ErrorContext, isBrowserErrorContext, isUserErrorContext, isNetworkErrorContext } from '../types/errorContext';
+import { consentManager, type ConsentManager } from './consentManager';
+import { sessionRecorder, type SessionRecorder, type TimelineEntry } from './sessionRecorder';
 
 export interface ErrorReport {
   id: string;
@@ -17,6 +19,7 @@ export interface ErrorReport {
   userAgent?: string;
   url?: string;
   sessionId?: string;
+  timeline?: TimelineEntry[]; // Interactions leading up to the error, when the recorder is on
 }
 
 export interface ErrorAnalytics {
@@ -31,13 +34,27 @@ export class ErrorReportingService {
   private reports: ErrorReport[] = [];
   private readonly maxReports = 1000;
 
+  constructor(
+    private readonly consent: ConsentManager = consentManager,
+    private readonly recorder: SessionRecorder = sessionRecorder
+  ) {
+    // Discard collected reports as soon as consent is withdrawn
+    this.consent.subscribe(() => {
+      if (!this.consent.isGranted('performance')) {
+        this.reports = [];
+      }
+    });
+  }
+
   /**
-   * Report an error with business logic for categorization and severity
+   * Report an error with business logic for categorization and severity.
+   * Reports are only retained when the visitor granted performance consent.
    */
   reportError(error: Error, context: ErrorContext): ErrorReport {
     const userAgent: string | undefined = this.extractUserAgent(context);
     const url: string | undefined = this.extractUrl(context);
     const sessionId: string | undefined = this.extractSessionId(context);
+    const timeline: TimelineEntry[] = this.recorder.getTimeline();
 
     const report: ErrorReport = {
       id: this.generateErrorId(),
@@ -49,9 +66,12 @@ export class ErrorReportingService {
       ...(userAgent && { userAgent }),
       ...(url && { url }),
       ...(sessionId && { sessionId }),
+      ...(timeline.length > 0 && { timeline }),
     };
 
-    this.addReport(report);
+    if (this.consent.isGranted('performance')) {
+      this.addReport(report);
+    }
     return report;
   }
 
@@ -143,6 +143,9 @@ export const EVENT_TYPES = {
   ROUTE_CHANGED: 'route:changed',
   THEME_CHANGED: 'theme:changed',
   LANGUAGE_CHANGED: 'language:changed',
+  CONSENT_CHANGED: 'consent:changed',
+  CONSENT_PREFERENCES_REQUESTED: 'consent:preferences:requested',
+  QUOTE_SHARED: 'quote:shared',
 } as const;
 
 // Type-safe event emitter helper
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Event Matcher
+ * @description Declarative event matching shared by funnel analysis and event sampling rules
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import type { AnalyticsEvent } from './analytics';
+
+// =========================== TYPES ===========================
+
+/**
+ * Describes which events satisfy a funnel step or sampling rule. Every field
+ * that is set must match; properties are compared by strict equality.
+ */
+export interface EventMatcher {
+  name?: string;
+  type?: string;
+  category?: string;
+  action?: string;
+  label?: string;
+  path?: string;
+  properties?: Record<string, string | number | boolean>;
+}
+
+// =========================== MATCHING ===========================
+
+/**
+ * Pathname of the page an event was recorded on
+ */
+export function getEventPath(event: AnalyticsEvent): string {
+  const path: unknown = event.properties?.['path'];
+  if (typeof path === 'string') return path;
+
+  try {
+    return new URL(event.url).pathname;
+  } catch {
+    return event.url;
+  }
+}
+
+export function matchesEvent(event: AnalyticsEvent, matcher: EventMatcher): boolean {
+  if (matcher.name !== undefined && event.name !== matcher.name) return false;
+  if (matcher.type !== undefined && event.type !== matcher.type) return false;
+  if (matcher.category !== undefined && event.category !== matcher.category) return false;
+  if (matcher.action !== undefined && event.action !== matcher.action) return false;
+  if (matcher.label !== undefined && event.label !== matcher.label) return false;
+  if (matcher.path !== undefined && getEventPath(event) !== matcher.path) return false;
+
+  if (matcher.properties) {
+    return Object.entries(matcher.properties).every(
+      ([key, value]) => event.properties?.[key] === value
+    );
+  }
+
+  return true;
+}
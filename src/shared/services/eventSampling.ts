@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Event Sampling Policy
+ * @description Per-event-type sampling rules, token-bucket rate limits and dedupe windows with sampling weights
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import type { AnalyticsEvent } from './analytics';
+import { matchesEvent, type EventMatcher } from './eventMatcher';
+
+// =========================== TYPES ===========================
+
+export interface RateLimit {
+  capacity: number; // Burst size
+  refillPerSecond: number; // Tokens restored per second
+}
+
+/**
+ * The first rule whose matcher fits an event decides how it is sampled.
+ * Events without a matching rule use the global sample rate.
+ */
+export interface SamplingRule {
+  id: string;
+  match: EventMatcher;
+  sampleRate?: number; // 0-1, falls back to the global rate
+  rateLimit?: RateLimit;
+  dedupeWindow?: number; // milliseconds; identical events inside the window are dropped
+}
+
+export type SamplingDropReason = 'sampled' | 'rate_limited' | 'duplicate';
+
+export type SamplingDecision =
+  | { keep: true; weight: number; ruleId?: string }
+  | { keep: false; reason: SamplingDropReason; ruleId?: string };
+
+export interface SamplingStats {
+  kept: number;
+  dropped: Record<SamplingDropReason, number>;
+}
+
+export interface SamplingPolicyOptions {
+  sampleRate?: number;
+  rules?: SamplingRule[];
+  random?: () => number;
+  now?: () => number;
+}
+
+// =========================== CONSTANTS ===========================
+
+/**
+ * Conversions and experiment data are always kept; high-volume engagement
+ * and repeated errors are thinned out
+ */
+export const DEFAULT_SAMPLING_RULES: SamplingRule[] = [
+  { id: 'goals', match: { type: 'goal' }, sampleRate: 1 },
+  { id: 'forms', match: { category: 'form' }, sampleRate: 1 },
+  { id: 'experiments', match: { category: 'ab_testing' }, sampleRate: 1 },
+  { id: 'scroll', match: { category: 'engagement', action: 'scroll' }, sampleRate: 0.25 },
+  {
+    id: 'errors',
+    match: { type: 'error' },
+    dedupeWindow: 10000,
+    rateLimit: { capacity: 10, refillPerSecond: 1 / 6 },
+  },
+];
+
+// =========================== TOKEN BUCKET ===========================
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(private readonly limit: RateLimit, now: number) {
+    this.tokens = limit.capacity;
+    this.lastRefill = now;
+  }
+
+  take(now: number): boolean {
+    const elapsed: number = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.limit.capacity, this.tokens + elapsed * this.limit.refillPerSecond);
+    this.lastRefill = now;
+
+    if (this.tokens < 1) return false;
+
+    this.tokens--;
+    return true;
+  }
+}
+
+// =========================== SAMPLING POLICY ===========================
+
+const clampRate = (rate: number): number => Math.min(1, Math.max(0, rate));
+
+/**
+ * Key identifying "the same" event for dedupe purposes
+ */
+export function getDedupeKey(event: AnalyticsEvent): string {
+  return JSON.stringify([
+    event.name, event.type, event.category, event.action, event.label, event.value, event.properties,
+  ]);
+}
+
+/**
+ * How many real events a recorded event stands for. Events recorded before
+ * sampling weights existed count once.
+ */
+export function getEventWeight(event: AnalyticsEvent): number {
+  return event.sampleWeight ?? 1;
+}
+
+/**
+ * Estimated number of events before sampling
+ */
+export function estimateEventCount(events: AnalyticsEvent[]): number {
+  return events.reduce((total: number, event: AnalyticsEvent) => total + getEventWeight(event), 0);
+}
+
+export class SamplingPolicy {
+  private sampleRate: number;
+  private rules: SamplingRule[];
+  private buckets = new Map<string, TokenBucket>();
+  private lastSeen = new Map<string, number>();
+  private stats: SamplingStats = this.createStats();
+  private readonly random: () => number;
+  private readonly now: () => number;
+
+  constructor(options: SamplingPolicyOptions = {}) {
+    this.sampleRate = clampRate(options.sampleRate ?? 1);
+    this.rules = options.rules ?? [];
+    this.random = options.random ?? Math.random;
+    this.now = options.now ?? Date.now;
+  }
+
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  setSampleRate(rate: number): void {
+    this.sampleRate = clampRate(rate);
+  }
+
+  getRules(): SamplingRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Replace all rules. Rate-limit and dedupe state is reset.
+   */
+  setRules(rules: SamplingRule[]): void {
+    this.rules = [...rules];
+    this.buckets.clear();
+    this.lastSeen.clear();
+  }
+
+  /**
+   * Add or replace a rule by id. New rules take precedence over existing ones.
+   */
+  setRule(rule: SamplingRule): void {
+    this.rules = [rule, ...this.rules.filter((existing: SamplingRule) => existing.id !== rule.id)];
+    this.buckets.delete(rule.id);
+  }
+
+  removeRule(ruleId: string): void {
+    this.rules = this.rules.filter((rule: SamplingRule) => rule.id !== ruleId);
+    this.buckets.delete(ruleId);
+  }
+
+  getStats(): SamplingStats {
+    return { kept: this.stats.kept, dropped: { ...this.stats.dropped } };
+  }
+
+  resetStats(): void {
+    this.stats = this.createStats();
+  }
+
+  /**
+   * Decide whether to keep an event. Dedupe runs first so duplicates don't
+   * consume rate-limit tokens; sampling runs last so the weight of kept
+   * events only reflects the random sampling.
+   */
+  evaluate(event: AnalyticsEvent): SamplingDecision {
+    const rule: SamplingRule | undefined = this.rules.find((candidate: SamplingRule) => matchesEvent(event, candidate.match));
+    const ruleId: string | undefined = rule?.id;
+    const now: number = this.now();
+
+    if (rule?.dedupeWindow) {
+      const key: string = `${rule.id}:${getDedupeKey(event)}`;
+      const previous: number | undefined = this.lastSeen.get(key);
+
+      if (previous !== undefined && now - previous < rule.dedupeWindow) {
+        return this.drop('duplicate', ruleId);
+      }
+
+      this.lastSeen.set(key, now);
+      this.pruneDedupe(now);
+    }
+
+    if (rule?.rateLimit) {
+      let bucket: TokenBucket | undefined = this.buckets.get(rule.id);
+      if (!bucket) {
+        bucket = new TokenBucket(rule.rateLimit, now);
+        this.buckets.set(rule.id, bucket);
+      }
+      if (!bucket.take(now)) {
+        return this.drop('rate_limited', ruleId);
+      }
+    }
+
+    const rate: number = clampRate(rule?.sampleRate ?? this.sampleRate);
+    if (rate === 0 || this.random() >= rate) {
+      return this.drop('sampled', ruleId);
+    }
+
+    this.stats.kept++;
+    return { keep: true, weight: 1 / rate, ...(ruleId !== undefined && { ruleId }) };
+  }
+
+  private drop(reason: SamplingDropReason, ruleId: string | undefined): SamplingDecision {
+    this.stats.dropped[reason]++;
+    return { keep: false, reason, ...(ruleId !== undefined && { ruleId }) };
+  }
+
+  /**
+   * Forget dedupe keys older than the longest window
+   */
+  private pruneDedupe(now: number): void {
+    const longestWindow: number = Math.max(0, ...this.rules.map((rule: SamplingRule) => rule.dedupeWindow ?? 0));
+
+    this.lastSeen.forEach((seenAt: number, key: string) => {
+      if (now - seenAt > longestWindow) {
+        this.lastSeen.delete(key);
+      }
+    });
+  }
+
+  private createStats(): SamplingStats {
+    return { kept: 0, dropped: { sampled: 0, rate_limited: 0, duplicate: 0 } };
+  }
+}
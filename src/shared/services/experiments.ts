@@ -0,0 +1,230 @@
+/**
+ * @fileoverview A/B Experiment Engine
+ * @description Deterministic hash-based variant assignment with exposure tracking
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// =========================== TYPES ===========================
+
+export interface ExperimentVariant {
+  id: string;
+  weight: number; // Relative weight, normalized across variants
+}
+
+export interface ExperimentDefinition {
+  id: string;
+  description?: string;
+  variants: ExperimentVariant[];
+  trafficAllocation: number; // 0-1, share of visitors enrolled in the experiment
+  defaultVariant?: string; // Rendered for visitors outside the allocation (defaults to first variant)
+  enabled?: boolean;
+}
+
+export type AssignmentSource = 'hash' | 'stored' | 'override';
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  variant: string | null; // null when the visitor is not enrolled
+  source: AssignmentSource;
+}
+
+/**
+ * What the engine needs from the analytics layer. Kept as an interface so the
+ * engine stays independent of the AnalyticsService singleton.
+ */
+export interface ExperimentHost {
+  getBucketingId(): string;
+  getStoredVariant(experimentId: string): string | null;
+  storeVariant(experimentId: string, variant: string): void;
+  trackExposure(assignment: ExperimentAssignment): boolean; // false when tracking is unavailable
+}
+
+export interface ExperimentEngineOptions {
+  overrideParam?: string;
+  getSearch?: () => string;
+}
+
+// =========================== CONSTANTS ===========================
+
+/**
+ * Experiments currently running on the site
+ */
+export const EXPERIMENT_DEFINITIONS: ExperimentDefinition[] = [
+  {
+    id: 'hero-cta',
+    description: 'Primary hero call to action wording',
+    variants: [
+      { id: 'control', weight: 50 },
+      { id: 'free-consultation', weight: 50 },
+    ],
+    trafficAllocation: 1,
+  },
+];
+
+// =========================== HASHING ===========================
+
+/**
+ * 32-bit FNV-1a hash. Stable across browsers and sessions, which is all we
+ * need for bucketing; it is not meant to be cryptographically secure.
+ */
+export function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Map a key to a stable bucket in [0, 1)
+ */
+export function getBucket(key: string): number {
+  return hashString(key) / 0x100000000;
+}
+
+/**
+ * Deterministically assign a unit (visitor) to a variant, or null when the
+ * unit falls outside the experiment's traffic allocation
+ */
+export function assignVariant(definition: ExperimentDefinition, unitId: string): string | null {
+  if (definition.enabled === false || definition.variants.length === 0) return null;
+
+  // Separate salts so enrollment and variant choice are independent
+  if (getBucket(`${definition.id}:traffic:${unitId}`) >= definition.trafficAllocation) {
+    return null;
+  }
+
+  const totalWeight: number = definition.variants.reduce((sum, variant) => sum + Math.max(0, variant.weight), 0);
+  if (totalWeight <= 0) return null;
+
+  const point: number = getBucket(`${definition.id}:variant:${unitId}`) * totalWeight;
+  let cumulative = 0;
+
+  for (const variant of definition.variants) {
+    cumulative += Math.max(0, variant.weight);
+    if (point < cumulative) {
+      return variant.id;
+    }
+  }
+
+  return definition.variants[definition.variants.length - 1]!.id;
+}
+
+/**
+ * Parse QA overrides such as `?experiment=hero-cta:free-consultation,pricing:b`
+ */
+export function parseOverrides(search: string, param = 'experiment'): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  const value: string | null = new URLSearchParams(search).get(param);
+  if (!value) return overrides;
+
+  value.split(',').forEach((pair: string) => {
+    const [experimentId, variant] = pair.split(':').map((part: string) => part.trim());
+    if (experimentId && variant) {
+      overrides[experimentId] = variant;
+    }
+  });
+
+  return overrides;
+}
+
+// =========================== EXPERIMENT ENGINE ===========================
+
+export class ExperimentEngine {
+  private definitions = new Map<string, ExperimentDefinition>();
+  private exposed = new Set<string>();
+  private readonly overrideParam: string;
+  private readonly getSearch: () => string;
+
+  constructor(
+    private readonly host: ExperimentHost,
+    definitions: ExperimentDefinition[] = [],
+    options: ExperimentEngineOptions = {}
+  ) {
+    this.overrideParam = options.overrideParam ?? 'experiment';
+    this.getSearch = options.getSearch ?? (() => (typeof window !== 'undefined' ? window.location.search : ''));
+    definitions.forEach((definition: ExperimentDefinition) => this.define(definition));
+  }
+
+  define(definition: ExperimentDefinition): void {
+    this.definitions.set(definition.id, definition);
+  }
+
+  has(experimentId: string): boolean {
+    return this.definitions.has(experimentId);
+  }
+
+  getDefinition(experimentId: string): ExperimentDefinition | undefined {
+    return this.definitions.get(experimentId);
+  }
+
+  getDefinitions(): ExperimentDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Resolve the visitor's variant. Query string overrides win, then a
+   * previously stored assignment (so the variant survives a changing
+   * bucketing id), then hash-based bucketing.
+   */
+  getAssignment(experimentId: string): ExperimentAssignment {
+    const definition: ExperimentDefinition | undefined = this.definitions.get(experimentId);
+    if (!definition) {
+      return { experimentId, variant: null, source: 'hash' };
+    }
+
+    const override: string | undefined = parseOverrides(this.getSearch(), this.overrideParam)[experimentId];
+    if (override && this.isVariant(definition, override)) {
+      return { experimentId, variant: override, source: 'override' };
+    }
+
+    const stored: string | null = this.host.getStoredVariant(experimentId);
+    if (stored && this.isVariant(definition, stored)) {
+      return { experimentId, variant: stored, source: 'stored' };
+    }
+
+    const variant: string | null = assignVariant(definition, this.host.getBucketingId());
+    if (variant) {
+      this.host.storeVariant(experimentId, variant);
+    }
+
+    return { experimentId, variant, source: 'hash' };
+  }
+
+  getVariant(experimentId: string): string | null {
+    return this.getAssignment(experimentId).variant;
+  }
+
+  /**
+   * Variant to render: the assignment, or the default for non-enrolled visitors
+   */
+  getRenderedVariant(experimentId: string): string | null {
+    const definition: ExperimentDefinition | undefined = this.definitions.get(experimentId);
+    if (!definition) return null;
+
+    return this.getVariant(experimentId) ?? definition.defaultVariant ?? definition.variants[0]?.id ?? null;
+  }
+
+  /**
+   * Record that the visitor actually saw the experiment. Sent once per
+   * experiment per page load; non-enrolled visitors are not exposed.
+   */
+  expose(experimentId: string): ExperimentAssignment | null {
+    if (this.exposed.has(experimentId)) return null;
+
+    const assignment: ExperimentAssignment = this.getAssignment(experimentId);
+    if (!assignment.variant) return null;
+
+    // Only remember the exposure once it was actually recorded
+    if (!this.host.trackExposure(assignment)) return null;
+
+    this.exposed.add(experimentId);
+    return assignment;
+  }
+
+  private isVariant(definition: ExperimentDefinition, variant: string): boolean {
+    return definition.variants.some((candidate: ExperimentVariant) => candidate.id === variant);
+  }
+}
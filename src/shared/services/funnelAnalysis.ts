@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Funnel & Path Analysis
+ * @description Computes conversion funnels, step drop-off, navigation paths and lead attribution from recorded analytics events
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import type { AnalyticsEvent } from './analytics';
+import type { AttributionChannel, TouchSummary } from './attribution';
+import { getEventPath, matchesEvent, type EventMatcher } from './eventMatcher';
+
+// =========================== TYPES ===========================
+
+export interface FunnelStep {
+  id: string;
+  label: string;
+  match: EventMatcher;
+}
+
+export interface FunnelDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  steps: FunnelStep[];
+  conversionWindow?: number; // milliseconds from the first step; unlimited when omitted
+}
+
+export interface FunnelStepResult {
+  stepId: string;
+  label: string;
+  sessions: number; // Sessions that reached this step
+  conversionRate: number; // % of sessions that entered the funnel
+  stepConversionRate: number; // % of sessions from the previous step
+  dropOff: number; // Sessions lost since the previous step
+  dropOffRate: number; // % lost since the previous step
+  medianTimeFromPrevious: number | null; // milliseconds
+}
+
+export interface FunnelResult {
+  funnelId: string;
+  name: string;
+  totalSessions: number;
+  entered: number;
+  converted: number;
+  conversionRate: number; // % of entered sessions that completed every step
+  medianTimeToConvert: number | null; // milliseconds
+  steps: FunnelStepResult[];
+}
+
+export interface PathResult {
+  path: string[];
+  sessions: number;
+  share: number; // % of sessions with at least one page view
+}
+
+export interface AttributionResult {
+  channel: AttributionChannel;
+  source: string;
+  campaign?: string;
+  conversions: number;
+  share: number; // % of attributed conversions
+}
+
+export type AttributionModel = 'firstTouch' | 'lastTouch';
+
+export interface PathAnalysisOptions {
+  maxLength?: number; // Pages per path
+  limit?: number; // Paths returned
+}
+
+// =========================== CONSTANTS ===========================
+
+export const FUNNELS_STORAGE_KEY = 'analytics_funnels';
+
+/**
+ * A lead: the contact form was sent successfully
+ */
+export const CONTACT_LEAD_MATCHER: EventMatcher = { name: 'form.submit_success', properties: { formName: 'contact' } };
+
+export const DEFAULT_FUNNELS: FunnelDefinition[] = [
+  {
+    id: 'hero-to-contact',
+    name: 'Hero CTA to contact',
+    description: 'Visitors who click the hero CTA, submit an estimate and then contact us',
+    steps: [
+      { id: 'hero-cta', label: 'Hero CTA', match: { name: 'cta.click', properties: { ctaId: 'hero-primary' } } },
+      { id: 'estimate', label: 'Estimate submitted', match: { name: 'estimator.submit' } },
+      { id: 'contact', label: 'Contact form sent', match: CONTACT_LEAD_MATCHER },
+    ],
+    conversionWindow: 24 * 60 * 60 * 1000,
+  },
+];
+
+// =========================== STEP EXPRESSIONS ===========================
+
+/**
+ * Parse a step written as `form.submit_success`, `category:action` or
+ * `/path`, as used by the dashboard funnel editor
+ */
+export function parseStepExpression(expression: string): EventMatcher {
+  const value: string = expression.trim();
+
+  if (value.startsWith('/')) {
+    return { type: 'pageview', path: value };
+  }
+
+  if (value.includes(':')) {
+    const [category, action] = value.split(':').map((part: string) => part.trim());
+    return {
+      ...(category && { category }),
+      ...(action && { action }),
+    };
+  }
+
+  return { name: value };
+}
+
+export function formatMatcher(matcher: EventMatcher): string {
+  if (matcher.path) return matcher.path;
+  if (matcher.name) return matcher.name;
+  return [matcher.category ?? '*', matcher.action ?? '*'].join(':');
+}
+
+// =========================== ANALYSIS ===========================
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted: number[] = [...values].sort((a, b) => a - b);
+  const middle: number = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1]! + sorted[middle]!) / 2
+    : sorted[middle]!;
+}
+
+/**
+ * Group events by session, each session sorted chronologically
+ */
+export function groupBySession(events: AnalyticsEvent[]): Map<string, AnalyticsEvent[]> {
+  const sessions = new Map<string, AnalyticsEvent[]>();
+
+  events.forEach((event: AnalyticsEvent) => {
+    const sessionEvents: AnalyticsEvent[] = sessions.get(event.sessionId) ?? [];
+    sessionEvents.push(event);
+    sessions.set(event.sessionId, sessionEvents);
+  });
+
+  sessions.forEach((sessionEvents: AnalyticsEvent[]) => {
+    sessionEvents.sort((a, b) => a.timestamp - b.timestamp);
+  });
+
+  return sessions;
+}
+
+/**
+ * Timestamps at which a session reached each step, in order. Steps must
+ * happen in sequence; the list stops at the first step not reached.
+ */
+function getStepTimestamps(events: AnalyticsEvent[], funnel: FunnelDefinition): number[] {
+  const reached: number[] = [];
+  let stepIndex = 0;
+
+  for (const event of events) {
+    const step: FunnelStep | undefined = funnel.steps[stepIndex];
+    if (!step) break;
+
+    const startedAt: number | undefined = reached[0];
+    if (startedAt !== undefined && funnel.conversionWindow !== undefined
+      && event.timestamp - startedAt > funnel.conversionWindow) {
+      break;
+    }
+
+    if (matchesEvent(event, step.match)) {
+      reached.push(event.timestamp);
+      stepIndex++;
+    }
+  }
+
+  return reached;
+}
+
+const toPercent = (part: number, total: number): number => (total > 0 ? (part / total) * 100 : 0);
+
+export function analyzeFunnel(events: AnalyticsEvent[], funnel: FunnelDefinition): FunnelResult {
+  const sessions: Map<string, AnalyticsEvent[]> = groupBySession(events);
+  const reachedBySession: number[][] = Array.from(sessions.values())
+    .map((sessionEvents: AnalyticsEvent[]) => getStepTimestamps(sessionEvents, funnel));
+
+  const steps: FunnelStepResult[] = funnel.steps.map((step: FunnelStep, index: number) => {
+    const reaching: number[][] = reachedBySession.filter((reached: number[]) => reached.length > index);
+    const count: number = reaching.length;
+    const previous: number = index === 0
+      ? count
+      : reachedBySession.filter((reached: number[]) => reached.length > index - 1).length;
+    const durations: number[] = index === 0
+      ? []
+      : reaching.map((reached: number[]) => reached[index]! - reached[index - 1]!);
+
+    return {
+      stepId: step.id,
+      label: step.label,
+      sessions: count,
+      conversionRate: 0, // Filled in below once the entry count is known
+      stepConversionRate: toPercent(count, previous),
+      dropOff: previous - count,
+      dropOffRate: toPercent(previous - count, previous),
+      medianTimeFromPrevious: median(durations),
+    };
+  });
+
+  const entered: number = steps[0]?.sessions ?? 0;
+  steps.forEach((step: FunnelStepResult) => {
+    step.conversionRate = toPercent(step.sessions, entered);
+  });
+
+  const completed: number[][] = reachedBySession.filter(
+    (reached: number[]) => funnel.steps.length > 0 && reached.length === funnel.steps.length
+  );
+
+  return {
+    funnelId: funnel.id,
+    name: funnel.name,
+    totalSessions: sessions.size,
+    entered,
+    converted: completed.length,
+    conversionRate: toPercent(completed.length, entered),
+    medianTimeToConvert: median(completed.map((reached: number[]) => reached[reached.length - 1]! - reached[0]!)),
+    steps,
+  };
+}
+
+/**
+ * Most common page sequences per session. Consecutive views of the same
+ * page (reloads, hash changes) are collapsed.
+ */
+export function analyzePaths(events: AnalyticsEvent[], options: PathAnalysisOptions = {}): PathResult[] {
+  const { maxLength = 4, limit = 10 } = options;
+  const counts = new Map<string, { path: string[]; sessions: number }>();
+  let sessionsWithViews = 0;
+
+  groupBySession(events).forEach((sessionEvents: AnalyticsEvent[]) => {
+    const path: string[] = [];
+
+    sessionEvents
+      .filter((event: AnalyticsEvent) => event.type === 'pageview')
+      .forEach((event: AnalyticsEvent) => {
+        const page: string = getEventPath(event);
+        if (path[path.length - 1] !== page && path.length < maxLength) {
+          path.push(page);
+        }
+      });
+
+    if (path.length === 0) return;
+    sessionsWithViews++;
+
+    const key: string = path.join(' → ');
+    const entry = counts.get(key) ?? { path, sessions: 0 };
+    entry.sessions++;
+    counts.set(key, entry);
+  });
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.sessions - a.sessions)
+    .slice(0, limit)
+    .map(({ path, sessions }) => ({
+      path,
+      sessions,
+      share: toPercent(sessions, sessionsWithViews),
+    }));
+}
+
+/**
+ * Conversions grouped by the campaign they are attributed to
+ */
+export function analyzeAttribution(
+  events: AnalyticsEvent[],
+  conversion: EventMatcher = CONTACT_LEAD_MATCHER,
+  model: AttributionModel = 'lastTouch'
+): AttributionResult[] {
+  const counts = new Map<string, AttributionResult>();
+  let total = 0;
+
+  events
+    .filter((event: AnalyticsEvent) => event.attribution && matchesEvent(event, conversion))
+    .forEach((event: AnalyticsEvent) => {
+      const touch: TouchSummary = event.attribution![model];
+      const key: string = [touch.channel, touch.source, touch.campaign ?? ''].join('|');
+      const entry: AttributionResult = counts.get(key) ?? {
+        channel: touch.channel,
+        source: touch.source,
+        ...(touch.campaign && { campaign: touch.campaign }),
+        conversions: 0,
+        share: 0,
+      };
+
+      entry.conversions++;
+      total++;
+      counts.set(key, entry);
+    });
+
+  return Array.from(counts.values())
+    .map((entry: AttributionResult) => ({ ...entry, share: toPercent(entry.conversions, total) }))
+    .sort((a, b) => b.conversions - a.conversions);
+}
+
+// =========================== PERSISTENCE ===========================
+
+/**
+ * Funnels configured in the dashboard, falling back to the defaults
+ */
+export function loadFunnels(): FunnelDefinition[] {
+  try {
+    const stored: string | null = localStorage.getItem(FUNNELS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_FUNNELS;
+  } catch {
+    return DEFAULT_FUNNELS;
+  }
+}
+
+export function saveFunnels(funnels: FunnelDefinition[]): void {
+  try {
+    localStorage.setItem(FUNNELS_STORAGE_KEY, JSON.stringify(funnels));
+  } catch {
+    // Ignore storage errors
+  }
+}
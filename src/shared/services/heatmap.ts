@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Click Heatmaps
+ * @description Stable element selectors, element-relative click offsets and per-route/viewport click aggregation
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// =========================== TYPES ===========================
+
+export type ViewportClass = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * A click normalized to the element it landed on, so it can be replayed on
+ * any layout. x and y are 0-1 offsets within the element's box.
+ */
+export interface ClickPoint {
+  selector: string;
+  x: number;
+  y: number;
+  route: string;
+  viewport: ViewportClass;
+}
+
+export interface HeatmapElement {
+  selector: string;
+  clicks: number;
+  cells: number[]; // GRID_SIZE x GRID_SIZE click counts, row by row
+}
+
+export interface HeatmapData {
+  route: string;
+  viewport: ViewportClass;
+  totalClicks: number;
+  elements: Record<string, HeatmapElement>;
+  updatedAt: number;
+}
+
+export interface HeatmapSummary {
+  route: string;
+  viewport: ViewportClass;
+  totalClicks: number;
+}
+
+export interface HeatmapStoreOptions {
+  storageKey?: string;
+  maxElements?: number; // Per route and viewport; the least clicked are dropped
+  maxPages?: number; // Route/viewport combinations kept; the least recently updated are dropped
+}
+
+// =========================== CONSTANTS ===========================
+
+export const GRID_SIZE = 10;
+export const HEATMAP_STORAGE_KEY = 'analytics_heatmap';
+
+// Tailwind md and lg breakpoints, which is where the site layout changes
+const TABLET_MIN_WIDTH = 768;
+const DESKTOP_MIN_WIDTH = 1024;
+
+// Clicks on icons or text inside these are attributed to the control itself
+const INTERACTIVE_SELECTOR = 'a, button, [role="button"], input, select, textarea, label, [data-heatmap-id]';
+
+// React useId values and generated ids change between renders and builds
+const UNSTABLE_ID = /^:r|\d{4,}|^radix-/;
+
+// =========================== SELECTORS ===========================
+
+export function getViewportClass(width: number = window.innerWidth): ViewportClass {
+  if (width < TABLET_MIN_WIDTH) return 'mobile';
+  if (width < DESKTOP_MIN_WIDTH) return 'tablet';
+  return 'desktop';
+}
+
+const quote = (value: string): string => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+/**
+ * Selector that survives re-renders: anchored on the closest
+ * `data-heatmap-id` or stable id, otherwise a tag/nth-of-type path from body
+ */
+export function getStableSelector(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.body && current !== document.documentElement) {
+    const heatmapId: string | null = current.getAttribute('data-heatmap-id');
+    if (heatmapId) {
+      parts.unshift(`[data-heatmap-id=${quote(heatmapId)}]`);
+      break;
+    }
+
+    if (current.id && !UNSTABLE_ID.test(current.id)) {
+      parts.unshift(/^[A-Za-z][\w-]*$/.test(current.id) ? `#${current.id}` : `[id=${quote(current.id)}]`);
+      break;
+    }
+
+    const tag: string = current.tagName.toLowerCase();
+    const parent: Element | null = current.parentElement;
+    const sameTag: Element[] = parent
+      ? Array.from(parent.children).filter((child: Element) => child.tagName === current!.tagName)
+      : [];
+
+    parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+    current = parent;
+  }
+
+  return parts.join(' > ') || 'body';
+}
+
+/**
+ * The element a click should be attributed to
+ */
+export function getClickTarget(target: Element): Element {
+  return target.closest(INTERACTIVE_SELECTOR) ?? target;
+}
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+export function createClickPoint(
+  event: Pick<MouseEvent, 'clientX' | 'clientY'>,
+  target: Element,
+  route: string = window.location.pathname
+): ClickPoint {
+  const element: Element = getClickTarget(target);
+  const rect: DOMRect = element.getBoundingClientRect();
+
+  return {
+    selector: getStableSelector(element),
+    x: rect.width > 0 ? clamp01((event.clientX - rect.left) / rect.width) : 0.5,
+    y: rect.height > 0 ? clamp01((event.clientY - rect.top) / rect.height) : 0.5,
+    route,
+    viewport: getViewportClass(),
+  };
+}
+
+const getCellIndex = (x: number, y: number): number => {
+  const column: number = Math.min(GRID_SIZE - 1, Math.floor(x * GRID_SIZE));
+  const row: number = Math.min(GRID_SIZE - 1, Math.floor(y * GRID_SIZE));
+  return row * GRID_SIZE + column;
+};
+
+/**
+ * Most clicked elements first
+ */
+export function getTopElements(data: HeatmapData, limit = 10): HeatmapElement[] {
+  return Object.values(data.elements)
+    .sort((a, b) => b.clicks - a.clicks)
+    .slice(0, limit);
+}
+
+// =========================== HEATMAP STORE ===========================
+
+/**
+ * Aggregated click counts persisted in localStorage. Only grid cell counts
+ * are kept, never individual clicks.
+ */
+export class HeatmapStore {
+  private readonly storageKey: string;
+  private readonly maxElements: number;
+  private readonly maxPages: number;
+
+  constructor(options: HeatmapStoreOptions = {}) {
+    this.storageKey = options.storageKey ?? HEATMAP_STORAGE_KEY;
+    this.maxElements = options.maxElements ?? 200;
+    this.maxPages = options.maxPages ?? 50;
+  }
+
+  record(point: ClickPoint): void {
+    const pages: Record<string, HeatmapData> = this.load();
+    const key: string = this.getKey(point.route, point.viewport);
+    const page: HeatmapData = pages[key] ?? {
+      route: point.route,
+      viewport: point.viewport,
+      totalClicks: 0,
+      elements: {},
+      updatedAt: 0,
+    };
+
+    const element: HeatmapElement = page.elements[point.selector] ?? {
+      selector: point.selector,
+      clicks: 0,
+      cells: new Array<number>(GRID_SIZE * GRID_SIZE).fill(0),
+    };
+    element.clicks++;
+    element.cells[getCellIndex(point.x, point.y)]! += 1;
+
+    page.elements[point.selector] = element;
+    page.totalClicks++;
+    page.updatedAt = Date.now();
+    pages[key] = page;
+
+    this.trimElements(page);
+    this.save(this.trimPages(pages));
+  }
+
+  get(route: string, viewport: ViewportClass): HeatmapData | null {
+    return this.load()[this.getKey(route, viewport)] ?? null;
+  }
+
+  /**
+   * Recorded route/viewport combinations, most clicked first
+   */
+  list(): HeatmapSummary[] {
+    return Object.values(this.load())
+      .map(({ route, viewport, totalClicks }: HeatmapData) => ({ route, viewport, totalClicks }))
+      .sort((a, b) => b.totalClicks - a.totalClicks);
+  }
+
+  clear(): void {
+    try {
+      localStorage.removeItem(this.storageKey);
+    } catch {
+      // Ignore storage errors
+    }
+  }
+
+  private getKey(route: string, viewport: ViewportClass): string {
+    return `${route}|${viewport}`;
+  }
+
+  private trimElements(page: HeatmapData): void {
+    const elements: HeatmapElement[] = Object.values(page.elements);
+    if (elements.length <= this.maxElements) return;
+
+    page.elements = Object.fromEntries(
+      elements
+        .sort((a, b) => b.clicks - a.clicks)
+        .slice(0, this.maxElements)
+        .map((element: HeatmapElement) => [element.selector, element])
+    );
+  }
+
+  private trimPages(pages: Record<string, HeatmapData>): Record<string, HeatmapData> {
+    const entries: Array<[string, HeatmapData]> = Object.entries(pages);
+    if (entries.length <= this.maxPages) return pages;
+
+    return Object.fromEntries(
+      entries
+        .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+        .slice(0, this.maxPages)
+    );
+  }
+
+  private load(): Record<string, HeatmapData> {
+    try {
+      const stored: string | null = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private save(pages: Record<string, HeatmapData>): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(pages));
+    } catch {
+      // Ignore storage errors
+    }
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Visitor Identity Service
+ * @description Anonymous visitor ids, identify/alias stitching and salted identifier hashing
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { consentManager, type ConsentManager } from './consentManager';
+import type { EventUnsubscribe } from './eventBus';
+
+// =========================== TYPES ===========================
+
+export interface IdentityState {
+  anonymousId: string; // Device-scoped visitor id, rotated by reset()
+  userId?: string; // Identified user (hashed when hashing is enabled)
+  aliases: string[]; // Anonymous ids that were merged into userId
+  createdAt: number;
+}
+
+export interface IdentifyResult {
+  userId: string;
+  anonymousId: string;
+  aliasedFrom?: string; // Anonymous id merged into the user by this call
+  previousUserId?: string; // Set when a different user was identified before
+}
+
+export type IdentifierHasher = (value: string, salt: string) => Promise<string>;
+
+export interface IdentityManagerOptions {
+  storageKey?: string;
+  hashIdentifiers?: boolean;
+  salt?: string;
+  hasher?: IdentifierHasher;
+  /** The identity is only stored while analytics consent is granted */
+  consent?: ConsentManager;
+}
+
+// =========================== HASHING ===========================
+
+/**
+ * Salted SHA-256 of an identifier, hex encoded. Requires Web Crypto, which
+ * browsers only expose in secure contexts (https or localhost).
+ */
+export async function hashIdentifier(value: string, salt: string): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Web Crypto is not available; cannot hash identifiers');
+  }
+
+  const data = new TextEncoder().encode(`${salt}${value}`);
+  const digest: ArrayBuffer = await crypto.subtle.digest('SHA-256', data);
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte: number) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function generateAnonymousId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `anon-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// =========================== IDENTITY MANAGER ===========================
+
+export class IdentityManager {
+  private state: IdentityState;
+  private readonly storageKey: string;
+  private readonly hashIdentifiers: boolean;
+  private readonly salt: string;
+  private readonly hasher: IdentifierHasher;
+  private readonly consent: ConsentManager;
+  private readonly unsubscribeConsent: EventUnsubscribe;
+
+  constructor(options: IdentityManagerOptions = {}) {
+    this.storageKey = options.storageKey ?? 'analytics_identity';
+    this.hashIdentifiers = options.hashIdentifiers ?? false;
+    this.salt = options.salt ?? '';
+    this.hasher = options.hasher ?? hashIdentifier;
+    this.consent = options.consent ?? consentManager;
+    this.state = this.load() ?? this.createState();
+    this.save();
+
+    // Kept in memory until the visitor allows analytics, and removed from storage again when they withdraw it
+    this.unsubscribeConsent = this.consent.subscribe(() => {
+      if (this.consent.isGranted('analytics')) {
+        this.save();
+      } else {
+        this.removeStored();
+      }
+    });
+  }
+
+  getAnonymousId(): string {
+    return this.state.anonymousId;
+  }
+
+  getUserId(): string | undefined {
+    return this.state.userId;
+  }
+
+  /**
+   * The id that analysis should group by: the user once identified,
+   * otherwise the anonymous visitor
+   */
+  getDistinctId(): string {
+    return this.state.userId ?? this.state.anonymousId;
+  }
+
+  getAliases(): string[] {
+    return [...this.state.aliases];
+  }
+
+  getState(): IdentityState {
+    return { ...this.state, aliases: [...this.state.aliases] };
+  }
+
+  /**
+   * Associate the visitor with a known user. The first identify merges the
+   * current anonymous id into the user; identifying a different user starts
+   * a fresh anonymous identity so two people sharing a device stay separate.
+   */
+  async identify(rawUserId: string): Promise<IdentifyResult> {
+    const userId: string = this.hashIdentifiers ? await this.hasher(rawUserId, this.salt) : rawUserId;
+    const previousUserId: string | undefined = this.state.userId;
+
+    if (previousUserId === userId) {
+      return { userId, anonymousId: this.state.anonymousId };
+    }
+
+    if (previousUserId !== undefined) {
+      this.state = this.createState();
+    }
+
+    const aliasedFrom: string = this.state.anonymousId;
+    this.state.userId = userId;
+    if (!this.state.aliases.includes(aliasedFrom)) {
+      this.state.aliases.push(aliasedFrom);
+    }
+    this.save();
+
+    return {
+      userId,
+      anonymousId: this.state.anonymousId,
+      aliasedFrom,
+      ...(previousUserId !== undefined && { previousUserId }),
+    };
+  }
+
+  /**
+   * Forget the user and start a new anonymous identity (e.g. on logout)
+   */
+  reset(): IdentityState {
+    this.state = this.createState();
+    this.save();
+    return this.getState();
+  }
+
+  /**
+   * Remove the persisted identity without storing a replacement, used when
+   * analytics consent is revoked
+   */
+  clear(): void {
+    this.state = this.createState();
+    this.removeStored();
+  }
+
+  /**
+   * Stop following consent changes
+   */
+  destroy(): void {
+    this.unsubscribeConsent();
+  }
+
+  private createState(): IdentityState {
+    return {
+      anonymousId: generateAnonymousId(),
+      aliases: [],
+      createdAt: Date.now(),
+    };
+  }
+
+  private load(): IdentityState | null {
+    try {
+      const stored: string | null = localStorage.getItem(this.storageKey);
+      if (!stored) return null;
+
+      const parsed = JSON.parse(stored) as Partial<IdentityState>;
+      if (typeof parsed.anonymousId !== 'string') return null;
+
+      return {
+        anonymousId: parsed.anonymousId,
+        ...(typeof parsed.userId === 'string' && { userId: parsed.userId }),
+        aliases: Array.isArray(parsed.aliases) ? parsed.aliases : [],
+        createdAt: parsed.createdAt ?? Date.now(),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private save(): void {
+    if (!this.consent.isGranted('analytics')) return;
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.state));
+    } catch {
+      // Ignore storage errors
+    }
+  }
+
+  private removeStored(): void {
+    try {
+      localStorage.removeItem(this.storageKey);
+    } catch {
+      // Ignore storage errors
+    }
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * @fileoverview Lead Submission
+ * @description Contact form validation, spam heuristics, idempotent delivery adapters and offline queueing
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+// =========================== SCHEMA ===========================
+
+export const PROJECT_TYPES = [
+  'web-app',
+  'mobile-app',
+  'automation',
+  'crm',
+  'analytics',
+  'integration',
+  'other',
+] as const;
+
+export const PROJECT_TIMELINES = ['asap', 'quarter', 'year', 'planning'] as const;
+
+// Optional selects submit '' when nothing is chosen
+const optionalChoice = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.union([z.enum(values), z.literal('')], { errorMap: () => ({ message: 'validation.choice.invalid' }) }).optional();
+
+const optionalText = (max: number) => z.string().trim().max(max, 'validation.text.tooLong').optional();
+
+// Error messages are i18n catalog keys, translated where they are shown
+export const contactFormSchema = z.object({
+  name: z.string().trim().min(2, 'validation.name.required').max(100, 'validation.name.tooLong'),
+  email: z.string().trim().email('validation.email.invalid').max(254, 'validation.email.invalid'),
+  company: optionalText(100),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^$|^\+?[\d\s().-]{7,20}$/, 'validation.phone.invalid')
+    .optional(),
+  projectType: optionalChoice(PROJECT_TYPES),
+  timeline: optionalChoice(PROJECT_TIMELINES),
+  budget: optionalText(50),
+  message: z
+    .string()
+    .trim()
+    .min(10, 'validation.message.tooShort')
+    .max(5000, 'validation.message.tooLong'),
+});
+
+export type ContactFormValues = z.infer<typeof contactFormSchema>;
+export type ContactFormField = keyof ContactFormValues;
+export type ContactFormErrors = Partial<Record<ContactFormField, string>>;
+
+// =========================== TYPES ===========================
+
+/**
+ * What is delivered to a backend. The idempotency key is generated once per
+ * filled-in form, so retries, double clicks and offline replays of the same
+ * form are recognised as one lead.
+ */
+export interface LeadSubmission {
+  idempotencyKey: string;
+  lead: ContactFormValues;
+  submittedAt: number;
+  page: string;
+}
+
+export interface LeadAdapter {
+  readonly name: string;
+  isAvailable(): boolean;
+  submit(submission: LeadSubmission): Promise<void>;
+}
+
+/**
+ * Anti-spam signals collected by the form
+ */
+export interface SpamSignals {
+  honeypot?: string; // Hidden field only bots fill in
+  startedAt: number; // When the form was first shown
+}
+
+export type SpamReason = 'honeypot' | 'too_fast';
+
+export interface LeadQueue {
+  enqueue(endpoint: string, submission: LeadSubmission): Promise<boolean>;
+}
+
+export type LeadSubmissionResult =
+  | { status: 'sent'; adapter: string }
+  | { status: 'queued' }
+  | { status: 'invalid'; errors: ContactFormErrors }
+  | { status: 'spam'; reason: SpamReason }
+  | { status: 'failed'; error: string };
+
+export interface LeadSubmissionOptions {
+  endpoint?: string;
+  mailto?: string;
+  adapters?: LeadAdapter[];
+  queue?: LeadQueue;
+  minTimeToSubmit?: number; // milliseconds
+}
+
+// =========================== CONSTANTS ===========================
+
+export const DEFAULT_LEAD_ENDPOINT = '/api/contact';
+export const DEFAULT_LEAD_EMAIL = 'hello@optimumsolutions.com';
+export const HONEYPOT_FIELD = 'website';
+
+// Must match CONTACT_SYNC_TAG in public/sw.js
+export const CONTACT_SYNC_TAG = 'contact-form-sync';
+
+// Nobody reads the form and writes a project description in under 3 seconds
+const MIN_TIME_TO_SUBMIT = 3000;
+const QUEUE_ACK_TIMEOUT = 2000;
+
+const FIELD_LABELS: Record<ContactFormField, string> = {
+  name: 'Name',
+  email: 'Email',
+  company: 'Company',
+  phone: 'Phone',
+  projectType: 'Project type',
+  timeline: 'Timeline',
+  budget: 'Budget',
+  message: 'Project details',
+};
+
+// =========================== HELPERS ===========================
+
+export function validateContactForm(
+  values: Record<string, unknown>
+): { success: true; data: ContactFormValues } | { success: false; errors: ContactFormErrors } {
+  const result = contactFormSchema.safeParse(values);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const errors: ContactFormErrors = {};
+  result.error.issues.forEach((issue: z.ZodIssue) => {
+    const field = issue.path[0] as ContactFormField;
+    errors[field] ??= issue.message; // First message per field
+  });
+  return { success: false, errors };
+}
+
+export function detectSpam(
+  signals: SpamSignals,
+  now: number = Date.now(),
+  minTimeToSubmit: number = MIN_TIME_TO_SUBMIT
+): SpamReason | null {
+  if (signals.honeypot && signals.honeypot.trim() !== '') return 'honeypot';
+  if (now - signals.startedAt < minTimeToSubmit) return 'too_fast';
+  return null;
+}
+
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `lead-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function buildMailtoUrl(submission: LeadSubmission, to: string): string {
+  const { lead } = submission;
+  const body: string = (Object.keys(FIELD_LABELS) as ContactFormField[])
+    .filter((field: ContactFormField) => field !== 'message' && lead[field])
+    .map((field: ContactFormField) => `${FIELD_LABELS[field]}: ${lead[field]}`)
+    .concat(['', lead.message, '', `Reference: ${submission.idempotencyKey}`])
+    .join('\n');
+
+  const params = new URLSearchParams({
+    subject: `Project enquiry from ${lead.name}`,
+    body,
+  });
+
+  // mailto bodies must use %20 rather than + for spaces
+  return `mailto:${to}?${params.toString().replace(/\+/g, '%20')}`;
+}
+
+/**
+ * Whether a failed delivery is worth queueing for a later retry: network
+ * failures (fetch rejects with a TypeError), being offline, or adapter errors
+ * flagged `retryable` such as a 503 from the service worker's offline response
+ */
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof TypeError ||
+  (typeof navigator !== 'undefined' && navigator.onLine === false) ||
+  (error instanceof Error && (error as Error & { retryable?: boolean }).retryable === true);
+
+// =========================== ADAPTERS ===========================
+
+export class HttpLeadAdapter implements LeadAdapter {
+  readonly name = 'http';
+
+  constructor(private readonly endpoint: string = DEFAULT_LEAD_ENDPOINT) {}
+
+  isAvailable(): boolean {
+    return typeof fetch === 'function';
+  }
+
+  async submit(submission: LeadSubmission): Promise<void> {
+    const response: Response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': submission.idempotencyKey,
+      },
+      body: JSON.stringify(submission),
+    });
+
+    // 409: this key was already accepted, e.g. by a background sync replay
+    if (!response.ok && response.status !== 409) {
+      throw Object.assign(new Error(`Contact API error: ${response.status}`), {
+        retryable: response.status >= 500 || response.status === 429,
+      });
+    }
+  }
+}
+
+/**
+ * Last resort: opens the visitor's mail client with the enquiry filled in
+ */
+export class MailtoLeadAdapter implements LeadAdapter {
+  readonly name = 'mailto';
+
+  constructor(private readonly to: string = DEFAULT_LEAD_EMAIL) {}
+
+  isAvailable(): boolean {
+    return typeof window !== 'undefined';
+  }
+
+  async submit(submission: LeadSubmission): Promise<void> {
+    window.location.href = buildMailtoUrl(submission, this.to);
+  }
+}
+
+// =========================== OFFLINE QUEUE ===========================
+
+/**
+ * Hands submissions to the service worker, which stores them in its `forms`
+ * IndexedDB store (CACHE_FORM) and replays them on background sync. Only
+ * reports success once the worker acknowledges the message.
+ */
+export class ServiceWorkerLeadQueue implements LeadQueue {
+  constructor(private readonly ackTimeout: number = QUEUE_ACK_TIMEOUT) {}
+
+  async enqueue(endpoint: string, submission: LeadSubmission): Promise<boolean> {
+    const controller: ServiceWorker | null | undefined =
+      typeof navigator !== 'undefined' ? navigator.serviceWorker?.controller : null;
+    if (!controller || typeof MessageChannel === 'undefined') return false;
+
+    const acknowledged: boolean = await new Promise<boolean>((resolve) => {
+      const channel = new MessageChannel();
+      const timer = setTimeout(() => {
+        channel.port1.close();
+        resolve(false);
+      }, this.ackTimeout);
+
+      channel.port1.onmessage = (event: MessageEvent) => {
+        clearTimeout(timer);
+        channel.port1.close();
+        resolve(event.data?.type === 'FORM_CACHED');
+      };
+      controller.postMessage({ type: 'CACHE_FORM', payload: { endpoint, submission } }, [channel.port2]);
+    });
+
+    if (acknowledged) {
+      await this.requestSync(controller);
+    }
+    return acknowledged;
+  }
+
+  private async requestSync(controller: ServiceWorker): Promise<void> {
+    try {
+      const registration = (await navigator.serviceWorker.ready) as ServiceWorkerRegistration & {
+        sync?: { register(tag: string): Promise<void> };
+      };
+
+      if (registration.sync) {
+        await registration.sync.register(CONTACT_SYNC_TAG);
+        return;
+      }
+    } catch {
+      // Fall through to replaying when the connection returns
+    }
+
+    // Without Background Sync, ask the worker to replay once we are back online
+    window.addEventListener('online', () => controller.postMessage({ type: 'SYNC_FORMS' }), { once: true });
+  }
+}
+
+// =========================== LEAD SUBMISSION SERVICE ===========================
+
+export class LeadSubmissionService {
+  private readonly endpoint: string;
+  private readonly adapters: LeadAdapter[];
+  private readonly queue: LeadQueue;
+  private readonly minTimeToSubmit: number;
+  private readonly inFlight: Map<string, Promise<LeadSubmissionResult>> = new Map();
+
+  constructor(options: LeadSubmissionOptions = {}) {
+    this.endpoint = options.endpoint ?? DEFAULT_LEAD_ENDPOINT;
+    this.adapters = options.adapters ?? [
+      new HttpLeadAdapter(this.endpoint),
+      new MailtoLeadAdapter(options.mailto ?? DEFAULT_LEAD_EMAIL),
+    ];
+    this.queue = options.queue ?? new ServiceWorkerLeadQueue();
+    this.minTimeToSubmit = options.minTimeToSubmit ?? MIN_TIME_TO_SUBMIT;
+  }
+
+  /**
+   * Validate, screen and deliver a lead. Submitting again with the same
+   * idempotency key while a delivery is in progress returns that delivery.
+   */
+  submit(
+    values: Record<string, unknown>,
+    signals: SpamSignals,
+    idempotencyKey: string = generateIdempotencyKey()
+  ): Promise<LeadSubmissionResult> {
+    const pending: Promise<LeadSubmissionResult> | undefined = this.inFlight.get(idempotencyKey);
+    if (pending) return pending;
+
+    const delivery: Promise<LeadSubmissionResult> = this.process(values, signals, idempotencyKey)
+      .finally(() => this.inFlight.delete(idempotencyKey));
+    this.inFlight.set(idempotencyKey, delivery);
+    return delivery;
+  }
+
+  private async process(
+    values: Record<string, unknown>,
+    signals: SpamSignals,
+    idempotencyKey: string
+  ): Promise<LeadSubmissionResult> {
+    const validation = validateContactForm(values);
+    if (!validation.success) {
+      return { status: 'invalid', errors: validation.errors };
+    }
+
+    const spamReason: SpamReason | null = detectSpam(signals, Date.now(), this.minTimeToSubmit);
+    if (spamReason) {
+      return { status: 'spam', reason: spamReason };
+    }
+
+    const submission: LeadSubmission = {
+      idempotencyKey,
+      lead: validation.data,
+      submittedAt: Date.now(),
+      page: typeof window !== 'undefined' ? window.location.pathname : '/',
+    };
+
+    let lastError = 'No delivery method available';
+
+    for (const adapter of this.adapters.filter((candidate: LeadAdapter) => candidate.isAvailable())) {
+      try {
+        await adapter.submit(submission);
+        return { status: 'sent', adapter: adapter.name };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+
+        if (isRetryableError(error) && await this.queue.enqueue(this.endpoint, submission)) {
+          return { status: 'queued' };
+        }
+      }
+    }
+
+    return { status: 'failed', error: lastError };
+  }
+}
+
+// Singleton instance
+export const leadSubmissionService = new LeadSubmissionService();
@@ -0,0 +1,397 @@
+/**
+ * @fileoverview Pricing Engine
+ * @description Rule-driven project estimates with feature dependencies, discounts, rush pricing, currencies and shareable quotes
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+import defaultRules from './pricingRules.json';
+
+// =========================== RULE SCHEMA ===========================
+
+const optionSchema = z.object({
+  label: z.string(),
+  excludedFeatures: z.array(z.string()).optional(),
+});
+
+const multiplierOptionSchema = optionSchema.extend({
+  multiplier: z.number().positive(),
+});
+
+export const pricingRulesSchema = z.object({
+  version: z.number().int(),
+  baseCurrency: z.string().length(3),
+  estimateRange: z.object({ low: z.number().positive(), high: z.number().positive() }),
+  projectTypes: z.record(optionSchema.extend({ basePrice: z.number().nonnegative() })),
+  designLevels: z.record(multiplierOptionSchema),
+  environments: z.record(multiplierOptionSchema),
+  features: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    price: z.number().nonnegative(),
+    requires: z.array(z.string()).optional(),
+    excludes: z.array(z.string()).optional(),
+  })),
+  volumeDiscounts: z.array(z.object({
+    minFeatures: z.number().int().positive(),
+    rate: z.number().min(0).max(1),
+    label: z.string(),
+  })),
+  timelines: z.record(multiplierOptionSchema),
+  defaultTimeline: z.string(),
+  currencies: z.record(z.object({ rate: z.number().positive(), locale: z.string() })),
+});
+
+export type PricingRules = z.infer<typeof pricingRulesSchema>;
+export type PricingFeature = PricingRules['features'][number];
+
+// =========================== TYPES ===========================
+
+export interface QuoteSelection {
+  projectType: string;
+  design: string;
+  environment: string;
+  features: string[];
+  timeline: string;
+  currency: string;
+}
+
+export type LineItemKind = 'base' | 'feature' | 'multiplier' | 'discount' | 'timeline';
+
+export interface QuoteLineItem {
+  id: string;
+  kind: LineItemKind;
+  label: string;
+  amount: number; // In the quote currency, negative for discounts
+  multiplier?: number;
+}
+
+export interface Quote {
+  selection: QuoteSelection;
+  lineItems: QuoteLineItem[];
+  total: number;
+  min: number;
+  max: number;
+  currency: string;
+  baseTotal: number; // Total in the rules' base currency, for reporting
+  rulesVersion: number;
+}
+
+// Compact, URL-safe shape of a QuoteSelection
+interface EncodedQuote {
+  v: number;
+  p: string;
+  d: string;
+  e: string;
+  f: string[];
+  t: string;
+  c: string;
+}
+
+// =========================== CONSTANTS ===========================
+
+export const QUOTE_QUERY_PARAM = 'quote';
+
+export const DEFAULT_PRICING_RULES: PricingRules = pricingRulesSchema.parse(defaultRules);
+
+// =========================== RULES ===========================
+
+/**
+ * Validate a rule set, e.g. one fetched from a CMS. Throws a ZodError when
+ * the JSON does not match the schema or references unknown features.
+ */
+export function parsePricingRules(json: unknown): PricingRules {
+  const rules: PricingRules = pricingRulesSchema.parse(json);
+  const featureIds = new Set<string>(rules.features.map((feature: PricingFeature) => feature.id));
+
+  const references: string[] = [
+    ...rules.features.flatMap((feature: PricingFeature) => [...(feature.requires ?? []), ...(feature.excludes ?? [])]),
+    ...[rules.projectTypes, rules.environments, rules.designLevels, rules.timelines]
+      .flatMap((options) => Object.values(options).flatMap((option) => option.excludedFeatures ?? [])),
+  ];
+
+  const unknown: string[] = references.filter((id: string) => !featureIds.has(id));
+  if (unknown.length > 0) {
+    throw new z.ZodError([{
+      code: z.ZodIssueCode.custom,
+      path: ['features'],
+      message: `Unknown feature references: ${[...new Set(unknown)].join(', ')}`,
+    }]);
+  }
+
+  return rules;
+}
+
+export function createEmptySelection(rules: PricingRules = DEFAULT_PRICING_RULES): QuoteSelection {
+  return {
+    projectType: '',
+    design: '',
+    environment: '',
+    features: [],
+    timeline: rules.defaultTimeline,
+    currency: rules.baseCurrency,
+  };
+}
+
+export function isSelectionComplete(selection: QuoteSelection): boolean {
+  return Boolean(selection.projectType && selection.design && selection.environment);
+}
+
+// =========================== FEATURE DEPENDENCIES ===========================
+
+const findFeature = (rules: PricingRules, id: string): PricingFeature | undefined =>
+  rules.features.find((feature: PricingFeature) => feature.id === id);
+
+/**
+ * Features that cannot be chosen with the current project type, design,
+ * environment and timeline
+ */
+export function getUnavailableFeatures(rules: PricingRules, selection: Omit<QuoteSelection, 'features'>): Set<string> {
+  return new Set<string>([
+    ...(rules.projectTypes[selection.projectType]?.excludedFeatures ?? []),
+    ...(rules.designLevels[selection.design]?.excludedFeatures ?? []),
+    ...(rules.environments[selection.environment]?.excludedFeatures ?? []),
+    ...(rules.timelines[selection.timeline]?.excludedFeatures ?? []),
+  ]);
+}
+
+const withRequirements = (rules: PricingRules, ids: string[]): string[] => {
+  const resolved = new Set<string>();
+  const visit = (id: string): void => {
+    if (resolved.has(id) || !findFeature(rules, id)) return;
+    resolved.add(id);
+    findFeature(rules, id)?.requires?.forEach(visit);
+  };
+  ids.forEach(visit);
+  return [...resolved];
+};
+
+const dependentsOf = (rules: PricingRules, id: string, selected: string[]): string[] =>
+  selected.filter((candidate: string) => findFeature(rules, candidate)?.requires?.includes(id));
+
+/**
+ * Bring a feature list in line with the rules: add missing requirements, then
+ * drop unavailable or mutually excluded features along with anything that
+ * depends on them. Earlier features win exclusion conflicts.
+ */
+export function resolveFeatures(rules: PricingRules, selection: QuoteSelection): string[] {
+  const unavailable: Set<string> = getUnavailableFeatures(rules, selection);
+  const kept: string[] = [];
+
+  withRequirements(rules, selection.features).forEach((id: string) => {
+    const feature: PricingFeature | undefined = findFeature(rules, id);
+    const conflicts: boolean = kept.some((other: string) =>
+      feature?.excludes?.includes(other) || findFeature(rules, other)?.excludes?.includes(id)
+    );
+    if (!unavailable.has(id) && !conflicts) kept.push(id);
+  });
+
+  // Drop features whose requirements did not survive
+  let result: string[] = kept;
+  let changed = true;
+  while (changed) {
+    const next: string[] = result.filter((id: string) =>
+      (findFeature(rules, id)?.requires ?? []).every((required: string) => result.includes(required))
+    );
+    changed = next.length !== result.length;
+    result = next;
+  }
+
+  // Keep the rules' display order
+  return rules.features.map((feature: PricingFeature) => feature.id).filter((id: string) => result.includes(id));
+}
+
+/**
+ * Check or uncheck a feature. Checking adds its requirements and removes
+ * features it excludes; unchecking also removes features that depend on it.
+ */
+export function toggleFeature(rules: PricingRules, selection: QuoteSelection, id: string, checked: boolean): string[] {
+  if (checked) {
+    const feature: PricingFeature | undefined = findFeature(rules, id);
+    const withoutConflicts: string[] = selection.features.filter((other: string) =>
+      !feature?.excludes?.includes(other) && !findFeature(rules, other)?.excludes?.includes(id)
+    );
+    return resolveFeatures(rules, { ...selection, features: [id, ...withoutConflicts] });
+  }
+
+  const removed = new Set<string>([id]);
+  let pending: string[] = [id];
+  while (pending.length > 0) {
+    pending = pending
+      .flatMap((removedId: string) => dependentsOf(rules, removedId, selection.features))
+      .filter((dependent: string) => !removed.has(dependent));
+    pending.forEach((dependent: string) => removed.add(dependent));
+  }
+
+  return selection.features.filter((feature: string) => !removed.has(feature));
+}
+
+// =========================== PRICING ===========================
+
+const roundAmount = (amount: number): number => Math.round(amount);
+
+/**
+ * Price a selection. Multipliers apply to the running total in order:
+ * design, environment, volume discount, then timeline.
+ */
+export function calculateQuote(selection: QuoteSelection, rules: PricingRules = DEFAULT_PRICING_RULES): Quote {
+  const currency: string = rules.currencies[selection.currency] ? selection.currency : rules.baseCurrency;
+  const rate: number = rules.currencies[currency]?.rate ?? 1;
+  const convert = (amount: number): number => roundAmount(amount * rate);
+
+  const features: string[] = resolveFeatures(rules, selection);
+  const resolvedSelection: QuoteSelection = { ...selection, features, currency };
+  const empty: Quote = {
+    selection: resolvedSelection,
+    lineItems: [],
+    total: 0,
+    min: 0,
+    max: 0,
+    currency,
+    baseTotal: 0,
+    rulesVersion: rules.version,
+  };
+
+  const projectType = rules.projectTypes[selection.projectType];
+  const design = rules.designLevels[selection.design];
+  const environment = rules.environments[selection.environment];
+  if (!projectType || !design || !environment) return empty;
+
+  const lineItems: QuoteLineItem[] = [];
+  let running: number = projectType.basePrice;
+  lineItems.push({ id: selection.projectType, kind: 'base', label: projectType.label, amount: convert(running) });
+
+  features.forEach((id: string) => {
+    const feature: PricingFeature = findFeature(rules, id)!;
+    running += feature.price;
+    lineItems.push({ id, kind: 'feature', label: feature.label, amount: convert(feature.price) });
+  });
+
+  const applyMultiplier = (id: string, kind: LineItemKind, label: string, multiplier: number): void => {
+    if (multiplier === 1) return;
+    const adjustment: number = running * (multiplier - 1);
+    running += adjustment;
+    lineItems.push({ id, kind, label, amount: convert(adjustment), multiplier });
+  };
+
+  applyMultiplier(selection.design, 'multiplier', design.label, design.multiplier);
+  applyMultiplier(selection.environment, 'multiplier', environment.label, environment.multiplier);
+
+  const discount = rules.volumeDiscounts
+    .filter((tier) => features.length >= tier.minFeatures)
+    .sort((a, b) => b.rate - a.rate)[0];
+  if (discount) {
+    applyMultiplier(`discount-${discount.minFeatures}`, 'discount', discount.label, 1 - discount.rate);
+  }
+
+  const timeline = rules.timelines[selection.timeline];
+  if (timeline) {
+    applyMultiplier(selection.timeline, 'timeline', timeline.label, timeline.multiplier);
+  }
+
+  // Sum the rounded line items so the breakdown always adds up to the total
+  const total: number = lineItems.reduce((sum: number, item: QuoteLineItem) => sum + item.amount, 0);
+
+  return {
+    ...empty,
+    lineItems,
+    total,
+    min: roundAmount(total * rules.estimateRange.low),
+    max: roundAmount(total * rules.estimateRange.high),
+    baseTotal: roundAmount(running),
+  };
+}
+
+/**
+ * Format an amount in a currency. Separators follow `locale` when given (the
+ * visitor's language), otherwise the currency's own locale from the rules
+ */
+export function formatPrice(
+  amount: number,
+  currency: string,
+  rules: PricingRules = DEFAULT_PRICING_RULES,
+  locale?: string
+): string {
+  return new Intl.NumberFormat(locale ?? rules.currencies[currency]?.locale ?? 'en-US', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+// =========================== SHAREABLE QUOTES ===========================
+
+const toBase64Url = (value: string): string =>
+  btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string): string =>
+  atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+
+/**
+ * Encode a selection for a URL. Only choices are stored, never prices, so a
+ * reopened quote is priced with the current rules.
+ */
+export function encodeQuote(selection: QuoteSelection, rules: PricingRules = DEFAULT_PRICING_RULES): string {
+  const encoded: EncodedQuote = {
+    v: rules.version,
+    p: selection.projectType,
+    d: selection.design,
+    e: selection.environment,
+    f: selection.features,
+    t: selection.timeline,
+    c: selection.currency,
+  };
+  return toBase64Url(JSON.stringify(encoded));
+}
+
+/**
+ * Decode a quote from a URL. Unknown options are dropped rather than
+ * rejected, so links survive rule changes. Returns null for malformed input.
+ */
+export function decodeQuote(value: string, rules: PricingRules = DEFAULT_PRICING_RULES): QuoteSelection | null {
+  let encoded: Partial<EncodedQuote>;
+  try {
+    encoded = JSON.parse(fromBase64Url(value));
+  } catch {
+    return null;
+  }
+  if (!encoded || typeof encoded !== 'object') return null;
+
+  const pick = (key: string | undefined, options: Record<string, unknown>, fallback = ''): string =>
+    typeof key === 'string' && key in options ? key : fallback;
+
+  const selection: QuoteSelection = {
+    projectType: pick(encoded.p, rules.projectTypes),
+    design: pick(encoded.d, rules.designLevels),
+    environment: pick(encoded.e, rules.environments),
+    features: Array.isArray(encoded.f) ? encoded.f.filter((id): id is string => typeof id === 'string') : [],
+    timeline: pick(encoded.t, rules.timelines, rules.defaultTimeline),
+    currency: pick(encoded.c, rules.currencies, rules.baseCurrency),
+  };
+
+  return { ...selection, features: resolveFeatures(rules, selection) };
+}
+
+export function getQuoteUrl(selection: QuoteSelection, rules: PricingRules = DEFAULT_PRICING_RULES): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set(QUOTE_QUERY_PARAM, encodeQuote(selection, rules));
+  url.hash = 'estimator';
+  return url.toString();
+}
+
+/**
+ * Plain-text breakdown for emails and the contact form
+ */
+export function formatQuoteSummary(quote: Quote, rules: PricingRules = DEFAULT_PRICING_RULES): string {
+  const format = (amount: number): string => formatPrice(amount, quote.currency, rules);
+  const timeline: string | undefined = rules.timelines[quote.selection.timeline]?.label;
+
+  return [
+    `Project estimate: ${format(quote.min)} - ${format(quote.max)}`,
+    ...quote.lineItems.map((item: QuoteLineItem) =>
+      `- ${item.label}${item.multiplier ? ` (×${item.multiplier})` : ''}: ${format(item.amount)}`
+    ),
+    ...(timeline ? [`Timeline: ${timeline}`] : []),
+  ].join('\n');
+}
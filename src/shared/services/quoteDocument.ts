@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Quote Documents
+ * @description Branded, printable quotes with an ID and validity date, rendered to PDF client-side
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { DEFAULT_LEAD_EMAIL } from './leadSubmission';
+import {
+  DEFAULT_PRICING_RULES,
+  encodeQuote,
+  formatPrice,
+  type PricingFeature,
+  type PricingRules,
+  type Quote,
+  type QuoteLineItem,
+} from './pricingEngine';
+import { A4, PdfWriter, type PdfColor } from '@/shared/utils/pdfWriter';
+
+// =========================== TYPES ===========================
+
+export interface QuoteDocument {
+  id: string;
+  issuedAt: Date;
+  validUntil: Date;
+  quote: Quote;
+  details: Array<{ label: string; value: string }>;
+  features: string[];
+  url?: string;
+}
+
+export interface QuoteDocumentOptions {
+  rules?: PricingRules;
+  issuedAt?: Date;
+  validityDays?: number;
+  url?: string; // Link that reopens the quote in the estimator
+}
+
+// =========================== CONSTANTS ===========================
+
+export const QUOTE_VALIDITY_DAYS = 30;
+
+export const QUOTE_BRAND = {
+  name: 'Optimum Solutions Group',
+  email: DEFAULT_LEAD_EMAIL,
+  phone: '+1 (555) 123-4567',
+  website: 'optimumsolutions.com',
+};
+
+// --primary and --secondary from index.css
+const PRIMARY: PdfColor = [235, 20, 20];
+const SECONDARY: PdfColor = [214, 54, 0];
+const TEXT: PdfColor = [33, 33, 33];
+const MUTED: PdfColor = [115, 115, 115];
+const RULE: PdfColor = [220, 220, 220];
+const DISCOUNT: PdfColor = [22, 163, 74];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =========================== DOCUMENT ===========================
+
+// FNV-1a, enough to give each configuration a short stable fingerprint
+const hash = (value: string): number => {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+};
+
+/**
+ * `OSG-YYYYMMDD-XXXXX`: the same configuration exported on the same day gets
+ * the same ID, so a forwarded PDF and a printed copy can be matched up
+ */
+export function generateQuoteId(quote: Quote, issuedAt: Date, rules: PricingRules = DEFAULT_PRICING_RULES): string {
+  const date: string = issuedAt.toISOString().slice(0, 10).replace(/-/g, '');
+  const fingerprint: string = hash(encodeQuote(quote.selection, rules)).toString(36).toUpperCase().padStart(5, '0').slice(-5);
+  return `OSG-${date}-${fingerprint}`;
+}
+
+export function createQuoteDocument(quote: Quote, options: QuoteDocumentOptions = {}): QuoteDocument {
+  const rules: PricingRules = options.rules ?? DEFAULT_PRICING_RULES;
+  const issuedAt: Date = options.issuedAt ?? new Date();
+  const { selection } = quote;
+
+  const details: QuoteDocument['details'] = [
+    { label: 'Project type', value: rules.projectTypes[selection.projectType]?.label },
+    { label: 'Design', value: rules.designLevels[selection.design]?.label },
+    { label: 'Environment', value: rules.environments[selection.environment]?.label },
+    { label: 'Timeline', value: rules.timelines[selection.timeline]?.label },
+    { label: 'Currency', value: quote.currency },
+  ].filter((detail): detail is { label: string; value: string } => Boolean(detail.value));
+
+  return {
+    id: generateQuoteId(quote, issuedAt, rules),
+    issuedAt,
+    validUntil: new Date(issuedAt.getTime() + (options.validityDays ?? QUOTE_VALIDITY_DAYS) * DAY_MS),
+    quote,
+    details,
+    features: selection.features.map((id: string) =>
+      rules.features.find((feature: PricingFeature) => feature.id === id)?.label ?? id
+    ),
+    ...(options.url && { url: options.url }),
+  };
+}
+
+export function formatQuoteDate(date: Date, locale = 'en-US'): string {
+  return new Intl.DateTimeFormat(locale, { year: 'numeric', month: 'long', day: 'numeric' }).format(date);
+}
+
+// =========================== PDF ===========================
+
+const MARGIN = 48;
+
+/**
+ * Lay the quote out on A4 pages with the brand header, details, line items,
+ * estimate range and validity terms
+ */
+export function renderQuotePdf(document: QuoteDocument, rules: PricingRules = DEFAULT_PRICING_RULES): PdfWriter {
+  const pdf = new PdfWriter(A4.width, A4.height);
+  const right: number = A4.width - MARGIN;
+  const format = (amount: number): string => formatPrice(amount, document.quote.currency, rules);
+  let y = 0;
+
+  const ensureSpace = (height: number): void => {
+    if (y + height > A4.height - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  // Brand header
+  pdf.rect(0, 0, A4.width, 96, PRIMARY);
+  pdf.rect(0, 96, A4.width, 4, SECONDARY);
+  pdf.text(MARGIN, 30, QUOTE_BRAND.name, { size: 20, font: 'bold', color: [255, 255, 255] });
+  pdf.text(MARGIN, 58, 'Project Estimate', { size: 12, color: [255, 255, 255] });
+  pdf.text(right, 30, document.id, { size: 11, font: 'bold', color: [255, 255, 255], align: 'right' });
+  pdf.text(right, 48, `Issued ${formatQuoteDate(document.issuedAt)}`, { size: 9, color: [255, 255, 255], align: 'right' });
+  pdf.text(right, 62, `Valid until ${formatQuoteDate(document.validUntil)}`, { size: 9, color: [255, 255, 255], align: 'right' });
+  y = 128;
+
+  // Project details
+  document.details.forEach((detail) => {
+    pdf.text(MARGIN, y, detail.label, { size: 10, color: MUTED });
+    pdf.text(MARGIN + 110, y, detail.value, { size: 10, color: TEXT });
+    y += 16;
+  });
+
+  if (document.features.length > 0) {
+    pdf.text(MARGIN, y, 'Features', { size: 10, color: MUTED });
+    pdf.text(MARGIN + 110, y, document.features.join(', '), { size: 10, color: TEXT });
+    y += 16;
+  }
+
+  // Line items
+  y += 16;
+  pdf.text(MARGIN, y, 'Breakdown', { size: 13, font: 'bold', color: TEXT });
+  y += 24;
+  pdf.text(MARGIN, y, 'Item', { size: 9, font: 'bold', color: MUTED });
+  pdf.text(right, y, 'Amount', { size: 9, font: 'bold', color: MUTED, align: 'right' });
+  y += 14;
+  pdf.line(MARGIN, y, right, y, RULE);
+  y += 8;
+
+  document.quote.lineItems.forEach((item: QuoteLineItem) => {
+    ensureSpace(20);
+    const label: string = item.multiplier ? `${item.label} (×${item.multiplier})` : item.label;
+    pdf.text(MARGIN, y, label, { size: 10, color: TEXT });
+    pdf.text(right, y, format(item.amount), { size: 10, color: item.amount < 0 ? DISCOUNT : TEXT, align: 'right' });
+    y += 18;
+  });
+
+  ensureSpace(90);
+  pdf.line(MARGIN, y, right, y, RULE);
+  y += 10;
+  pdf.text(MARGIN, y, 'Total', { size: 11, font: 'bold', color: TEXT });
+  pdf.text(right, y, format(document.quote.total), { size: 11, font: 'bold', color: TEXT, align: 'right' });
+  y += 32;
+
+  // Estimate range
+  pdf.rect(MARGIN, y, right - MARGIN, 52, [253, 237, 237]);
+  pdf.text(MARGIN + 16, y + 12, 'Estimated project cost', { size: 9, color: MUTED });
+  pdf.text(MARGIN + 16, y + 26, `${format(document.quote.min)} - ${format(document.quote.max)}`, {
+    size: 16,
+    font: 'bold',
+    color: PRIMARY,
+  });
+  y += 76;
+
+  // Terms and contact
+  ensureSpace(80);
+  const terms: string[] = [
+    `This estimate is valid until ${formatQuoteDate(document.validUntil)} and is not a binding offer.`,
+    'Final pricing is confirmed after a free discovery call.',
+    ...(document.url ? [`Reopen this quote online: ${document.url}`] : []),
+  ];
+  terms.forEach((line: string) => {
+    pdf.text(MARGIN, y, line, { size: 9, color: MUTED });
+    y += 14;
+  });
+
+  pdf.text(MARGIN, A4.height - MARGIN, `${QUOTE_BRAND.name}  •  ${QUOTE_BRAND.email}  •  ${QUOTE_BRAND.phone}  •  ${QUOTE_BRAND.website}`, {
+    size: 8,
+    color: MUTED,
+  });
+
+  return pdf;
+}
+
+/**
+ * Generate the PDF in the browser and save it as `<quote id>.pdf`
+ */
+export function downloadQuotePdf(document: QuoteDocument, rules: PricingRules = DEFAULT_PRICING_RULES): void {
+  const blob: Blob = renderQuotePdf(document, rules).toBlob(`${QUOTE_BRAND.name} quote ${document.id}`);
+  const url: string = URL.createObjectURL(blob);
+
+  const link: HTMLAnchorElement = window.document.createElement('a');
+  link.href = url;
+  link.download = `${document.id}.pdf`;
+  window.document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
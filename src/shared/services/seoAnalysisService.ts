@@ -6,6 +6,27 @@
  */
 
 import { eventBus, EVENT_TYPES } from './eventBus';
+import { seoAnalyzerRegistry, type SEOAnalyzer, type SEOAnalyzerRegistry } from './seoContentAnalyzers';
+
+export interface SEOHeading {
+  level: number;
+  text: string;
+}
+
+export interface SEOImage {
+  src: string;
+  /** Absent when the img has no alt attribute; an empty string marks a decorative image */
+  alt?: string;
+}
+
+export interface SEOLink {
+  /** Resolved URL */
+  href: string;
+  text: string;
+  internal: boolean;
+  /** Target id of a same-page anchor such as #contact */
+  fragment?: string;
+}
 
 export interface SEOMetadata {
   title?: string;
@@ -24,7 +45,17 @@ export interface SEOMetadata {
   twitterCreator?: string;
   canonicalUrl?: string;
   robots?: string;
+  /** A single JSON-LD object, or several combined under @graph */
   structuredData?: Record<string, unknown>;
+  /** Page outline in document order */
+  headings?: SEOHeading[];
+  images?: SEOImage[];
+  /** Readable prose (paragraphs, list items, quotes), one block per line */
+  contentText?: string;
+  /** http(s) links on the page */
+  links?: SEOLink[];
+  /** Ids that same-page anchors can target */
+  anchorIds?: string[];
 }
 
 export interface SEOIssue {
@@ -60,7 +91,22 @@ export interface SEOAnalysisResult {
   };
 }
 
+export interface SEOAnalyzeOptions {
+  /** Content analyzer ids to run; all registered analyzers by default */
+  analyzers?: string[];
+}
+
+// Score deducted per content issue
+const IMPACT_PENALTY: Record<SEOIssue['impact'], number> = {
+  critical: 20,
+  high: 10,
+  medium: 5,
+  low: 2,
+};
+
 export class SEOAnalysisService {
+  constructor(private readonly analyzerRegistry: SEOAnalyzerRegistry = seoAnalyzerRegistry) {}
+
   private readonly MIN_TITLE_LENGTH = 30;
   private readonly MAX_TITLE_LENGTH = 60;
   private readonly MIN_DESCRIPTION_LENGTH = 120;
@@ -70,7 +116,7 @@ export class SEOAnalysisService {
   /**
    * Analyze SEO metadata and return comprehensive results
    */
-  analyze(metadata: SEOMetadata): SEOAnalysisResult {
+  analyze(metadata: SEOMetadata, options: SEOAnalyzeOptions = {}): SEOAnalysisResult {
     if (!metadata || typeof metadata !== 'object') {
       throw new Error('Invalid metadata: expected an object');
     }
@@ -111,6 +157,14 @@ export class SEOAnalysisService {
     }> = this.analyzeMetaTags(metadata, issues);
     score -= this.calculateMetaTagsScore(metaTags);
 
+    // Analyze rendered content
+    this.analyzerRegistry.select(options.analyzers).forEach((analyzer: SEOAnalyzer) => {
+      analyzer.analyze(metadata).forEach((issue: SEOIssue) => {
+        issues.push(issue);
+        score -= issue.type === 'info' ? 0 : IMPACT_PENALTY[issue.impact];
+      });
+    });
+
     // Calculate performance and accessibility scores
     const performanceScore: number = this.calculatePerformanceScore(metadata);
     const accessibilityScore: number = this.calculateAccessibilityScore(metadata);
@@ -134,7 +188,8 @@ export class SEOAnalysisService {
       score: result.score,
       issuesCount: issues.length,
       criticalIssues: issues.filter((i: SEOIssue) => i.impact === 'critical').length,
-    });
+      url: metadata.canonicalUrl || metadata.url,
+    }, 'SEOAnalysisService');
 
     return result;
   }
@@ -394,7 +449,13 @@ export class SEOAnalysisService {
       });
     }
 
-    if (!structuredData['@type']) {
+    // Pages with several JSON-LD blocks are analyzed as one @graph; every node needs a type
+    const graph: unknown = structuredData['@graph'];
+    const nodes: unknown[] = Array.isArray(graph) ? graph : [structuredData];
+    const isTyped = (node: unknown): boolean =>
+      typeof node === 'object' && node !== null && Boolean((node as Record<string, unknown>)['@type']);
+
+    if (!nodes.every(isTyped)) {
       structuredDataValid = false;
       issues.push({
         category: 'structured-data',
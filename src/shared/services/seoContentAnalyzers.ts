@@ -0,0 +1,374 @@
+/**
+ * @fileoverview SEO Content Analyzers
+ * @description Analyzers for rendered page content (headings, readability, keywords, images and links) and the registry SEOAnalysisService selects them from
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { foldText } from '../utils/fuzzySearch';
+import type { SEOHeading, SEOIssue, SEOLink, SEOMetadata } from './seoAnalysisService';
+
+// =========================== TYPES ===========================
+
+export interface SEOAnalyzer {
+  id: string;
+  description: string;
+  /** Return no issues when the snapshot lacks the content the analyzer needs */
+  analyze: (metadata: SEOMetadata) => SEOIssue[];
+}
+
+interface ReadabilityFormula {
+  base: number;
+  sentenceWeight: number;
+  syllableWeight: number;
+}
+
+// =========================== CONFIGURATION ===========================
+
+// Shorter texts give meaningless readability and density figures
+const MIN_CONTENT_WORDS = 100;
+const MAX_KEYWORD_DENSITY = 3;
+const DIFFICULT_READABILITY = 30;
+const FAIRLY_DIFFICULT_READABILITY = 50;
+const MAX_EXTERNAL_LINK_SHARE = 0.5;
+const MIN_LINKS_FOR_RATIO = 4;
+
+/** Flesch reading ease; French uses the Kandel & Moles adaptation */
+const READABILITY_FORMULAS: Record<string, ReadabilityFormula> = {
+  en: { base: 206.835, sentenceWeight: 1.015, syllableWeight: 84.6 },
+  fr: { base: 207, sentenceWeight: 1.015, syllableWeight: 73.6 },
+};
+
+// =========================== TEXT ===========================
+
+const tokenize = (text: string): string[] => foldText(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/** Vowel groups, ignoring a silent final e; good enough for reading-ease estimates */
+export function countSyllables(word: string): number {
+  const folded: string = foldText(word).replace(/([^aeiouy])es?$/, '$1');
+  return Math.max(1, folded.match(/[aeiouy]+/g)?.length ?? 0);
+}
+
+/**
+ * Reading ease from 0 (very difficult) to 100 (very easy), or null for texts
+ * too short to judge. Lines count as sentence breaks.
+ */
+export function calculateReadability(text: string, language: string = 'en'): number | null {
+  const words: string[] = tokenize(text);
+  if (words.length < MIN_CONTENT_WORDS) return null;
+
+  const sentences: number = text.split(/[.!?…]+|\n/).filter((sentence: string) => tokenize(sentence).length > 0).length;
+  const syllables: number = words.reduce((total: number, word: string) => total + countSyllables(word), 0);
+  const formula: ReadabilityFormula = READABILITY_FORMULAS[language] ?? READABILITY_FORMULAS['en']!;
+
+  const score: number = formula.base
+    - formula.sentenceWeight * (words.length / Math.max(1, sentences))
+    - formula.syllableWeight * (syllables / words.length);
+  return Math.round(Math.max(0, Math.min(100, score)));
+}
+
+/** Share of the words taken up by a keyword phrase, in percent */
+export function calculateKeywordDensity(text: string, keyword: string): number {
+  const words: string[] = tokenize(text);
+  const terms: string[] = tokenize(keyword);
+  if (words.length === 0 || terms.length === 0) return 0;
+
+  let occurrences = 0;
+  for (let index = 0; index <= words.length - terms.length; index++) {
+    if (terms.every((term: string, offset: number) => words[index + offset] === term)) occurrences++;
+  }
+
+  return (occurrences * terms.length * 100) / words.length;
+}
+
+const getLanguage = (locale: string | undefined): string => (locale ?? 'en').toLowerCase().split(/[-_]/)[0] ?? 'en';
+
+// =========================== ANALYZERS ===========================
+
+export const headingOutlineAnalyzer: SEOAnalyzer = {
+  id: 'heading-outline',
+  description: 'One H1 per page and no skipped heading levels',
+  analyze: ({ headings }: SEOMetadata): SEOIssue[] => {
+    if (!headings) return [];
+
+    const issues: SEOIssue[] = [];
+    const h1s: SEOHeading[] = headings.filter((heading: SEOHeading) => heading.level === 1);
+
+    if (h1s.length === 0) {
+      issues.push({
+        category: 'content',
+        type: 'error',
+        message: 'Missing H1 heading',
+        recommendation: 'Add a single H1 that describes the page',
+        impact: 'high',
+        element: 'h1',
+      });
+    } else if (h1s.length > 1) {
+      issues.push({
+        category: 'content',
+        type: 'warning',
+        message: 'Multiple H1 headings',
+        recommendation: 'Keep one H1 and demote the others to H2',
+        impact: 'medium',
+        element: 'h1',
+        value: h1s.map((heading: SEOHeading) => heading.text).join(' | '),
+        expected: '1 H1',
+      });
+    }
+
+    const skips: string[] = headings
+      .map((heading: SEOHeading, index: number) => ({ heading, previous: headings[index - 1] }))
+      .filter(({ heading, previous }) => previous !== undefined && heading.level > previous.level + 1)
+      .map(({ heading, previous }) => `H${previous!.level} → H${heading.level} "${heading.text}"`);
+
+    if (skips.length > 0) {
+      issues.push({
+        category: 'content',
+        type: 'warning',
+        message: 'Heading levels skipped',
+        recommendation: 'Nest headings one level at a time so the outline stays meaningful',
+        impact: 'low',
+        element: 'h1, h2, h3, h4, h5, h6',
+        value: skips.join('; '),
+      });
+    }
+
+    const empty: number = headings.filter((heading: SEOHeading) => !heading.text).length;
+    if (empty > 0) {
+      issues.push({
+        category: 'content',
+        type: 'warning',
+        message: 'Empty headings',
+        recommendation: 'Give every heading text, or use a styled element instead',
+        impact: 'medium',
+        element: 'h1, h2, h3, h4, h5, h6',
+        value: `${empty} empty`,
+      });
+    }
+
+    return issues;
+  },
+};
+
+export const readabilityAnalyzer: SEOAnalyzer = {
+  id: 'readability',
+  description: 'Flesch reading ease of the page prose',
+  analyze: ({ contentText, locale }: SEOMetadata): SEOIssue[] => {
+    const score: number | null = calculateReadability(contentText ?? '', getLanguage(locale));
+    if (score === null || score >= FAIRLY_DIFFICULT_READABILITY) return [];
+
+    const difficult: boolean = score < DIFFICULT_READABILITY;
+    return [{
+      category: 'content',
+      type: difficult ? 'warning' : 'info',
+      message: difficult ? 'Content is very difficult to read' : 'Content is fairly difficult to read',
+      recommendation: 'Use shorter sentences and simpler words',
+      impact: difficult ? 'medium' : 'low',
+      element: 'p',
+      value: `Reading ease ${score}`,
+      expected: `${FAIRLY_DIFFICULT_READABILITY}+`,
+    }];
+  },
+};
+
+export const keywordDensityAnalyzer: SEOAnalyzer = {
+  id: 'keyword-density',
+  description: 'Declared keywords appear in the content without stuffing',
+  analyze: ({ keywords, headings, contentText }: SEOMetadata): SEOIssue[] => {
+    const text: string = [...(headings ?? []).map((heading: SEOHeading) => heading.text), contentText ?? ''].join('\n');
+    if (!keywords || keywords.length === 0 || tokenize(text).length < MIN_CONTENT_WORDS) return [];
+
+    const densities: Array<{ keyword: string; density: number }> = keywords.map((keyword: string) => ({
+      keyword,
+      density: calculateKeywordDensity(text, keyword),
+    }));
+    const missing: string[] = densities.filter(({ density }) => density === 0).map(({ keyword }) => keyword);
+    const stuffed: string[] = densities
+      .filter(({ density }) => density > MAX_KEYWORD_DENSITY)
+      .map(({ keyword, density }) => `${keyword}: ${density.toFixed(1)}%`);
+
+    const issues: SEOIssue[] = [];
+    if (missing.length > 0) {
+      issues.push({
+        category: 'content',
+        type: 'warning',
+        message: 'Keywords missing from content',
+        recommendation: 'Use each target keyword naturally in the headings or body, or drop it from the keywords',
+        impact: 'medium',
+        element: 'meta[name="keywords"]',
+        value: missing.join(', '),
+      });
+    }
+    if (stuffed.length > 0) {
+      issues.push({
+        category: 'content',
+        type: 'warning',
+        message: 'Keyword stuffing',
+        recommendation: `Keep each keyword under ${MAX_KEYWORD_DENSITY}% of the words`,
+        impact: 'medium',
+        element: 'p',
+        value: stuffed.join(', '),
+        expected: `${MAX_KEYWORD_DENSITY}% max`,
+      });
+    }
+
+    return issues;
+  },
+};
+
+export const imageAltAnalyzer: SEOAnalyzer = {
+  id: 'image-alt',
+  description: 'Every image has alt text, or an empty alt when decorative',
+  analyze: ({ images }: SEOMetadata): SEOIssue[] => {
+    if (!images || images.length === 0) return [];
+
+    const missing: number = images.filter((image) => image.alt === undefined).length;
+    if (missing === 0) return [];
+
+    const coverage: number = Math.round(((images.length - missing) / images.length) * 100);
+    return [{
+      category: 'content',
+      type: 'warning',
+      message: 'Images missing alt text',
+      recommendation: 'Add alt text to informative images and alt="" to decorative ones',
+      impact: coverage < 50 ? 'high' : 'medium',
+      element: 'img',
+      value: `${missing} of ${images.length} images (${coverage}% coverage)`,
+      expected: '100% coverage',
+    }];
+  },
+};
+
+export const linkProfileAnalyzer: SEOAnalyzer = {
+  id: 'link-profile',
+  description: 'Internal linking, external link share and descriptive link text',
+  analyze: ({ links }: SEOMetadata): SEOIssue[] => {
+    if (!links) return [];
+
+    const issues: SEOIssue[] = [];
+    const internal: number = links.filter((link: SEOLink) => link.internal).length;
+    const external: number = links.length - internal;
+
+    if (internal === 0) {
+      issues.push({
+        category: 'links',
+        type: 'warning',
+        message: 'No internal links',
+        recommendation: 'Link to related pages so visitors and crawlers can find them',
+        impact: 'medium',
+        element: 'a',
+      });
+    } else if (links.length >= MIN_LINKS_FOR_RATIO && external / links.length > MAX_EXTERNAL_LINK_SHARE) {
+      issues.push({
+        category: 'links',
+        type: 'info',
+        message: 'Most links point to other sites',
+        recommendation: 'Balance external references with links to your own pages',
+        impact: 'low',
+        element: 'a',
+        value: `${internal} internal, ${external} external`,
+      });
+    }
+
+    const unlabeled: number = links.filter((link: SEOLink) => !link.text).length;
+    if (unlabeled > 0) {
+      issues.push({
+        category: 'links',
+        type: 'warning',
+        message: 'Links without descriptive text',
+        recommendation: 'Give every link visible text or an aria-label that says where it goes',
+        impact: 'medium',
+        element: 'a',
+        value: `${unlabeled} links`,
+      });
+    }
+
+    return issues;
+  },
+};
+
+export const anchorTargetAnalyzer: SEOAnalyzer = {
+  id: 'anchor-targets',
+  description: 'Same-page anchors such as #contact point at an element that exists',
+  analyze: ({ links, anchorIds }: SEOMetadata): SEOIssue[] => {
+    if (!links || !anchorIds) return [];
+
+    const ids = new Set<string>(anchorIds);
+    // #top scrolls to the top of any page
+    const broken: string[] = [...new Set(
+      links
+        .map((link: SEOLink) => link.fragment)
+        .filter((fragment): fragment is string => Boolean(fragment) && fragment !== 'top' && !ids.has(fragment!))
+    )];
+
+    if (broken.length === 0) return [];
+
+    return [{
+      category: 'links',
+      type: 'error',
+      message: 'Broken anchor links',
+      recommendation: 'Point anchors at an element id that exists on the page',
+      impact: 'high',
+      element: 'a[href^="#"]',
+      value: broken.map((fragment: string) => `#${fragment}`).join(', '),
+    }];
+  },
+};
+
+export const CONTENT_ANALYZERS: SEOAnalyzer[] = [
+  headingOutlineAnalyzer,
+  readabilityAnalyzer,
+  keywordDensityAnalyzer,
+  imageAltAnalyzer,
+  linkProfileAnalyzer,
+  anchorTargetAnalyzer,
+];
+
+// =========================== REGISTRY ===========================
+
+export class SEOAnalyzerRegistry {
+  private analyzers = new Map<string, SEOAnalyzer>();
+
+  constructor(analyzers: SEOAnalyzer[] = []) {
+    analyzers.forEach((analyzer: SEOAnalyzer) => this.register(analyzer));
+  }
+
+  /**
+   * Register an analyzer, replacing any with the same id
+   */
+  register(analyzer: SEOAnalyzer): void {
+    this.analyzers.set(analyzer.id, analyzer);
+  }
+
+  unregister(id: string): boolean {
+    return this.analyzers.delete(id);
+  }
+
+  get(id: string): SEOAnalyzer | undefined {
+    return this.analyzers.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.analyzers.has(id);
+  }
+
+  getIds(): string[] {
+    return Array.from(this.analyzers.keys());
+  }
+
+  /**
+   * Analyzers to run: all of them by default, otherwise the given ids in order.
+   * Unknown ids are reported rather than silently skipped.
+   */
+  select(ids?: string[]): SEOAnalyzer[] {
+    if (!ids) return Array.from(this.analyzers.values());
+
+    return ids.map((id: string) => {
+      const analyzer: SEOAnalyzer | undefined = this.analyzers.get(id);
+      if (!analyzer) throw new Error(`Unknown SEO analyzer "${id}"`);
+      return analyzer;
+    });
+  }
+}
+
+export const seoAnalyzerRegistry = new SEOAnalyzerRegistry(CONTENT_ANALYZERS);
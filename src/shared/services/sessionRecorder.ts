@@ -0,0 +1,301 @@
+/**
+ * @fileoverview Session Recorder
+ * @description Opt-in ring buffer of recent interactions (clicks, masked inputs, routes, scrolls, errors) for debugging error reports
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import { consentManager, type ConsentManager } from './consentManager';
+import type { EventUnsubscribe } from './eventBus';
+
+// =========================== TYPES ===========================
+
+export type TimelineEntryType = 'click' | 'input' | 'route' | 'scroll' | 'console_error' | 'error';
+
+export interface TimelineEntry {
+  type: TimelineEntryType;
+  timestamp: number;
+  path: string; // Route the entry was recorded on
+  target?: string; // Short element description, e.g. button#submit "Send"
+  value?: string; // Masked input value, scroll depth or route
+  detail?: string; // Error message or source
+}
+
+export interface SessionRecorderOptions {
+  capacity?: number; // Entries kept; older entries are overwritten
+  consent?: ConsentManager;
+}
+
+type TimelineListener = (timeline: TimelineEntry[]) => void;
+
+// =========================== CONSTANTS ===========================
+
+const MAX_TEXT_LENGTH = 40;
+const MAX_MASK_LENGTH = 12;
+const SCROLL_THROTTLE = 250; // milliseconds, same as the analytics scroll listener
+
+// =========================== RING BUFFER ===========================
+
+export class RingBuffer<T> {
+  private items: Array<T | undefined>;
+  private start = 0;
+  private count = 0;
+
+  constructor(private readonly capacity: number) {
+    this.items = new Array<T | undefined>(capacity);
+  }
+
+  push(item: T): void {
+    if (this.capacity === 0) return;
+
+    const index: number = (this.start + this.count) % this.capacity;
+    this.items[index] = item;
+
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Items oldest first
+   */
+  toArray(): T[] {
+    return Array.from({ length: this.count }, (_, i: number) => this.items[(this.start + i) % this.capacity]!);
+  }
+
+  clear(): void {
+    this.items = new Array<T | undefined>(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+}
+
+// =========================== HELPERS ===========================
+
+const truncate = (text: string): string =>
+  text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+
+/**
+ * Input values are never recorded, only a mask hinting at their length
+ */
+export function maskValue(value: string): string {
+  return value.length === 0 ? '' : '•'.repeat(Math.min(value.length, MAX_MASK_LENGTH));
+}
+
+/**
+ * Compact, human-readable description of an element, e.g.
+ * `button#submit.primary "Send message"`
+ */
+export function describeElement(element: Element): string {
+  const tag: string = element.tagName.toLowerCase();
+  const id: string = element.id ? `#${element.id}` : '';
+  const className: string = typeof element.className === 'string' && element.className.trim()
+    ? `.${element.className.trim().split(/\s+/)[0]}`
+    : '';
+  const name: string | null = element.getAttribute('name');
+  const label: string | null = element.getAttribute('aria-label');
+  const isField: boolean = element instanceof HTMLInputElement
+    || element instanceof HTMLTextAreaElement
+    || element instanceof HTMLSelectElement;
+
+  // Never use the text of form fields, it may contain what the visitor typed
+  const text: string = label ?? (isField ? '' : element.textContent?.trim().replace(/\s+/g, ' ') ?? '');
+
+  return [
+    `${tag}${id}${className}${name ? `[name="${name}"]` : ''}`,
+    text ? `"${truncate(text)}"` : '',
+  ].filter(Boolean).join(' ');
+}
+
+const getPath = (): string => `${window.location.pathname}${window.location.search}`;
+
+// =========================== SESSION RECORDER ===========================
+
+/**
+ * Records a compact timeline of what the visitor did before an error. Opt-in
+ * via start(), and only while performance consent (error diagnostics) is
+ * granted. Nothing is persisted; the buffer lives in memory.
+ */
+export class SessionRecorder {
+  private buffer: RingBuffer<TimelineEntry>;
+  private listeners = new Set<TimelineListener>();
+  private cleanups: Array<() => void> = [];
+  private unsubscribeConsent: EventUnsubscribe | null = null;
+  private recording = false;
+  private readonly consent: ConsentManager;
+
+  constructor(options: SessionRecorderOptions = {}) {
+    this.buffer = new RingBuffer<TimelineEntry>(options.capacity ?? 100);
+    this.consent = options.consent ?? consentManager;
+  }
+
+  start(): void {
+    if (this.recording || typeof window === 'undefined') return;
+
+    this.recording = true;
+    this.attachListeners();
+    this.unsubscribeConsent = this.consent.subscribe(() => {
+      if (!this.consent.isGranted('performance')) {
+        this.clear();
+      }
+    });
+  }
+
+  stop(): void {
+    this.recording = false;
+    this.cleanups.forEach((cleanup: () => void) => cleanup());
+    this.cleanups = [];
+    this.unsubscribeConsent?.();
+    this.unsubscribeConsent = null;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  record(entry: Omit<TimelineEntry, 'timestamp' | 'path'> & Partial<Pick<TimelineEntry, 'timestamp' | 'path'>>): void {
+    if (!this.recording || !this.consent.isGranted('performance')) return;
+
+    this.buffer.push({
+      timestamp: Date.now(),
+      path: getPath(),
+      ...entry,
+    });
+    this.notify();
+  }
+
+  recordRoute(path: string = getPath()): void {
+    this.record({ type: 'route', value: path, path });
+  }
+
+  recordError(message: string, source?: string): void {
+    this.record({ type: 'error', detail: truncate(message), ...(source && { target: source }) });
+  }
+
+  /**
+   * Recorded entries, oldest first
+   */
+  getTimeline(): TimelineEntry[] {
+    return this.buffer.toArray();
+  }
+
+  clear(): void {
+    this.buffer.clear();
+    this.notify();
+  }
+
+  subscribe(listener: TimelineListener): EventUnsubscribe {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const timeline: TimelineEntry[] = this.getTimeline();
+    this.listeners.forEach((listener: TimelineListener) => listener(timeline));
+  }
+
+  private listen<K extends keyof DocumentEventMap>(
+    type: K,
+    handler: (event: DocumentEventMap[K]) => void,
+    options?: AddEventListenerOptions
+  ): void {
+    document.addEventListener(type, handler, options);
+    this.cleanups.push(() => document.removeEventListener(type, handler, options));
+  }
+
+  private attachListeners(): void {
+    // Clicks: captured so handlers that stop propagation are still seen
+    this.listen('click', (event: MouseEvent) => {
+      if (event.target instanceof Element) {
+        this.record({ type: 'click', target: describeElement(event.target) });
+      }
+    }, { capture: true, passive: true });
+
+    // Inputs: one entry per committed change, value masked
+    this.listen('change', (event: Event) => {
+      const target: EventTarget | null = event.target;
+      if (!(target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement)) return;
+
+      const value: string = target instanceof HTMLInputElement && (target.type === 'checkbox' || target.type === 'radio')
+        ? String(target.checked)
+        : maskValue(target.value);
+      this.record({ type: 'input', target: describeElement(target), value });
+    }, { capture: true, passive: true });
+
+    // Scrolls (throttled like the analytics scroll listener)
+    let scrollTimeout: number | null = null;
+    this.listen('scroll', () => {
+      if (scrollTimeout) clearTimeout(scrollTimeout);
+      scrollTimeout = window.setTimeout(() => {
+        const scrollable: number = document.body.scrollHeight - window.innerHeight;
+        const depth: number = scrollable > 0 ? Math.round((window.scrollY / scrollable) * 100) : 0;
+        this.record({ type: 'scroll', value: `${Math.min(depth, 100)}%` });
+      }, SCROLL_THROTTLE);
+    }, { passive: true });
+    this.cleanups.push(() => {
+      if (scrollTimeout) clearTimeout(scrollTimeout);
+    });
+
+    this.attachRouteListeners();
+    this.attachConsoleListener();
+  }
+
+  /**
+   * React Router navigates with history.pushState, which fires no event, so
+   * the history methods are wrapped while recording
+   */
+  private attachRouteListeners(): void {
+    const { pushState, replaceState } = window.history;
+    let lastPath: string = getPath();
+
+    const onRouteChange = (): void => {
+      const path: string = getPath();
+      if (path === lastPath) return;
+      lastPath = path;
+      this.recordRoute(path);
+    };
+
+    window.history.pushState = function (...args: Parameters<History['pushState']>) {
+      pushState.apply(this, args);
+      onRouteChange();
+    };
+    window.history.replaceState = function (...args: Parameters<History['replaceState']>) {
+      replaceState.apply(this, args);
+      onRouteChange();
+    };
+    window.addEventListener('popstate', onRouteChange);
+
+    this.cleanups.push(() => {
+      window.history.pushState = pushState;
+      window.history.replaceState = replaceState;
+      window.removeEventListener('popstate', onRouteChange);
+    });
+  }
+
+  private attachConsoleListener(): void {
+    const originalError: typeof console.error = console.error;
+
+    console.error = (...args: unknown[]) => {
+      const message: string = args
+        .map((arg: unknown) => (arg instanceof Error ? arg.message : String(arg)))
+        .join(' ');
+      this.record({ type: 'console_error', detail: truncate(message) });
+      originalError.apply(console, args);
+    };
+
+    this.cleanups.push(() => {
+      console.error = originalError;
+    });
+  }
+}
+
+// Singleton instance
+export const sessionRecorder = new SessionRecorder();
@@ -99,15 +99,20 @@ const Button: React.FC<ButtonProps> = React.memo(React.forwardRef<HTMLButtonElem
         tabIndex={disabled ? -1 : 0}
         {...props}
       >
-        {isLoading && (
-          <span className="absolute inset-0 flex items-center justify-center">
-            <span className="animate-spin h-4 w-4 border-2 border-current border-t-transparent rounded-full" />
-            <span className="sr-only">Loading...</span>
-          </span>
+        {/* Slot needs exactly one child element to merge its props into */}
+        {asChild ? children : (
+          <>
+            {isLoading && (
+              <span className="absolute inset-0 flex items-center justify-center">
+                <span className="animate-spin h-4 w-4 border-2 border-current border-t-transparent rounded-full" />
+                <span className="sr-only">Loading...</span>
+              </span>
+            )}
+            <span className={cn(isLoading && 'invisible')}>
+              {children}
+            </span>
+          </>
         )}
-        <span className={cn(isLoading && 'invisible')}>
-          {children}
-        </span>
       </Comp>
     )
   }
@@ -12,6 +12,8 @@ import {
 
 import { cn } from "@/shared/utils/utils"
 import { Label } from "@/shared/ui/label"
+import { useI18n } from "@/shared/hooks/useI18n"
+import type { MessageKey } from "@/shared/i18n"
 
 const Form = FormProvider
 
@@ -145,7 +147,9 @@ const FormMessage = React.forwardRef<
   React.HTMLAttributes<HTMLParagraphElement>
 >(({ className, children, ...props }, ref) => {
   const { error, formMessageId } = useFormField()
-  const body = error ? String(error?.message) : children
+  const { t } = useI18n()
+  // Schema messages are catalog keys; anything else is shown as written
+  const body = error ? t(String(error?.message) as MessageKey) : children
 
   if (!body) {
     return null
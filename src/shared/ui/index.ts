@@ -7,6 +7,7 @@ export * from './avatar';
 export * from './badge';
 export * from './breadcrumb';
 export * from './button';
+export * from './calendar';
 export * from './card';
 export * from './checkbox';
 export * from './collapsible';
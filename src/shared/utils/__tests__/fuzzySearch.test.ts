@@ -0,0 +1,117 @@
+/**
+ * Fuzzy Search Tests
+ * Ranking, typo tolerance, accent folding and highlight ranges, plus the FAQ helpers built on them
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { FAQItem } from '@/content';
+import { foldText, fuzzySearch, isWithinEditDistance, mergeRanges, tokenizeQuery, type SearchField } from '../fuzzySearch';
+import { createFaqStructuredData, getFaqAnchorId, getFaqFromHash, searchFaqs } from '../faq';
+
+interface Doc {
+  title: string;
+  body: string;
+}
+
+const FIELDS: SearchField<Doc>[] = [
+  { name: 'title', weight: 3, value: (doc: Doc) => doc.title },
+  { name: 'body', weight: 1, value: (doc: Doc) => doc.body },
+];
+
+const DOCS: Doc[] = [
+  { title: 'Pricing and payment', body: 'We invoice monthly for ongoing security work.' },
+  { title: 'Security reviews', body: 'Every release gets a review.' },
+  { title: 'Café integrations', body: 'We connect point of sale systems.' },
+];
+
+const FAQS: FAQItem[] = [
+  { id: 'project-timeline', category: 'process', tags: [], featured: false, question: 'How long does a project take?', answer: 'Most projects ship in eight to twelve weeks.' },
+  { id: 'pricing-model', category: 'pricing', tags: [], featured: false, question: 'How do you price projects?', answer: 'Fixed price per milestone.' },
+];
+
+describe('Fuzzy Search', () => {
+  describe('normalization', () => {
+    it('should fold case and accents without shifting indexes', () => {
+      expect(foldText('Café Déjà')).toBe('cafe deja');
+      expect(foldText('Café Déjà')).toHaveLength('Café Déjà'.length);
+    });
+
+    it('should drop short and duplicate query terms', () => {
+      expect(tokenizeQuery('a  Security, security review!')).toEqual(['security', 'review']);
+    });
+
+    it('should bound edit distance including transpositions', () => {
+      expect(isWithinEditDistance('secruity', 'security', 1)).toBe(true);
+      expect(isWithinEditDistance('pricing', 'prcing', 1)).toBe(true);
+      expect(isWithinEditDistance('pricing', 'prices', 2)).toBe(false);
+    });
+
+    it('should merge overlapping ranges', () => {
+      expect(mergeRanges([{ start: 5, end: 8 }, { start: 0, end: 2 }, { start: 7, end: 10 }])).toEqual([
+        { start: 0, end: 2 },
+        { start: 5, end: 10 },
+      ]);
+    });
+  });
+
+  describe('fuzzySearch', () => {
+    it('should return nothing for an empty query', () => {
+      expect(fuzzySearch(DOCS, ' ', FIELDS)).toEqual([]);
+    });
+
+    it('should rank title matches above body matches', () => {
+      const results = fuzzySearch(DOCS, 'security', FIELDS);
+
+      expect(results.map((result) => result.item.title)).toEqual(['Security reviews', 'Pricing and payment']);
+      expect(results[0]!.matches['title']).toEqual([{ start: 0, end: 8 }]);
+      expect(results[1]!.matches['body']).toEqual([{ start: 31, end: 39 }]);
+    });
+
+    it('should tolerate typos', () => {
+      const results = fuzzySearch(DOCS, 'secruity', FIELDS);
+
+      expect(results[0]!.item.title).toBe('Security reviews');
+    });
+
+    it('should match accented text from an unaccented query and highlight the original', () => {
+      const results = fuzzySearch(DOCS, 'cafe', FIELDS);
+
+      expect(results).toHaveLength(1);
+      expect(DOCS[2]!.title.slice(0, results[0]!.matches['title']![0]!.end)).toBe('Café');
+    });
+
+    it('should require every term to match', () => {
+      expect(fuzzySearch(DOCS, 'security invoice', FIELDS).map((result) => result.item)).toEqual([DOCS[0]]);
+      expect(fuzzySearch(DOCS, 'security kubernetes', FIELDS)).toEqual([]);
+    });
+  });
+
+  describe('FAQ helpers', () => {
+    it('should search questions and answers', () => {
+      expect(searchFaqs(FAQS, 'milestone').map((result) => result.item.id)).toEqual(['pricing-model']);
+      expect(searchFaqs(FAQS, 'projects').map((result) => result.item.id)).toEqual(['pricing-model', 'project-timeline']);
+    });
+
+    it('should resolve deep link hashes', () => {
+      expect(getFaqAnchorId('pricing-model')).toBe('faq-pricing-model');
+      expect(getFaqFromHash('#faq-pricing-model', FAQS)?.id).toBe('pricing-model');
+      expect(getFaqFromHash('#pricing-model', FAQS)).toBeUndefined();
+      expect(getFaqFromHash('#faq-unknown', FAQS)).toBeUndefined();
+    });
+
+    it('should create FAQPage structured data with question links', () => {
+      const data = createFaqStructuredData(FAQS, 'https://example.com/fr') as unknown as Record<string, unknown>;
+
+      expect(data['@type']).toBe('FAQPage');
+      expect(data['mainEntity']).toEqual([
+        expect.objectContaining({
+          '@type': 'Question',
+          name: 'How long does a project take?',
+          url: 'https://example.com/fr#faq-project-timeline',
+          acceptedAnswer: { '@type': 'Answer', text: 'Most projects ship in eight to twelve weeks.' },
+        }),
+        expect.objectContaining({ name: 'How do you price projects?' }),
+      ]);
+    });
+  });
+});
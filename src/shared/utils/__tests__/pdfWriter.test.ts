@@ -0,0 +1,51 @@
+/**
+ * PDF Writer Tests
+ * Document structure, cross-reference offsets, text encoding and alignment
+ */
+
+import { PdfWriter, measureText, toWinAnsi } from '../pdfWriter';
+
+describe('PdfWriter', () => {
+  it('should produce a PDF with one page object per page', () => {
+    const pdf = new PdfWriter().text(10, 10, 'Page one');
+    pdf.addPage().text(10, 10, 'Page two');
+    const source: string = pdf.build('Quote');
+
+    expect(source.startsWith('%PDF-1.4')).toBe(true);
+    expect(source.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(source).toContain('/Count 2');
+    expect(source).toContain('/Title (Quote)');
+  });
+
+  it('should point startxref and the xref table at the right offsets', () => {
+    const source: string = new PdfWriter().text(10, 10, 'Hello').build();
+    const startxref = Number(/startxref\n(\d+)/.exec(source)?.[1]);
+
+    expect(source.slice(startxref, startxref + 4)).toBe('xref');
+
+    const offsets: number[] = Array.from(source.matchAll(/^(\d{10}) 00000 n $/gm), match => Number(match[1]));
+    offsets.forEach((offset: number, index: number) => {
+      expect(source.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('should escape delimiters and encode non-ASCII text as WinAnsi', () => {
+    const source: string = new PdfWriter().text(10, 10, 'Total (€1 000) \\ café').build();
+
+    expect(source).toContain('(Total \\(\\2001 000\\) \\\\ caf\\351)');
+    expect(source).toMatch(/^[\x20-\x7e\n]*$/);
+  });
+
+  it('should right-align text against the given x coordinate', () => {
+    const source: string = new PdfWriter(200, 100).text(150, 20, 'Amount', { size: 10, align: 'right' }).build();
+    const left: number = 150 - measureText('Amount', 10);
+
+    expect(source).toContain(`${Number(left.toFixed(2))} 70 Td (Amount) Tj`);
+  });
+});
+
+describe('toWinAnsi', () => {
+  it('should replace characters the standard fonts cannot show', () => {
+    expect(toWinAnsi('a→b')).toEqual([0x61, 0x3f, 0x62]);
+  });
+});
@@ -5,14 +5,20 @@
 
 import { 
   generateStructuredData, 
-  updateMetaTags, 
   SEO_CONFIG,
   type SEOMetaTag,
   type SEOData 
 } from '../seo';
+import { HeadManager } from '../../head/headManager';
+import { buildHeadTags } from '../../head/headTags';
 
 // Mock window.location.href for tests that need it
 
+// Page metadata now goes through the head manager, so edge cases run through it against the test document
+const applyHead = (seoData: Pick<SEOData, 'title' | 'description'>): void => {
+  new HeadManager({ document }).set('page', 0, buildHeadTags(seoData));
+};
+
 describe('SEO Utilities', () => {
   beforeEach(() => {
     // Reset DOM before each test
@@ -114,103 +120,6 @@ describe('SEO Utilities', () => {
     });
   });
 
-  describe('updateMetaTags', () => {
-    it('should update document title', () => {
-      const seoData: SEOData = {
-        title: 'Test Page Title'
-      };
-
-      updateMetaTags(seoData);
-
-      expect(document.title).toBe('Test Page Title');
-    });
-
-    it('should create and update meta description', () => {
-      const seoData: SEOData = {
-        description: 'Test meta description'
-      };
-
-      updateMetaTags(seoData);
-
-      const metaDesc = document.querySelector('meta[name="description"]');
-      expect(metaDesc).toBeTruthy();
-      expect(metaDesc?.getAttribute('content')).toBe('Test meta description');
-    });
-
-    it('should update existing meta description', () => {
-      // Create existing meta description
-      const existingMeta = document.createElement('meta');
-      existingMeta.setAttribute('name', 'description');
-      existingMeta.setAttribute('content', 'Old description');
-      document.head.appendChild(existingMeta);
-
-      const seoData: SEOData = {
-        description: 'New meta description'
-      };
-
-      updateMetaTags(seoData);
-
-      const metaDesc = document.querySelector('meta[name="description"]');
-      expect(metaDesc?.getAttribute('content')).toBe('New meta description');
-    });
-
-    it('should handle both title and description', () => {
-      const seoData: SEOData = {
-        title: 'Test Title',
-        description: 'Test Description'
-      };
-
-      updateMetaTags(seoData);
-
-      expect(document.title).toBe('Test Title');
-      const metaDesc = document.querySelector('meta[name="description"]');
-      expect(metaDesc?.getAttribute('content')).toBe('Test Description');
-    });
-
-    it('should not create meta description if not provided', () => {
-      const seoData: SEOData = {
-        title: 'Test Title'
-      };
-
-      updateMetaTags(seoData);
-
-      expect(document.title).toBe('Test Title');
-      const metaDesc = document.querySelector('meta[name="description"]');
-      expect(metaDesc).toBeNull();
-    });
-
-    it('should not update title if not provided', () => {
-      const originalTitle = document.title;
-      const seoData: SEOData = {
-        description: 'Test Description'
-      };
-
-      updateMetaTags(seoData);
-
-      expect(document.title).toBe(originalTitle);
-      const metaDesc = document.querySelector('meta[name="description"]');
-      expect(metaDesc?.getAttribute('content')).toBe('Test Description');
-    });
-
-    it('should handle empty seoData object', () => {
-      const originalTitle = document.title;
-      const seoData: SEOData = {};
-
-      updateMetaTags(seoData);
-
-      expect(document.title).toBe(originalTitle);
-      const metaDesc = document.querySelector('meta[name="description"]');
-      expect(metaDesc).toBeNull();
-    });
-
-    it('should handle undefined values gracefully', () => {
-      // Test with empty object (no properties)
-      const seoData: SEOData = {};
-
-      expect(() => updateMetaTags(seoData)).not.toThrow();
-    });
-  });
-
   describe('Type Definitions', () => {
     it('should have correct SEOMetaTag interface structure', () => {
       const metaTag: SEOMetaTag = {
@@ -253,21 +162,13 @@ describe('SEO Utilities', () => {
 
   describe('Edge Cases', () => {
     it('should handle special characters in title', () => {
-      const seoData: SEOData = {
-        title: 'Test & Title <with> "special" characters'
-      };
-
-      updateMetaTags(seoData);
+      applyHead({ title: 'Test & Title <with> "special" characters' });
 
       expect(document.title).toBe('Test & Title <with> "special" characters');
     });
 
     it('should handle special characters in description', () => {
-      const seoData: SEOData = {
-        description: 'Test & Description <with> "special" characters'
-      };
-
-      updateMetaTags(seoData);
+      applyHead({ description: 'Test & Description <with> "special" characters' });
 
       const metaDesc = document.querySelector('meta[name="description"]');
       expect(metaDesc?.getAttribute('content')).toBe('Test & Description <with> "special" characters');
@@ -275,39 +176,27 @@ describe('SEO Utilities', () => {
 
     it('should handle very long title', () => {
       const longTitle = 'A'.repeat(1000);
-      const seoData: SEOData = {
-        title: longTitle
-      };
 
-      updateMetaTags(seoData);
+      applyHead({ title: longTitle });
 
       expect(document.title).toBe(longTitle);
     });
 
     it('should handle very long description', () => {
       const longDescription = 'A'.repeat(2000);
-      const seoData: SEOData = {
-        description: longDescription
-      };
 
-      updateMetaTags(seoData);
+      applyHead({ description: longDescription });
 
       const metaDesc = document.querySelector('meta[name="description"]');
       expect(metaDesc?.getAttribute('content')).toBe(longDescription);
     });
 
     it('should handle empty strings', () => {
-      const seoData: SEOData = {
-        title: '',
-        description: ''
-      };
-
-      updateMetaTags(seoData);
+      applyHead({ title: '', description: '' });
 
       expect(document.title).toBe('');
-      // Empty description should not create a meta tag
       const metaDesc = document.querySelector('meta[name="description"]');
-      expect(metaDesc).toBeNull();
+      expect(metaDesc?.getAttribute('content')).toBe('');
     });
   });
 });
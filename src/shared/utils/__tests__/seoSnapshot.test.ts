@@ -0,0 +1,112 @@
+/**
+ * SEO Snapshot Tests
+ * Extraction of head tags, JSON-LD, headings and images from the rendered document
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { extractSEOMetadata } from '../seoSnapshot';
+import { SEOAnalysisService } from '../../services/seoAnalysisService';
+
+describe('SEO Snapshot', () => {
+  beforeEach(() => {
+    document.head.innerHTML = '';
+    document.body.innerHTML = '';
+    document.title = '';
+  });
+
+  it('should read head tags', () => {
+    document.head.innerHTML = `
+      <meta name="description" content=" Custom software for growing teams ">
+      <meta name="keywords" content="software, automation, ,integrations">
+      <meta property="og:image" content="https://example.com/og.png">
+      <meta property="og:type" content="website">
+      <meta name="twitter:card" content="summary_large_image">
+      <meta name="robots" content="index, follow">
+      <link rel="canonical" href="https://example.com/portfolio">
+    `;
+    document.title = 'Portfolio | Optimum';
+
+    expect(extractSEOMetadata(document)).toEqual(expect.objectContaining({
+      title: 'Portfolio | Optimum',
+      description: 'Custom software for growing teams',
+      keywords: ['software', 'automation', 'integrations'],
+      image: 'https://example.com/og.png',
+      type: 'website',
+      twitterCard: 'summary_large_image',
+      robots: 'index, follow',
+      canonicalUrl: 'https://example.com/portfolio',
+    }));
+  });
+
+  it('should leave out tags the page does not have', () => {
+    const metadata = extractSEOMetadata(document);
+
+    expect(metadata).not.toHaveProperty('title');
+    expect(metadata).not.toHaveProperty('description');
+    expect(metadata).not.toHaveProperty('structuredData');
+    expect(metadata.url).toBe(window.location.href);
+  });
+
+  it('should combine several JSON-LD blocks into a graph', () => {
+    document.head.innerHTML = `
+      <script type="application/ld+json">{"@context":"https://schema.org","@type":"Organization"}</script>
+      <script type="application/ld+json">{"@context":"https://schema.org","@type":"FAQPage"}</script>
+    `;
+
+    const { structuredData } = extractSEOMetadata(document);
+
+    expect(structuredData?.['@graph']).toEqual([
+      { '@context': 'https://schema.org', '@type': 'Organization' },
+      { '@context': 'https://schema.org', '@type': 'FAQPage' },
+    ]);
+    expect(new SEOAnalysisService().analyze({ structuredData: structuredData! }).structuredDataValid).toBe(true);
+  });
+
+  it('should keep unparsable JSON-LD so the analysis flags it', () => {
+    document.head.innerHTML = `
+      <script type="application/ld+json">{"@context":"https://schema.org","@type":"Organization"}</script>
+      <script type="application/ld+json">{ not json</script>
+    `;
+
+    const { structuredData } = extractSEOMetadata(document);
+
+    expect(new SEOAnalysisService().analyze({ structuredData: structuredData! }).structuredDataValid).toBe(false);
+  });
+
+  it('should outline headings and images', () => {
+    document.body.innerHTML = `
+      <h1>Custom  software</h1>
+      <section><h2>Services</h2><img src="/a.png" alt="Dashboard"><img src="/b.png"><img src="/c.png" alt=""></section>
+    `;
+
+    const { headings, images } = extractSEOMetadata(document);
+
+    expect(headings).toEqual([{ level: 1, text: 'Custom software' }, { level: 2, text: 'Services' }]);
+    expect(images).toEqual([
+      { src: `${window.location.origin}/a.png`, alt: 'Dashboard' },
+      { src: `${window.location.origin}/b.png` },
+      { src: `${window.location.origin}/c.png`, alt: '' },
+    ]);
+  });
+
+  it('should collect prose, links and anchor targets', () => {
+    document.body.innerHTML = `
+      <section id="services"><p>We build  software.</p><ul><li><p>Web apps</p></li><li>Integrations</li></ul></section>
+      <a href="#services">Services</a>
+      <a href="/portfolio"><img src="/logo.png" alt=""></a>
+      <a href="https://github.com/optimum" aria-label="GitHub"></a>
+      <a href="mailto:hello@example.com">Email</a>
+    `;
+
+    const { contentText, links, anchorIds } = extractSEOMetadata(document);
+    const { origin } = window.location;
+
+    expect(contentText).toBe('We build software.\nWeb apps\nIntegrations');
+    expect(links).toEqual([
+      { href: `${window.location.href.split('#')[0]}#services`, text: 'Services', internal: true, fragment: 'services' },
+      { href: `${origin}/portfolio`, text: '', internal: true },
+      { href: 'https://github.com/optimum', text: 'GitHub', internal: false },
+    ]);
+    expect(anchorIds).toEqual(['services']);
+  });
+});
@@ -2,6 +2,7 @@
 import { ErrorContext } from '../types/errorContext';
 import { compositeErrorHandler } from '../factories/errorHandlerFactory';
 import { eventBus, EVENT_TYPES } from '../services/eventBus';
+import { sessionRecorder } from '../services/sessionRecorder';
 
 export interface ErrorInfo {
   componentStack: string;
@@ -25,6 +26,9 @@ class ErrorHandler {
     return ErrorHandler.instance;
   }
   private setupGlobalErrorHandlers(): void {
+    // Nothing to listen to while prerendering
+    if (typeof window === 'undefined') return;
+
     // Handle unhandled promise rejections
     window.addEventListener('unhandledrejection', (event: Event & { reason: unknown }) => {
       this.handleError('Unhandled Promise Rejection', {
@@ -68,6 +72,9 @@ class ErrorHandler {
         return; // Prevent error spam
       }
 
+      // Recorded first so the error report's timeline ends with the error
+      sessionRecorder.recordError(message, errorContext.component);
+
       const errorInfo: ErrorContext = {
         message,
         timestamp: new Date().toISOString(),
@@ -96,6 +103,8 @@ class ErrorHandler {
         return; // Prevent error spam
       }
 
+      sessionRecorder.recordError(error.message, errorContext.component);
+
       // Use composite error handler
       compositeErrorHandler.handle(error, errorContext);
 
@@ -170,6 +179,8 @@ class ErrorHandler {
     
     // Check if we should log this error (rate limiting)
     if (this.shouldLogError(rateLimitKey)) {
+      sessionRecorder.recordError(errorInfo.message ?? 'Resource loading error', 'ResourceLoader');
+
       // Use composite error handler
       const error: Error = new Error(`Resource loading failed: ${element.tagName}`);
       compositeErrorHandler.handle(error, errorInfo);
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview FAQ Utilities
+ * @description FAQ search, question deep links and FAQPage structured data
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import type { FAQPage, WithContext } from 'schema-dts';
+import type { FAQItem } from '@/content';
+import { fuzzySearch, type SearchField, type SearchResult } from './fuzzySearch';
+
+// =========================== DEEP LINKS ===========================
+
+const ANCHOR_PREFIX = 'faq-';
+
+/** Element id and URL hash of a question, e.g. #faq-pricing-model */
+export const getFaqAnchorId = (id: string): string => `${ANCHOR_PREFIX}${id}`;
+
+/** Question a location hash points at, if any */
+export function getFaqFromHash(hash: string, faqs: FAQItem[]): FAQItem | undefined {
+  const anchor: string = decodeURIComponent(hash.replace(/^#/, ''));
+  if (!anchor.startsWith(ANCHOR_PREFIX)) return undefined;
+
+  return faqs.find((faq: FAQItem) => getFaqAnchorId(faq.id) === anchor);
+}
+
+// =========================== SEARCH ===========================
+
+const FAQ_SEARCH_FIELDS: SearchField<FAQItem>[] = [
+  { name: 'question', weight: 3, value: (faq: FAQItem) => faq.question },
+  { name: 'answer', weight: 1, value: (faq: FAQItem) => faq.answer },
+];
+
+/** Questions matching every term of the query, best first; ranges are keyed by `question` and `answer` */
+export const searchFaqs = (faqs: FAQItem[], query: string): SearchResult<FAQItem>[] =>
+  fuzzySearch(faqs, query, FAQ_SEARCH_FIELDS);
+
+// =========================== STRUCTURED DATA ===========================
+
+/** FAQPage JSON-LD; with a page URL each question links to its deep link */
+export function createFaqStructuredData(faqs: FAQItem[], pageUrl?: string): WithContext<FAQPage> {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    ...(pageUrl && { url: pageUrl }),
+    mainEntity: faqs.map((faq: FAQItem) => ({
+      '@type': 'Question',
+      name: faq.question,
+      ...(pageUrl && { url: `${pageUrl}#${getFaqAnchorId(faq.id)}` }),
+      acceptedAnswer: { '@type': 'Answer', text: faq.answer },
+    })),
+  };
+}
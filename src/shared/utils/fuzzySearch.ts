@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Fuzzy Search
+ * @description Typo-tolerant, accent-insensitive full-text search over small in-memory collections, with match ranges for highlighting
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// =========================== TYPES ===========================
+
+/** Half-open range [start, end) into the original text */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchField<T> {
+  name: string;
+  /** Matches in heavier fields rank higher, e.g. a question over its answer */
+  weight: number;
+  value: (item: T) => string;
+}
+
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+  /** Ranges to highlight, by field name */
+  matches: Record<string, TextRange[]>;
+}
+
+interface Word {
+  text: string;
+  start: number;
+}
+
+interface TermMatch {
+  score: number;
+  ranges: TextRange[];
+}
+
+// =========================== NORMALIZATION ===========================
+
+// Shorter terms are too noisy to match fuzzily
+const MIN_TERM_LENGTH = 2;
+const MIN_FUZZY_TERM_LENGTH = 4;
+
+const SCORE_PREFIX = 3;
+const SCORE_SUBSTRING = 2;
+const SCORE_FUZZY = 1;
+
+/**
+ * Lowercase and strip accents one character at a time, so indexes in the
+ * folded text still point at the same characters in the original
+ */
+export function foldText(text: string): string {
+  return Array.from(text, (char: string) => char.normalize('NFD').charAt(0).toLowerCase()).join('');
+}
+
+export function tokenizeQuery(query: string): string[] {
+  const terms: string[] = foldText(query).match(/[\p{L}\p{N}]+/gu) ?? [];
+  return [...new Set(terms.filter((term: string) => term.length >= MIN_TERM_LENGTH))];
+}
+
+const splitWords = (folded: string): Word[] =>
+  Array.from(folded.matchAll(/[\p{L}\p{N}]+/gu), (match: RegExpMatchArray) => ({ text: match[0], start: match.index ?? 0 }));
+
+/** Optimal string alignment distance, giving up once it exceeds `max` */
+export function isWithinEditDistance(a: string, b: string, max: number): boolean {
+  if (Math.abs(a.length - b.length) > max) return false;
+
+  let previousRow: number[] = [];
+  let row: number[] = Array.from({ length: b.length + 1 }, (_, j: number) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforeRow: number[] = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin: number = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost: number = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance: number = Math.min(previousRow[j]! + 1, row[j - 1]! + 1, previousRow[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforeRow[j - 2]! + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > max) return false;
+  }
+
+  return row[b.length]! <= max;
+}
+
+// =========================== MATCHING ===========================
+
+function matchWord(term: string, word: Word): TermMatch | null {
+  const index: number = word.text.indexOf(term);
+  if (index !== -1) {
+    const start: number = word.start + index;
+    return { score: index === 0 ? SCORE_PREFIX : SCORE_SUBSTRING, ranges: [{ start, end: start + term.length }] };
+  }
+
+  if (term.length < MIN_FUZZY_TERM_LENGTH) return null;
+
+  // Compare against word prefixes around the term's length, so "integrat" finds "integration" and "secruity" finds "security"
+  const maxEdits: number = term.length >= 8 ? 2 : 1;
+  for (let length = term.length - maxEdits; length <= term.length + maxEdits; length++) {
+    if (length < MIN_FUZZY_TERM_LENGTH - 1 || length > word.text.length) continue;
+    if (isWithinEditDistance(term, word.text.slice(0, length), maxEdits)) {
+      return { score: SCORE_FUZZY, ranges: [{ start: word.start, end: word.start + length }] };
+    }
+  }
+
+  return null;
+}
+
+/** Best score for the term in the text, with every matching range */
+function matchTerm(term: string, words: Word[]): TermMatch | null {
+  const matches: TermMatch[] = words
+    .map((word: Word) => matchWord(term, word))
+    .filter((match): match is TermMatch => match !== null);
+
+  if (matches.length === 0) return null;
+
+  return {
+    score: Math.max(...matches.map((match: TermMatch) => match.score)),
+    ranges: matches.flatMap((match: TermMatch) => match.ranges),
+  };
+}
+
+/** Sort and merge overlapping or touching ranges */
+export function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const sorted: TextRange[] = [...ranges].sort((a: TextRange, b: TextRange) => a.start - b.start);
+  const merged: TextRange[] = [];
+
+  sorted.forEach((range: TextRange) => {
+    const last: TextRange | undefined = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  });
+
+  return merged;
+}
+
+// =========================== SEARCH ===========================
+
+/**
+ * Items where every query term matches at least one field, best first.
+ * Ties keep collection order. An empty query returns no results.
+ */
+export function fuzzySearch<T>(items: T[], query: string, fields: SearchField<T>[]): SearchResult<T>[] {
+  const terms: string[] = tokenizeQuery(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult<T>[] = [];
+
+  items.forEach((item: T) => {
+    const fieldWords: Word[][] = fields.map((field: SearchField<T>) => splitWords(foldText(field.value(item))));
+    const matches: Record<string, TextRange[]> = {};
+    let score = 0;
+
+    const allTermsMatch: boolean = terms.every((term: string) => {
+      let matched = false;
+
+      fields.forEach((field: SearchField<T>, index: number) => {
+        const match: TermMatch | null = matchTerm(term, fieldWords[index]!);
+        if (!match) return;
+
+        matched = true;
+        score += match.score * field.weight;
+        matches[field.name] = [...(matches[field.name] ?? []), ...match.ranges];
+      });
+
+      return matched;
+    });
+
+    if (!allTermsMatch) return;
+
+    Object.keys(matches).forEach((name: string) => {
+      matches[name] = mergeRanges(matches[name]!);
+    });
+    results.push({ item, score, matches });
+  });
+
+  // Array.prototype.sort is stable, so equal scores keep collection order
+  return results.sort((a: SearchResult<T>, b: SearchResult<T>) => b.score - a.score);
+}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Minimal PDF writer
+ * @description Dependency-free PDF 1.4 generation with text, rectangles and lines in the
+ * standard Helvetica fonts, so documents can be produced entirely client-side and offline
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+// =========================== TYPES ===========================
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfColor = [number, number, number]; // RGB, 0-255
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  align?: 'left' | 'right';
+}
+
+// =========================== CONSTANTS ===========================
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+// Helvetica and Helvetica-Bold advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS: number[] = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS: number[] = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding can still show
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// =========================== ENCODING ===========================
+
+/**
+ * Map a string to WinAnsi byte values. Narrow and thin spaces (used by
+ * Intl currency formatting) become spaces; anything else unsupported becomes '?'.
+ */
+export function toWinAnsi(text: string): number[] {
+  return Array.from(text).map((char: string) => {
+    if (WIN_ANSI_EXTRAS[char] !== undefined) return WIN_ANSI_EXTRAS[char]!;
+    if (/[\u2000-\u200a\u202f\u205f]/.test(char)) return 0x20;
+
+    const code: number = char.charCodeAt(0);
+    return code <= 0xff && !(code >= 0x80 && code < 0xa0) ? code : 0x3f;
+  });
+}
+
+const escapeText = (text: string): string =>
+  toWinAnsi(text)
+    .map((code: number) => {
+      if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+      if (code < 0x20 || code > 0x7e) return `\\${code.toString(8).padStart(3, '0')}`;
+      return String.fromCharCode(code);
+    })
+    .join('');
+
+export function measureText(text: string, size: number, font: PdfFont = 'regular'): number {
+  const widths: number[] = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+
+  const units: number = toWinAnsi(text).reduce((total: number, code: number) =>
+    total + (widths[code - 32] ?? 556), 0);
+  return (units * size) / 1000;
+}
+
+const formatNumber = (value: number): string => Number(value.toFixed(2)).toString();
+const formatColor = (color: PdfColor): string => color.map((channel: number) => formatNumber(channel / 255)).join(' ');
+
+// =========================== WRITER ===========================
+
+/**
+ * Builds a document page by page. Coordinates are in points from the top-left
+ * corner of the page, like the DOM, and converted to PDF space internally.
+ */
+export class PdfWriter {
+  private readonly pages: string[][] = [];
+
+  constructor(
+    readonly width: number = A4.width,
+    readonly height: number = A4.height
+  ) {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): this {
+    this.pages.push([]);
+    return this;
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): this {
+    const size: number = options.size ?? 11;
+    const font: PdfFont = options.font ?? 'regular';
+    const left: number = options.align === 'right' ? x - measureText(text, size, font) : x;
+
+    this.current.push(
+      `BT /${FONT_RESOURCES[font]} ${formatNumber(size)} Tf ${formatColor(options.color ?? [0, 0, 0])} rg ` +
+      `${formatNumber(left)} ${formatNumber(this.height - y - size)} Td (${escapeText(text)}) Tj ET`
+    );
+    return this;
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: PdfColor): this {
+    this.current.push(
+      `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(this.height - y - height)} ` +
+      `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = [0, 0, 0], lineWidth = 0.5): this {
+    this.current.push(
+      `${formatColor(color)} RG ${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(this.height - y1)} m ` +
+      `${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+    return this;
+  }
+
+  /**
+   * Serialize to PDF source. Text is octal-escaped, so the output is pure
+   * ASCII and string offsets equal byte offsets.
+   */
+  build(title?: string): string {
+    const objects: string[] = [];
+    const pageIds: number[] = this.pages.map((_page: string[], index: number) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id: number) => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((operations: string[], index: number) => {
+      const pageId: number = pageIds[index]!;
+      const content: string = operations.join('\n');
+
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    const infoId: number = objects.length;
+    objects[infoId] = `<< /Producer (Optimum Solutions Group)${title ? ` /Title (${escapeText(title)})` : ''} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset: number = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return output;
+  }
+
+  toBlob(title?: string): Blob {
+    return new Blob([this.build(title)], { type: 'application/pdf' });
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1]!;
+  }
+}
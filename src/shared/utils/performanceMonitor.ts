@@ -256,7 +256,7 @@ class PerformanceMonitor {
     }
 
     // Custom analytics endpoint
-    if (import.meta.env.MODE === 'production') {
+    if (import.meta.env.PROD) {
       fetch('/api/analytics/performance', {
         method: 'POST',
         headers: {
@@ -436,7 +436,7 @@ class PerformanceMonitor {
     }
 
     // Send to analytics every 5 minutes in production
-    if (import.meta.env.MODE === 'production') {
+    if (import.meta.env.PROD) {
       setInterval(() => {
         this.sendToAnalytics(this.metrics);
       }, 300000);
@@ -13,13 +13,7 @@ export interface SEOData {
   url?: string;
 }
 
-export const SEO_CONFIG = {
-  defaultTitle: 'Optimum Solutions Group',
-  defaultDescription: 'Professional services and solutions',
-  siteName: 'Optimum Solutions Group',
-  siteUrl: 'https://example.com',
-  twitterHandle: '@optimumsolutions',
-};
+export { SEO_CONFIG } from './seoConfig';
 
 export const generateStructuredData = (data: { siteName?: string; url?: string; [key: string]: unknown }) => {
   return {
@@ -29,20 +23,4 @@ export const generateStructuredData = (data: { siteName?: string; url?: string;
     "url": data.url || window.location.href,
     ...data
   };
-};
-
-export const updateMetaTags = (seoData: SEOData) => {
-  if (seoData.title) {
-    document.title = seoData.title;
-  }
-  
-  if (seoData.description) {
-    let metaDesc = document.querySelector('meta[name="description"]');
-    if (!metaDesc) {
-      metaDesc = document.createElement('meta');
-      metaDesc.setAttribute('name', 'description');
-      document.head.appendChild(metaDesc);
-    }
-    metaDesc.setAttribute('content', seoData.description);
-  }
 };
\ No newline at end of file
@@ -0,0 +1,9 @@
+// Site-wide SEO settings, kept free of DOM access so the build plugins can import them
+export const SEO_CONFIG = {
+  defaultTitle: 'Optimum Solutions Group',
+  defaultDescription: 'Professional services and solutions',
+  siteName: 'Optimum Solutions Group',
+  /** Base URL of the production site: canonical links, hreflang alternates, JSON-LD, sitemap and feeds all derive from it */
+  siteUrl: 'https://example.com',
+  twitterHandle: '@optimumsolutions',
+};
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview SEO Snapshot
+ * @description Extracts the SEO metadata a crawler would see from the rendered document: head tags, JSON-LD, headings, images, prose and links
+ * @author Optimum Solutions Group
+ * @version 1.0.0
+ */
+
+import type { SEOHeading, SEOImage, SEOLink, SEOMetadata } from '../services/seoAnalysisService';
+
+// =========================== HEAD ===========================
+
+const TWITTER_CARDS: ReadonlyArray<NonNullable<SEOMetadata['twitterCard']>> = ['summary', 'summary_large_image', 'app', 'player'];
+
+const isTwitterCard = (value: string | undefined): value is NonNullable<SEOMetadata['twitterCard']> =>
+  (TWITTER_CARDS as readonly (string | undefined)[]).includes(value);
+
+/** Content of a meta tag by name or property, ignoring empty values */
+function getMeta(doc: Document, key: string): string | undefined {
+  const element: HTMLMetaElement | null = doc.head.querySelector(`meta[name="${key}"], meta[property="${key}"]`);
+  const content: string | undefined = element?.getAttribute('content')?.trim();
+  return content || undefined;
+}
+
+// =========================== STRUCTURED DATA ===========================
+
+/**
+ * Every JSON-LD block on the page; several blocks are combined under @graph.
+ * Unparsable blocks stay in as empty nodes so the analysis flags them.
+ */
+function extractStructuredData(doc: Document): Record<string, unknown> | undefined {
+  const nodes: Record<string, unknown>[] = Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))
+    .flatMap((script: Element) => {
+      try {
+        const parsed: unknown = JSON.parse(script.textContent ?? '');
+        return (Array.isArray(parsed) ? parsed : [parsed]) as Record<string, unknown>[];
+      } catch {
+        return [{}];
+      }
+    });
+
+  if (nodes.length === 0) return undefined;
+  if (nodes.length === 1) return nodes[0];
+  return { '@context': 'https://schema.org', '@graph': nodes };
+}
+
+// =========================== CONTENT ===========================
+
+const normalizeText = (text: string | null): string => (text ?? '').replace(/\s+/g, ' ').trim();
+
+function extractHeadings(doc: Document): SEOHeading[] {
+  return Array.from(doc.body.querySelectorAll('h1, h2, h3, h4, h5, h6'), (heading: Element) => ({
+    level: Number(heading.tagName.charAt(1)),
+    text: normalizeText(heading.textContent),
+  }));
+}
+
+function extractImages(doc: Document): SEOImage[] {
+  return Array.from(doc.body.querySelectorAll('img'))
+    .filter((image: HTMLImageElement) => Boolean(image.getAttribute('src')))
+    .map((image: HTMLImageElement) => {
+      const alt: string | null = image.getAttribute('alt');
+      return { src: image.src, ...(alt !== null && { alt: alt.trim() }) };
+    });
+}
+
+const PROSE_SELECTOR = 'p, li, blockquote';
+
+/** Text of the innermost prose blocks, so nested lists and quotes are not counted twice */
+function extractContentText(doc: Document): string {
+  return Array.from(doc.body.querySelectorAll(PROSE_SELECTOR))
+    .filter((block: Element) => !block.querySelector(PROSE_SELECTOR))
+    .map((block: Element) => normalizeText(block.textContent))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function extractLinks(doc: Document): SEOLink[] {
+  const page: URL = new URL(doc.location?.href ?? 'http://localhost/');
+
+  return Array.from(doc.body.querySelectorAll<HTMLAnchorElement>('a[href]'))
+    .filter((anchor: HTMLAnchorElement) => /^https?:$/.test(anchor.protocol))
+    .map((anchor: HTMLAnchorElement) => {
+      const url: URL = new URL(anchor.href);
+      const internal: boolean = url.origin === page.origin;
+      const samePage: boolean = internal && url.pathname === page.pathname && url.search === page.search;
+      const fragment: string = samePage ? decodeURIComponent(url.hash.slice(1)) : '';
+      const text: string = normalizeText(anchor.textContent) || anchor.getAttribute('aria-label')?.trim() || '';
+
+      return { href: url.toString(), text, internal, ...(fragment && { fragment }) };
+    });
+}
+
+function extractAnchorIds(doc: Document): string[] {
+  return Array.from(doc.querySelectorAll('[id], a[name]'), (element: Element) => element.id || element.getAttribute('name') || '')
+    .filter(Boolean);
+}
+
+// =========================== SNAPSHOT ===========================
+
+type TextField =
+  | 'description' | 'image' | 'url' | 'type' | 'siteName' | 'locale' | 'author'
+  | 'publishedTime' | 'modifiedTime' | 'twitterSite' | 'twitterCreator' | 'canonicalUrl' | 'robots';
+
+/** Snapshot of the live document for SEOAnalysisService; only fields present on the page are set */
+export function extractSEOMetadata(doc: Document = document): SEOMetadata {
+  const title: string = normalizeText(doc.title);
+  const keywords: string[] = (getMeta(doc, 'keywords') ?? '')
+    .split(',')
+    .map((keyword: string) => keyword.trim())
+    .filter(Boolean);
+  const canonicalUrl: string | undefined = doc.head.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href || undefined;
+  const twitterCard: string | undefined = getMeta(doc, 'twitter:card');
+  const structuredData: Record<string, unknown> | undefined = extractStructuredData(doc);
+
+  const text: Record<TextField, string | undefined> = {
+    description: getMeta(doc, 'description'),
+    image: getMeta(doc, 'og:image') ?? getMeta(doc, 'twitter:image'),
+    url: getMeta(doc, 'og:url') ?? doc.location?.href,
+    type: getMeta(doc, 'og:type'),
+    siteName: getMeta(doc, 'og:site_name'),
+    locale: getMeta(doc, 'og:locale'),
+    author: getMeta(doc, 'author'),
+    publishedTime: getMeta(doc, 'article:published_time'),
+    modifiedTime: getMeta(doc, 'article:modified_time'),
+    twitterSite: getMeta(doc, 'twitter:site'),
+    twitterCreator: getMeta(doc, 'twitter:creator'),
+    canonicalUrl,
+    robots: getMeta(doc, 'robots'),
+  };
+
+  return {
+    ...(title && { title }),
+    ...(keywords.length > 0 && { keywords }),
+    ...(isTwitterCard(twitterCard) && { twitterCard }),
+    ...(structuredData && { structuredData }),
+    ...(Object.fromEntries(Object.entries(text).filter(([, value]) => value)) as Partial<Pick<SEOMetadata, TextField>>),
+    headings: extractHeadings(doc),
+    images: extractImages(doc),
+    contentText: extractContentText(doc),
+    links: extractLinks(doc),
+    anchorIds: extractAnchorIds(doc),
+  };
+}
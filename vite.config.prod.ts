@@ -1,13 +1,25 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react-swc';
 import { resolve } from 'path';
+import { contentValidation } from './src/content/vitePlugin';
+import { prerender, siteFiles } from './src/routing/vitePlugin';
 
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   plugins: [
     react({
       // Disable Fast Refresh in production
       fastRefresh: false,
     }),
+    contentValidation(resolve(__dirname, 'src/content')),
+    siteFiles({
+      contentDir: resolve(__dirname, 'src/content'),
+      indexable: (process.env.SITE_ENV ?? process.env.VERCEL_ENV ?? 'production') === 'production',
+    }),
+    // --mode prerender also writes indexable pages as static HTML
+    mode === 'prerender' && prerender({
+      contentDir: resolve(__dirname, 'src/content'),
+      entry: resolve(__dirname, 'src/entry-server.tsx'),
+    }),
   ],
   resolve: {
     alias: {
@@ -118,4 +130,4 @@ export default defineConfig({
       return { relative: true };
     },
   },
-});
+}));
@@ -5,9 +5,14 @@ import { defineConfig, type ConfigEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import { dirname, resolve } from 'path';
 import type { UserConfig } from 'vite';
+import { contentValidation } from './src/content/vitePlugin';
+import { prerender, siteFiles } from './src/routing/vitePlugin';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+// `vite build --mode prerender` is a production build that also writes indexable pages as static HTML
+const isProductionMode = (mode: string): boolean => mode === 'production' || mode === 'prerender';
+
 // https://vitejs.dev/config/
 const config = async ({ mode }: ConfigEnv): Promise<UserConfig> => ({
   css: {
@@ -33,8 +38,8 @@ const config = async ({ mode }: ConfigEnv): Promise<UserConfig> => ({
   },
   build: {
     sourcemap: mode === 'development',
-    minify: mode === 'production' ? 'terser' : 'esbuild',
-    terserOptions: mode === 'production' ? {
+    minify: isProductionMode(mode) ? 'terser' : 'esbuild',
+    terserOptions: isProductionMode(mode) ? {
       compress: {
         drop_console: true,
         drop_debugger: true,
@@ -100,8 +105,10 @@ const config = async ({ mode }: ConfigEnv): Promise<UserConfig> => ({
       // Tree shaking optimizations
       treeshake: {
         moduleSideEffects: (id, external) => {
-          // Preserve side effects for CSS and known libraries with side effects
-          return id.endsWith('.css') || 
+          // Preserve side effects for the entry (it renders or hydrates the app
+          // and exports nothing), CSS and known libraries with side effects
+          return id.endsWith('src/main.tsx') ||
+                 id.endsWith('.css') || 
                  id.includes('polyfill') ||
                  id.includes('web-vitals') ||
                  external;
@@ -112,6 +119,16 @@ const config = async ({ mode }: ConfigEnv): Promise<UserConfig> => ({
   },
   plugins: [
     react(),
+    contentValidation(resolve(__dirname, 'src/content')),
+    // SITE_ENV (or VERCEL_ENV on previews) overrides the mode, so a production build of a staging site stays out of search results
+    siteFiles({
+      contentDir: resolve(__dirname, 'src/content'),
+      indexable: (process.env.SITE_ENV ?? process.env.VERCEL_ENV ?? (isProductionMode(mode) ? 'production' : mode)) === 'production',
+    }),
+    mode === 'prerender' && prerender({
+      contentDir: resolve(__dirname, 'src/content'),
+      entry: resolve(__dirname, 'src/entry-server.tsx'),
+    }),
     mode === 'development' && (await import('lovable-tagger')).componentTagger(),
   ],
   resolve: {